@@ -0,0 +1,130 @@
+/**
+ * LinkLocal Service Worker
+ * Caches the app shell so the app opens offline, shows push notifications,
+ * including while the app is closed, and opens the page they link to when
+ * tapped. API data is cached by the app itself (see src/lib/offlineCache.ts).
+ */
+
+const SHELL_CACHE = 'linklocal-shell-v1';
+const ASSET_CACHE = 'linklocal-assets-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+// The build's hashed JS and CSS bundles, filled in by the Vite build (see
+// vite.config.ts); empty under the dev server
+const BUILD_ASSETS = [];
+
+// Built bundles are content-hashed, so a cached copy never goes stale. Dev
+// server modules (under /src or with a query string) are left alone.
+const isStaticAsset = (url) =>
+  !url.search && !url.pathname.startsWith('/src/') &&
+  (url.pathname.startsWith('/assets/') || /\.(?:png|jpe?g|svg|ico|webp|woff2?)$/.test(url.pathname));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    const assets = await caches.open(ASSET_CACHE);
+    await assets.addAll(BUILD_ASSETS);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys.filter(key => key !== SHELL_CACHE && key !== ASSET_CACHE).map(key => caches.delete(key))
+    );
+    // Drop bundles from earlier deploys; anything else cached on the way is fetched again when next used
+    if (BUILD_ASSETS.length > 0) {
+      const current = new Set(BUILD_ASSETS);
+      const assets = await caches.open(ASSET_CACHE);
+      const requests = await assets.keys();
+      await Promise.all(
+        requests.filter(request => !current.has(new URL(request.url).pathname)).map(request => assets.delete(request))
+      );
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Pages: network first so deploys show up, falling back to the cached shell
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+// Static assets: cache first
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (isStaticAsset(url)) {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+const showPush = (payload) =>
+  self.registration.showNotification(payload.title || 'LinkLocal', {
+    body: payload.body || '',
+    icon: '/favicon.ico',
+    badge: '/favicon.ico',
+    tag: payload.tag,
+    data: { url: payload.url || '/notifications' },
+  });
+
+// Pushes from a real push service
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+  event.waitUntil(showPush(payload));
+});
+
+// Pushes from the local stand-in sender used in demo mode and testing
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'local-push') {
+    event.waitUntil(showPush(event.data.payload || {}));
+  }
+});
+
+// Focus an open window on the linked page, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data && event.notification.data.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (existing) {
+      await existing.focus();
+      return existing.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
@@ -4,11 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
-import { DemoProvider, useDemoMode } from "@/contexts/DemoContext";
+import { DemoProvider } from "@/contexts/DemoContext";
 import { SecurityProvider } from "@/components/security/SecurityProvider";
 import QuickAccess from "@/components/layout/QuickAccess";
+import SyncStatus from "@/components/layout/SyncStatus";
 import DemoButton from "@/components/demo/DemoButton";
-import { setDemoMode } from "@/services/api";
 import React from "react";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
@@ -30,7 +30,14 @@ import NotFound from "./pages/NotFound";
 // In development, it allows 'unsafe-eval' and 'unsafe-inline' for compatibility
 // In production, you should set CSP headers on your server and remove these unsafe directives
 
-const queryClient = new QueryClient();
+// offlineFirst runs queries and mutations even without a connection, so the
+// API client can serve cached data and the outbox can queue changes
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: "offlineFirst" },
+    mutations: { networkMode: "offlineFirst" },
+  },
+});
 
 // Protected route wrapper
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -63,17 +70,11 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
 };
 
 const AppRoutes = () => {
-  const { isDemoMode, demoServices, demoRequests } = useDemoMode();
-  
-  // Update API demo mode whenever context changes
-  React.useEffect(() => {
-    setDemoMode(isDemoMode, demoServices, demoRequests);
-  }, [isDemoMode, demoServices, demoRequests]);
-  
   return (
     <>
       <DemoButton />
       <QuickAccess />
+      <SyncStatus />
       <Routes>
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="/auth" element={
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { Service, WorkingHours } from '@/types/service';
+import { AvailabilityData } from '@/lib/api';
+import {
+  SLOT_LENGTH_OPTIONS,
+  WEEKDAYS,
+  dateKeyToLocalDate,
+  formatSlotLength,
+  localDateToDateKey,
+  toAvailabilityData,
+  toSastDateKey,
+  validateAvailability
+} from '@/lib/availability';
+import { useProviderAvailability, useUpdateAvailability } from '@/hooks/useAvailabilityQueries';
+import { useToast } from '@/hooks/use-toast';
+
+interface AvailabilityEditorProps {
+  providerId: string;
+  services: Service[];
+}
+
+const DEFAULT_SLOT = 'default';
+// Monday first, as South African calendars show the week
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const NEW_DAY_HOURS = { start: '08:00', end: '17:00' };
+
+/**
+ * Provider's weekly hours, days off and slot lengths
+ */
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ providerId, services }) => {
+  const { toast } = useToast();
+  const { data: availability, isLoading } = useProviderAvailability(providerId);
+  const updateAvailability = useUpdateAvailability();
+  const [draft, setDraft] = useState<AvailabilityData>(() => toAvailabilityData(null));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (availability) setDraft(toAvailabilityData(availability));
+  }, [availability]);
+
+  const hoursFor = (day: number) => draft.weekly_hours.find(hours => hours.day === day);
+
+  const setDayHours = (day: number, hours: Omit<WorkingHours, 'day'> | null) => {
+    setDraft(prev => ({
+      ...prev,
+      weekly_hours: [
+        ...prev.weekly_hours.filter(h => h.day !== day),
+        ...(hours ? [{ day, ...hours }] : []),
+      ].sort((a, b) => a.day - b.day),
+    }));
+  };
+
+  const setServiceSlot = (serviceId: string, value: string) => {
+    setDraft(prev => {
+      const serviceSlots = { ...prev.service_slot_minutes };
+      if (value === DEFAULT_SLOT) {
+        delete serviceSlots[serviceId];
+      } else {
+        serviceSlots[serviceId] = Number(value);
+      }
+      return { ...prev, service_slot_minutes: serviceSlots };
+    });
+  };
+
+  const handleSave = async () => {
+    const validationError = validateAvailability(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+
+    try {
+      await updateAvailability.mutateAsync({ providerId, availability: draft });
+      toast({
+        title: 'Availability saved',
+        description: 'Customers will only be offered your free slots.',
+      });
+    } catch (saveError) {
+      console.error('Error saving availability:', saveError);
+      toast({
+        title: 'Error saving availability',
+        description: 'Failed to save your availability. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 size={24} className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const today = dateKeyToLocalDate(toSastDateKey(new Date()));
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg">Working Hours</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {DAY_ORDER.map(day => {
+            const hours = hoursFor(day);
+            return (
+              <div key={day} className="flex items-center gap-2">
+                <Switch
+                  checked={!!hours}
+                  onCheckedChange={(checked) => setDayHours(day, checked ? NEW_DAY_HOURS : null)}
+                  aria-label={`Work on ${WEEKDAYS[day]}`}
+                />
+                <span className="w-12 text-sm font-medium">{WEEKDAYS[day].slice(0, 3)}</span>
+                {hours ? (
+                  <>
+                    <Input
+                      type="time"
+                      value={hours.start}
+                      onChange={(e) => setDayHours(day, { start: e.target.value, end: hours.end })}
+                      className="h-8"
+                      aria-label={`${WEEKDAYS[day]} start`}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={hours.end}
+                      onChange={(e) => setDayHours(day, { start: hours.start, end: e.target.value })}
+                      className="h-8"
+                      aria-label={`${WEEKDAYS[day]} end`}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Closed</span>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg">Slot Lengths</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Default</Label>
+            <Select
+              value={String(draft.slot_minutes)}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, slot_minutes: Number(value) }))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_LENGTH_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{formatSlotLength(minutes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {services.map(service => (
+            <div key={service.id} className="flex items-center justify-between gap-2">
+              <Label className="truncate font-normal">{service.title}</Label>
+              <Select
+                value={String(draft.service_slot_minutes[service.id] ?? DEFAULT_SLOT)}
+                onValueChange={(value) => setServiceSlot(service.id, value)}
+              >
+                <SelectTrigger className="w-32 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SLOT}>Default</SelectItem>
+                  {SLOT_LENGTH_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatSlotLength(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg">Days Off</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm text-muted-foreground">Tap dates to block them. Booked jobs are kept.</p>
+          <Calendar
+            mode="multiple"
+            selected={draft.blocked_dates.map(dateKeyToLocalDate)}
+            onSelect={(dates) => setDraft(prev => ({
+              ...prev,
+              blocked_dates: (dates ?? []).map(localDateToDateKey).sort(),
+            }))}
+            disabled={{ before: today }}
+            fromDate={today}
+            className="rounded-md border mx-auto w-fit"
+          />
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button className="w-full" onClick={handleSave} disabled={updateAvailability.isPending}>
+        {updateAvailability.isPending ? (
+          <Loader2 size={16} className="mr-2 animate-spin" />
+        ) : (
+          <Save size={16} className="mr-2" />
+        )}
+        Save Availability
+      </Button>
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { CalendarX, Loader2 } from 'lucide-react';
+import { TimeSlot } from '@/types/service';
+import { useAvailableSlots } from '@/hooks/useAvailabilityQueries';
+import {
+  BOOKING_WINDOW_DAYS,
+  addDays,
+  dateKeyToLocalDate,
+  formatSlotTime,
+  localDateToDateKey,
+  toSastDateKey
+} from '@/lib/availability';
+import { cn } from '@/lib/utils';
+
+interface SlotPickerProps {
+  providerId: string;
+  serviceId: string;
+  value: TimeSlot | null;
+  onChange: (slot: TimeSlot | null) => void;
+}
+
+/**
+ * Calendar of the provider's free days, then the free times on the chosen day
+ */
+const SlotPicker: React.FC<SlotPickerProps> = ({ providerId, serviceId, value, onChange }) => {
+  const today = toSastDateKey(new Date());
+  const { data: days = [], isLoading, isError } = useAvailableSlots(providerId, {
+    service_id: serviceId,
+    from: today,
+    days: BOOKING_WINDOW_DAYS,
+  });
+  const [selectedDate, setSelectedDate] = useState<string | null>(
+    value ? toSastDateKey(new Date(value.start)) : null
+  );
+
+  const slotsByDate = useMemo(() => new Map(days.map(day => [day.date, day.slots])), [days]);
+  const hasFreeSlots = days.some(day => day.slots.length > 0);
+  const slots = selectedDate ? slotsByDate.get(selectedDate) ?? [] : [];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+        <Loader2 size={16} className="animate-spin" />
+        Checking availability...
+      </div>
+    );
+  }
+
+  if (isError || !hasFreeSlots) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <CalendarX size={32} className="mx-auto mb-2 opacity-50" />
+        <p className="text-sm">
+          {isError ? 'Could not load availability.' : `No free slots in the next ${BOOKING_WINDOW_DAYS / 7} weeks.`}
+        </p>
+        <p className="text-xs">Send a message to arrange a time with the provider.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={selectedDate ? dateKeyToLocalDate(selectedDate) : undefined}
+        onSelect={(date) => {
+          setSelectedDate(date ? localDateToDateKey(date) : null);
+          onChange(null);
+        }}
+        fromDate={dateKeyToLocalDate(today)}
+        toDate={dateKeyToLocalDate(addDays(today, BOOKING_WINDOW_DAYS))}
+        disabled={(date) => !slotsByDate.get(localDateToDateKey(date))?.length}
+        className="rounded-md border mx-auto w-fit"
+      />
+
+      {selectedDate && (
+        <div className="grid grid-cols-3 gap-2">
+          {slots.map(slot => {
+            const isSelected = value?.start === slot.start;
+            return (
+              <Button
+                key={slot.start}
+                type="button"
+                size="sm"
+                variant={isSelected ? 'default' : 'outline'}
+                className={cn(!isSelected && 'font-normal')}
+                onClick={() => onChange(isSelected ? null : slot)}
+              >
+                {formatSlotTime(slot.start)}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground text-center">Times are in South African time (SAST)</p>
+    </div>
+  );
+};
+
+export default SlotPicker;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Invoice } from '@/types/service';
+import { AGING_BUCKETS, getAgedReceivables, today } from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+
+interface AgedReceivablesCardProps {
+  invoices: Invoice[];
+}
+
+// Later buckets get warmer colours, as the money is less likely to come in
+const BUCKET_COLORS = ['bg-green-500', 'bg-yellow-400', 'bg-orange-400', 'bg-red-400', 'bg-red-600'];
+
+/**
+ * What clients owe on issued invoices, by how far past the due date it is
+ */
+const AgedReceivablesCard: React.FC<AgedReceivablesCardProps> = ({ invoices }) => {
+  const { buckets, total } = getAgedReceivables(invoices, today());
+
+  return (
+    <Card className="border-0 bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          Owed to you
+          <span className="text-base font-bold">{formatRand(total)}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">Nothing outstanding on sent invoices.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+              {AGING_BUCKETS.map(({ key }, index) => buckets[key].amount > 0 && (
+                <div
+                  key={key}
+                  className={BUCKET_COLORS[index]}
+                  style={{ width: `${(buckets[key].amount / total) * 100}%` }}
+                />
+              ))}
+            </div>
+            {AGING_BUCKETS.map(({ key, label }, index) => (
+              <div key={key} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${BUCKET_COLORS[index]}`} />
+                  <span>{label}</span>
+                  {buckets[key].count > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      {buckets[key].count} invoice{buckets[key].count === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </div>
+                <span className={buckets[key].amount > 0 ? 'font-medium' : 'text-muted-foreground'}>
+                  {formatRand(buckets[key].amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AgedReceivablesCard;
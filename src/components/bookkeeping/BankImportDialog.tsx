@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Upload } from 'lucide-react';
+import BankMappingWizard from './BankMappingWizard';
+import CategoryRulesEditor from './CategoryRulesEditor';
+import {
+  BANK_MAPPINGS,
+  BankImportSettings,
+  BankMapping,
+  CategoryRule,
+  DuplicateCheck,
+  ParsedStatement,
+  StatementLine,
+  categoriseLine,
+  detectBankMapping,
+  findDuplicate,
+  findInvoiceMatches,
+  getBankImportSettings,
+  isOfxStatement,
+  parseCsvStatement,
+  parseOfxStatement,
+  readStatementRows,
+  saveBankImportSettings,
+  suggestInvoiceMatches
+} from '@/lib/bankImport';
+import { formatRand } from '@/lib/invoicePdf';
+import { getInvoiceBalance } from '@/lib/invoiceLifecycle';
+import { useImportStatement } from '@/hooks/useBookkeepingQueries';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Invoice, Transaction } from '@/types/service';
+
+interface BankImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What is already in the books, to spot lines imported before */
+  transactions: Transaction[];
+  invoices: Invoice[];
+}
+
+type Step = 'upload' | 'mapping' | 'reconcile' | 'review';
+
+const AUTO_DETECT = 'auto';
+const CUSTOM_LAYOUT = 'custom';
+const NOT_AN_INVOICE = 'none';
+
+const STEP_DESCRIPTIONS: Record<Step, string> = {
+  upload: 'CSV or OFX statements from FNB, Standard Bank, Absa, Nedbank, Capitec or any other bank.',
+  mapping: "This statement's layout wasn't recognised. Show us which column is which and it will be remembered.",
+  reconcile: 'Money received that looks like invoice payments. Matched invoices are marked paid.',
+  review: 'Choose the lines to add to your books and check their categories.',
+};
+
+const formatSigned = (amount: number): string => `${amount > 0 ? '+' : '-'}${formatRand(Math.abs(amount))}`;
+
+/**
+ * Imports a bank statement: reads the file, matches money received to
+ * invoices, then adds the chosen lines to the books with their categories
+ */
+const BankImportDialog: React.FC<BankImportDialogProps> = ({ open, onOpenChange, transactions, invoices }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const importStatement = useImportStatement();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [settings, setSettings] = useState<BankImportSettings>({ rules: [], mappings: [] });
+  const [layout, setLayout] = useState(AUTO_DETECT);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [duplicates, setDuplicates] = useState<Record<string, DuplicateCheck>>({});
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [categories, setCategories] = useState<Record<string, string>>({});
+  const [editedCategories, setEditedCategories] = useState<string[]>([]);
+  const [matches, setMatches] = useState<Record<string, string>>({});
+  const [showRules, setShowRules] = useState(false);
+
+  useEffect(() => {
+    if (open && user) {
+      setSettings(getBankImportSettings(user.id));
+      setStep('upload');
+      setLayout(AUTO_DETECT);
+      setRows([]);
+      setLines([]);
+      setShowRules(false);
+    }
+  }, [open, user]);
+
+  const mappings = [...settings.mappings, ...BANK_MAPPINGS];
+  const openInvoices = invoices.filter(invoice => invoice.status !== 'paid' && getInvoiceBalance(invoice) > 0);
+  const candidates = (line: StatementLine) => (duplicates[line.id] ? [] : findInvoiceMatches(line, openInvoices));
+  const reconcilable = lines.filter(line => candidates(line).length > 0);
+
+  const updateSettings = (next: BankImportSettings) => {
+    setSettings(next);
+    if (user) saveBankImportSettings(user.id, next);
+  };
+
+  const startReview = ({ lines: read, skipped: skippedRows }: ParsedStatement) => {
+    if (read.length === 0) {
+      toast({
+        title: 'No transactions found',
+        description: 'This statement has no lines that could be read.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const found: Record<string, DuplicateCheck> = {};
+    read.forEach(line => {
+      const duplicate = findDuplicate(line, transactions);
+      if (duplicate) found[line.id] = duplicate;
+    });
+
+    setLines(read);
+    setSkipped(skippedRows);
+    setDuplicates(found);
+    setIncluded(Object.fromEntries(read.map(line => [line.id, !found[line.id]])));
+    setCategories(Object.fromEntries(read.map(line => [line.id, categoriseLine(line, settings.rules)])));
+    setEditedCategories([]);
+
+    setMatches(suggestInvoiceMatches(read.filter(line => !found[line.id]), openInvoices));
+    setStep(read.some(line => !found[line.id] && findInvoiceMatches(line, openInvoices).length > 0) ? 'reconcile' : 'review');
+  };
+
+  const readWithMapping = (statementRows: string[][], mapping: BankMapping) => {
+    try {
+      startReview(parseCsvStatement(statementRows, mapping));
+    } catch (error) {
+      console.error('Error reading statement:', error);
+      toast({
+        title: 'Could not read statement',
+        description: error instanceof Error ? error.message : 'Please check the file and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      if (isOfxStatement(text)) {
+        startReview(parseOfxStatement(text));
+        return;
+      }
+
+      const statementRows = readStatementRows(text);
+      setRows(statementRows);
+      const mapping = layout === AUTO_DETECT
+        ? detectBankMapping(statementRows, mappings)
+        : mappings.find(m => m.id === layout) ?? null;
+      if (mapping) {
+        readWithMapping(statementRows, mapping);
+      } else {
+        setStep('mapping');
+      }
+    } catch (error) {
+      console.error('Error reading statement:', error);
+      toast({
+        title: 'Could not read statement',
+        description: 'Please check the file is a CSV or OFX statement.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMappingSaved = (mapping: BankMapping) => {
+    updateSettings({ ...settings, mappings: [mapping, ...settings.mappings] });
+    readWithMapping(rows, mapping);
+  };
+
+  const handleRulesChange = (rules: CategoryRule[]) => {
+    updateSettings({ ...settings, rules });
+    // Lines the user hasn't categorised themselves follow the new rules
+    setCategories(prev => Object.fromEntries(lines.map(line => [
+      line.id,
+      editedCategories.includes(line.id) ? prev[line.id] : categoriseLine(line, rules),
+    ])));
+  };
+
+  const setCategory = (lineId: string, category: string) => {
+    setCategories(prev => ({ ...prev, [lineId]: category }));
+    setEditedCategories(prev => (prev.includes(lineId) ? prev : [...prev, lineId]));
+  };
+
+  const setMatch = (lineId: string, invoiceId: string) => {
+    setMatches(prev => {
+      const next = { ...prev };
+      if (invoiceId === NOT_AN_INVOICE) {
+        delete next[lineId];
+      } else {
+        next[lineId] = invoiceId;
+      }
+      return next;
+    });
+  };
+
+  const chosen = lines.filter(line => included[line.id]);
+
+  const handleImport = async () => {
+    try {
+      const result = await importStatement.mutateAsync(chosen.map(line => ({
+        line,
+        category: categories[line.id] ?? '',
+        invoiceId: matches[line.id],
+      })));
+      const added = result.imported + result.reconciled;
+      toast({
+        title: result.failed > 0 ? 'Statement partly imported' : 'Statement imported',
+        description: [
+          `${added} line${added === 1 ? '' : 's'} added to your books`,
+          result.reconciled > 0 && `${result.reconciled} invoice payment${result.reconciled === 1 ? '' : 's'} recorded`,
+          result.failed > 0 && `${result.failed} couldn't be added`,
+        ].filter(Boolean).join(', ') + '.',
+        variant: result.failed > 0 ? 'destructive' : 'default',
+      });
+      if (result.failed === 0) onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import the statement. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const invoiceLabel = (invoice: Invoice) =>
+    `${invoice.number} · ${invoice.client_name} · ${formatRand(getInvoiceBalance(invoice))}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import bank statement</DialogTitle>
+          <DialogDescription>{STEP_DESCRIPTIONS[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement-layout">Bank</Label>
+              <Select value={layout} onValueChange={setLayout}>
+                <SelectTrigger id="statement-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_DETECT}>Detect from the file</SelectItem>
+                  {mappings.map(mapping => (
+                    <SelectItem key={mapping.id} value={mapping.id}>{mapping.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_LAYOUT}>Another layout…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => fileInput.current?.click()} className="w-full bg-gradient-primary">
+              <Upload size={16} className="mr-2" />
+              Choose statement
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <BankMappingWizard rows={rows} onSave={handleMappingSaved} onCancel={() => setStep('upload')} />
+        )}
+
+        {step === 'reconcile' && (
+          <div className="space-y-3">
+            {reconcilable.map(line => (
+              <div key={line.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="truncate">{line.date} · {line.description}</span>
+                  <span className="text-green-600 font-medium">{formatSigned(line.amount)}</span>
+                </div>
+                <Select value={matches[line.id] ?? NOT_AN_INVOICE} onValueChange={(value) => setMatch(line.id, value)}>
+                  <SelectTrigger aria-label={`Invoice paid by ${line.description}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_AN_INVOICE}>Not an invoice payment</SelectItem>
+                    {candidates(line).map(invoice => (
+                      <SelectItem
+                        key={invoice.id}
+                        value={invoice.id}
+                        disabled={Object.entries(matches).some(([lineId, id]) => id === invoice.id && lineId !== line.id)}
+                      >
+                        {invoiceLabel(invoice)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {chosen.length} of {lines.length} selected
+                {skipped > 0 && ` · ${skipped} row${skipped === 1 ? '' : 's'} skipped`}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => setShowRules(prev => !prev)}>
+                {showRules ? 'Hide rules' : 'Category rules'}
+              </Button>
+            </div>
+
+            {showRules && <CategoryRulesEditor rules={settings.rules} onChange={handleRulesChange} />}
+
+            <div className="space-y-2">
+              {lines.map(line => {
+                const duplicate = duplicates[line.id];
+                const invoice = matches[line.id] && invoices.find(i => i.id === matches[line.id]);
+                return (
+                  <div key={line.id} className="rounded-md border p-3 space-y-2">
+                    <label className="flex items-start gap-2 text-sm">
+                      <Checkbox
+                        checked={!!included[line.id]}
+                        disabled={duplicate?.exact}
+                        onCheckedChange={(checked) => setIncluded(prev => ({ ...prev, [line.id]: checked === true }))}
+                        className="mt-0.5"
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate">{line.description}</span>
+                        <span className="text-xs text-muted-foreground">{line.date}</span>
+                      </span>
+                      <span className={line.amount > 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                        {formatSigned(line.amount)}
+                      </span>
+                    </label>
+                    {duplicate && (
+                      <Badge variant="outline" className="text-xs">
+                        {duplicate.exact ? 'Already imported' : `Possible duplicate of "${duplicate.transaction.description}"`}
+                      </Badge>
+                    )}
+                    {invoice ? (
+                      <Badge variant="secondary" className="text-xs">Pays {invoice.number}</Badge>
+                    ) : (
+                      !duplicate?.exact && (
+                        <Input
+                          value={categories[line.id] ?? ''}
+                          onChange={(e) => setCategory(line.id, e.target.value)}
+                          aria-label={`Category for ${line.description}`}
+                          className="h-8 text-sm"
+                        />
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {(step === 'reconcile' || step === 'review') && (
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'review' && reconcilable.length > 0 ? 'reconcile' : 'upload')}
+            >
+              Back
+            </Button>
+            {step === 'reconcile' ? (
+              <Button onClick={() => setStep('review')} className="bg-gradient-primary">
+                Next
+              </Button>
+            ) : (
+              <Button
+                onClick={handleImport}
+                disabled={chosen.length === 0 || importStatement.isPending}
+                className="bg-gradient-primary"
+              >
+                {importStatement.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+                Import {chosen.length}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankImportDialog;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BankMapping, StatementLine, guessHeaderRow, parseCsvStatement, validateBankMapping } from '@/lib/bankImport';
+import { formatRand } from '@/lib/invoicePdf';
+
+interface BankMappingWizardProps {
+  /** The statement's rows, as read from the CSV */
+  rows: string[][];
+  onSave: (mapping: BankMapping) => void;
+  onCancel: () => void;
+}
+
+const NONE = 'none';
+
+/**
+ * Point out which columns hold what in a statement none of the bank layouts
+ * recognise, with a preview of the first lines as they will be read
+ */
+const BankMappingWizard: React.FC<BankMappingWizardProps> = ({ rows, onSave, onCancel }) => {
+  const [headerIndex, setHeaderIndex] = useState(() => guessHeaderRow(rows));
+  const [splitAmounts, setSplitAmounts] = useState(false);
+  const [mapping, setMapping] = useState<BankMapping>({
+    id: '',
+    name: '',
+    dateColumn: '',
+    descriptionColumns: [],
+  });
+  const [error, setError] = useState('');
+
+  const headings = (rows[headerIndex] ?? []).filter(Boolean);
+
+  const draft: BankMapping = splitAmounts
+    ? { ...mapping, amountColumn: undefined }
+    : { ...mapping, creditColumn: undefined, debitColumn: undefined };
+
+  const readPreview = (): StatementLine[] => {
+    if (validateBankMapping({ ...draft, name: draft.name || 'Preview' })) return [];
+    try {
+      return parseCsvStatement(rows, draft).lines.slice(0, 3);
+    } catch (error) {
+      return [];
+    }
+  };
+  const preview = readPreview();
+
+  const chooseHeader = (index: number) => {
+    setHeaderIndex(index);
+    setMapping(prev => ({ id: prev.id, name: prev.name, dateColumn: '', descriptionColumns: [] }));
+  };
+
+  const toggleDescription = (heading: string, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      descriptionColumns: checked
+        ? headings.filter(h => h === heading || prev.descriptionColumns.includes(h))
+        : prev.descriptionColumns.filter(h => h !== heading),
+    }));
+  };
+
+  const handleSave = () => {
+    const problem = validateBankMapping(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (preview.length === 0) {
+      setError('No transactions could be read with these columns');
+      return;
+    }
+    onSave({ ...draft, id: `custom-${crypto.randomUUID()}`, name: draft.name.trim() });
+  };
+
+  const columnSelect = (id: string, value: string | undefined, onChange: (value: string | undefined) => void, optional = false) => (
+    <Select value={value || (optional ? NONE : undefined)} onValueChange={(v) => onChange(v === NONE ? undefined : v)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NONE}>None</SelectItem>}
+        {headings.map(heading => (
+          <SelectItem key={heading} value={heading}>{heading}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="mapping-header">Heading row</Label>
+        <Select value={String(headerIndex)} onValueChange={(v) => chooseHeader(Number(v))}>
+          <SelectTrigger id="mapping-header">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {rows.slice(0, 20).map((row, index) => (
+              <SelectItem key={index} value={String(index)}>
+                Row {index + 1}: {row.filter(Boolean).join(', ').slice(0, 50)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="mapping-date">Date</Label>
+        {columnSelect('mapping-date', mapping.dateColumn, (v) => setMapping(prev => ({ ...prev, dateColumn: v ?? '' })))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Description</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {headings.map(heading => (
+            <label key={heading} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={mapping.descriptionColumns.includes(heading)}
+                onCheckedChange={(checked) => toggleDescription(heading, checked === true)}
+              />
+              <span className="truncate">{heading}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={splitAmounts} onCheckedChange={(checked) => setSplitAmounts(checked === true)} />
+          Money in and money out are in separate columns
+        </label>
+        {splitAmounts ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="mapping-credit" className="text-xs">Money in</Label>
+              {columnSelect('mapping-credit', mapping.creditColumn, (v) => setMapping(prev => ({ ...prev, creditColumn: v })))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mapping-debit" className="text-xs">Money out</Label>
+              {columnSelect('mapping-debit', mapping.debitColumn, (v) => setMapping(prev => ({ ...prev, debitColumn: v })))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="mapping-amount" className="text-xs">Amount (negative for money out)</Label>
+            {columnSelect('mapping-amount', mapping.amountColumn, (v) => setMapping(prev => ({ ...prev, amountColumn: v })))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="mapping-reference">Reference</Label>
+          {columnSelect('mapping-reference', mapping.referenceColumn, (v) => setMapping(prev => ({ ...prev, referenceColumn: v })), true)}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="mapping-name">Save as</Label>
+          <Input
+            id="mapping-name"
+            value={mapping.name}
+            onChange={(e) => setMapping(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Business account"
+          />
+        </div>
+      </div>
+
+      {preview.length > 0 && (
+        <div className="rounded-md border p-3 space-y-1 text-sm">
+          {preview.map(line => (
+            <div key={line.id} className="flex justify-between gap-2">
+              <span className="truncate">{line.date} · {line.description}</span>
+              <span className={line.amount > 0 ? 'text-green-600' : 'text-red-600'}>
+                {line.amount > 0 ? '+' : '-'}{formatRand(Math.abs(line.amount))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+        <Button onClick={handleSave} className="bg-gradient-primary">
+          Save layout
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BankMappingWizard;
@@ -0,0 +1,322 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImagePlus, Loader2, Trash2 } from 'lucide-react';
+import { BusinessProfile, VatCategory } from '@/types/service';
+import { BusinessProfileData } from '@/lib/api';
+import { DEFAULT_INVOICE_PREFIX, formatInvoiceNumber, getReminderDays } from '@/lib/bookkeeping';
+import { REMINDER_DAY_OPTIONS, describeReminderDay } from '@/lib/invoiceLifecycle';
+import { prepareInvoiceLogo } from '@/lib/invoicePdf';
+import { VAT_CATEGORY_LABELS, getVatCategory } from '@/lib/vatReports';
+import { FULL_MONTH_NAMES, getFinancialYearStart } from '@/lib/financialReports';
+import { useSaveBusinessProfile } from '@/hooks/useBookkeepingQueries';
+import { useToast } from '@/hooks/use-toast';
+
+interface BusinessProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: BusinessProfile | null;
+}
+
+const toFormData = (profile: BusinessProfile | null): BusinessProfileData => ({
+  business_name: profile?.business_name ?? '',
+  address: profile?.address ?? '',
+  email: profile?.email ?? '',
+  phone: profile?.phone ?? '',
+  vat_number: profile?.vat_number ?? '',
+  vat_category: getVatCategory(profile),
+  registration_number: profile?.registration_number ?? '',
+  bank_details: profile?.bank_details ?? '',
+  logo_data_url: profile?.logo_data_url,
+  invoice_prefix: profile?.invoice_prefix ?? DEFAULT_INVOICE_PREFIX,
+  reminder_days: getReminderDays(profile),
+  financial_year_start: getFinancialYearStart(profile),
+});
+
+/**
+ * Supplier details, logo and numbering printed on the provider's invoices,
+ * when unpaid clients are reminded, and the VAT periods and financial year
+ * their reports follow
+ */
+const BusinessProfileDialog: React.FC<BusinessProfileDialogProps> = ({ open, onOpenChange, profile }) => {
+  const { toast } = useToast();
+  const saveProfile = useSaveBusinessProfile();
+  const [form, setForm] = useState<BusinessProfileData>(() => toFormData(profile));
+  const [error, setError] = useState('');
+  const logoInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setForm(toFormData(profile));
+      setError('');
+    }
+  }, [open, profile]);
+
+  const update = (field: keyof BusinessProfileData, value: string | undefined) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const toggleReminder = (days: number, checked: boolean) =>
+    setForm(prev => ({
+      ...prev,
+      reminder_days: checked ? [...prev.reminder_days, days] : prev.reminder_days.filter(d => d !== days),
+    }));
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update('logo_data_url', await prepareInvoiceLogo(file));
+    } catch (error) {
+      console.error('Error reading logo:', error);
+      setError(error instanceof Error ? error.message : 'Could not read this image');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveProfile.mutateAsync(form);
+      onOpenChange(false);
+      toast({
+        title: 'Business details saved',
+        description: form.vat_number?.trim()
+          ? 'Your invoices will be issued as tax invoices.'
+          : 'Your invoices will show these details.',
+      });
+    } catch (error) {
+      console.error('Error saving business details:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save business details. Please try again.');
+    }
+  };
+
+  const currentNext = (profile?.last_invoice_number ?? 0) + 1;
+  const nextNumber = formatInvoiceNumber(form.invoice_prefix, Math.max(currentNext, form.next_invoice_number ?? 0));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Business details</DialogTitle>
+          <DialogDescription>Printed on your invoices as the supplier.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-20 h-14 rounded border bg-muted/30 flex items-center justify-center overflow-hidden">
+              {form.logo_data_url
+                ? <img src={form.logo_data_url} alt="Business logo" className="max-w-full max-h-full object-contain" />
+                : <ImagePlus size={20} className="text-muted-foreground" />}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => logoInput.current?.click()}>
+                {form.logo_data_url ? 'Change logo' : 'Add logo'}
+              </Button>
+              {form.logo_data_url && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={() => update('logo_data_url', undefined)}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              )}
+            </div>
+            <input
+              ref={logoInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={handleLogoChange}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="business-name">Business name</Label>
+            <Input
+              id="business-name"
+              value={form.business_name}
+              onChange={(e) => update('business_name', e.target.value)}
+              placeholder="e.g. Sipho's Plumbing (Pty) Ltd"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="business-address">Address</Label>
+            <Textarea
+              id="business-address"
+              value={form.address}
+              onChange={(e) => update('address', e.target.value)}
+              rows={3}
+              placeholder="Street, suburb, city, postal code"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="business-email">Email</Label>
+              <Input
+                id="business-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => update('email', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-phone">Phone</Label>
+              <Input
+                id="business-phone"
+                type="tel"
+                value={form.phone}
+                onChange={(e) => update('phone', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="business-vat">VAT number</Label>
+              <Input
+                id="business-vat"
+                inputMode="numeric"
+                value={form.vat_number}
+                onChange={(e) => update('vat_number', e.target.value)}
+                placeholder="4xxxxxxxxx"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-registration">Registration no.</Label>
+              <Input
+                id="business-registration"
+                value={form.registration_number}
+                onChange={(e) => update('registration_number', e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Only fill in a VAT number if you are registered with SARS; invoices then become tax invoices with 15% VAT.
+          </p>
+
+          {form.vat_number?.trim() && (
+            <div className="space-y-2">
+              <Label htmlFor="business-vat-category">VAT periods</Label>
+              <Select
+                value={form.vat_category}
+                onValueChange={(value) => setForm(prev => ({ ...prev, vat_category: value as VatCategory }))}
+              >
+                <SelectTrigger id="business-vat-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(VAT_CATEGORY_LABELS).map(([category, label]) => (
+                    <SelectItem key={category} value={category}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="business-bank">Payment details</Label>
+            <Textarea
+              id="business-bank"
+              value={form.bank_details}
+              onChange={(e) => update('bank_details', e.target.value)}
+              rows={2}
+              placeholder="Bank, account number, branch code"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="business-prefix">Invoice number prefix</Label>
+              <Input
+                id="business-prefix"
+                value={form.invoice_prefix}
+                onChange={(e) => update('invoice_prefix', e.target.value)}
+                maxLength={10}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-next-number">Next number</Label>
+              <Input
+                id="business-next-number"
+                type="number"
+                min={currentNext}
+                step={1}
+                value={form.next_invoice_number ?? currentNext}
+                onChange={(e) => setForm(prev => ({
+                  ...prev,
+                  next_invoice_number: e.target.value ? Number(e.target.value) : undefined,
+                }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Your next invoice will be {nextNumber}.
+            {(form.next_invoice_number ?? currentNext) < currentNext && ' Numbers are never reused, so the sequence can only move forward.'}
+          </p>
+
+          <div className="space-y-2">
+            <Label>Payment reminders</Label>
+            <p className="text-xs text-muted-foreground">
+              Unpaid clients with an email address are reminded relative to the due date.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {REMINDER_DAY_OPTIONS.map(days => (
+                <label key={days} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.reminder_days.includes(days)}
+                    onCheckedChange={(checked) => toggleReminder(days, checked === true)}
+                  />
+                  {describeReminderDay(days)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="business-financial-year">Financial year starts</Label>
+            <Select
+              value={String(form.financial_year_start)}
+              onValueChange={(value) => setForm(prev => ({ ...prev, financial_year_start: Number(value) }))}
+            >
+              <SelectTrigger id="business-financial-year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FULL_MONTH_NAMES.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used for your reports. Sole proprietors' tax years run March to February.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveProfile.isPending} className="bg-gradient-primary">
+            {saveProfile.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BusinessProfileDialog;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+import { CategoryRule, DEFAULT_CATEGORY_RULES, validateCategoryRule } from '@/lib/bankImport';
+
+interface CategoryRulesEditorProps {
+  rules: CategoryRule[];
+  onChange: (rules: CategoryRule[]) => void;
+}
+
+/**
+ * The "contains … → category" rules statement lines are sorted by, first match wins
+ */
+const CategoryRulesEditor: React.FC<CategoryRulesEditorProps> = ({ rules, onChange }) => {
+  const [contains, setContains] = useState('');
+  const [category, setCategory] = useState('');
+  const [error, setError] = useState('');
+
+  const handleAdd = () => {
+    const rule = { contains: contains.trim(), category: category.trim() };
+    const problem = validateCategoryRule(rule);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    // New rules go first so they can override the broader defaults
+    onChange([{ ...rule, id: `rule-${crypto.randomUUID()}` }, ...rules]);
+    setContains('');
+    setCategory('');
+    setError('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+        <Input
+          value={contains}
+          onChange={(e) => setContains(e.target.value)}
+          placeholder="Contains, e.g. CASHBUILD"
+          aria-label="Description contains"
+        />
+        <Input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="Category"
+          aria-label="Category"
+        />
+        <Button type="button" size="icon" variant="outline" onClick={handleAdd} aria-label="Add rule">
+          <Plus size={16} />
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between gap-2 text-sm rounded border px-2 py-1">
+            <span className="truncate">
+              <span className="font-mono text-xs">{rule.contains}</span>
+              <span className="text-muted-foreground"> → </span>
+              {rule.category}
+            </span>
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="text-muted-foreground hover:text-destructive"
+              aria-label={`Remove rule for ${rule.contains}`}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-xs text-muted-foreground">No rules, so every line starts uncategorised.</p>}
+      </div>
+
+      <Button type="button" size="sm" variant="ghost" onClick={() => onChange(DEFAULT_CATEGORY_RULES)}>
+        Restore default rules
+      </Button>
+    </div>
+  );
+};
+
+export default CategoryRulesEditor;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { BusinessProfile, Invoice, Transaction } from '@/types/service';
+import {
+  CategoryAmounts,
+  FULL_MONTH_NAMES,
+  REPORT_PERIOD_LABELS,
+  ReportPeriod,
+  getCashFlow,
+  getFinancialYearStart,
+  getPercentChange,
+  getProfitAndLoss,
+  getReportBuckets,
+  getYearComparison,
+  listFinancialYears
+} from '@/lib/financialReports';
+import { today } from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+
+interface FinancialReportsProps {
+  transactions: Transaction[];
+  invoices: Invoice[];
+  profile: BusinessProfile | null;
+}
+
+const profitConfig = {
+  income: { label: 'Income', color: 'hsl(142 71% 45%)' },
+  expenses: { label: 'Expenses', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const cashFlowConfig = {
+  cashIn: { label: 'Cash in', color: 'hsl(142 71% 45%)' },
+  owedToYou: { label: 'Owed to you', color: 'hsl(142 71% 45% / 0.4)' },
+  cashOut: { label: 'Cash out', color: 'hsl(var(--destructive))' },
+  owedByYou: { label: 'Owed by you', color: 'hsl(var(--destructive) / 0.4)' },
+} satisfies ChartConfig;
+
+const comparisonConfig = {
+  profit: { label: 'This year', color: 'hsl(var(--primary))' },
+  previousProfit: { label: 'Last year', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+/** e.g. R12k, to keep axis labels short */
+const formatAxisRand = (value: number): string =>
+  Math.abs(value) >= 1000 ? `R${Math.round(value / 1000)}k` : `R${value}`;
+
+/**
+ * Tooltip rows as rands; a formatter replaces the whole row, so the label is drawn here too
+ */
+const randTooltip = (config: ChartConfig) => (value: unknown, name: unknown) => (
+  <div className="flex flex-1 justify-between gap-4">
+    <span className="text-muted-foreground">{config[String(name)]?.label ?? String(name)}</span>
+    <span className="font-mono font-medium tabular-nums text-foreground">{formatRand(Number(value))}</span>
+  </div>
+);
+
+const CategoryTable: React.FC<{ title: string; lines: CategoryAmounts[]; total: number }> = ({ title, lines, total }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm font-medium">
+      <span>{title}</span>
+      <span>{formatRand(total)}</span>
+    </div>
+    {lines.length === 0 && <p className="text-xs text-muted-foreground">Nothing booked.</p>}
+    {lines.map(line => (
+      <div key={line.category} className="flex justify-between text-sm text-muted-foreground">
+        <span className="truncate pr-2">{line.category}</span>
+        <span>{formatRand(line.total)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const ChangeBadge: React.FC<{ current: number; previous: number }> = ({ current, previous }) => {
+  const change = getPercentChange(current, previous);
+  if (change === null) return <span className="text-xs text-muted-foreground">–</span>;
+  return (
+    <span className={`text-xs ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change >= 0 ? '+' : ''}{change}%
+    </span>
+  );
+};
+
+/**
+ * Profit and loss, cash flow and this year against last, for a chosen
+ * financial year
+ */
+const FinancialReports: React.FC<FinancialReportsProps> = ({ transactions, invoices, profile }) => {
+  const on = today();
+  const startMonth = getFinancialYearStart(profile);
+  const years = listFinancialYears(on, startMonth);
+  const [yearStart, setYearStart] = useState(years[0].start);
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const year = years.find(y => y.start === yearStart) ?? years[0];
+
+  const buckets = getReportBuckets(year, period, startMonth);
+  const profitAndLoss = getProfitAndLoss(transactions, buckets);
+  const cashFlow = getCashFlow(transactions, invoices, buckets, on);
+  const comparison = getYearComparison(transactions, year, period === 'quarter' ? 'quarter' : 'month', startMonth);
+  const cashTotals = {
+    net: cashFlow.reduce((sum, row) => sum + row.net, 0),
+    expectedNet: cashFlow.reduce((sum, row) => sum + row.expectedNet, 0),
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={year.start} onValueChange={setYearStart}>
+          <SelectTrigger aria-label="Financial year">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {years.map(y => (
+              <SelectItem key={y.start} value={y.start}>Year {y.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+          <SelectTrigger aria-label="Report period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(REPORT_PERIOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground -mt-2">
+        Financial year from {FULL_MONTH_NAMES[startMonth - 1]}, set in your business details.
+      </p>
+
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center justify-between">
+            Profit &amp; loss
+            <span className={`text-base font-bold ${profitAndLoss.totals.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatRand(profitAndLoss.totals.profit)}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={profitConfig} className="w-full">
+            <BarChart data={buckets.map((bucket, i) => ({
+              label: bucket.label,
+              income: profitAndLoss.totalIncome[i],
+              expenses: profitAndLoss.totalExpenses[i],
+            }))}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={44} tickFormatter={formatAxisRand} />
+              <ChartTooltip content={<ChartTooltipContent formatter={randTooltip(profitConfig)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="income" fill="var(--color-income)" radius={2} />
+              <Bar dataKey="expenses" fill="var(--color-expenses)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+          <CategoryTable title="Income" lines={profitAndLoss.income} total={profitAndLoss.totals.income} />
+          <CategoryTable title="Expenses" lines={profitAndLoss.expenses} total={profitAndLoss.totals.expenses} />
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center justify-between">
+            Cash flow
+            <span className="text-base font-bold">{formatRand(cashTotals.net)}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <ChartContainer config={cashFlowConfig} className="w-full">
+            <BarChart data={cashFlow}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={44} tickFormatter={formatAxisRand} />
+              <ChartTooltip content={<ChartTooltipContent formatter={randTooltip(cashFlowConfig)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="cashIn" stackId="in" fill="var(--color-cashIn)" />
+              <Bar dataKey="owedToYou" stackId="in" fill="var(--color-owedToYou)" />
+              <Bar dataKey="cashOut" stackId="out" fill="var(--color-cashOut)" />
+              <Bar dataKey="owedByYou" stackId="out" fill="var(--color-owedByYou)" />
+            </BarChart>
+          </ChartContainer>
+          <div className="flex justify-between text-sm">
+            <span>Net cash in the bank</span>
+            <span className="font-medium">{formatRand(cashTotals.net)}</span>
+          </div>
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Once unpaid invoices and bills are settled</span>
+            <span>{formatRand(cashTotals.expectedNet)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {comparison.year.label} against {comparison.previousYear.label}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <ChartContainer config={comparisonConfig} className="w-full">
+            <LineChart data={comparison.rows}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={44} tickFormatter={formatAxisRand} />
+              <ChartTooltip content={<ChartTooltipContent formatter={randTooltip(comparisonConfig)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="profit" type="monotone" stroke="var(--color-profit)" strokeWidth={2} dot={false} />
+              <Line
+                dataKey="previousProfit"
+                type="monotone"
+                stroke="var(--color-previousProfit)"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+          {([
+            ['Income', comparison.totals.income, comparison.totals.previousIncome],
+            ['Expenses', comparison.totals.expenses, comparison.totals.previousExpenses],
+            ['Profit', comparison.totals.profit, comparison.totals.previousProfit],
+          ] as const).map(([label, current, previous]) => (
+            <div key={label} className="grid grid-cols-[1fr_auto_auto_3rem] gap-3 items-center text-sm">
+              <span>{label}</span>
+              <span className="text-muted-foreground">{formatRand(previous)}</span>
+              <span className="font-medium">{formatRand(current)}</span>
+              <span className="text-right">
+                <ChangeBadge current={current} previous={previous} />
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FinancialReports;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, PiggyBank } from 'lucide-react';
+import { Transaction } from '@/types/service';
+import {
+  AGE_GROUP_LABELS,
+  AgeGroup,
+  DEFAULT_PROVISIONAL_TAX_INPUTS,
+  ProvisionalTaxInputs,
+  TAX_TABLES_VERSION,
+  estimateProvisionalTax,
+  getProvisionalTaxInputs,
+  getSavingsGoalLink,
+  getSavingsTarget,
+  saveProvisionalTaxInputs
+} from '@/lib/provisionalTax';
+import { today } from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface ProvisionalTaxCardProps {
+  transactions: Transaction[];
+}
+
+/**
+ * IRP6 estimate for the current tax year from profit booked so far, with the
+ * two payments due and what to save towards them
+ */
+const ProvisionalTaxCard: React.FC<ProvisionalTaxCardProps> = ({ transactions }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [inputs, setInputs] = useState<ProvisionalTaxInputs>(DEFAULT_PROVISIONAL_TAX_INPUTS);
+
+  useEffect(() => {
+    if (user) setInputs(getProvisionalTaxInputs(user.id));
+  }, [user]);
+
+  const update = <K extends keyof ProvisionalTaxInputs>(field: K, value: ProvisionalTaxInputs[K]) => {
+    const next = { ...inputs, [field]: value };
+    setInputs(next);
+    if (user) saveProvisionalTaxInputs(user.id, next);
+  };
+
+  const on = today();
+  const estimate = estimateProvisionalTax(transactions, inputs, on);
+  const target = getSavingsTarget(estimate, on);
+
+  // Blank clears it, going back to the estimate
+  const updateFirstPayment = (value: string) => {
+    const { [estimate.taxYear.label]: _previous, ...others } = inputs.first_payments;
+    update('first_payments', value === '' ? others : { ...others, [estimate.taxYear.label]: Math.max(0, Number(value) || 0) });
+  };
+
+  const lines: [string, number][] = [
+    [`Profit to date (${estimate.daysElapsed} of ${estimate.daysInYear} days)`, estimate.profitToDate],
+    ['Profit for the year at this rate', estimate.annualProfit],
+    ['Taxable income', estimate.taxableIncome],
+    ['Tax before rebates', estimate.taxBeforeRebates],
+    ['Less rebates', -estimate.rebates],
+    ['Less medical scheme credits', -estimate.medicalCredits],
+  ];
+
+  return (
+    <Card className="border-0 bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          Provisional tax {estimate.taxYear.label}
+          <span className="text-base font-bold">{formatRand(estimate.annualTax)}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="tax-age">Age at year end</Label>
+            <Select value={inputs.age_group} onValueChange={(value) => update('age_group', value as AgeGroup)}>
+              <SelectTrigger id="tax-age">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(AGE_GROUP_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-medical">On medical aid</Label>
+            <Input
+              id="tax-medical"
+              type="number"
+              min="0"
+              inputMode="numeric"
+              placeholder="Members"
+              value={inputs.medical_members || ''}
+              onChange={(e) => update('medical_members', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-other-income">Other income (R)</Label>
+            <Input
+              id="tax-other-income"
+              type="number"
+              min="0"
+              inputMode="decimal"
+              placeholder="e.g. a salary"
+              value={inputs.other_income || ''}
+              onChange={(e) => update('other_income', Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-paye">PAYE on it (R)</Label>
+            <Input
+              id="tax-paye"
+              type="number"
+              min="0"
+              inputMode="decimal"
+              value={inputs.paye || ''}
+              onChange={(e) => update('paye', Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          {lines.map(([label, amount]) => (
+            <div key={label} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <span>{amount < 0 ? '-' : ''}{formatRand(Math.abs(amount))}</span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t pt-2 text-sm font-semibold">
+            <span>Tax for the year</span>
+            <span>{formatRand(estimate.annualTax)}</span>
+          </div>
+          {estimate.paye > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Less PAYE</span>
+              <span>-{formatRand(estimate.paye)}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {estimate.payments.map(payment => (
+            <div key={payment.period} className="space-y-2 rounded-md border p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{payment.period === 1 ? 'First' : 'Second'} period IRP6</p>
+                  <p className={`text-xs ${payment.paid ? 'text-green-600' : payment.due < on ? 'text-muted-foreground' : 'text-red-600'}`}>
+                    {payment.paid ? 'Paid' : payment.due < on ? 'Was due' : 'Due'} by {payment.due}
+                  </p>
+                </div>
+                <span className="font-semibold">{formatRand(payment.amount)}</span>
+              </div>
+              {payment.period === 1 && (payment.paid || payment.due < on) && (
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="tax-first-paid" className="text-xs text-muted-foreground">
+                    Amount you paid (R)
+                  </Label>
+                  <Input
+                    id="tax-first-paid"
+                    type="number"
+                    min="0"
+                    inputMode="decimal"
+                    className="h-8 w-32"
+                    placeholder={String(payment.amount)}
+                    value={inputs.first_payments[estimate.taxYear.label] ?? ''}
+                    onChange={(e) => updateFirstPayment(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {target && (
+          <div className="space-y-2 rounded-md bg-primary/10 p-3 text-sm">
+            <p>
+              Put aside <span className="font-semibold">{formatRand(target.monthly)}</span> a month to have{' '}
+              {formatRand(target.amount)} ready by {target.due}.
+            </p>
+            <Button size="sm" variant="outline" className="w-full" onClick={() => navigate(getSavingsGoalLink(estimate, target))}>
+              <PiggyBank size={14} className="mr-1" />
+              Create savings goal
+            </Button>
+          </div>
+        )}
+
+        {!estimate.exactTable && (
+          <div className="flex gap-2 rounded-md border border-orange-300 bg-orange-50 p-3 text-sm text-orange-900">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span>
+              The {estimate.taxYear.label} tax tables aren't in the app yet, so this uses the rates for the year ending
+              February {estimate.table.tax_year}.
+            </span>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          An estimate from the SARS tables for individuals (updated {TAX_TABLES_VERSION}), assuming the rest of the year
+          goes like the part so far. Check it with your accountant before filing on eFiling.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProvisionalTaxCard;
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Camera, FileText, Loader2, Upload, X } from 'lucide-react';
+import { MAX_RECEIPTS_PER_TRANSACTION, RECEIPT_ACCEPT, ReceiptData, isPdfReceipt, prepareReceiptFile } from '@/lib/receipts';
+import { useToast } from '@/hooks/use-toast';
+
+/** A receipt on the transaction form; saved ones have an id, new ones don't yet */
+export type FormReceipt = ReceiptData & { id?: string };
+
+interface ReceiptAttachmentsProps {
+  receipts: FormReceipt[];
+  onChange: (receipts: FormReceipt[]) => void;
+  /** Open the camera; the photo comes back through the parent */
+  onTakePhoto: () => void;
+}
+
+/**
+ * Receipts on an expense: thumbnails, with photo and upload buttons
+ */
+const ReceiptAttachments: React.FC<ReceiptAttachmentsProps> = ({ receipts, onChange, onTakePhoto }) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const isFull = receipts.length >= MAX_RECEIPTS_PER_TRANSACTION;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_RECEIPTS_PER_TRANSACTION - receipts.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    const added: FormReceipt[] = [];
+    for (const file of files) {
+      try {
+        added.push(await prepareReceiptFile(file));
+      } catch (error) {
+        console.error('Error reading receipt:', error);
+        toast({
+          title: `${file.name} not added`,
+          description: error instanceof Error ? error.message : 'Could not read this file',
+          variant: 'destructive',
+        });
+      }
+    }
+    setIsReading(false);
+    onChange([...receipts, ...added]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Receipts</Label>
+      {receipts.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {receipts.map((receipt, index) => (
+            <div
+              key={receipt.id ?? `new-${index}`}
+              className="relative aspect-square rounded border bg-muted/30 overflow-hidden flex items-center justify-center"
+            >
+              {isPdfReceipt(receipt) ? (
+                <div className="flex flex-col items-center gap-1 p-1 text-center">
+                  <FileText size={20} className="text-muted-foreground" />
+                  <span className="text-[10px] leading-tight break-all line-clamp-2">{receipt.filename}</span>
+                </div>
+              ) : (
+                <img src={receipt.data_url} alt={receipt.filename} className="w-full h-full object-cover" />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(receipts.filter((_, i) => i !== index))}
+                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 text-white p-0.5"
+                aria-label={`Remove ${receipt.filename}`}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={onTakePhoto} disabled={isFull}>
+          <Camera size={14} className="mr-1" />
+          Take photo
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => fileInput.current?.click()}
+          disabled={isFull || isReading}
+        >
+          {isReading ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Upload size={14} className="mr-1" />}
+          Upload
+        </Button>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        accept={RECEIPT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+      <p className="text-xs text-muted-foreground">
+        Photos or PDFs, kept on this device and included when you export your books.
+      </p>
+    </div>
+  );
+};
+
+export default ReceiptAttachments;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Download, ExternalLink, FileText } from 'lucide-react';
+import { Receipt } from '@/types/service';
+import { downloadReceipt, isPdfReceipt, openReceipt } from '@/lib/receipts';
+
+export interface GalleryReceipt {
+  receipt: Receipt;
+  /** e.g. the expense it belongs to */
+  caption?: string;
+}
+
+interface ReceiptGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  receipts: GalleryReceipt[];
+}
+
+/**
+ * Thumbnails of receipts, opening one at a time to read or save
+ */
+const ReceiptGallery: React.FC<ReceiptGalleryProps> = ({ open, onOpenChange, title, receipts }) => {
+  const [selected, setSelected] = useState<GalleryReceipt | null>(null);
+
+  useEffect(() => {
+    if (open) setSelected(null);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {receipts.length === 0
+              ? 'No receipts on this device yet.'
+              : `${receipts.length} receipt${receipts.length === 1 ? '' : 's'} on this device`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {selected ? (
+          <div className="space-y-3">
+            <Button size="sm" variant="ghost" onClick={() => setSelected(null)}>
+              <ArrowLeft size={14} className="mr-1" />
+              All receipts
+            </Button>
+            {isPdfReceipt(selected.receipt) ? (
+              <div className="flex flex-col items-center gap-2 py-8 rounded border bg-muted/30">
+                <FileText size={40} className="text-muted-foreground" />
+                <span className="text-sm break-all px-4 text-center">{selected.receipt.filename}</span>
+              </div>
+            ) : (
+              <img
+                src={selected.receipt.data_url}
+                alt={selected.receipt.filename}
+                className="w-full max-h-[60vh] object-contain rounded border bg-black/5"
+              />
+            )}
+            {selected.caption && <p className="text-sm text-muted-foreground">{selected.caption}</p>}
+            <div className="grid grid-cols-2 gap-2">
+              <Button size="sm" variant="outline" onClick={() => openReceipt(selected.receipt)}>
+                <ExternalLink size={14} className="mr-1" />
+                Open
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => downloadReceipt(selected.receipt)}>
+                <Download size={14} className="mr-1" />
+                Download
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {receipts.map(item => (
+              <button
+                key={item.receipt.id}
+                type="button"
+                onClick={() => setSelected(item)}
+                className="text-left space-y-1"
+              >
+                <div className="aspect-square rounded border bg-muted/30 overflow-hidden flex items-center justify-center">
+                  {isPdfReceipt(item.receipt) ? (
+                    <FileText size={24} className="text-muted-foreground" />
+                  ) : (
+                    <img src={item.receipt.data_url} alt={item.receipt.filename} className="w-full h-full object-cover" />
+                  )}
+                </div>
+                {item.caption && <p className="text-xs text-muted-foreground truncate">{item.caption}</p>}
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptGallery;
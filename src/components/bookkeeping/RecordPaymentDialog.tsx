@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { Invoice, PaymentMethod } from '@/types/service';
+import { InvoicePaymentData } from '@/lib/api';
+import {
+  PAYMENT_METHOD_LABELS,
+  getAmountPaid,
+  getInvoiceBalance,
+  today,
+  validatePaymentData
+} from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+import { useRecordInvoicePayment } from '@/hooks/useBookkeepingQueries';
+import { useToast } from '@/hooks/use-toast';
+
+interface RecordPaymentDialogProps {
+  /** Invoice being paid; the dialog is open while this is set */
+  invoice: Invoice | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyPayment = (invoice: Invoice | null): InvoicePaymentData => ({
+  amount: invoice ? getInvoiceBalance(invoice) : 0,
+  date: today(),
+  method: 'eft',
+  reference: '',
+});
+
+/**
+ * Records money received against an invoice, in full or in part
+ */
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({ invoice, onOpenChange }) => {
+  const { toast } = useToast();
+  const recordPayment = useRecordInvoicePayment();
+  const [payment, setPayment] = useState<InvoicePaymentData>(() => emptyPayment(invoice));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (invoice) {
+      setPayment(emptyPayment(invoice));
+      setError('');
+    }
+  }, [invoice]);
+
+  const handleSave = async () => {
+    if (!invoice) return;
+    const problem = validatePaymentData(invoice, payment, today());
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    try {
+      const { invoice: paid } = await recordPayment.mutateAsync({ id: invoice.id, data: payment });
+      onOpenChange(false);
+      toast({
+        title: 'Payment recorded',
+        description: paid.status === 'paid'
+          ? `${paid.number} is paid in full.`
+          : `${formatRand(getInvoiceBalance(paid))} is still owing on ${paid.number}.`,
+      });
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to record the payment. Please try again.');
+    }
+  };
+
+  const paidSoFar = invoice ? getAmountPaid(invoice) : 0;
+
+  return (
+    <Dialog open={invoice !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm mx-auto">
+        <DialogHeader>
+          <DialogTitle>Record payment</DialogTitle>
+          <DialogDescription>
+            {invoice && `${invoice.number} · ${formatRand(getInvoiceBalance(invoice))} owing of ${formatRand(invoice.amount)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {invoice?.payments && invoice.payments.length > 0 && (
+            <div className="rounded-md border p-3 space-y-1 text-sm">
+              {invoice.payments.map(p => (
+                <div key={p.id} className="flex justify-between text-muted-foreground">
+                  <span>{p.date} · {PAYMENT_METHOD_LABELS[p.method]}{p.reference && ` · ${p.reference}`}</span>
+                  <span>{formatRand(p.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium pt-1 border-t">
+                <span>Paid so far</span>
+                <span>{formatRand(paidSoFar)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount (R)</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={payment.amount}
+                onChange={(e) => setPayment(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                max={today()}
+                value={payment.date}
+                onChange={(e) => setPayment(prev => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-method">Method</Label>
+              <Select
+                value={payment.method}
+                onValueChange={(value) => setPayment(prev => ({ ...prev, method: value as PaymentMethod }))}
+              >
+                <SelectTrigger id="payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                    <SelectItem key={method} value={method}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={payment.reference}
+                onChange={(e) => setPayment(prev => ({ ...prev, reference: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={recordPayment.isPending} className="bg-gradient-primary">
+            {recordPayment.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+            Record payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Paperclip } from 'lucide-react';
+import { BusinessProfile, Invoice } from '@/types/service';
+import { getDefaultInvoiceMessage } from '@/lib/invoiceLifecycle';
+import { getInvoiceFilename, getInvoicePdfAttachment } from '@/lib/invoicePdf';
+import { isValidEmail } from '@/lib/mail';
+import { useSendInvoice } from '@/hooks/useBookkeepingQueries';
+import { useToast } from '@/hooks/use-toast';
+
+interface SendInvoiceDialogProps {
+  /** Invoice being sent; the dialog is open while this is set */
+  invoice: Invoice | null;
+  profile: BusinessProfile;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Emails an invoice to the client with its PDF attached
+ */
+const SendInvoiceDialog: React.FC<SendInvoiceDialogProps> = ({ invoice, profile, onOpenChange }) => {
+  const { toast } = useToast();
+  const sendInvoice = useSendInvoice();
+  const [to, setTo] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (invoice) {
+      setTo(invoice.sent_to || invoice.client_email);
+      setMessage(getDefaultInvoiceMessage(invoice, profile));
+      setError('');
+    }
+  }, [invoice, profile]);
+
+  const handleSend = async () => {
+    if (!invoice) return;
+    if (!isValidEmail(to)) {
+      setError("Enter the client's email address");
+      return;
+    }
+    try {
+      await sendInvoice.mutateAsync({
+        id: invoice.id,
+        data: { to: to.trim(), message, attachment: getInvoicePdfAttachment(invoice, profile) },
+      });
+      onOpenChange(false);
+      toast({
+        title: 'Invoice sent',
+        description: `${invoice.number} was emailed to ${to.trim()}.`,
+      });
+    } catch (error) {
+      console.error('Error sending invoice:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send the invoice. Please try again.');
+    }
+  };
+
+  return (
+    <Dialog open={invoice !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md mx-auto">
+        <DialogHeader>
+          <DialogTitle>Send {invoice?.number}</DialogTitle>
+          <DialogDescription>
+            {invoice?.sent_at
+              ? `Last sent to ${invoice.sent_to} on ${new Date(invoice.sent_at).toLocaleDateString('en-ZA')}.`
+              : 'The client gets the invoice PDF by email.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="send-invoice-to">To</Label>
+            <Input
+              id="send-invoice-to"
+              type="email"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="client@example.co.za"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="send-invoice-message">Message</Label>
+            <Textarea
+              id="send-invoice-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={6}
+            />
+          </div>
+
+          {invoice && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Paperclip size={12} />
+              {getInvoiceFilename(invoice)}
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={sendInvoice.isPending} className="bg-gradient-primary">
+            {sendInvoice.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendInvoiceDialog;
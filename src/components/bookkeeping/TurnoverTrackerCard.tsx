@@ -0,0 +1,98 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Download } from 'lucide-react';
+import { BusinessProfile, Transaction } from '@/types/service';
+import { VAT_REGISTRATION_THRESHOLD, downloadTurnover, getTurnoverReport } from '@/lib/vatReports';
+import { today } from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+import { useToast } from '@/hooks/use-toast';
+
+interface TurnoverTrackerCardProps {
+  transactions: Transaction[];
+  profile: BusinessProfile | null;
+}
+
+/**
+ * Income over the last twelve months against the compulsory VAT
+ * registration threshold, for providers not yet registered
+ */
+const TurnoverTrackerCard: React.FC<TurnoverTrackerCardProps> = ({ transactions, profile }) => {
+  const { toast } = useToast();
+  const on = today();
+  const report = getTurnoverReport(transactions, on);
+  const highest = Math.max(...report.months.map(month => month.amount), 1);
+
+  const handleExport = (format: 'csv' | 'pdf') => {
+    try {
+      downloadTurnover(report, profile, on, format);
+    } catch (error) {
+      console.error('Error exporting turnover report:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export the turnover report. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          12-month turnover
+          <span className="text-base font-bold">{formatRand(report.total)}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={Math.min(100, (report.total / VAT_REGISTRATION_THRESHOLD) * 100)} />
+        <p className="text-xs text-muted-foreground">
+          {Math.round((report.total / VAT_REGISTRATION_THRESHOLD) * 100)}% of the {formatRand(VAT_REGISTRATION_THRESHOLD)} at
+          which VAT registration is compulsory
+        </p>
+
+        {report.status !== 'below' && (
+          <div className="flex gap-2 rounded-md border border-orange-300 bg-orange-50 p-3 text-sm text-orange-900">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span>
+              {report.status === 'over'
+                ? 'Your turnover is over the threshold. You must register for VAT with SARS within 21 days.'
+                : `You're close to the threshold${report.projected > VAT_REGISTRATION_THRESHOLD
+                  ? `, and at your recent rate will earn ${formatRand(report.projected)} over the next 12 months`
+                  : ''}. Speak to SARS or your accountant about registering for VAT.`}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-end gap-1 h-20" aria-hidden="true">
+          {report.months.map(month => (
+            <div
+              key={month.month}
+              className="flex-1 rounded-t bg-primary/70"
+              style={{ height: `${Math.max(2, (month.amount / highest) * 100)}%` }}
+              title={`${month.label}: ${formatRand(month.amount)}`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{report.months[0].label}</span>
+          <span>{report.months[report.months.length - 1].label}</span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button size="sm" variant="outline" onClick={() => handleExport('csv')}>
+            <Download size={14} className="mr-1" />
+            CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('pdf')}>
+            <Download size={14} className="mr-1" />
+            PDF
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TurnoverTrackerCard;
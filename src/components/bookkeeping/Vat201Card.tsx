@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { BusinessProfile, Invoice, Transaction } from '@/types/service';
+import { downloadVat201, getVat201Report, getVatCategory, listVatPeriods } from '@/lib/vatReports';
+import { today } from '@/lib/invoiceLifecycle';
+import { formatRand } from '@/lib/invoicePdf';
+import { useToast } from '@/hooks/use-toast';
+
+interface Vat201CardProps {
+  invoices: Invoice[];
+  transactions: Transaction[];
+  /** A VAT vendor's profile, with their VAT number */
+  profile: BusinessProfile;
+}
+
+/**
+ * The figures for a two-monthly VAT201 return, with the documents behind them
+ */
+const Vat201Card: React.FC<Vat201CardProps> = ({ invoices, transactions, profile }) => {
+  const { toast } = useToast();
+  const periods = listVatPeriods(today(), getVatCategory(profile));
+  const [periodStart, setPeriodStart] = useState(periods[0].start);
+  const period = periods.find(p => p.start === periodStart) ?? periods[0];
+  const report = getVat201Report(period, invoices, transactions);
+
+  const handleExport = (format: 'csv' | 'pdf') => {
+    try {
+      downloadVat201(report, profile, format);
+    } catch (error) {
+      console.error('Error exporting VAT report:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export the VAT report. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const fields: [string, string, number][] = [
+    ['1', 'Standard-rated supplies (incl. VAT)', report.standardRatedSupplies],
+    ['2', 'Zero-rated supplies', report.zeroRatedSupplies],
+    ['4', 'Output tax', report.outputVat],
+    ['15', 'Input tax', report.inputVat],
+  ];
+
+  return (
+    <Card className="border-0 bg-card/50">
+      <CardHeader className="space-y-3">
+        <CardTitle className="text-lg">VAT201</CardTitle>
+        <Select value={period.start} onValueChange={setPeriodStart}>
+          <SelectTrigger aria-label="Tax period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map(p => (
+              <SelectItem key={p.start} value={p.start}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {fields.map(([field, label, amount]) => (
+          <div key={field} className="flex items-center justify-between text-sm">
+            <span>
+              <span className="inline-block w-6 text-muted-foreground">{field}</span>
+              {label}
+            </span>
+            <span className="font-medium">{formatRand(amount)}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between border-t pt-3 font-semibold">
+          <span>
+            <span className="inline-block w-6 text-muted-foreground font-normal text-sm">20</span>
+            {report.netVat >= 0 ? 'VAT payable' : 'VAT refundable'}
+          </span>
+          <span className={report.netVat >= 0 ? 'text-red-600' : 'text-green-600'}>
+            {formatRand(Math.abs(report.netVat))}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {report.supplies.length} sale{report.supplies.length === 1 ? '' : 's'} and {report.purchases.length} expense
+          {report.purchases.length === 1 ? '' : 's'} with VAT. Due on eFiling by {period.due}.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <Button size="sm" variant="outline" onClick={() => handleExport('csv')}>
+            <Download size={14} className="mr-1" />
+            CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('pdf')}>
+            <Download size={14} className="mr-1" />
+            PDF
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Vat201Card;
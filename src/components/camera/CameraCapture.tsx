@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface CameraCaptureProps {
+  /** The camera is on while this is true */
+  open: boolean;
+  title: string;
+  /** 'user' for selfies, 'environment' for documents and receipts */
+  facingMode?: 'user' | 'environment';
+  /** Called with the confirmed photo as a JPEG data URL */
+  onCapture: (imageData: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen camera: take a photo, then retake or confirm it
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ open, title, facingMode = 'user', onCapture, onClose }) => {
+  const { toast } = useToast();
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Kept in a ref so a new callback from the parent doesn't restart the camera
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!open) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    const startCamera = async () => {
+      try {
+        const started = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode,
+            width: { ideal: 1280 },
+            height: { ideal: 720 }
+          }
+        });
+        if (cancelled) {
+          started.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = started;
+        setCameraStream(started);
+      } catch (error) {
+        console.error('Error accessing camera:', error);
+        toast({
+          title: 'Camera Error',
+          description: 'Unable to access camera. Please check permissions.',
+          variant: 'destructive',
+        });
+        onCloseRef.current();
+      }
+    };
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      setCameraStream(null);
+      setCapturedImage(null);
+    };
+  }, [open, facingMode, toast]);
+
+  const capturePhoto = () => {
+    const video = videoRef.current;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+
+    if (video && context) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0);
+      setCapturedImage(canvas.toDataURL('image/jpeg', 0.8));
+    }
+  };
+
+  const confirmCapture = () => {
+    if (!capturedImage) return;
+    onCapture(capturedImage);
+    onClose();
+  };
+
+  if (!open || !cameraStream) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black z-50 flex flex-col">
+      <div className="flex items-center justify-between p-4 bg-black text-white">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <Button
+          onClick={onClose}
+          variant="ghost"
+          size="sm"
+          className="text-white hover:bg-white/20"
+        >
+          <X size={20} />
+        </Button>
+      </div>
+
+      <div className="flex-1 relative">
+        {!capturedImage ? (
+          <>
+            <video
+              autoPlay
+              playsInline
+              muted
+              className="w-full h-full object-cover"
+              ref={(video) => {
+                videoRef.current = video;
+                if (video && cameraStream) {
+                  video.srcObject = cameraStream;
+                }
+              }}
+            />
+            <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
+              <Button
+                onClick={capturePhoto}
+                size="lg"
+                className="w-16 h-16 rounded-full bg-white text-black hover:bg-gray-200"
+              >
+                <Camera size={24} />
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="w-full h-full flex flex-col">
+            <img
+              src={capturedImage}
+              alt="Captured photo"
+              className="flex-1 object-contain bg-black"
+            />
+            <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 flex gap-4">
+              <Button
+                onClick={() => setCapturedImage(null)}
+                variant="outline"
+                className="bg-white text-black hover:bg-gray-200"
+              >
+                Retake
+              </Button>
+              <Button
+                onClick={confirmCapture}
+                className="bg-primary text-white"
+              >
+                Confirm
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,11 +1,11 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Play, ArrowLeft } from 'lucide-react';
+import { Play, ArrowLeft, RotateCcw } from 'lucide-react';
 import { useDemoMode } from '@/contexts/DemoContext';
 import { useAuth } from '@/contexts/AuthContext';
 
 const DemoButton: React.FC = () => {
-  const { isDemoMode, setDemoMode } = useDemoMode();
+  const { isDemoMode, setDemoMode, resetDemoData } = useDemoMode();
   const { user } = useAuth();
 
   // Don't show demo button if user is already authenticated
@@ -17,8 +17,13 @@ const DemoButton: React.FC = () => {
     setDemoMode(!isDemoMode);
   };
 
+  const handleDemoReset = () => {
+    resetDemoData();
+    window.location.reload();
+  };
+
   return (
-    <div className="fixed top-4 left-4 z-50">
+    <div className="fixed top-4 left-4 z-50 flex gap-2">
       <Button
         onClick={handleDemoToggle}
         variant={isDemoMode ? "outline" : "default"}
@@ -36,6 +41,17 @@ const DemoButton: React.FC = () => {
           </>
         )}
       </Button>
+      {isDemoMode && (
+        <Button
+          onClick={handleDemoReset}
+          variant="outline"
+          size="icon"
+          className="bg-background border-primary"
+          aria-label="Reset demo data"
+        >
+          <RotateCcw size={16} />
+        </Button>
+      )}
     </div>
   );
 };
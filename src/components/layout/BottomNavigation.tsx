@@ -2,15 +2,19 @@ import React from 'react';
 import { useLocation, Link } from 'react-router-dom';
 import { Home, Search, MessageSquare, User, Bell, BookOpen, Calculator, DollarSign, PiggyBank, Crown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUnreadNotificationCount } from '@/hooks/useNotificationQueries';
 
 const BottomNavigation: React.FC = () => {
   const location = useLocation();
+  const { user } = useAuth();
+  const { data: unreadCount = 0 } = useUnreadNotificationCount({ enabled: !!user });
 
   const navItems = [
     { icon: Home, label: 'Home', path: '/dashboard' },
     { icon: Search, label: 'Services', path: '/services' },
     { icon: MessageSquare, label: 'Requests', path: '/requests' },
-    { icon: Bell, label: 'Alerts', path: '/notifications' },
+    { icon: Bell, label: 'Alerts', path: '/notifications', badge: unreadCount },
     { icon: User, label: 'Profile', path: '/profile' },
   ];
 
@@ -26,7 +30,7 @@ const BottomNavigation: React.FC = () => {
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50">
       <div className="flex items-center justify-around h-16 max-w-md mx-auto px-4">
-        {navItems.map(({ icon: Icon, label, path }) => {
+        {navItems.map(({ icon: Icon, label, path, badge }) => {
           const isActive = location.pathname === path;
           return (
             <Link
@@ -39,7 +43,17 @@ const BottomNavigation: React.FC = () => {
                   : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
               )}
             >
-              <Icon size={20} />
+              <span className="relative">
+                <Icon size={20} />
+                {badge > 0 && (
+                  <span
+                    className="absolute -top-1.5 -right-2 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-4 text-center"
+                    aria-label={`${badge} unread`}
+                  >
+                    {badge > 9 ? '9+' : badge}
+                  </span>
+                )}
+              </span>
               <span className="text-xs font-medium truncate">{label}</span>
             </Link>
           );
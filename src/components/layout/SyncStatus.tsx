@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CloudOff, CloudUpload, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import { OUTBOX_KIND_LABELS, OutboxEntryStatus } from '@/lib/outbox';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useAuth } from '@/contexts/AuthContext';
+
+const ENTRY_STATUS_STYLES: Record<OutboxEntryStatus, { label: string; className: string }> = {
+  queued: { label: 'Waiting', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  failed: { label: 'Not sent', className: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+/**
+ * Connection and offline-queue status pill; hidden while online with
+ * nothing left to send. Tapping it opens the queued changes.
+ */
+const SyncStatus: React.FC = () => {
+  const { user } = useAuth();
+  const { entries, queued, needsAttention, isOnline, syncing, sync, retry, discard } = useOutbox();
+  const [open, setOpen] = useState(false);
+
+  if (!user || (isOnline && !syncing && entries.length === 0)) return null;
+
+  const pill = !isOnline
+    ? {
+      icon: <CloudOff size={14} />,
+      text: queued.length > 0 ? `Offline · ${queued.length} queued` : 'Offline',
+      className: 'bg-gray-800 text-white',
+    }
+    : syncing
+      ? { icon: <Loader2 size={14} className="animate-spin" />, text: 'Syncing…', className: 'bg-blue-600 text-white' }
+      : needsAttention.length > 0
+        ? {
+          icon: <AlertTriangle size={14} />,
+          text: `${needsAttention.length} need${needsAttention.length === 1 ? 's' : ''} attention`,
+          className: 'bg-amber-500 text-white',
+        }
+        : { icon: <CloudUpload size={14} />, text: `${queued.length} waiting to sync`, className: 'bg-blue-600 text-white' };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={cn(
+          'fixed top-4 right-4 z-40 flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-medium shadow-lg',
+          pill.className
+        )}
+      >
+        {pill.icon}
+        {pill.text}
+      </button>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Offline changes</SheetTitle>
+            <SheetDescription>
+              {isOnline
+                ? 'Changes made while offline are sent in the order you made them.'
+                : "You're offline. Changes are saved on this device and sent when you reconnect."}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-4 space-y-3">
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Everything is up to date.</p>
+            ) : (
+              entries.map(entry => (
+                <div key={entry.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium">{entry.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {OUTBOX_KIND_LABELS[entry.kind]} · {new Date(entry.created_at).toLocaleString('en-ZA')}
+                      </p>
+                    </div>
+                    <Badge className={cn('text-xs', ENTRY_STATUS_STYLES[entry.status].className)}>
+                      {ENTRY_STATUS_STYLES[entry.status].label}
+                    </Badge>
+                  </div>
+                  {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                  {entry.status !== 'queued' && (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => retry(entry.id)} disabled={!isOnline || syncing}>
+                        <RefreshCw size={14} className="mr-1" />
+                        Retry
+                      </Button>
+                      <Button size="sm" variant="ghost" className="text-destructive" onClick={() => discard(entry.id)}>
+                        <Trash2 size={14} className="mr-1" />
+                        Discard
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+
+            {queued.length > 0 && (
+              <Button className="w-full" onClick={sync} disabled={!isOnline || syncing}>
+                {syncing ? <Loader2 size={16} className="mr-2 animate-spin" /> : <RefreshCw size={16} className="mr-2" />}
+                Sync now
+              </Button>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+export default SyncStatus;
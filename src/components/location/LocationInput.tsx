@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { MapPin } from 'lucide-react';
+import { formatLocation, formatPlace, getProvince, resolveLocation, searchPlaces } from '@/lib/gazetteer';
+
+interface LocationInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Free-text location field with suggestions from the gazetteer, showing how
+ * the text will be resolved for distance searches
+ */
+const LocationInput: React.FC<LocationInputProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder = 'e.g., Sea Point, Cape Town',
+  className,
+  disabled
+}) => {
+  const suggestions = useMemo(() => searchPlaces(value.split(',')[0]), [value]);
+  const resolved = useMemo(() => resolveLocation(value), [value]);
+
+  return (
+    <div className="space-y-1">
+      <Input
+        id={id}
+        list={`${id}-suggestions`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        autoComplete="off"
+        className={className}
+        disabled={disabled}
+      />
+      <datalist id={`${id}-suggestions`}>
+        {suggestions.map((place) => (
+          <option key={`${place.province}-${place.name}`} value={formatPlace(place)} />
+        ))}
+      </datalist>
+      {!disabled && value.trim().length >= 2 && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MapPin size={12} />
+          {resolved
+            ? resolved.suburb
+              ? `${formatLocation(resolved)}, ${getProvince(resolved.province)?.name}`
+              : formatLocation(resolved)
+            : "We don't recognise this place, so it won't show up in nearby searches"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LocationInput;
@@ -0,0 +1,323 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Maximize2, Minus, Plus } from 'lucide-react';
+import { GeoPoint } from '@/types/service';
+import { PROVINCES } from '@/lib/gazetteer';
+import {
+  PROVINCE_OUTLINES,
+  ScreenPoint,
+  circleRing,
+  clusterByGrid,
+  createProjection,
+  ringToPath
+} from '@/lib/map';
+import { cn } from '@/lib/utils';
+
+export interface MapMarker {
+  id: string;
+  point: GeoPoint;
+  label: string;
+}
+
+interface ClusterMapProps {
+  markers: MapMarker[];
+  /** The user's position, drawn with the radius circle around it */
+  origin?: GeoPoint | null;
+  radiusKm?: number;
+  selectedIds?: string[];
+  /** Called with the marker ids under a marker or an inseparable cluster */
+  onSelect: (ids: string[]) => void;
+  className?: string;
+}
+
+interface View {
+  scale: number;
+  tx: number;
+  ty: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 340;
+const MAX_SCALE = 64;
+const CLUSTER_CELL = 44;
+const DRAG_THRESHOLD = 4;
+
+const project = createProjection(WIDTH, HEIGHT);
+
+const provincePaths = PROVINCE_OUTLINES.map(outline => ({
+  code: outline.code,
+  name: outline.name,
+  path: ringToPath(outline.ring, project),
+}));
+
+const provinceLabels = PROVINCES.map(province => ({ code: province.code, ...project(province.centre) }));
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(1, scale));
+
+/**
+ * View that fits the given projected points, or the whole country when empty
+ */
+const fitView = (points: ScreenPoint[]): View => {
+  if (points.length === 0) return { scale: 1, tx: 0, ty: 0 };
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  // A lone point gets a city-sized window rather than infinite zoom
+  const spanX = Math.max(maxX - minX, 4);
+  const spanY = Math.max(maxY - minY, 4);
+  const scale = clampScale(Math.min((WIDTH * 0.8) / spanX, (HEIGHT * 0.8) / spanY));
+
+  return {
+    scale,
+    tx: WIDTH / 2 - ((minX + maxX) / 2) * scale,
+    ty: HEIGHT / 2 - ((minY + maxY) / 2) * scale,
+  };
+};
+
+/**
+ * Tile-less SVG map of South Africa's provinces with clustered markers,
+ * so it works offline and without a tile server
+ */
+const ClusterMap: React.FC<ClusterMapProps> = ({
+  markers,
+  origin,
+  radiusKm,
+  selectedIds = [],
+  onSelect,
+  className
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number; view: View; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [view, setView] = useState<View>({ scale: 1, tx: 0, ty: 0 });
+
+  const radiusRing = useMemo(
+    () => (origin && radiusKm ? circleRing(origin, radiusKm).map(([lng, lat]) => project({ lat, lng })) : null),
+    [origin, radiusKm]
+  );
+
+  const projectedMarkers = useMemo(
+    () => markers.map(marker => ({ marker, base: project(marker.point) })),
+    [markers]
+  );
+
+  // Frame the search radius when there is one, otherwise the markers
+  const focusPoints = radiusRing ?? projectedMarkers.map(m => m.base);
+  const focusKey = radiusRing
+    ? `radius:${origin?.lat}:${origin?.lng}:${radiusKm}`
+    : `markers:${projectedMarkers.length > 0}`;
+  const focusRef = useRef(focusPoints);
+  focusRef.current = focusPoints;
+
+  const resetView = useCallback(() => setView(fitView(focusRef.current)), []);
+
+  useEffect(() => {
+    resetView();
+  }, [focusKey, resetView]);
+
+  const toScreen = useCallback(
+    (point: ScreenPoint): ScreenPoint => ({ x: point.x * view.scale + view.tx, y: point.y * view.scale + view.ty }),
+    [view]
+  );
+
+  const clusters = useMemo(
+    () => clusterByGrid(projectedMarkers, m => toScreen(m.base), CLUSTER_CELL),
+    [projectedMarkers, toScreen]
+  );
+
+  const zoomAt = useCallback((factor: number, anchor: ScreenPoint = { x: WIDTH / 2, y: HEIGHT / 2 }) => {
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        tx: anchor.x - (anchor.x - current.tx) * ratio,
+        ty: anchor.y - (anchor.y - current.ty) * ratio,
+      };
+    });
+  }, []);
+
+  const toViewBox = (clientX: number, clientY: number): ScreenPoint => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: ((clientX - rect.left) / rect.width) * WIDTH,
+      y: ((clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.25 : 0.8, {
+        x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+        y: ((event.clientY - rect.top) / rect.height) * HEIGHT,
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    suppressClickRef.current = false;
+    const { x, y } = toViewBox(event.clientX, event.clientY);
+    dragRef.current = { pointerId: event.pointerId, x, y, view, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const { x, y } = toViewBox(event.clientX, event.clientY);
+    if (!drag.moved && Math.hypot(x - drag.x, y - drag.y) < DRAG_THRESHOLD) return;
+    if (!drag.moved) {
+      // Only capture once it is a drag, so taps still reach the markers
+      drag.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    setView({ ...drag.view, tx: drag.view.tx + x - drag.x, ty: drag.view.ty + y - drag.y });
+  };
+
+  const handlePointerUp = () => {
+    // The click that ends a drag should not select or zoom
+    suppressClickRef.current = dragRef.current?.moved ?? false;
+    dragRef.current = null;
+  };
+
+  const handleClusterClick = (items: typeof projectedMarkers, position: ScreenPoint) => {
+    if (suppressClickRef.current) return;
+
+    const ids = items.map(item => item.marker.id);
+    const xs = items.map(item => item.base.x);
+    const ys = items.map(item => item.base.y);
+    const spread = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    // Zoom into clusters that can still split apart; select the rest
+    if (items.length > 1 && spread > 0.01 && view.scale < MAX_SCALE) {
+      zoomAt(2, position);
+    } else {
+      onSelect(ids);
+    }
+  };
+
+  const originScreen = origin ? toScreen(project(origin)) : null;
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-lg border bg-sky-50', className)}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+        role="img"
+        aria-label="Map of South Africa"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g transform={`translate(${view.tx} ${view.ty}) scale(${view.scale})`}>
+          {provincePaths.map(province => (
+            <path
+              key={province.code}
+              d={province.path}
+              className="fill-background stroke-muted-foreground/40"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>{province.name}</title>
+            </path>
+          ))}
+          {radiusRing && (
+            <path
+              d={radiusRing.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ') + ' Z'}
+              className="fill-primary/10 stroke-primary"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </g>
+
+        {view.scale < 3 && provinceLabels.map(label => {
+          const { x, y } = toScreen(label);
+          return (
+            <text
+              key={label.code}
+              x={x}
+              y={y}
+              textAnchor="middle"
+              className="fill-muted-foreground/70 text-[10px] font-medium pointer-events-none"
+            >
+              {label.code}
+            </text>
+          );
+        })}
+
+        {originScreen && (
+          <g pointerEvents="none">
+            <circle cx={originScreen.x} cy={originScreen.y} r={9} className="fill-blue-500/20" />
+            <circle cx={originScreen.x} cy={originScreen.y} r={5} className="fill-blue-500 stroke-white" strokeWidth={2} />
+          </g>
+        )}
+
+        {clusters.map(cluster => {
+          const selected = cluster.items.some(item => selectedIds.includes(item.marker.id));
+          const isCluster = cluster.items.length > 1;
+          return (
+            <g
+              key={cluster.key}
+              transform={`translate(${cluster.x} ${cluster.y})`}
+              className="cursor-pointer"
+              role="button"
+              aria-label={isCluster ? `${cluster.items.length} results` : cluster.items[0].marker.label}
+              onClick={() => handleClusterClick(cluster.items, cluster)}
+            >
+              {isCluster ? (
+                <>
+                  <circle r={14} className={selected ? 'fill-orange-500' : 'fill-primary'} stroke="white" strokeWidth={2} />
+                  <text textAnchor="middle" dy="0.35em" className="fill-white text-[11px] font-bold">
+                    {cluster.items.length}
+                  </text>
+                </>
+              ) : (
+                <>
+                  <path
+                    d="M0,0 C-2,-6 -8,-9 -8,-15 A8,8 0 1 1 8,-15 C8,-9 2,-6 0,0 Z"
+                    className={selected ? 'fill-orange-500' : 'fill-primary'}
+                    stroke="white"
+                    strokeWidth={1.5}
+                  />
+                  <circle cy={-15} r={3} fill="white" />
+                </>
+              )}
+              <title>{isCluster ? `${cluster.items.length} results` : cluster.items[0].marker.label}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <Button size="icon" variant="secondary" className="h-8 w-8 shadow" onClick={() => zoomAt(1.5)} aria-label="Zoom in">
+          <Plus size={16} />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8 shadow" onClick={() => zoomAt(1 / 1.5)} aria-label="Zoom out">
+          <Minus size={16} />
+        </Button>
+        <Button size="icon" variant="secondary" className="h-8 w-8 shadow" onClick={resetView} aria-label="Reset view">
+          <Maximize2 size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ClusterMap;
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { BellRing, Loader2, Save } from 'lucide-react';
+import { NotificationChannel, NotificationType } from '@/types/service';
+import { NotificationPreferencesData } from '@/lib/api';
+import { NOTIFICATION_TYPE_LABELS } from '@/lib/notifications';
+import {
+  CHANNEL_LABELS,
+  LOW_PRIORITY_TYPES,
+  NOTIFICATION_CHANNELS,
+  PLACEHOLDER_CHANNELS,
+  PREFERENCE_TYPES,
+  toNotificationPreferencesData,
+  validateNotificationPreferences
+} from '@/lib/notificationPreferences';
+import { getPushPermission, isPushSupported } from '@/lib/push';
+import { useNotificationPreferences, useUpdateNotificationPreferences } from '@/hooks/useNotificationQueries';
+import { useDisablePush, useEnablePush, usePushSubscription, useSendTestPush } from '@/hooks/usePushNotifications';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Channels per notification type, quiet hours and the daily digest
+ */
+const NotificationPreferencesCard: React.FC = () => {
+  const { toast } = useToast();
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const [draft, setDraft] = useState<NotificationPreferencesData>(() => toNotificationPreferencesData(null));
+  const [error, setError] = useState('');
+  const pushSupported = isPushSupported();
+  const { data: pushSubscription } = usePushSubscription({ enabled: pushSupported });
+  const enablePush = useEnablePush();
+  const disablePush = useDisablePush();
+  const sendTestPush = useSendTestPush();
+
+  useEffect(() => {
+    if (preferences) setDraft(toNotificationPreferencesData(preferences));
+  }, [preferences]);
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      channels: { ...prev.channels, [type]: { ...prev.channels[type], [channel]: enabled } },
+    }));
+  };
+
+  const handleSave = async () => {
+    const validationError = validateNotificationPreferences(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+
+    try {
+      await updatePreferences.mutateAsync(draft);
+      toast({
+        title: 'Preferences saved',
+        description: 'Your notification preferences have been updated.',
+      });
+    } catch (saveError) {
+      console.error('Error saving notification preferences:', saveError);
+      toast({
+        title: 'Error saving preferences',
+        description: 'Failed to save your notification preferences. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePushToggle = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await enablePush.mutateAsync();
+        toast({
+          title: 'Push enabled',
+          description: "You'll get alerts on this device even when LinkLocal is closed.",
+        });
+      } else {
+        await disablePush.mutateAsync();
+        toast({
+          title: 'Push disabled',
+          description: 'This device will no longer receive push alerts.',
+        });
+      }
+    } catch (pushError) {
+      console.error('Error updating push subscription:', pushError);
+      toast({
+        title: 'Push not updated',
+        description: pushError instanceof Error ? pushError.message : 'Failed to update push notifications. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleTestPush = async () => {
+    try {
+      await sendTestPush.mutateAsync();
+    } catch (testError) {
+      console.error('Error sending test push:', testError);
+      toast({
+        title: 'Test failed',
+        description: 'Could not send a test notification. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const pushPending = enablePush.isPending || disablePush.isPending;
+
+  return (
+    <Card className="border-0 bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-lg">Notification Preferences</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 size={24} className="animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_repeat(4,3rem)] items-end gap-1 text-xs text-muted-foreground">
+                <span />
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <span key={channel} className="text-center">
+                    {CHANNEL_LABELS[channel]}
+                    {PLACEHOLDER_CHANNELS.includes(channel) && <span className="block">(soon)</span>}
+                  </span>
+                ))}
+              </div>
+              {PREFERENCE_TYPES.map(type => (
+                <div key={type} className="grid grid-cols-[1fr_repeat(4,3rem)] items-center gap-1">
+                  <span className="text-sm">{NOTIFICATION_TYPE_LABELS[type]}</span>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <div key={channel} className="flex justify-center">
+                      <Checkbox
+                        checked={draft.channels[type][channel]}
+                        onCheckedChange={(checked) => setChannel(type, channel, checked === true)}
+                        disabled={PLACEHOLDER_CHANNELS.includes(channel)}
+                        aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by ${CHANNEL_LABELS[channel]}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Push on this device</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {!pushSupported
+                      ? 'Not supported in this browser'
+                      : getPushPermission() === 'denied'
+                        ? 'Blocked — allow notifications in your browser settings'
+                        : 'Alerts while the app is closed'}
+                  </p>
+                </div>
+                <Switch
+                  checked={!!pushSubscription}
+                  onCheckedChange={handlePushToggle}
+                  disabled={!pushSupported || pushPending}
+                />
+              </div>
+              {pushSubscription && (
+                <Button variant="outline" size="sm" onClick={handleTestPush} disabled={sendTestPush.isPending}>
+                  <BellRing size={14} className="mr-2" />
+                  Send test notification
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Quiet hours</Label>
+                  <p className="text-xs text-muted-foreground">No push or SMS alerts (SAST)</p>
+                </div>
+                <Switch
+                  checked={draft.quiet_hours.enabled}
+                  onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, quiet_hours: { ...prev.quiet_hours, enabled } }))}
+                />
+              </div>
+              {draft.quiet_hours.enabled && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={draft.quiet_hours.start}
+                    onChange={(e) => setDraft(prev => ({ ...prev, quiet_hours: { ...prev.quiet_hours, start: e.target.value } }))}
+                    className="h-8"
+                    aria-label="Quiet hours start"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    value={draft.quiet_hours.end}
+                    onChange={(e) => setDraft(prev => ({ ...prev, quiet_hours: { ...prev.quiet_hours, end: e.target.value } }))}
+                    className="h-8"
+                    aria-label="Quiet hours end"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Daily digest</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {LOW_PRIORITY_TYPES.map(type => NOTIFICATION_TYPE_LABELS[type]).join(' and ')} in one summary
+                  </p>
+                </div>
+                <Switch
+                  checked={draft.digest.enabled}
+                  onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, digest: { ...prev.digest, enabled } }))}
+                />
+              </div>
+              {draft.digest.enabled && (
+                <Input
+                  type="time"
+                  value={draft.digest.time}
+                  onChange={(e) => setDraft(prev => ({ ...prev, digest: { ...prev.digest, time: e.target.value } }))}
+                  className="h-8"
+                  aria-label="Digest time"
+                />
+              )}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button className="w-full" onClick={handleSave} disabled={updatePreferences.isPending}>
+              {updatePreferences.isPending ? (
+                <Loader2 size={16} className="mr-2 animate-spin" />
+              ) : (
+                <Save size={16} className="mr-2" />
+              )}
+              Save Preferences
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
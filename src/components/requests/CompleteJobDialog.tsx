@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { ServiceRequest } from '@/types/service';
+import { getRequestAmount } from '@/lib/bookkeeping';
+
+interface CompleteJobDialogProps {
+  /** Request being completed; the dialog is open while this is set */
+  request: ServiceRequest | null;
+  onOpenChange: (open: boolean) => void;
+  isSubmitting?: boolean;
+  onConfirm: (withInvoice: boolean) => Promise<void>;
+}
+
+/**
+ * Confirms a job as completed and shows what will be booked as income
+ */
+const CompleteJobDialog: React.FC<CompleteJobDialogProps> = ({
+  request,
+  onOpenChange,
+  isSubmitting = false,
+  onConfirm
+}) => {
+  const [withInvoice, setWithInvoice] = useState(true);
+
+  useEffect(() => {
+    if (request) setWithInvoice(true);
+  }, [request]);
+
+  return (
+    <Dialog open={request !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Mark as completed</DialogTitle>
+          <DialogDescription>
+            {request && `"${request.service.title}" for ${request.customer.name} will be marked as completed.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/40 p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Pending income</span>
+                <span className="font-semibold">R{getRequestAmount(request).toFixed(2)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {request.agreed_price !== undefined ? 'From the accepted quote' : 'From your listed price'}
+                {' · added to your books'}
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`job-invoice-${request.id}`}>Create a draft invoice</Label>
+              <Switch id={`job-invoice-${request.id}`} checked={withInvoice} onCheckedChange={setWithInvoice} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button onClick={() => onConfirm(withInvoice)} disabled={isSubmitting}>
+            {isSubmitting
+              ? <Loader2 size={14} className="mr-1 animate-spin" />
+              : <CheckCircle size={14} className="mr-1" />}
+            Complete job
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompleteJobDialog;
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, CheckCheck, ImagePlus, Loader2, MessageSquare, Send, X } from 'lucide-react';
+import { MessageAttachment, ServiceRequest } from '@/types/service';
+import { MessageAttachmentData } from '@/lib/api';
+import { MAX_MESSAGE_ATTACHMENTS, MAX_MESSAGE_LENGTH, preparePhotoAttachment } from '@/lib/messaging';
+import { useMarkMessagesRead, useRequestMessages, useSendMessage } from '@/hooks/useMessageQueries';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface MessageThreadProps {
+  request: ServiceRequest;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-ZA', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * Conversation between the customer and provider on a request
+ */
+const MessageThread: React.FC<MessageThreadProps> = ({ request, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: messages = [], isLoading } = useRequestMessages(request.id, { enabled: open });
+  const sendMessage = useSendMessage();
+  const markRead = useMarkMessagesRead();
+  const [text, setText] = useState('');
+  const [photos, setPhotos] = useState<MessageAttachmentData[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [viewing, setViewing] = useState<MessageAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const otherParty = request.customer.id === user?.id ? request.provider : request.customer;
+  const hasUnread = messages.some(m => m.sender.id !== user?.id && !m.read_at);
+  const { mutate: markThreadRead } = markRead;
+
+  useEffect(() => {
+    if (open && hasUnread) markThreadRead(request.id);
+  }, [open, hasUnread, request.id, markThreadRead]);
+
+  useEffect(() => {
+    if (open) endRef.current?.scrollIntoView({ block: 'end' });
+  }, [open, messages.length]);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (photos.length + files.length > MAX_MESSAGE_ATTACHMENTS) {
+      toast({
+        title: 'Too many photos',
+        description: `You can attach up to ${MAX_MESSAGE_ATTACHMENTS} photos per message.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsPreparing(true);
+    try {
+      const prepared = await Promise.all(files.map(preparePhotoAttachment));
+      setPhotos(prev => [...prev, ...prepared]);
+    } catch (error) {
+      console.error('Error attaching photo:', error);
+      toast({
+        title: 'Photo not attached',
+        description: error instanceof Error ? error.message : 'Please try a different photo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const body = text.trim();
+    if (!body && photos.length === 0) return;
+
+    try {
+      await sendMessage.mutateAsync({
+        requestId: request.id,
+        message: { body, attachments: photos.length > 0 ? photos : undefined },
+      });
+      setText('');
+      setPhotos([]);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast({
+        title: 'Message not sent',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] flex flex-col gap-0 p-0 rounded-t-xl">
+        <SheetHeader className="p-4 border-b text-left">
+          <SheetTitle>{otherParty.name}</SheetTitle>
+          <SheetDescription className="truncate">{request.service.title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 size={24} className="animate-spin text-muted-foreground" />
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <MessageSquare size={40} className="mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No messages yet. Say hello to {otherParty.name}.</p>
+            </div>
+          ) : (
+            messages.map(message => {
+              const isOwn = message.sender.id === user?.id;
+              return (
+                <div key={message.id} className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}>
+                  <div
+                    className={cn(
+                      'max-w-[80%] rounded-2xl px-3 py-2 space-y-1',
+                      isOwn ? 'bg-primary text-primary-foreground rounded-br-sm' : 'bg-muted rounded-bl-sm'
+                    )}
+                  >
+                    {message.attachments.length > 0 && (
+                      <div className="grid grid-cols-2 gap-1">
+                        {message.attachments.map(attachment => (
+                          <button
+                            key={attachment.id}
+                            type="button"
+                            onClick={() => setViewing(attachment)}
+                            className={cn(message.attachments.length === 1 && 'col-span-2')}
+                          >
+                            <img
+                              src={attachment.url}
+                              alt={attachment.name}
+                              className="w-full h-24 object-cover rounded-lg"
+                            />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+                    <div
+                      className={cn(
+                        'flex items-center justify-end gap-1 text-[10px]',
+                        isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                      )}
+                    >
+                      <span>{formatTime(message.created_at)}</span>
+                      {isOwn && (message.read_at ? (
+                        <CheckCheck size={12} aria-label={`Read ${formatTime(message.read_at)}`} />
+                      ) : (
+                        <Check size={12} aria-label="Sent" />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={endRef} />
+        </div>
+
+        <div className="border-t p-3 space-y-2">
+          {photos.length > 0 && (
+            <div className="flex gap-2">
+              {photos.map((photo, index) => (
+                <div key={index} className="relative">
+                  <img src={photo.data_url} alt={photo.name} className="h-14 w-14 object-cover rounded-md" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-1.5 -right-1.5 rounded-full bg-foreground text-background p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-end gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isPreparing || photos.length >= MAX_MESSAGE_ATTACHMENTS}
+              aria-label="Attach photo"
+            >
+              {isPreparing ? <Loader2 size={18} className="animate-spin" /> : <ImagePlus size={18} />}
+            </Button>
+            <Textarea
+              placeholder="Type a message..."
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={handleKeyDown}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={1}
+              className="min-h-[40px] max-h-32 resize-none"
+            />
+            <Button
+              size="icon"
+              onClick={handleSend}
+              disabled={sendMessage.isPending || isPreparing || (!text.trim() && photos.length === 0)}
+              aria-label="Send message"
+            >
+              {sendMessage.isPending ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+            </Button>
+          </div>
+        </div>
+
+        <Dialog open={viewing !== null} onOpenChange={(isOpen) => !isOpen && setViewing(null)}>
+          <DialogContent className="max-w-lg p-2">
+            <DialogTitle className="sr-only">{viewing?.name}</DialogTitle>
+            {viewing && <img src={viewing.url} alt={viewing.name} className="w-full rounded-md" />}
+          </DialogContent>
+        </Dialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MessageThread;
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hammer, Loader2, Package, Trash2 } from 'lucide-react';
+import { QuoteLineItem, QuoteLineItemType } from '@/types/service';
+import { QuoteData } from '@/lib/api';
+import { VAT_RATE, calculateQuoteTotals, dateFromToday, getVatChargeError, validateQuote } from '@/lib/quotes';
+
+interface QuoteFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  /** Values the form starts from each time it opens */
+  initial: QuoteData;
+  submitLabel: string;
+  /** Providers decide whether to add VAT; a customer's counter keeps what was quoted */
+  canEditVat: boolean;
+  /** The provider's VAT number, without which VAT can't be added */
+  vatNumber?: string;
+  isSubmitting?: boolean;
+  onSubmit: (quote: QuoteData) => Promise<void>;
+}
+
+// Numbers are edited as text so fields can be cleared while typing
+interface LineItemDraft {
+  description: string;
+  type: QuoteLineItemType;
+  quantity: string;
+  unit_price: string;
+}
+
+const toDraft = (item: QuoteLineItem): LineItemDraft => ({
+  description: item.description,
+  type: item.type,
+  quantity: String(item.quantity),
+  unit_price: String(item.unit_price),
+});
+
+const fromDraft = (item: LineItemDraft): QuoteLineItem => ({
+  description: item.description.trim(),
+  type: item.type,
+  quantity: Number(item.quantity),
+  unit_price: Number(item.unit_price),
+});
+
+const NEW_ITEMS: Record<QuoteLineItemType, LineItemDraft> = {
+  labour: { description: 'Labour', type: 'labour', quantity: '1', unit_price: '' },
+  materials: { description: '', type: 'materials', quantity: '1', unit_price: '' },
+};
+
+/**
+ * Line-item quote editor used for quotes, revisions and counter-offers
+ */
+const QuoteFormDialog: React.FC<QuoteFormDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  initial,
+  submitLabel,
+  canEditVat,
+  vatNumber,
+  isSubmitting = false,
+  onSubmit
+}) => {
+  const [items, setItems] = useState<LineItemDraft[]>([]);
+  const [includeVat, setIncludeVat] = useState(false);
+  const [validUntil, setValidUntil] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setItems(initial.line_items.length > 0 ? initial.line_items.map(toDraft) : [{ ...NEW_ITEMS.labour }]);
+      setIncludeVat(initial.vat_rate > 0);
+      setValidUntil(initial.valid_until);
+      setNotes(initial.notes ?? '');
+      setError('');
+    }
+  }, [open, initial]);
+
+  const quote: QuoteData = {
+    line_items: items.map(fromDraft),
+    vat_rate: includeVat ? VAT_RATE : 0,
+    valid_until: validUntil,
+    notes: notes.trim() || undefined,
+  };
+  const totals = calculateQuoteTotals(
+    quote.line_items.filter(item => Number.isFinite(item.quantity) && Number.isFinite(item.unit_price)),
+    quote.vat_rate
+  );
+
+  const updateItem = (index: number, changes: Partial<LineItemDraft>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateQuote(quote) ?? (canEditVat ? getVatChargeError(quote.vat_rate, vatNumber) : null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+    await onSubmit(quote);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3">
+            {items.map((item, index) => (
+              <div key={index} className="rounded-lg border p-3 space-y-2">
+                <div className="flex gap-2">
+                  <Select
+                    value={item.type}
+                    onValueChange={(value) => updateItem(index, { type: value as QuoteLineItemType })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="labour">Labour</SelectItem>
+                      <SelectItem value="materials">Materials</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={item.type === 'labour' ? 'e.g. Call-out and repairs' : 'e.g. 15mm copper pipe'}
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                    maxLength={120}
+                    aria-label="Description"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="shrink-0"
+                    onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove line item"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-xs text-muted-foreground">
+                      {item.type === 'labour' ? 'Hours' : 'Quantity'}
+                    </Label>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.5"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs text-muted-foreground">
+                      {item.type === 'labour' ? 'Rate (R/hour)' : 'Unit price (R)'}
+                    </Label>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.01"
+                      value={item.unit_price}
+                      onChange={(e) => updateItem(index, { unit_price: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setItems(prev => [...prev, { ...NEW_ITEMS.labour }])}
+              >
+                <Hammer size={14} className="mr-1" />
+                Add Labour
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() => setItems(prev => [...prev, { ...NEW_ITEMS.materials }])}
+              >
+                <Package size={14} className="mr-1" />
+                Add Materials
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="quote-vat">Add VAT (15%)</Label>
+            <Switch
+              id="quote-vat"
+              checked={includeVat}
+              onCheckedChange={setIncludeVat}
+              disabled={!canEditVat || (!vatNumber && !includeVat)}
+            />
+          </div>
+          {canEditVat && !vatNumber && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              Add your VAT number to your business details in Bookkeeping to charge VAT.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="quote-valid-until">Valid until</Label>
+            <Input
+              id="quote-valid-until"
+              type="date"
+              min={dateFromToday(0)}
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="quote-notes">Notes (optional)</Label>
+            <Textarea
+              id="quote-notes"
+              placeholder="Exclusions, payment terms, warranty..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Labour</span>
+              <span>R{totals.labour_total.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Materials</span>
+              <span>R{totals.materials_total.toFixed(2)}</span>
+            </div>
+            {includeVat && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">VAT (15%)</span>
+                <span>R{totals.vat_amount.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-1 font-semibold">
+              <span>Total</span>
+              <span className="text-primary">R{totals.total.toFixed(2)}</span>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 size={14} className="mr-1 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteFormDialog;
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, ChevronDown, FileText, Repeat, XCircle } from 'lucide-react';
+import { Quote, ServiceRequest } from '@/types/service';
+import { QuoteData } from '@/lib/api';
+import { RequestRole } from '@/lib/requestStatus';
+import {
+  QUOTE_STATUS_COLORS,
+  QUOTE_STATUS_LABELS,
+  QuoteResponseAction,
+  canSendQuote,
+  getLatestQuote,
+  getOpenQuote,
+  getQuoteDisplayStatus,
+  lineItemAmount,
+  toQuoteData
+} from '@/lib/quotes';
+import { useCreateQuote, useRespondToQuote } from '@/hooks/useRequestQueries';
+import { useBusinessProfile } from '@/hooks/useBookkeepingQueries';
+import { useToast } from '@/hooks/use-toast';
+import QuoteFormDialog from './QuoteFormDialog';
+
+interface RequestQuotesProps {
+  request: ServiceRequest;
+  role: RequestRole | null;
+}
+
+type QuoteForm = { mode: 'quote' } | { mode: 'counter'; quote: Quote };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const QuoteSummary: React.FC<{ quote: Quote }> = ({ quote }) => {
+  const status = getQuoteDisplayStatus(quote);
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">
+          {quote.parent_id ? 'Counter-offer' : 'Quote'} from {quote.author.name}
+        </span>
+        <Badge className={`text-xs ${QUOTE_STATUS_COLORS[status]}`}>{QUOTE_STATUS_LABELS[status]}</Badge>
+      </div>
+
+      <ul className="space-y-1">
+        {quote.line_items.map((item, index) => (
+          <li key={index} className="flex justify-between gap-2">
+            <span className="text-foreground">
+              {item.description}
+              <span className="text-muted-foreground"> · {item.quantity} × R{item.unit_price.toFixed(2)}</span>
+            </span>
+            <span>R{lineItemAmount(item).toFixed(2)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t pt-1 space-y-0.5">
+        <div className="flex justify-between text-muted-foreground">
+          <span>Labour / Materials</span>
+          <span>R{quote.labour_total.toFixed(2)} / R{quote.materials_total.toFixed(2)}</span>
+        </div>
+        {quote.vat_rate > 0 && (
+          <div className="flex justify-between text-muted-foreground">
+            <span>VAT ({Math.round(quote.vat_rate * 100)}%)</span>
+            <span>R{quote.vat_amount.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span className="text-primary">R{quote.total.toFixed(2)}</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">Valid until {formatDate(quote.valid_until)}</p>
+      {quote.notes && <p className="text-xs text-foreground/80 italic">"{quote.notes}"</p>}
+    </div>
+  );
+};
+
+/**
+ * A request's quotes, with the actions the current user can take on them
+ */
+const RequestQuotes: React.FC<RequestQuotesProps> = ({ request, role }) => {
+  const { toast } = useToast();
+  const createQuote = useCreateQuote();
+  const respondToQuote = useRespondToQuote();
+  // The provider's own business details say whether they may charge VAT
+  const { data: businessProfile = null } = useBusinessProfile();
+  const [form, setForm] = useState<QuoteForm | null>(null);
+  // Captured when the form opens so the dialog isn't reset while editing
+  const [formInitial, setFormInitial] = useState<QuoteData>(() => toQuoteData());
+
+  const quotes = request.quotes ?? [];
+  const latest = getLatestQuote(request);
+  const openQuote = getOpenQuote(request);
+  const canRespond = !!openQuote && role !== null && openQuote.author.role !== role;
+  const canQuote = canSendQuote(request, role);
+  const isBusy = createQuote.isPending || respondToQuote.isPending;
+
+  if (quotes.length === 0 && !canQuote) return null;
+
+  const openForm = (next: QuoteForm) => {
+    setFormInitial(toQuoteData(next.mode === 'counter' ? next.quote : latest));
+    setForm(next);
+  };
+
+  const handleError = (error: unknown) => {
+    console.error('Error updating quote:', error);
+    toast({
+      title: 'Error updating quote',
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleSubmit = async (quote: QuoteData) => {
+    try {
+      if (form?.mode === 'counter') {
+        await respondToQuote.mutateAsync({ request, quote: form.quote, response: { action: 'counter', counter: quote } });
+        toast({
+          title: 'Counter-offer sent',
+          description: `${form.quote.author.name} can accept, reject or counter it.`,
+        });
+      } else {
+        await createQuote.mutateAsync({ request, quote });
+        toast({ title: 'Quote sent', description: `${request.customer.name} has been sent your quote.` });
+      }
+      setForm(null);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleRespond = async (action: Exclude<QuoteResponseAction, 'counter'>) => {
+    if (!openQuote) return;
+    try {
+      await respondToQuote.mutateAsync({ request, quote: openQuote, response: { action } });
+      toast({
+        title: action === 'accept' ? 'Quote accepted' : 'Quote rejected',
+        description: action === 'accept'
+          ? `R${openQuote.total.toFixed(2)} is now the agreed price.`
+          : 'The request has been declined.',
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const earlier = quotes.slice(0, -1).reverse();
+
+  return (
+    <div className="rounded-lg border bg-muted/20 p-3 space-y-3">
+      <div className="flex items-center gap-1 text-sm font-medium text-foreground">
+        <FileText size={14} />
+        Quote
+      </div>
+
+      {latest ? (
+        <QuoteSummary quote={latest} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Send {request.customer.name} a quote with your labour and materials.
+        </p>
+      )}
+
+      {canRespond && (
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" disabled={isBusy} onClick={() => handleRespond('accept')}>
+            <CheckCircle size={14} className="mr-1" />
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            disabled={isBusy}
+            onClick={() => openForm({ mode: 'counter', quote: openQuote })}
+          >
+            <Repeat size={14} className="mr-1" />
+            Counter
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            className="flex-1"
+            disabled={isBusy}
+            onClick={() => handleRespond('reject')}
+          >
+            <XCircle size={14} className="mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+
+      {canQuote && (
+        <Button size="sm" className="w-full" disabled={isBusy} onClick={() => openForm({ mode: 'quote' })}>
+          <FileText size={14} className="mr-1" />
+          {latest ? 'Revise Quote' : 'Send Quote'}
+        </Button>
+      )}
+
+      {earlier.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button size="sm" variant="ghost" className="w-full group">
+              {earlier.length} earlier {earlier.length === 1 ? 'offer' : 'offers'}
+              <ChevronDown size={14} className="ml-1 transition-transform group-data-[state=open]:rotate-180" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-3 pt-2">
+            {earlier.map(quote => (
+              <div key={quote.id} className="border-t pt-3 opacity-80">
+                <QuoteSummary quote={quote} />
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      <QuoteFormDialog
+        open={form !== null}
+        onOpenChange={(open) => !open && setForm(null)}
+        title={form?.mode === 'counter' ? 'Counter-offer' : latest ? 'Revise Quote' : 'Send Quote'}
+        description={form?.mode === 'counter'
+          ? `Adjust the lines you want to change. ${form.quote.author.name} can accept, reject or counter again.`
+          : `For "${request.service.title}"`}
+        initial={formInitial}
+        submitLabel={form?.mode === 'counter' ? 'Send Counter-offer' : 'Send Quote'}
+        canEditVat={role === 'provider'}
+        vatNumber={role === 'provider' ? businessProfile?.vat_number : undefined}
+        isSubmitting={isBusy}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+};
+
+export default RequestQuotes;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, CheckCircle, Loader2, Play, XCircle } from 'lucide-react';
+import { RequestStatus, ServiceRequest } from '@/types/service';
+import {
+  NOTE_REQUIRED,
+  RequestRole,
+  STATUS_LABELS,
+  TRANSITION_ACTIONS,
+  getAllowedTransitions,
+  isQuoteTransition
+} from '@/lib/requestStatus';
+
+interface RequestStatusActionsProps {
+  request: ServiceRequest;
+  role: RequestRole | null;
+  onChangeStatus: (status: RequestStatus, note?: string) => Promise<void>;
+  isUpdating?: boolean;
+  /** Statuses handled elsewhere (e.g. by a dedicated form) */
+  exclude?: RequestStatus[];
+}
+
+// Changes that end or escalate a job are confirmed, with room for a reason
+const CONFIRMED: RequestStatus[] = ['declined', 'cancelled', 'disputed'];
+
+const ACTION_ICONS: Partial<Record<RequestStatus, React.ReactNode>> = {
+  accepted: <CheckCircle size={14} className="mr-1" />,
+  completed: <CheckCircle size={14} className="mr-1" />,
+  in_progress: <Play size={14} className="mr-1" />,
+  declined: <XCircle size={14} className="mr-1" />,
+  cancelled: <XCircle size={14} className="mr-1" />,
+  disputed: <AlertTriangle size={14} className="mr-1" />,
+};
+
+/**
+ * Buttons for the status changes the current user may make on a request
+ */
+const RequestStatusActions: React.FC<RequestStatusActionsProps> = ({
+  request,
+  role,
+  onChangeStatus,
+  isUpdating = false,
+  exclude = []
+}) => {
+  const [pendingStatus, setPendingStatus] = useState<RequestStatus | null>(null);
+  const [note, setNote] = useState('');
+
+  // Quoting has its own controls (RequestQuotes)
+  const transitions = getAllowedTransitions(request.status, role)
+    .filter(status => !exclude.includes(status) && !isQuoteTransition(request.status, status));
+  if (transitions.length === 0) return null;
+
+  const noteRequired = pendingStatus !== null && NOTE_REQUIRED.includes(pendingStatus);
+
+  const handleClick = (status: RequestStatus) => {
+    if (CONFIRMED.includes(status)) {
+      setNote('');
+      setPendingStatus(status);
+    } else {
+      onChangeStatus(status);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingStatus) return;
+    await onChangeStatus(pendingStatus, note.trim() || undefined);
+    setPendingStatus(null);
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        {transitions.map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={CONFIRMED.includes(status) ? 'destructive' : 'default'}
+            className="flex-1"
+            disabled={isUpdating}
+            onClick={() => handleClick(status)}
+          >
+            {ACTION_ICONS[status]}
+            {TRANSITION_ACTIONS[status]}
+          </Button>
+        ))}
+      </div>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && setPendingStatus(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{pendingStatus && TRANSITION_ACTIONS[pendingStatus]}</DialogTitle>
+            <DialogDescription>
+              {pendingStatus && `"${request.service.title}" will be marked as ${STATUS_LABELS[pendingStatus].toLowerCase()}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`status-note-${request.id}`}>
+              {noteRequired ? 'What went wrong?' : 'Reason (optional)'}
+            </Label>
+            <Textarea
+              id={`status-note-${request.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setPendingStatus(null)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirm}
+              disabled={isUpdating || (noteRequired && !note.trim())}
+            >
+              {isUpdating && <Loader2 size={14} className="mr-1 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RequestStatusActions;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { RequestStatusChange, ServiceRequest } from '@/types/service';
+import { STATUS_LABELS } from '@/lib/requestStatus';
+import { cn } from '@/lib/utils';
+
+interface RequestTimelineProps {
+  request: ServiceRequest;
+  className?: string;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-ZA', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * History of a request's status changes, oldest first
+ */
+const RequestTimeline: React.FC<RequestTimelineProps> = ({ request, className }) => {
+  // Requests created before history was recorded only know when they were made
+  const history: RequestStatusChange[] = request.status_history?.length
+    ? request.status_history
+    : [{
+      from: null,
+      to: 'pending',
+      changed_by: { ...request.customer, role: 'customer' },
+      changed_at: request.created_at
+    }];
+
+  return (
+    <ol className={cn('relative border-l border-muted pl-4 space-y-3', className)}>
+      {history.map((change, index) => {
+        const isLatest = index === history.length - 1;
+        return (
+          <li key={`${change.to}-${change.changed_at}`} className="relative">
+            <span
+              className={cn(
+                'absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full border-2 border-background',
+                isLatest ? 'bg-primary' : 'bg-muted-foreground/40'
+              )}
+            />
+            <p className="text-sm font-medium text-foreground">
+              {change.from === null ? 'Requested' : STATUS_LABELS[change.to]}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {change.changed_by.name} ({change.changed_by.role}) · {formatDateTime(change.changed_at)}
+            </p>
+            {change.note && (
+              <p className="text-xs text-foreground/80 mt-1 italic">"{change.note}"</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default RequestTimeline;
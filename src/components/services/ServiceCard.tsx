@@ -5,17 +5,21 @@ import { Button } from '@/components/ui/button';
 import { Star, MapPin, Clock, Shield } from 'lucide-react';
 import { Service } from '@/types/service';
 import { cn } from '@/lib/utils';
+import { formatDistance } from '@/lib/geo';
 
 interface ServiceCardProps {
   service: Service;
   onSelect?: (service: Service) => void;
   compact?: boolean;
+  /** Distance from the user in km, when known */
+  distanceKm?: number;
 }
 
 const ServiceCard: React.FC<ServiceCardProps> = ({ 
   service, 
   onSelect, 
-  compact = false 
+  compact = false,
+  distanceKm
 }) => {
   const handleSelect = () => {
     onSelect?.(service);
@@ -121,6 +125,9 @@ const ServiceCard: React.FC<ServiceCardProps> = ({
           <div className="flex items-center gap-1">
             <MapPin size={12} />
             <span className="truncate">{service.location}</span>
+            {distanceKm !== undefined && (
+              <span className="shrink-0 font-medium text-foreground">· {formatDistance(distanceKm)}</span>
+            )}
           </div>
           <div className="flex items-center gap-1">
             <Clock size={12} />
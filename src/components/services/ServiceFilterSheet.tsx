@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, LocateFixed, Shield, Star } from 'lucide-react';
+import { ServiceCategory } from '@/types/service';
+import { LocationSource } from '@/hooks/useUserLocation';
+import {
+  DEFAULT_SERVICE_FILTERS,
+  PRICE_TYPES,
+  RADIUS_OPTIONS,
+  SORT_OPTIONS,
+  ServiceSearchFilters
+} from '@/lib/serviceFilters';
+
+interface ServiceFilterSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: ServiceSearchFilters;
+  categories: ServiceCategory[];
+  onApply: (filters: ServiceSearchFilters) => void;
+  /** Where "near me" distances are measured from, if known */
+  locationSource: LocationSource | null;
+  isLocating: boolean;
+  onLocate: () => void;
+}
+
+const ALL = 'all';
+const RATING_OPTIONS = [3, 3.5, 4, 4.5];
+
+const formatPriceType = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+const parseAmountInput = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const ServiceFilterSheet: React.FC<ServiceFilterSheetProps> = ({
+  open,
+  onOpenChange,
+  filters,
+  categories,
+  onApply,
+  locationSource,
+  isLocating,
+  onLocate
+}) => {
+  // Edits are kept as a draft until applied so the results don't reload on every keystroke
+  const [draft, setDraft] = useState<ServiceSearchFilters>(filters);
+  const [priceError, setPriceError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setDraft(filters);
+      setPriceError('');
+    }
+  }, [open, filters]);
+
+  const update = (changes: Partial<ServiceSearchFilters>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleRadiusChange = (value: string) => {
+    update({ radiusKm: value ? Number(value) : undefined });
+    // Picking a radius is the gesture that asks for the device position
+    if (value && locationSource !== 'device' && !isLocating) {
+      onLocate();
+    }
+  };
+
+  const handleApply = () => {
+    if (draft.minPrice !== undefined && draft.maxPrice !== undefined && draft.minPrice > draft.maxPrice) {
+      setPriceError('Minimum price cannot be more than maximum price');
+      return;
+    }
+    onApply(draft);
+    onOpenChange(false);
+  };
+
+  const handleClear = () => {
+    // Clearing keeps the search term; it is edited in the search box
+    setDraft({ ...DEFAULT_SERVICE_FILTERS, search: filters.search });
+    setPriceError('');
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto rounded-t-xl">
+        <div className="max-w-md mx-auto space-y-6">
+          <SheetHeader>
+            <SheetTitle>Filter Services</SheetTitle>
+            <SheetDescription>Narrow down services by price, rating and provider.</SheetDescription>
+          </SheetHeader>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={draft.category || ALL}
+              onValueChange={(value) => update({ category: value === ALL ? '' : value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pricing</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={draft.priceType}
+              onValueChange={(value) => update({ priceType: value as ServiceSearchFilters['priceType'] })}
+            >
+              {PRICE_TYPES.map((type) => (
+                <ToggleGroupItem key={type} value={type} size="sm">
+                  {formatPriceType(type)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Price range (R)</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                placeholder="Min"
+                aria-label="Minimum price"
+                value={draft.minPrice ?? ''}
+                onChange={(e) => update({ minPrice: parseAmountInput(e.target.value) })}
+              />
+              <Input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                placeholder="Max"
+                aria-label="Maximum price"
+                value={draft.maxPrice ?? ''}
+                onChange={(e) => update({ maxPrice: parseAmountInput(e.target.value) })}
+              />
+            </div>
+            {priceError && <p className="text-sm text-destructive">{priceError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Minimum rating</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={draft.minRating?.toString() ?? ''}
+              onValueChange={(value) => update({ minRating: value ? Number(value) : undefined })}
+            >
+              {RATING_OPTIONS.map((rating) => (
+                <ToggleGroupItem key={rating} value={rating.toString()} size="sm">
+                  <Star size={12} className="mr-1 fill-yellow-400 text-yellow-400" />
+                  {rating}+
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Distance from me</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start flex-wrap"
+              value={draft.radiusKm?.toString() ?? ''}
+              onValueChange={handleRadiusChange}
+            >
+              {RADIUS_OPTIONS.map((radius) => (
+                <ToggleGroupItem key={radius} value={radius.toString()} size="sm">
+                  {radius} km
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {draft.radiusKm !== undefined && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                {isLocating ? (
+                  <>
+                    <Loader2 size={12} className="animate-spin" />
+                    Finding your location...
+                  </>
+                ) : locationSource === 'device' ? (
+                  <>
+                    <LocateFixed size={12} />
+                    Measured from your current location
+                  </>
+                ) : locationSource === 'profile' ? (
+                  'Measured from your profile location'
+                ) : (
+                  'Share your location or add one to your profile to search nearby'
+                )}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="verified-only" className="flex items-center gap-2">
+              <Shield size={16} className="text-primary" />
+              Verified providers only
+            </Label>
+            <Switch
+              id="verified-only"
+              checked={draft.verifiedOnly}
+              onCheckedChange={(checked) => update({ verifiedOnly: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sort by</Label>
+            <Select
+              value={draft.sort}
+              onValueChange={(value) => update({ sort: value as ServiceSearchFilters['sort'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <SheetFooter className="flex-row gap-2 sm:space-x-0">
+            <Button variant="outline" className="flex-1" onClick={handleClear}>
+              Clear All
+            </Button>
+            <Button className="flex-1 bg-gradient-primary" onClick={handleApply}>
+              Show Results
+            </Button>
+          </SheetFooter>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ServiceFilterSheet;
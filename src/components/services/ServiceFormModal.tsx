@@ -8,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Service, ServiceCategory } from '@/types/service';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import LocationInput from '@/components/location/LocationInput';
+import { resolveLocation } from '@/lib/gazetteer';
 
 interface ServiceFormModalProps {
   isOpen: boolean;
@@ -103,6 +105,7 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
 
     const serviceData = {
       ...formData,
+      location_details: resolveLocation(formData.location) ?? undefined,
       price: Number(formData.price),
       images: [] // For now, no image upload
     };
@@ -181,11 +184,10 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
 
           <div className="space-y-2">
             <Label htmlFor="location">Service Location *</Label>
-            <Input
+            <LocationInput
               id="location"
               value={formData.location}
-              onChange={(e) => handleInputChange('location', e.target.value)}
-              placeholder="e.g., Cape Town, Western Cape"
+              onChange={(value) => handleInputChange('location', value)}
               className={errors.location ? 'border-red-500' : ''}
             />
             {errors.location && (
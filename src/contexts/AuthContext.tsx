@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api';
+import { clearOfflineCache } from '@/lib/offlineCache';
 import { User } from '@/types/service';
 import { useDemoMode } from '@/contexts/DemoContext';
 
@@ -31,6 +33,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { isDemoMode, demoUser } = useDemoMode();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Check for stored authentication tokens
@@ -71,6 +74,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     // Handle token expiration
     const handleTokenExpiration = () => {
+      queryClient.clear();
       setUser(null);
       setIsLoading(false);
     };
@@ -83,7 +87,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => {
       window.removeEventListener('tokenExpired', handleTokenExpiration);
     };
-  }, []);
+  }, [queryClient]);
 
   const login = async (email: string, password: string): Promise<void> => {
     setIsLoading(true);
@@ -150,6 +154,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = (): void => {
     localStorage.removeItem('sa_services_user');
     apiClient.clearTokens();
+    // Cached queries belong to the previous user
+    queryClient.clear();
+    clearOfflineCache();
     setUser(null);
   };
 
@@ -1,9 +1,16 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Service, ServiceRequest, User, ServiceCategory } from '@/types/service';
+import { apiClient, httpTransport } from '@/lib/api';
+import { HttpTransport } from '@/lib/transport';
+import { createMockServer, MockServer } from '@/lib/mock';
+import { localPushSender } from '@/lib/push';
+import { localMailTransport } from '@/lib/mail';
 
 interface DemoContextType {
   isDemoMode: boolean;
   setDemoMode: (enabled: boolean) => void;
+  resetDemoData: () => void;
   demoServices: Service[];
   demoRequests: ServiceRequest[];
   demoUser: User;
@@ -50,7 +57,8 @@ const mockProviders: User[] = [
     email: 'sarah@example.com',
     role: 'provider',
     phone: '+27987654321',
-    location: 'Johannesburg, South Africa',
+    location: 'Sandton, Johannesburg',
+    location_details: { province: 'GP', city: 'Johannesburg', suburb: 'Sandton', lat: -26.1076, lng: 28.0567 },
     rating: 4.8,
     is_verified: true,
     is_active: true,
@@ -63,7 +71,8 @@ const mockProviders: User[] = [
     email: 'mike@example.com',
     role: 'provider',
     phone: '+27123456789',
-    location: 'Cape Town, South Africa',
+    location: 'Claremont, Cape Town',
+    location_details: { province: 'WC', city: 'Cape Town', suburb: 'Claremont', lat: -33.981, lng: 18.465 },
     rating: 4.6,
     is_verified: true,
     is_active: true,
@@ -79,7 +88,8 @@ const mockDemoServices: Service[] = [
     description: 'Complete house cleaning service including deep cleaning, window cleaning, and organization.',
     category: mockCategories[0],
     provider: mockProviders[0],
-    location: 'Johannesburg, South Africa',
+    location: 'Sandton, Johannesburg',
+    location_details: { province: 'GP', city: 'Johannesburg', suburb: 'Sandton', lat: -26.1076, lng: 28.0567 },
     price: 250.00,
     price_type: 'fixed',
     images: ['https://images.unsplash.com/photo-1581578731548-c64695cc6952?w=800'],
@@ -95,7 +105,8 @@ const mockDemoServices: Service[] = [
     description: 'Professional garden care including lawn mowing, trimming, and landscaping.',
     category: mockCategories[1],
     provider: mockProviders[1],
-    location: 'Cape Town, South Africa',
+    location: 'Claremont, Cape Town',
+    location_details: { province: 'WC', city: 'Cape Town', suburb: 'Claremont', lat: -33.981, lng: 18.465 },
     price: 180.00,
     price_type: 'hourly',
     images: ['https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=800'],
@@ -111,7 +122,8 @@ const mockDemoServices: Service[] = [
     description: 'Expert plumbing services for all your home needs.',
     category: mockCategories[0],
     provider: mockProviders[0],
-    location: 'Johannesburg, South Africa',
+    location: 'Randburg, Johannesburg',
+    location_details: { province: 'GP', city: 'Johannesburg', suburb: 'Randburg', lat: -26.0941, lng: 28.0012 },
     price: 300.00,
     price_type: 'fixed',
     images: ['https://images.unsplash.com/photo-1607472586893-edb57bdc0e39?w=800'],
@@ -144,6 +156,14 @@ const mockDemoRequests: ServiceRequest[] = [
       name: 'Sarah Wilson'
     },
     status: 'pending',
+    status_history: [
+      {
+        from: null,
+        to: 'pending',
+        changed_by: { id: 'user-123', name: 'John Doe', role: 'customer' },
+        changed_at: '2024-01-01T00:00:00Z'
+      }
+    ],
     message: 'I need cleaning for my 3-bedroom house',
     requested_date: '2024-01-15',
     estimated_duration: 4,
@@ -170,6 +190,20 @@ const mockDemoRequests: ServiceRequest[] = [
       name: 'Mike Thompson'
     },
     status: 'accepted',
+    status_history: [
+      {
+        from: null,
+        to: 'pending',
+        changed_by: { id: 'user-123', name: 'John Doe', role: 'customer' },
+        changed_at: '2024-01-02T00:00:00Z'
+      },
+      {
+        from: 'pending',
+        to: 'accepted',
+        changed_by: { id: 'user-789', name: 'Mike Thompson', role: 'provider' },
+        changed_at: '2024-01-03T00:00:00Z'
+      }
+    ],
     message: 'Need weekly garden maintenance',
     requested_date: '2024-01-20',
     estimated_duration: 2,
@@ -184,7 +218,8 @@ const mockDemoUser: User = {
   email: 'demo@linklocal.co.za',
   role: 'provider',
   phone: '+27123456789',
-  location: 'Cape Town, South Africa',
+  location: 'Sea Point, Cape Town',
+  location_details: { province: 'WC', city: 'Cape Town', suburb: 'Sea Point', lat: -33.9156, lng: 18.389 },
   rating: 4.5,
   is_verified: true,
   is_active: true,
@@ -192,20 +227,69 @@ const mockDemoUser: User = {
   updated_at: '2024-01-01T00:00:00Z'
 };
 
+const DEMO_MODE_KEY = 'sa_services_demo_mode';
+
+// Mock backend is created on first use so its store is only seeded when demo mode is entered
+let mockServer: MockServer | null = null;
+let demoTransport: HttpTransport | null = null;
+
+const getDemoTransport = (): HttpTransport => {
+  if (!demoTransport) {
+    mockServer = createMockServer({
+      seed: {
+        users: [mockDemoUser, ...mockProviders],
+        categories: mockCategories,
+        services: mockDemoServices,
+        requests: mockDemoRequests
+      },
+      defaultUserId: mockDemoUser.id,
+      pushSender: localPushSender,
+      mailTransport: localMailTransport
+    });
+    demoTransport = new HttpTransport(undefined, mockServer.fetch);
+  }
+  return demoTransport;
+};
+
+const applyDemoTransport = (enabled: boolean) => {
+  apiClient.setTransport(enabled ? getDemoTransport() : httpTransport);
+};
+
 interface DemoProviderProps {
   children: ReactNode;
 }
 
 export const DemoProvider: React.FC<DemoProviderProps> = ({ children }) => {
-  const [isDemoMode, setIsDemoMode] = useState(false);
+  const [isDemoMode, setIsDemoMode] = useState(() => {
+    const enabled = localStorage.getItem(DEMO_MODE_KEY) === 'true';
+    applyDemoTransport(enabled);
+    return enabled;
+  });
+
+  const queryClient = useQueryClient();
 
   const setDemoMode = (enabled: boolean) => {
+    // Switch the API transport before re-rendering so pages fetch from the right backend
+    applyDemoTransport(enabled);
+    // Cached data belongs to the backend we are leaving
+    queryClient.clear();
+    if (enabled) {
+      localStorage.setItem(DEMO_MODE_KEY, 'true');
+    } else {
+      localStorage.removeItem(DEMO_MODE_KEY);
+    }
     setIsDemoMode(enabled);
   };
 
+  const resetDemoData = () => {
+    getDemoTransport();
+    mockServer?.store.reset();
+  };
+
   const value: DemoContextType = {
     isDemoMode,
     setDemoMode,
+    resetDemoData,
     demoServices: mockDemoServices,
     demoRequests: mockDemoRequests,
     demoUser: mockDemoUser
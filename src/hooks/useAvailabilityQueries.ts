@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, AvailabilityData, SlotQueryParams, unwrapResponse } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { validateAvailability } from '@/lib/availability';
+import { downloadCalendarFile } from '@/lib/icalendar';
+
+export function useProviderAvailability(providerId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.availability.provider(providerId ?? ''),
+    queryFn: async () => unwrapResponse(await apiClient.getProviderAvailability(providerId!)),
+    enabled: !!providerId,
+  });
+}
+
+export function useUpdateAvailability() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ providerId, availability }: { providerId: string; availability: AvailabilityData }) => {
+      const error = validateAvailability(availability);
+      if (error) throw new Error(error);
+      return unwrapResponse(await apiClient.updateProviderAvailability(providerId, availability));
+    },
+    // Hours and slot lengths change the free slots as well
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.availability.all }),
+  });
+}
+
+/**
+ * Free slots for a provider's service, one entry per day
+ */
+export function useAvailableSlots(
+  providerId: string | undefined,
+  params: SlotQueryParams = {},
+  options: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.availability.slots(providerId ?? '', params),
+    queryFn: async () => unwrapResponse(await apiClient.getAvailableSlots(providerId!, params)),
+    enabled: !!providerId && (options.enabled ?? true),
+  });
+}
+
+/**
+ * Fetch the provider's job feed and save it as an .ics file
+ */
+export function useExportProviderCalendar() {
+  return useMutation({
+    mutationFn: async (providerId: string) => {
+      const file = unwrapResponse(await apiClient.getProviderCalendar(providerId));
+      downloadCalendarFile(file);
+      return file;
+    },
+  });
+}
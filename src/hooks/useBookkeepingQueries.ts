@@ -0,0 +1,267 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BusinessProfileData, InvoiceData, InvoicePaymentData, SendInvoiceData, TransactionData } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  LedgerRepository,
+  recordCompletedJob,
+  recordInvoicePayment,
+  resolveLedgerRepository,
+  validateBusinessProfile,
+  validateInvoiceData,
+  validateTransactionData
+} from '@/lib/bookkeeping';
+import { StatementImportItem, importStatementLines } from '@/lib/bankImport';
+import { ReceiptData, deleteReceipt, listReceipts, saveReceipt } from '@/lib/receipts';
+import { ServiceRequest } from '@/types/service';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Where the signed-in user's books are kept, worked out once per session
+ */
+export function useLedgerRepository() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.bookkeeping.repository(user?.id ?? ''),
+    queryFn: () => resolveLedgerRepository(user!.id),
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+}
+
+const requireRepository = (repository: LedgerRepository | undefined): LedgerRepository => {
+  if (!repository) throw new Error('Your books are still loading. Please try again.');
+  return repository;
+};
+
+export function useTransactions() {
+  const { data: repository } = useLedgerRepository();
+
+  return useQuery({
+    queryKey: queryKeys.bookkeeping.transactions,
+    queryFn: () => requireRepository(repository).listTransactions(),
+    enabled: !!repository,
+  });
+}
+
+export function useInvoices() {
+  const { data: repository } = useLedgerRepository();
+
+  return useQuery({
+    queryKey: queryKeys.bookkeeping.invoices,
+    queryFn: () => requireRepository(repository).listInvoices(),
+    enabled: !!repository,
+  });
+}
+
+/**
+ * Record a transaction; offline against the backend it is queued and comes
+ * back marked pending_sync
+ */
+export function useCreateTransaction() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (transactionData: TransactionData) => {
+      const error = validateTransactionData(transactionData);
+      if (error) throw new Error(error);
+      return requireRepository(repository).createTransaction(transactionData);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+  });
+}
+
+export function useUpdateTransaction() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: TransactionData }) => {
+      const error = validateTransactionData(data);
+      if (error) throw new Error(error);
+      return requireRepository(repository).updateTransaction(id, data);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+  });
+}
+
+export function useDeleteTransaction() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (id: string) => requireRepository(repository).deleteTransaction(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+  });
+}
+
+/**
+ * Create an invoice; offline against the backend it is queued and comes
+ * back marked pending_sync
+ */
+export function useCreateInvoice() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (invoiceData: InvoiceData) => {
+      const error = validateInvoiceData(invoiceData);
+      if (error) throw new Error(error);
+      return requireRepository(repository).createInvoice(invoiceData);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+  });
+}
+
+export function useUpdateInvoice() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InvoiceData }) => {
+      const error = validateInvoiceData(data);
+      if (error) throw new Error(error);
+      return requireRepository(repository).updateInvoice(id, data);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+  });
+}
+
+export function useDeleteInvoice() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (id: string) => requireRepository(repository).deleteInvoice(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+  });
+}
+
+/**
+ * Receipts kept on this device for the signed-in user's expenses
+ */
+export function useReceipts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.bookkeeping.receipts,
+    queryFn: () => listReceipts(user!.id),
+    enabled: !!user,
+  });
+}
+
+export function useAddReceipts() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (receipts: ReceiptData[]) => {
+      if (!user) throw new Error('Sign in to keep receipts');
+      return Promise.all(receipts.map(receipt => saveReceipt(user.id, receipt)));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.receipts }),
+  });
+}
+
+export function useDeleteReceipts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      await Promise.all(ids.map(deleteReceipt));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.receipts }),
+  });
+}
+
+/**
+ * Email an invoice to the client through the mail transport
+ */
+export function useSendInvoice() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: SendInvoiceData }) =>
+      requireRepository(repository).sendInvoice(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+  });
+}
+
+/**
+ * Record money received against an invoice, booking it as paid income
+ */
+export function useRecordInvoicePayment() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InvoicePaymentData }) =>
+      recordInvoicePayment(requireRepository(repository), id, data),
+    onSuccess: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+    ]),
+  });
+}
+
+/**
+ * Add lines from a bank statement to the books, paying off the invoices they match
+ */
+export function useImportStatement() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (items: StatementImportItem[]) => importStatementLines(requireRepository(repository), items),
+    onSuccess: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+    ]),
+  });
+}
+
+/**
+ * Supplier details for invoices; null until the provider fills them in
+ */
+export function useBusinessProfile() {
+  const { data: repository } = useLedgerRepository();
+
+  return useQuery({
+    queryKey: queryKeys.bookkeeping.profile,
+    queryFn: () => requireRepository(repository).getBusinessProfile(),
+    enabled: !!repository,
+  });
+}
+
+export function useSaveBusinessProfile() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async (profileData: BusinessProfileData) => {
+      const error = validateBusinessProfile(profileData);
+      if (error) throw new Error(error);
+      return requireRepository(repository).saveBusinessProfile(profileData);
+    },
+    onSuccess: (profile) => queryClient.setQueryData(queryKeys.bookkeeping.profile, profile),
+  });
+}
+
+/**
+ * Book a completed request as pending income, with an optional draft invoice
+ */
+export function useRecordCompletedJob() {
+  const queryClient = useQueryClient();
+  const { data: repository } = useLedgerRepository();
+
+  return useMutation({
+    mutationFn: async ({ request, withInvoice }: { request: ServiceRequest; withInvoice: boolean }) =>
+      recordCompletedJob(requireRepository(repository), request, { withInvoice }),
+    onSuccess: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.transactions }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.invoices }),
+    ]),
+  });
+}
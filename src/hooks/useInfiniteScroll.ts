@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+
+interface UseInfiniteScrollOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  rootMargin?: string;
+}
+
+/**
+ * Returns a ref for a sentinel element; the next page is fetched when it scrolls into view
+ */
+export function useInfiniteScroll({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  rootMargin = '200px'
+}: UseInfiniteScrollOptions) {
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+
+  useEffect(() => {
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        fetchNextPage();
+      }
+    }, { rootMargin });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasNextPage, isFetchingNextPage, fetchNextPage, rootMargin]);
+
+  return setSentinel;
+}
@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SendMessageData } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { MESSAGE_POLL_INTERVAL, messageTransport } from '@/lib/messaging';
+import { RequestMessage } from '@/types/service';
+
+/**
+ * A request's conversation, kept live by the message transport while mounted
+ */
+export function useRequestMessages(requestId: string | undefined, options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const enabled = !!requestId && (options.enabled ?? true);
+
+  const query = useQuery({
+    queryKey: queryKeys.messages.thread(requestId ?? ''),
+    queryFn: () => messageTransport.fetchThread(requestId!),
+    enabled,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return messageTransport.subscribe(requestId!, messages =>
+      queryClient.setQueryData(queryKeys.messages.thread(requestId!), messages)
+    );
+  }, [enabled, requestId, queryClient]);
+
+  return query;
+}
+
+/**
+ * Unread message counts keyed by request id
+ */
+export function useUnreadMessageCounts(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.messages.unread,
+    queryFn: () => messageTransport.fetchUnreadCounts(),
+    refetchInterval: MESSAGE_POLL_INTERVAL,
+    enabled: options.enabled,
+  });
+}
+
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId, message }: { requestId: string; message: SendMessageData }) =>
+      messageTransport.send(requestId, message),
+    onSuccess: (message) => {
+      // Show the message straight away rather than on the next poll
+      queryClient.setQueryData<RequestMessage[]>(queryKeys.messages.thread(message.request_id), current =>
+        current && !current.some(m => m.id === message.id) ? [...current, message] : current
+      );
+    },
+  });
+}
+
+export function useMarkMessagesRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (requestId: string) => messageTransport.markRead(requestId),
+    onSuccess: (_, requestId) => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.thread(requestId) }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.unread }),
+      // Reading the thread also clears its message notifications
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+    ]),
+  });
+}
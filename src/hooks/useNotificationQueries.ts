@@ -0,0 +1,99 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  apiClient,
+  getNextPage,
+  NotificationPreferencesData,
+  NotificationQueryParams,
+  unwrapEmptyResponse,
+  unwrapResponse
+} from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { NOTIFICATION_POLL_INTERVAL } from '@/lib/notifications';
+import { validateNotificationPreferences } from '@/lib/notificationPreferences';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Page through the user's notifications, newest first
+ */
+export function useInfiniteNotifications(
+  filters: Omit<NotificationQueryParams, 'page'> = {},
+  options: { enabled?: boolean } = {}
+) {
+  const params = { limit: DEFAULT_PAGE_SIZE, ...filters };
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.notifications.infinite(params),
+    queryFn: async ({ pageParam }) => unwrapResponse(await apiClient.getNotifications({ ...params, page: pageParam })),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => getNextPage(lastPage.pagination),
+    enabled: options.enabled,
+  });
+}
+
+/**
+ * Unread count for the navigation badge, polled while the app is open
+ */
+export function useUnreadNotificationCount(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.notifications.unread,
+    queryFn: async () => unwrapResponse(await apiClient.getUnreadNotificationCount()).count,
+    refetchInterval: NOTIFICATION_POLL_INTERVAL,
+    enabled: options.enabled,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrapResponse(await apiClient.markNotificationRead(id)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => unwrapResponse(await apiClient.markAllNotificationsRead()),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+}
+
+export function useDeleteNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      unwrapEmptyResponse(await apiClient.deleteNotification(id));
+      return id;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+}
+
+export function useNotificationPreferences(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.notifications.preferences,
+    queryFn: async () => unwrapResponse(await apiClient.getNotificationPreferences()),
+    enabled: options.enabled,
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preferences: NotificationPreferencesData) => {
+      const error = validateNotificationPreferences(preferences);
+      if (error) throw new Error(error);
+      return unwrapResponse(await apiClient.updateNotificationPreferences(preferences));
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(queryKeys.notifications.preferences, preferences);
+      // Switching the digest off releases held notifications
+      return queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+}
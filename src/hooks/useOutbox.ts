@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  discardOutboxEntry,
+  getOutboxEntries,
+  isReplaying,
+  replayOutbox,
+  retryOutboxEntry,
+  subscribeToOutbox
+} from '@/lib/outbox';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+const subscribeToConnection = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToConnection, () => navigator.onLine);
+}
+
+/**
+ * The signed-in user's queued changes, replaying them whenever the device
+ * comes back online
+ */
+export function useOutbox() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+  const allEntries = useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
+  const syncing = useSyncExternalStore(subscribeToOutbox, isReplaying);
+
+  const entries = useMemo(
+    () => allEntries.filter(entry => entry.user_id === user?.id),
+    [allEntries, user?.id]
+  );
+  const queued = entries.filter(entry => entry.status === 'queued');
+  const needsAttention = entries.filter(entry => entry.status !== 'queued');
+
+  const sync = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+
+    const result = await replayOutbox(user.id);
+    if (result.synced > 0) {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.requests.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.services.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.feedback.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookkeeping.all }),
+      ]);
+      toast({
+        title: 'Changes synced',
+        description: `${result.synced} offline ${result.synced === 1 ? 'change was' : 'changes were'} sent.`,
+      });
+    }
+    if (result.conflicts + result.failed > 0) {
+      toast({
+        title: 'Some changes need attention',
+        description: 'They could not be sent as made. Review them in the sync panel.',
+        variant: 'destructive',
+      });
+    }
+  }, [user, queryClient, toast]);
+
+  // Replay on load and on reconnecting
+  const hasQueued = queued.length > 0;
+  useEffect(() => {
+    if (isOnline && hasQueued) {
+      sync();
+    }
+  }, [isOnline, hasQueued, sync]);
+
+  const retry = useCallback(async (id: string) => {
+    retryOutboxEntry(id);
+    await sync();
+  }, [sync]);
+
+  return {
+    entries,
+    queued,
+    needsAttention,
+    isOnline,
+    syncing,
+    sync,
+    retry,
+    discard: discardOutboxEntry,
+  };
+}
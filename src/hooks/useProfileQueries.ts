@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, ProfileData, unwrapResponse } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+
+export function useProfile(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.profile,
+    queryFn: async () => unwrapResponse(await apiClient.getProfile()),
+    enabled: options.enabled,
+  });
+}
+
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (profileData: ProfileData) => unwrapResponse(await apiClient.updateProfile(profileData)),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(queryKeys.profile, profile);
+      // Provider details are embedded in services
+      return queryClient.invalidateQueries({ queryKey: queryKeys.services.all });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, unwrapEmptyResponse, unwrapResponse } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { getCurrentSubscription, subscribeToPush, unsubscribeFromPush } from '@/lib/push';
+
+/**
+ * This device's push subscription, or null when push is off here
+ */
+export function usePushSubscription(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.push.subscription,
+    queryFn: getCurrentSubscription,
+    enabled: options.enabled,
+  });
+}
+
+export function useEnablePush() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const subscription = await subscribeToPush();
+      unwrapResponse(await apiClient.savePushSubscription(subscription));
+      return subscription;
+    },
+    onSuccess: (subscription) => queryClient.setQueryData(queryKeys.push.subscription, subscription),
+  });
+}
+
+export function useDisablePush() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) unwrapEmptyResponse(await apiClient.deletePushSubscription(endpoint));
+    },
+    onSuccess: () => queryClient.setQueryData(queryKeys.push.subscription, null),
+  });
+}
+
+export function useSendTestPush() {
+  return useMutation({
+    mutationFn: async () => unwrapResponse(await apiClient.sendTestPush()),
+  });
+}
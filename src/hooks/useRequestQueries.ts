@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  apiClient,
+  CreateRequestData,
+  FeedbackData,
+  PaginatedResponse,
+  QuoteData,
+  QuoteResponseData,
+  RequestQueryParams,
+  unwrapResponse
+} from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { Quote, RequestStatus, ServiceRequest } from '@/types/service';
+import { assertTransition, getRequestRole } from '@/lib/requestStatus';
+import { canSendQuote, getQuoteResponseError, validateQuote } from '@/lib/quotes';
+import { isQueuedMutation, sendOrQueue } from '@/lib/outbox';
+import { useAuth } from '@/contexts/AuthContext';
+
+export function useRequests(params: RequestQueryParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.requests.list(params),
+    queryFn: async () => unwrapResponse(await apiClient.getRequests(params)),
+    enabled: options.enabled,
+  });
+}
+
+/**
+ * Create a request, or queue it while offline; a queued request resolves to
+ * a QueuedMutation instead of the created request
+ */
+export function useCreateRequest() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (requestData: CreateRequestData) => {
+      // Lets the backend recognise a replay of a request that already went through
+      const data = { ...requestData, client_reference: requestData.client_reference ?? crypto.randomUUID() };
+      return sendOrQueue(
+        user?.id ?? '',
+        { kind: 'create_request', payload: data },
+        async () => unwrapResponse(await apiClient.createRequest(data))
+      );
+    },
+    onSuccess: (result) => isQueuedMutation(result) ? undefined : Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.requests.all }),
+      // Booking a slot takes it off the provider's free list
+      queryClient.invalidateQueries({ queryKey: queryKeys.availability.all }),
+    ]),
+  });
+}
+
+/**
+ * Update a request's status; every requests list (Requests page, provider
+ * dashboard and its stats) is refreshed from the shared cache key.
+ * Transitions the status machine doesn't allow for the current user are
+ * rejected before anything is sent. Offline, the change is queued and shown
+ * in the cached lists straight away.
+ */
+export function useUpdateRequestStatus() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ request, status, note }: { request: ServiceRequest; status: RequestStatus; note?: string }) => {
+      assertTransition(request.status, status, getRequestRole(request, user?.id));
+      return sendOrQueue(
+        user?.id ?? '',
+        {
+          kind: 'update_request_status',
+          payload: { request_id: request.id, status, note, expected_status: request.status },
+        },
+        async () => unwrapResponse(await apiClient.updateRequestStatus(request.id, status, note, request.status))
+      );
+    },
+    onSuccess: (result, { request, status }) => {
+      if (!isQueuedMutation(result)) return queryClient.invalidateQueries({ queryKey: queryKeys.requests.all });
+
+      queryClient.setQueriesData<PaginatedResponse<ServiceRequest>>(
+        { queryKey: queryKeys.requests.all },
+        (data) => data && {
+          ...data,
+          data: data.data.map(r => r.id === request.id ? { ...r, status } : r),
+        }
+      );
+    },
+  });
+}
+
+/**
+ * Send or revise a quote on a request
+ */
+export function useCreateQuote() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ request, quote }: { request: ServiceRequest; quote: QuoteData }) => {
+      if (!canSendQuote(request, getRequestRole(request, user?.id))) {
+        throw new Error('You cannot quote on this request');
+      }
+      const error = validateQuote(quote);
+      if (error) throw new Error(error);
+      return unwrapResponse(await apiClient.createQuote(request.id, quote));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.requests.all }),
+  });
+}
+
+/**
+ * Accept, reject or counter the other party's quote
+ */
+export function useRespondToQuote() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ request, quote, response }: {
+      request: ServiceRequest;
+      quote: Quote;
+      response: QuoteResponseData;
+    }) => {
+      const error = getQuoteResponseError(request, quote, getRequestRole(request, user?.id))
+        ?? (response.counter ? validateQuote(response.counter) : null);
+      if (error) throw new Error(error);
+      return unwrapResponse(await apiClient.respondToQuote(request.id, quote.id, response));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.requests.all }),
+  });
+}
+
+export function useProviderFeedback(providerId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.feedback.provider(providerId ?? ''),
+    queryFn: async () => unwrapResponse(await apiClient.getProviderFeedback(providerId!)),
+    enabled: !!providerId,
+  });
+}
+
+export function useSubmitFeedback() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (feedbackData: FeedbackData) => sendOrQueue(
+      user?.id ?? '',
+      { kind: 'submit_feedback', payload: feedbackData },
+      async () => unwrapResponse(await apiClient.submitFeedback(feedbackData))
+    ),
+    onSuccess: (feedback) => isQueuedMutation(feedback) ? undefined : Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.feedback.provider(feedback.provider.id) }),
+      // Ratings on services change with new feedback
+      queryClient.invalidateQueries({ queryKey: queryKeys.services.all }),
+    ]),
+  });
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+
+/**
+ * Remember the window scroll position for this history entry and restore it
+ * once the page content is ready (e.g. when navigating back to a list)
+ */
+export function useScrollRestoration(key: string, isReady: boolean) {
+  const location = useLocation();
+  const storageKey = `scroll:${key}:${location.key}`;
+  const hasRestored = useRef(false);
+
+  useEffect(() => {
+    if (!isReady || hasRestored.current) return;
+    hasRestored.current = true;
+
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved) {
+      window.scrollTo(0, Number(saved));
+    }
+  }, [isReady, storageKey]);
+
+  useEffect(() => {
+    let frame = 0;
+    // Save on scroll rather than on unmount, when the next page may already have changed the scroll height
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        sessionStorage.setItem(storageKey, String(window.scrollY));
+      });
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [storageKey]);
+}
@@ -0,0 +1,86 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, getNextPage, ServiceData, ServiceQueryParams, unwrapEmptyResponse, unwrapResponse } from '@/lib/api';
+import { queryKeys, ServiceListFilters } from '@/lib/queryKeys';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * A single page of services matching the params
+ */
+export function useServices(params: ServiceQueryParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.services.list(params),
+    queryFn: async () => unwrapResponse(await apiClient.getServices(params)),
+    enabled: options.enabled,
+  });
+}
+
+/**
+ * Page through services matching the filters, one API page at a time
+ */
+export function useInfiniteServices(filters: ServiceListFilters = {}) {
+  const params = { limit: DEFAULT_PAGE_SIZE, ...filters };
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.services.infinite(params),
+    queryFn: async ({ pageParam }) => unwrapResponse(await apiClient.getServices({ ...params, page: pageParam })),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => getNextPage(lastPage.pagination),
+    // Keep loaded pages around so returning from a service detail restores the list
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useService(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.services.detail(id ?? ''),
+    queryFn: async () => unwrapResponse(await apiClient.getService(id!)),
+    enabled: !!id,
+  });
+}
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async () => unwrapResponse(await apiClient.getCategories()),
+    // Categories rarely change during a session
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useCreateService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (serviceData: ServiceData) => unwrapResponse(await apiClient.createService(serviceData)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.services.all }),
+  });
+}
+
+export function useUpdateService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<ServiceData> }) =>
+      unwrapResponse(await apiClient.updateService(id, data)),
+    onSuccess: (service) => {
+      queryClient.setQueryData(queryKeys.services.detail(service.id), service);
+      return queryClient.invalidateQueries({ queryKey: queryKeys.services.all });
+    },
+  });
+}
+
+export function useDeleteService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      unwrapEmptyResponse(await apiClient.deleteService(id));
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.services.detail(id) });
+      return queryClient.invalidateQueries({ queryKey: queryKeys.services.all });
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo, useState } from 'react';
+import { GeoPoint } from '@/types/service';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/useProfileQueries';
+import { pointOf } from '@/lib/geo';
+
+export type LocationSource = 'device' | 'profile';
+
+const DEVICE_LOCATION_KEY = 'sa_services_device_location';
+
+const readDeviceLocation = (): GeoPoint | null => {
+  try {
+    const stored = sessionStorage.getItem(DEVICE_LOCATION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * The point "near me" searches measure from: the device position once the user
+ * has shared it this session, otherwise the location on their profile
+ */
+export function useUserLocation() {
+  const { user } = useAuth();
+  const { data: profile } = useProfile({ enabled: !!user });
+  const [devicePoint, setDevicePoint] = useState<GeoPoint | null>(readDeviceLocation);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profilePoint = useMemo(() => {
+    const home = profile ?? user;
+    return home ? pointOf(home) : null;
+  }, [profile, user]);
+
+  // Only call from a user gesture, so the permission prompt has context
+  const locate = useCallback(() => {
+    if (!('geolocation' in navigator)) {
+      setError('Location is not supported on this device');
+      return;
+    }
+
+    setIsLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const point = { lat: position.coords.latitude, lng: position.coords.longitude };
+        sessionStorage.setItem(DEVICE_LOCATION_KEY, JSON.stringify(point));
+        setDevicePoint(point);
+        setIsLocating(false);
+      },
+      (positionError) => {
+        console.error('Error getting device location:', positionError);
+        setError(profilePoint
+          ? 'Could not get your location, using your profile location instead'
+          : 'Could not get your location. Add a location to your profile to search nearby.');
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }, [profilePoint]);
+
+  const origin = devicePoint ?? profilePoint;
+  const source: LocationSource | null = devicePoint ? 'device' : profilePoint ? 'profile' : null;
+
+  return { origin, source, isLocating, error, locate };
+}
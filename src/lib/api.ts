@@ -1,18 +1,41 @@
 /**
  * API Service Layer for LinkLocal Backend
- * Handles all HTTP requests to the backend API
+ * Typed endpoint definitions on top of a pluggable transport
  */
 
-import { JWTUtils, TokenStorage, TokenPair } from './jwt';
-
-const API_BASE_URL = 'https://technobytes-backend-2.onrender.com';
-
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data: T | null;
-  message: string | null;
-  error: string | null;
-}
+import { JWTUtils, TokenStorage } from './jwt';
+import { ApiRequest, ApiResponse, ApiTransport, HttpTransport, NetworkError } from './transport';
+import { isCacheable, loadCachedResponse, saveCachedResponse } from './offlineCache';
+import type { QuoteResponseAction } from './quotes';
+import type { CalendarFile } from './icalendar';
+import type { MailAttachment } from './mail';
+import {
+  BusinessProfile,
+  Feedback,
+  Invoice,
+  InvoiceItem,
+  InvoicePayment,
+  ProviderAvailability,
+  QuoteLineItem,
+  RequestMessage,
+  RequestStatus,
+  Service,
+  Notification,
+  NotificationPreferences,
+  NotificationType,
+  PushSubscriptionRecord,
+  ServiceCategory,
+  ServiceRequest,
+  StructuredLocation,
+  TimeSlot,
+  Transaction,
+  User,
+  UserProfile,
+  WorkingHours
+} from '@/types/service';
+
+export type { ApiResponse, ApiTransport } from './transport';
+export { ApiError, NetworkError } from './transport';
 
 // Error categorization utility
 export const categorizeError = (error: Error): { category: string; userMessage: string } => {
@@ -86,12 +109,218 @@ export interface PaginatedResponse<T> {
   pagination: PaginationInfo;
 }
 
-class ApiClient {
-  private baseURL: string;
-  private refreshPromise: Promise<string> | null = null;
+/**
+ * Page number following the given one, or undefined on the last page
+ */
+export const getNextPage = (pagination: PaginationInfo): number | undefined =>
+  pagination.page < pagination.pages ? pagination.page + 1 : undefined;
+
+/**
+ * Return the payload of a successful response, or throw its error
+ */
+export const unwrapResponse = <T>(response: ApiResponse<T>): T => {
+  if (!response.success || response.data === null) {
+    throw new Error(response.message || response.error || 'Request failed');
+  }
+  return response.data;
+};
+
+/**
+ * Throw the error of a failed response that carries no payload, e.g. from a delete
+ */
+export const unwrapEmptyResponse = (response: ApiResponse<unknown>): void => {
+  if (!response.success) {
+    throw new Error(response.message || response.error || 'Request failed');
+  }
+};
+
+export interface AuthResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  user: User;
+}
+
+export interface RegisterData {
+  name: string;
+  email: string;
+  password: string;
+  role: 'customer' | 'provider';
+  phone?: string;
+  location?: string;
+}
+
+export type ServiceSortOrder = 'price_asc' | 'price_desc' | 'rating' | 'review_count' | 'newest';
+
+export interface ServiceQueryParams {
+  category?: string;
+  location?: string;
+  search?: string;
+  provider?: string;
+  price_type?: Service['price_type'];
+  min_price?: number;
+  max_price?: number;
+  min_rating?: number;
+  verified?: boolean;
+  /** Only services within `radius_km` of this point */
+  near_lat?: number;
+  near_lng?: number;
+  radius_km?: number;
+  sort?: ServiceSortOrder;
+  page?: number;
+  limit?: number;
+}
+
+export interface ServiceData {
+  title: string;
+  description: string;
+  category: string;
+  location: string;
+  location_details?: StructuredLocation;
+  price: number;
+  price_type: Service['price_type'];
+  images?: string[];
+}
+
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export type NotificationPreferencesData = Omit<NotificationPreferences, 'user_id' | 'updated_at'>;
+
+export interface NotificationQueryParams {
+  unread?: boolean;
+  type?: NotificationType[];
+  page?: number;
+  limit?: number;
+}
+
+export interface RequestQueryParams {
+  status?: RequestStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateRequestData {
+  service_id: string;
+  message: string;
+  requested_date: string;
+  estimated_duration: number;
+  location?: string;
+  /** Start of a free slot from getAvailableSlots; rejected if taken meanwhile */
+  slot_start?: string;
+  /** Client-generated key; resending the same request returns the original */
+  client_reference?: string;
+}
+
+export interface AvailabilityData {
+  weekly_hours: WorkingHours[];
+  blocked_dates: string[];
+  slot_minutes: number;
+  service_slot_minutes: Record<string, number>;
+}
+
+export interface SlotQueryParams {
+  service_id?: string;
+  /** First YYYY-MM-DD date to list, defaulting to today */
+  from?: string;
+  days?: number;
+}
+
+export interface DaySlots {
+  date: string;
+  slots: TimeSlot[];
+}
+
+export interface QuoteData {
+  line_items: QuoteLineItem[];
+  vat_rate: number;
+  /** YYYY-MM-DD; the quote lapses at the end of this day */
+  valid_until: string;
+  notes?: string;
+}
+
+export interface QuoteResponseData {
+  action: QuoteResponseAction;
+  /** The counter-offer, when action is 'counter' */
+  counter?: QuoteData;
+}
+
+export interface MessageAttachmentData {
+  name: string;
+  type: string;
+  size: number;
+  /** Base64 data URL of the (downscaled) photo */
+  data_url: string;
+}
+
+export interface SendMessageData {
+  body: string;
+  attachments?: MessageAttachmentData[];
+}
+
+export type TransactionData = Omit<Transaction, 'id' | 'user_id' | 'pending_sync' | 'created_at' | 'updated_at'>;
+
+export type InvoiceData = Omit<
+  Invoice,
+  | 'id' | 'user_id' | 'number' | 'subtotal' | 'vat_amount' | 'amount' | 'items' | 'payments' | 'sent_at' | 'sent_to'
+  | 'reminders_sent' | 'pending_sync' | 'created_at' | 'updated_at'
+> & {
+  items: Omit<InvoiceItem, 'id' | 'amount'>[];
+};
+
+export type BusinessProfileData = Omit<BusinessProfile, 'user_id' | 'last_invoice_number' | 'updated_at'> & {
+  /** Start numbering from here, e.g. to carry on from another system; sequences never go backwards */
+  next_invoice_number?: number;
+};
+
+export interface SendInvoiceData {
+  to: string;
+  message?: string;
+  attachment: MailAttachment;
+}
+
+export type InvoicePaymentData = Omit<InvoicePayment, 'id' | 'created_at'>;
+
+export interface FeedbackData {
+  service_request_id: string;
+  rating: number;
+  comment: string;
+}
+
+export interface ProviderFeedbackSummary {
+  feedback: Feedback[];
+  average_rating: number;
+  total_reviews: number;
+}
+
+export interface ProfileData {
+  name?: string;
+  phone?: string;
+  location?: string;
+  location_details?: StructuredLocation;
+}
+
+export class ApiClient {
+  private transport: ApiTransport;
 
-  constructor(baseURL: string = API_BASE_URL) {
-    this.baseURL = baseURL;
+  constructor(transport: ApiTransport = new HttpTransport()) {
+    this.transport = transport;
+  }
+
+  /**
+   * Swap the backend this client talks to (e.g. HTTP vs demo data)
+   */
+  public setTransport(transport: ApiTransport): void {
+    this.transport = transport;
+  }
+
+  public getTransport(): ApiTransport {
+    return this.transport;
   }
 
   public setTokens(accessToken: string, refreshToken: string, expiresIn: number): void {
@@ -120,400 +349,350 @@ class ApiClient {
   }
 
   /**
-   * Refresh the access token using the refresh token
+   * Send a request; while offline, reads of cacheable data fall back to the
+   * last response seen
    */
-  private async refreshAccessToken(): Promise<string> {
-    // Prevent multiple simultaneous refresh requests
-    if (this.refreshPromise) {
-      return this.refreshPromise;
-    }
+  private async request<T>(request: ApiRequest): Promise<ApiResponse<T>> {
+    if (!isCacheable(request)) return this.transport.send<T>(request);
 
-    this.refreshPromise = this.performTokenRefresh();
-    
     try {
-      const newToken = await this.refreshPromise;
-      return newToken;
-    } finally {
-      this.refreshPromise = null;
-    }
-  }
-
-  private async performTokenRefresh(): Promise<string> {
-    const refreshToken = this.getRefreshToken();
-    
-    if (!refreshToken) {
-      throw new Error('No refresh token available');
-    }
-
-    if (JWTUtils.isTokenExpired(refreshToken)) {
-      this.clearTokens();
-      throw new Error('Refresh token has expired. Please log in again.');
-    }
-
-    try {
-      const response = await fetch(`${this.baseURL}/auth/refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ refresh_token: refreshToken }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to refresh token');
-      }
-
-      const data = await response.json();
-      
-      if (data.success && data.data) {
-        const { access_token, refresh_token, expires_in } = data.data;
-        
-        // Update stored tokens
-        this.setTokens(access_token, refresh_token, expires_in);
-        
-        return access_token;
-      } else {
-        throw new Error(data.message || 'Failed to refresh token');
-      }
-    } catch (error) {
-      // Clear tokens on refresh failure
-      this.clearTokens();
-      throw error;
-    }
-  }
-
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
-
-    // Get current access token
-    let accessToken = this.getAccessToken();
-    
-    // If we have a token, check if it needs refreshing
-    if (accessToken) {
-      // If token is expired or expiring soon, try to refresh it
-      if (this.isTokenExpiringSoon(5)) { // Refresh if expiring within 5 minutes
-        try {
-          accessToken = await this.refreshAccessToken();
-        } catch (error) {
-          // If refresh fails, clear tokens and dispatch event
-          this.clearTokens();
-          localStorage.removeItem('sa_services_user');
-          window.dispatchEvent(new CustomEvent('tokenExpired'));
-          throw new Error('Your session has expired. Please log in again.');
-        }
-      }
-      
-      headers["Authorization"] = `Bearer ${accessToken}`;
-    }
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
-      });
-
-      let data;
-      try {
-        data = await response.json();
-      } catch (jsonError) {
-        // If response is not JSON, create a structured error response
-        data = {
-          success: false,
-          message: `Server error (${response.status})`,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          data: null
-        };
-      }
-
-      if (!response.ok) {
-        // Handle 401 Unauthorized (invalid token) specially
-        if (response.status === 401) {
-          // Try to refresh the token if we haven't already tried
-          const refreshToken = this.getRefreshToken();
-          if (refreshToken && !JWTUtils.isTokenExpired(refreshToken)) {
-            try {
-              const newAccessToken = await this.refreshAccessToken();
-              // Retry the request with the new token
-              return this.request(endpoint, {
-                ...options,
-                headers: {
-                  ...headers,
-                  "Authorization": `Bearer ${newAccessToken}`
-                }
-              });
-            } catch (refreshError) {
-              // Refresh failed, clear tokens and logout
-              this.clearTokens();
-              localStorage.removeItem('sa_services_user');
-              window.dispatchEvent(new CustomEvent('tokenExpired'));
-              throw new Error('Your session has expired. Please log in again.');
-            }
-          } else {
-            // No refresh token or refresh token expired
-            this.clearTokens();
-            localStorage.removeItem('sa_services_user');
-            window.dispatchEvent(new CustomEvent('tokenExpired'));
-            throw new Error('Your session has expired. Please log in again.');
-          }
-        }
-        
-        // Provide more specific error messages based on status codes
-        let errorMessage = data.message || data.error;
-        
-        if (!errorMessage) {
-          switch (response.status) {
-            case 400:
-              errorMessage = 'Invalid request. Please check your input and try again.';
-              break;
-            case 403:
-              errorMessage = 'Access denied. You do not have permission to perform this action.';
-              break;
-            case 404:
-              errorMessage = 'The requested resource was not found.';
-              break;
-            case 409:
-              errorMessage = 'A conflict occurred. This email may already be registered.';
-              break;
-            case 422:
-              errorMessage = 'Validation failed. Please check your input and try again.';
-              break;
-            case 429:
-              errorMessage = 'Too many requests. Please wait a moment and try again.';
-              break;
-            case 500:
-              errorMessage = 'Server error. Please try again later.';
-              break;
-            case 502:
-            case 503:
-            case 504:
-              errorMessage = 'Service temporarily unavailable. Please try again later.';
-              break;
-            default:
-              errorMessage = `Request failed with status ${response.status}`;
-          }
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      return data;
+      const response = await this.transport.send<T>(request);
+      saveCachedResponse(request, response);
+      return response;
     } catch (error) {
-      console.error('API request failed:', error);
-      
-      // Handle network errors and other fetch failures
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('Network error. Please check your internet connection and try again.');
-      }
-      
-      // Handle timeout errors
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timed out. Please try again.');
-      }
-      
-      // Re-throw other errors as-is
+      const cached = error instanceof NetworkError ? loadCachedResponse<T>(request) : null;
+      if (cached) return cached;
       throw error;
     }
   }
 
   // Authentication endpoints
-  async login(email: string, password: string): Promise<ApiResponse<{ 
-    access_token: string; 
-    refresh_token: string; 
-    expires_in: number; 
-    user: any 
-  }>> {
-    return this.request('/auth/login', {
+  async login(email: string, password: string): Promise<ApiResponse<AuthResponse>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify({ email, password }),
+      path: '/auth/login',
+      body: { email, password },
     });
   }
 
-  async register(userData: {
-    name: string;
-    email: string;
-    password: string;
-    role: 'customer' | 'provider';
-    phone?: string;
-    location?: string;
-  }): Promise<ApiResponse<{ 
-    access_token: string; 
-    refresh_token: string; 
-    expires_in: number; 
-    user: any 
-  }>> {
-    return this.request('/register', {
+  async register(userData: RegisterData): Promise<ApiResponse<AuthResponse>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify(userData),
+      path: '/register',
+      body: userData,
     });
   }
 
   // Refresh token endpoint
-  async refreshToken(refreshToken: string): Promise<ApiResponse<{
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-  }>> {
-    return this.request('/auth/refresh', {
+  async refreshToken(refreshToken: string): Promise<ApiResponse<Omit<AuthResponse, 'user'>>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify({ refresh_token: refreshToken }),
+      path: '/auth/refresh',
+      body: { refresh_token: refreshToken },
     });
   }
 
   // Services endpoints
-  async getServices(params?: {
-    category?: string;
-    location?: string;
-    search?: string;
-    min_price?: number;
-    max_price?: number;
-    page?: number;
-    limit?: number;
-  }): Promise<ApiResponse<PaginatedResponse<any>>> {
-    const searchParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          searchParams.append(key, value.toString());
-        }
-      });
-    }
-    
-    const queryString = searchParams.toString();
-    const endpoint = queryString ? `/services?${queryString}` : '/services';
-    
-    return this.request(endpoint);
-  }
-
-  async getService(id: string): Promise<ApiResponse<any>> {
-    return this.request(`/services/${id}`);
-  }
-
-  async createService(serviceData: {
-    title: string;
-    description: string;
-    category: string;
-    location: string;
-    price: number;
-    price_type: 'hourly' | 'fixed' | 'negotiable';
-    images?: string[];
-  }): Promise<ApiResponse<any>> {
-    return this.request('/services', {
+  async getServices(params?: ServiceQueryParams): Promise<ApiResponse<PaginatedResponse<Service>>> {
+    return this.request({ method: 'GET', path: '/services', params: { ...params } });
+  }
+
+  async getService(id: string): Promise<ApiResponse<Service>> {
+    return this.request({ method: 'GET', path: `/services/${id}` });
+  }
+
+  async createService(serviceData: ServiceData): Promise<ApiResponse<Service>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify(serviceData),
+      path: '/services',
+      body: serviceData,
     });
   }
 
-  async updateService(id: string, serviceData: {
-    title?: string;
-    description?: string;
-    category?: string;
-    location?: string;
-    price?: number;
-    price_type?: 'hourly' | 'fixed' | 'negotiable';
-    images?: string[];
-  }): Promise<ApiResponse<any>> {
-    return this.request(`/services/${id}`, {
+  async updateService(id: string, serviceData: Partial<ServiceData>): Promise<ApiResponse<Service>> {
+    return this.request({
       method: 'PATCH',
-      body: JSON.stringify(serviceData),
+      path: `/services/${id}`,
+      body: serviceData,
     });
   }
 
-  async deleteService(id: string): Promise<ApiResponse<any>> {
-    return this.request(`/services/${id}`, {
-      method: 'DELETE',
-    });
+  async deleteService(id: string): Promise<ApiResponse<null>> {
+    return this.request({ method: 'DELETE', path: `/services/${id}` });
   }
 
   // Service requests endpoints
-  async getRequests(params?: {
-    status?: string;
-    page?: number;
-    limit?: number;
-  }): Promise<ApiResponse<PaginatedResponse<any>>> {
-    const searchParams = new URLSearchParams();
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          searchParams.append(key, value.toString());
-        }
-      });
-    }
-    
-    const queryString = searchParams.toString();
-    const endpoint = queryString ? `/requests?${queryString}` : '/requests';
-    
-    return this.request(endpoint);
-  }
-
-  async createRequest(requestData: {
-    service_id: string;
-    message: string;
-    requested_date: string;
-    estimated_duration: number;
-  }): Promise<ApiResponse<any>> {
-    return this.request('/requests', {
+  async getRequests(params?: RequestQueryParams): Promise<ApiResponse<PaginatedResponse<ServiceRequest>>> {
+    return this.request({ method: 'GET', path: '/requests', params: { ...params } });
+  }
+
+  async createRequest(requestData: CreateRequestData): Promise<ApiResponse<ServiceRequest>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify(requestData),
+      path: '/requests',
+      body: requestData,
     });
   }
 
-  async updateRequestStatus(id: string, status: string): Promise<ApiResponse<any>> {
-    return this.request(`/requests/${id}`, {
+  /**
+   * Move a request to a new status. The backend rejects changes the status
+   * machine does not allow for the caller's role (see requestStatus.ts).
+   * @param expectedStatus - status the caller last saw; the change is
+   * rejected with 409 if the request has moved on since
+   */
+  async updateRequestStatus(
+    id: string,
+    status: RequestStatus,
+    note?: string,
+    expectedStatus?: RequestStatus
+  ): Promise<ApiResponse<ServiceRequest>> {
+    return this.request({
       method: 'PATCH',
-      body: JSON.stringify({ status }),
+      path: `/requests/${id}`,
+      body: { status, note, expected_status: expectedStatus },
     });
   }
 
+  /**
+   * Send a quote on a request, or revise the caller's open one. A pending
+   * request moves to quoted.
+   */
+  async createQuote(requestId: string, quoteData: QuoteData): Promise<ApiResponse<ServiceRequest>> {
+    return this.request({
+      method: 'POST',
+      path: `/requests/${requestId}/quotes`,
+      body: quoteData,
+    });
+  }
+
+  /**
+   * Accept, reject or counter the other party's open quote. Accepting makes
+   * its total the request's agreed price.
+   */
+  async respondToQuote(
+    requestId: string,
+    quoteId: string,
+    response: QuoteResponseData
+  ): Promise<ApiResponse<ServiceRequest>> {
+    return this.request({
+      method: 'POST',
+      path: `/requests/${requestId}/quotes/${quoteId}/respond`,
+      body: response,
+    });
+  }
+
+  // Request messaging endpoints
+  async getRequestMessages(requestId: string): Promise<ApiResponse<RequestMessage[]>> {
+    return this.request({ method: 'GET', path: `/requests/${requestId}/messages` });
+  }
+
+  async sendRequestMessage(requestId: string, messageData: SendMessageData): Promise<ApiResponse<RequestMessage>> {
+    return this.request({
+      method: 'POST',
+      path: `/requests/${requestId}/messages`,
+      body: messageData,
+    });
+  }
+
+  /**
+   * Mark the other party's messages on a request as read
+   */
+  async markRequestMessagesRead(requestId: string): Promise<ApiResponse<{ updated: number }>> {
+    return this.request({ method: 'POST', path: `/requests/${requestId}/messages/read` });
+  }
+
+  /**
+   * Unread message counts keyed by request id
+   */
+  async getUnreadMessageCounts(): Promise<ApiResponse<Record<string, number>>> {
+    return this.request({ method: 'GET', path: '/messages/unread' });
+  }
+
+  // Availability endpoints
+  async getProviderAvailability(providerId: string): Promise<ApiResponse<ProviderAvailability>> {
+    return this.request({ method: 'GET', path: `/providers/${providerId}/availability` });
+  }
+
+  async updateProviderAvailability(
+    providerId: string,
+    availability: AvailabilityData
+  ): Promise<ApiResponse<ProviderAvailability>> {
+    return this.request({
+      method: 'PUT',
+      path: `/providers/${providerId}/availability`,
+      body: availability,
+    });
+  }
+
+  /**
+   * Free slots per day, with booked and blocked time already removed
+   */
+  async getAvailableSlots(providerId: string, params: SlotQueryParams = {}): Promise<ApiResponse<DaySlots[]>> {
+    return this.request({ method: 'GET', path: `/providers/${providerId}/slots`, params: { ...params } });
+  }
+
+  /**
+   * The provider's upcoming jobs as an iCalendar feed
+   */
+  async getProviderCalendar(providerId: string): Promise<ApiResponse<CalendarFile>> {
+    return this.request({ method: 'GET', path: `/providers/${providerId}/calendar` });
+  }
+
   // Categories endpoints
-  async getCategories(): Promise<ApiResponse<any[]>> {
-    return this.request('/categories');
+  async getCategories(): Promise<ApiResponse<ServiceCategory[]>> {
+    return this.request({ method: 'GET', path: '/categories' });
   }
 
   // Feedback endpoints
-  async submitFeedback(feedbackData: {
-    service_request_id: string;
-    rating: number;
-    comment: string;
-  }): Promise<ApiResponse<any>> {
-    return this.request('/feedback', {
+  async submitFeedback(feedbackData: FeedbackData): Promise<ApiResponse<Feedback>> {
+    return this.request({
       method: 'POST',
-      body: JSON.stringify(feedbackData),
+      path: '/feedback',
+      body: feedbackData,
+    });
+  }
+
+  async getProviderFeedback(providerId: string): Promise<ApiResponse<ProviderFeedbackSummary>> {
+    return this.request({ method: 'GET', path: `/feedback/provider/${providerId}` });
+  }
+
+  // Notification endpoints
+  async getNotifications(params: NotificationQueryParams = {}): Promise<ApiResponse<PaginatedResponse<Notification>>> {
+    return this.request({
+      method: 'GET',
+      path: '/notifications',
+      params: { ...params, type: params.type?.join(',') },
     });
   }
 
-  async getProviderFeedback(providerId: string): Promise<ApiResponse<{
-    feedback: any[];
-    average_rating: number;
-    total_reviews: number;
-  }>> {
-    return this.request(`/feedback/provider/${providerId}`);
+  async getUnreadNotificationCount(): Promise<ApiResponse<{ count: number }>> {
+    return this.request({ method: 'GET', path: '/notifications/unread-count' });
+  }
+
+  async markNotificationRead(id: string): Promise<ApiResponse<Notification>> {
+    return this.request({ method: 'POST', path: `/notifications/${id}/read` });
+  }
+
+  async markAllNotificationsRead(): Promise<ApiResponse<{ updated: number }>> {
+    return this.request({ method: 'POST', path: '/notifications/read' });
+  }
+
+  async deleteNotification(id: string): Promise<ApiResponse<null>> {
+    return this.request({ method: 'DELETE', path: `/notifications/${id}` });
+  }
+
+  async getNotificationPreferences(): Promise<ApiResponse<NotificationPreferences>> {
+    return this.request({ method: 'GET', path: '/notifications/preferences' });
+  }
+
+  async updateNotificationPreferences(
+    preferences: NotificationPreferencesData
+  ): Promise<ApiResponse<NotificationPreferences>> {
+    return this.request({ method: 'PUT', path: '/notifications/preferences', body: preferences });
+  }
+
+  // Push subscription endpoints
+  async savePushSubscription(subscription: PushSubscriptionData): Promise<ApiResponse<PushSubscriptionRecord>> {
+    return this.request({
+      method: 'POST',
+      path: '/push/subscriptions',
+      body: { ...subscription, user_agent: navigator.userAgent },
+    });
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<ApiResponse<null>> {
+    return this.request({ method: 'DELETE', path: '/push/subscriptions', params: { endpoint } });
+  }
+
+  /**
+   * Push a test notification to all of the user's devices
+   */
+  async sendTestPush(): Promise<ApiResponse<{ sent: number }>> {
+    return this.request({ method: 'POST', path: '/push/test' });
+  }
+
+  // Bookkeeping endpoints
+  async getTransactions(): Promise<ApiResponse<Transaction[]>> {
+    return this.request({ method: 'GET', path: '/bookkeeping/transactions' });
+  }
+
+  async createTransaction(transactionData: TransactionData): Promise<ApiResponse<Transaction>> {
+    return this.request({
+      method: 'POST',
+      path: '/bookkeeping/transactions',
+      body: transactionData,
+    });
+  }
+
+  async updateTransaction(id: string, transactionData: Partial<TransactionData>): Promise<ApiResponse<Transaction>> {
+    return this.request({
+      method: 'PATCH',
+      path: `/bookkeeping/transactions/${id}`,
+      body: transactionData,
+    });
+  }
+
+  async deleteTransaction(id: string): Promise<ApiResponse<null>> {
+    return this.request({ method: 'DELETE', path: `/bookkeeping/transactions/${id}` });
+  }
+
+  async getInvoices(): Promise<ApiResponse<Invoice[]>> {
+    return this.request({ method: 'GET', path: '/bookkeeping/invoices' });
+  }
+
+  async createInvoice(invoiceData: InvoiceData): Promise<ApiResponse<Invoice>> {
+    return this.request({
+      method: 'POST',
+      path: '/bookkeeping/invoices',
+      body: invoiceData,
+    });
+  }
+
+  async updateInvoice(id: string, invoiceData: Partial<InvoiceData>): Promise<ApiResponse<Invoice>> {
+    return this.request({
+      method: 'PATCH',
+      path: `/bookkeeping/invoices/${id}`,
+      body: invoiceData,
+    });
+  }
+
+  async deleteInvoice(id: string): Promise<ApiResponse<null>> {
+    return this.request({ method: 'DELETE', path: `/bookkeeping/invoices/${id}` });
+  }
+
+  async sendInvoice(id: string, sendData: SendInvoiceData): Promise<ApiResponse<Invoice>> {
+    return this.request({ method: 'POST', path: `/bookkeeping/invoices/${id}/send`, body: sendData });
+  }
+
+  async recordInvoicePayment(id: string, paymentData: InvoicePaymentData): Promise<ApiResponse<Invoice>> {
+    return this.request({ method: 'POST', path: `/bookkeeping/invoices/${id}/payments`, body: paymentData });
+  }
+
+  async getBusinessProfile(): Promise<ApiResponse<BusinessProfile>> {
+    return this.request({ method: 'GET', path: '/bookkeeping/profile' });
+  }
+
+  async updateBusinessProfile(profile: BusinessProfileData): Promise<ApiResponse<BusinessProfile>> {
+    return this.request({ method: 'PUT', path: '/bookkeeping/profile', body: profile });
   }
 
   // Profile endpoints
-  async getProfile(): Promise<ApiResponse<any>> {
-    return this.request('/profile');
+  async getProfile(): Promise<ApiResponse<UserProfile>> {
+    return this.request({ method: 'GET', path: '/profile' });
   }
 
-  async updateProfile(profileData: {
-    name?: string;
-    phone?: string;
-    location?: string;
-  }): Promise<ApiResponse<any>> {
-    return this.request('/profile', {
+  async updateProfile(profileData: ProfileData): Promise<ApiResponse<UserProfile>> {
+    return this.request({
       method: 'PATCH',
-      body: JSON.stringify(profileData),
+      path: '/profile',
+      body: profileData,
     });
   }
 }
 
+// Transport used outside demo mode
+export const httpTransport = new HttpTransport();
+
 // Export singleton instance
-export const apiClient = new ApiClient();
+export const apiClient = new ApiClient(httpTransport);
 export default apiClient;
@@ -0,0 +1,180 @@
+/**
+ * Provider Availability
+ * Weekly working hours, blocked dates and bookable slots, shared by the
+ * booking UI and the demo backend. All times are South African Standard Time
+ * (UTC+2, no daylight saving), whatever the device's time zone.
+ */
+
+import type { AvailabilityData } from './api';
+import { ProviderAvailability, RequestStatus, ServiceRequest, TimeSlot } from '@/types/service';
+
+export const SA_TIME_ZONE = 'Africa/Johannesburg';
+const SAST_OFFSET_MS = 2 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const SLOT_LENGTH_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+/** How far ahead customers can book */
+export const BOOKING_WINDOW_DAYS = 28;
+
+/** Slots starting sooner than this are not offered */
+const MIN_NOTICE_MS = 60 * 60 * 1000;
+
+/** Statuses whose slot is taken in the provider's calendar */
+export const BLOCKING_STATUSES: RequestStatus[] = ['accepted', 'in_progress'];
+
+export const DEFAULT_AVAILABILITY: AvailabilityData = {
+  weekly_hours: [1, 2, 3, 4, 5].map(day => ({ day, start: '08:00', end: '17:00' }))
+    .concat({ day: 6, start: '08:00', end: '13:00' }),
+  blocked_dates: [],
+  slot_minutes: 60,
+  service_slot_minutes: {},
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTime = (time: string): boolean => TIME_PATTERN.test(time);
+
+/**
+ * The YYYY-MM-DD date in South Africa at the given moment
+ */
+export const toSastDateKey = (date: Date): string =>
+  new Date(date.getTime() + SAST_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * The moment a South African wall-clock time occurs
+ */
+export const sastDateTime = (dateKey: string, time: string): Date => new Date(`${dateKey}T${time}:00+02:00`);
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+/**
+ * Months counted from year 0, so spans and periods can step across year ends
+ */
+export const toMonthIndex = (dateKey: string): number => Number(dateKey.slice(0, 4)) * 12 + Number(dateKey.slice(5, 7)) - 1;
+
+export const monthStart = (index: number): string =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}-01`;
+
+export const monthEnd = (index: number): string =>
+  new Date(Date.UTC(Math.floor(index / 12), (index % 12) + 1, 0)).toISOString().split('T')[0];
+
+/**
+ * Last weekday of the month at a month index; public holidays aren't allowed for
+ */
+export const lastBusinessDay = (index: number): string => {
+  let dateKey = monthEnd(index);
+  while (weekdayOf(dateKey) === 0 || weekdayOf(dateKey) === 6) dateKey = addDays(dateKey, -1);
+  return dateKey;
+};
+
+/**
+ * A date key as a local Date at midnight, for the calendar component
+ */
+export const dateKeyToLocalDate = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * A calendar (local midnight) Date as a date key
+ */
+export const localDateToDateKey = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getSlotMinutes = (availability: AvailabilityData, serviceId?: string): number =>
+  (serviceId && availability.service_slot_minutes[serviceId]) || availability.slot_minutes;
+
+export const slotsOverlap = (a: TimeSlot, b: TimeSlot): boolean =>
+  new Date(a.start) < new Date(b.end) && new Date(b.start) < new Date(a.end);
+
+/**
+ * Free slots on a date: consecutive slots through the day's working hours,
+ * skipping blocked dates, booked time and anything too soon to reach
+ */
+export const generateSlots = (
+  availability: AvailabilityData,
+  dateKey: string,
+  slotMinutes: number,
+  booked: TimeSlot[] = [],
+  now: Date = new Date()
+): TimeSlot[] => {
+  if (availability.blocked_dates.includes(dateKey)) return [];
+
+  const earliest = now.getTime() + MIN_NOTICE_MS;
+  const slotMs = slotMinutes * 60 * 1000;
+
+  return availability.weekly_hours
+    .filter(hours => hours.day === weekdayOf(dateKey))
+    .flatMap(hours => {
+      const slots: TimeSlot[] = [];
+      const end = sastDateTime(dateKey, hours.end).getTime();
+      for (let start = sastDateTime(dateKey, hours.start).getTime(); start + slotMs <= end; start += slotMs) {
+        slots.push({ start: new Date(start).toISOString(), end: new Date(start + slotMs).toISOString() });
+      }
+      return slots;
+    })
+    .filter(slot => new Date(slot.start).getTime() >= earliest && !booked.some(taken => slotsOverlap(slot, taken)));
+};
+
+/**
+ * Slots already taken by the provider's accepted and in-progress jobs
+ */
+export const getBookedSlots = (requests: ServiceRequest[], providerId: string, excludeRequestId?: string): TimeSlot[] =>
+  requests
+    .filter(r =>
+      r.provider.id === providerId &&
+      r.id !== excludeRequestId &&
+      r.scheduled_slot &&
+      BLOCKING_STATUSES.includes(r.status)
+    )
+    .map(r => r.scheduled_slot!);
+
+/**
+ * Problem with an availability update, or null if it is valid
+ */
+export const validateAvailability = (data: AvailabilityData): string | null => {
+  for (const hours of data.weekly_hours) {
+    if (!(hours.day >= 0 && hours.day <= 6)) return 'Unknown day of the week';
+    if (!isValidTime(hours.start) || !isValidTime(hours.end)) return 'Times must be in HH:MM format';
+    if (hours.start >= hours.end) return `${WEEKDAYS[hours.day]} must end after it starts`;
+  }
+  if (data.blocked_dates.some(date => !DATE_PATTERN.test(date))) return 'Blocked dates must be YYYY-MM-DD';
+  const lengths = [data.slot_minutes, ...Object.values(data.service_slot_minutes)];
+  if (lengths.some(minutes => !SLOT_LENGTH_OPTIONS.includes(minutes))) return 'Unsupported slot length';
+  return null;
+};
+
+export const toAvailabilityData = (availability?: ProviderAvailability | null): AvailabilityData =>
+  availability
+    ? {
+      weekly_hours: availability.weekly_hours,
+      blocked_dates: availability.blocked_dates,
+      slot_minutes: availability.slot_minutes,
+      service_slot_minutes: availability.service_slot_minutes,
+    }
+    : DEFAULT_AVAILABILITY;
+
+export const formatSlotTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit', timeZone: SA_TIME_ZONE });
+
+export const formatSlot = (slot: TimeSlot): string =>
+  `${new Date(slot.start).toLocaleDateString('en-ZA', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: SA_TIME_ZONE,
+  })}, ${formatSlotTime(slot.start)}–${formatSlotTime(slot.end)}`;
+
+export const formatSlotLength = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`;
@@ -0,0 +1,480 @@
+/**
+ * Bank Statement Import
+ * Turns CSV and OFX statements from the South African banks into ledger
+ * entries: each bank's column layout (or a custom one), duplicate checks
+ * against the books, category rules, and matching money received to open
+ * invoices so they are marked paid.
+ */
+
+import type { TransactionData } from './api';
+import { parseCsv } from './csv';
+import { LedgerRepository, recordInvoicePayment, roundCents } from './bookkeeping';
+import { getInvoiceBalance } from './invoiceLifecycle';
+import { Invoice, Transaction, TransactionType } from '@/types/service';
+
+const SETTINGS_KEY = 'sa_services_bank_import';
+
+/** Header rows are looked for this far into a file, past any account details at the top */
+const HEADER_SEARCH_ROWS = 20;
+
+export const UNCATEGORISED = 'Uncategorised';
+
+/**
+ * Where the columns are in a bank's CSV statements, by heading. Amounts come
+ * from one signed column, or from separate money in and money out columns.
+ */
+export interface BankMapping {
+  id: string;
+  name: string;
+  dateColumn: string;
+  /** Joined with spaces when there is more than one */
+  descriptionColumns: string[];
+  amountColumn?: string;
+  creditColumn?: string;
+  debitColumn?: string;
+  /** Used when present, e.g. the payer's reference on money in */
+  referenceColumn?: string;
+}
+
+/**
+ * Headings as they appear in each bank's CSV download, most specific first
+ * so detection doesn't settle on a looser layout. Banks change their exports
+ * from time to time, which is what custom mappings are for.
+ */
+export const BANK_MAPPINGS: BankMapping[] = [
+  {
+    id: 'capitec',
+    name: 'Capitec',
+    dateColumn: 'Transaction Date',
+    descriptionColumns: ['Description'],
+    creditColumn: 'Money In',
+    debitColumn: 'Money Out',
+  },
+  {
+    id: 'nedbank',
+    name: 'Nedbank',
+    dateColumn: 'Transaction Date',
+    descriptionColumns: ['Description'],
+    creditColumn: 'Credit',
+    debitColumn: 'Debit',
+  },
+  {
+    id: 'absa',
+    name: 'Absa',
+    dateColumn: 'Date',
+    descriptionColumns: ['Transaction Description'],
+    amountColumn: 'Amount',
+  },
+  {
+    id: 'standard-bank',
+    name: 'Standard Bank',
+    dateColumn: 'Posting Date',
+    descriptionColumns: ['Description'],
+    amountColumn: 'Amount',
+    referenceColumn: 'Reference',
+  },
+  {
+    id: 'fnb',
+    name: 'FNB',
+    dateColumn: 'Date',
+    descriptionColumns: ['Description'],
+    amountColumn: 'Amount',
+    referenceColumn: 'Reference',
+  },
+];
+
+export interface StatementLine {
+  /** Same every time the statement is imported: the bank's own id for OFX, otherwise built from the line */
+  id: string;
+  /** YYYY-MM-DD */
+  date: string;
+  description: string;
+  /** Money in is positive, money out negative */
+  amount: number;
+  reference?: string;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  /** Rows that weren't transactions, such as opening balances and totals */
+  skipped: number;
+}
+
+/** "Contains BUILDERS WAREHOUSE → Materials" */
+export interface CategoryRule {
+  id: string;
+  contains: string;
+  category: string;
+}
+
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  ['BUILDERS WAREHOUSE', 'Materials'],
+  ['BUILDERS EXPRESS', 'Materials'],
+  ['BUILD IT', 'Materials'],
+  ['CASHBUILD', 'Materials'],
+  ['LEROY MERLIN', 'Materials'],
+  ['ENGEN', 'Fuel'],
+  ['SHELL', 'Fuel'],
+  ['SASOL', 'Fuel'],
+  ['CALTEX', 'Fuel'],
+  ['TOTALENERGIES', 'Fuel'],
+  ['VODACOM', 'Phone & Data'],
+  ['MTN', 'Phone & Data'],
+  ['TELKOM', 'Phone & Data'],
+  ['CELL C', 'Phone & Data'],
+  ['SARS', 'Tax'],
+  ['MONTHLY ACCOUNT FEE', 'Bank Charges'],
+  ['SERVICE FEE', 'Bank Charges'],
+].map(([contains, category], index) => ({ id: `default-${index + 1}`, contains, category }));
+
+export interface BankImportSettings {
+  rules: CategoryRule[];
+  /** Custom mappings made with the wizard */
+  mappings: BankMapping[];
+}
+
+const normaliseHeading = (heading: string): string => heading.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Upper case words, for matching bank descriptions */
+const normaliseText = (text: string): string => text.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+/** Letters and digits only, so INV-0041 is found in "INV0041" or "inv 0041" */
+const compactText = (text: string): string => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toDateKey = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * A statement date as YYYY-MM-DD. Numeric dates are read day first, as
+ * South African banks write them.
+ */
+export const parseBankDate = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/);
+  if (match) return toDateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return toDateKey(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2}|\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    const year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+    return month > 0 ? toDateKey(year, month, Number(match[1])) : null;
+  }
+  return null;
+};
+
+/**
+ * A statement amount, allowing for R signs, space or comma thousands, a
+ * decimal comma, brackets for negatives and Cr/Dr suffixes. NaN if unreadable.
+ */
+export const parseBankAmount = (value: string): number => {
+  let text = value.trim().replace(/\s+/g, '').replace(/^R/i, '');
+  if (!text) return NaN;
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/dr$/i.test(text)) sign = -1;
+  text = text.replace(/(cr|dr)$/i, '');
+  if (text.includes('.') && text.includes(',')) {
+    text = text.replace(/,/g, '');
+  } else if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return NaN;
+  return roundCents(sign * Number(text));
+};
+
+const requiredColumns = (mapping: BankMapping): string[] => [
+  mapping.dateColumn,
+  ...mapping.descriptionColumns,
+  ...(mapping.amountColumn ? [mapping.amountColumn] : [mapping.creditColumn, mapping.debitColumn]),
+].filter((column): column is string => !!column);
+
+/**
+ * Problem with a mapping, or null if it can be used
+ */
+export const validateBankMapping = (mapping: BankMapping): string | null => {
+  if (!mapping.name.trim()) return 'Give this layout a name';
+  if (!mapping.dateColumn) return 'Choose the date column';
+  if (mapping.descriptionColumns.length === 0) return 'Choose at least one description column';
+  if (!mapping.amountColumn && !(mapping.creditColumn && mapping.debitColumn)) {
+    return 'Choose the amount column, or both the money in and money out columns';
+  }
+  return null;
+};
+
+/**
+ * Index of the row holding the mapping's headings, or -1
+ */
+export const findHeaderRow = (rows: string[][], mapping: BankMapping): number => {
+  const required = requiredColumns(mapping).map(normaliseHeading);
+  return rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const headings = row.map(normaliseHeading);
+    return required.every(column => headings.includes(column));
+  });
+};
+
+/**
+ * The first mapping whose headings are all in the file
+ */
+export const detectBankMapping = (rows: string[][], mappings: BankMapping[]): BankMapping | null =>
+  mappings.find(mapping => findHeaderRow(rows, mapping) !== -1) ?? null;
+
+/**
+ * Likely header row for the mapping wizard: the first with several text cells
+ */
+export const guessHeaderRow = (rows: string[][]): number => {
+  const index = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row =>
+    row.filter(cell => cell && isNaN(parseBankAmount(cell)) && !parseBankDate(cell)).length >= 3
+  );
+  return Math.max(index, 0);
+};
+
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Ids for lines without one from the bank. Identical lines on the same day
+ * (two coffees) are told apart by their order in the statement.
+ */
+const withLineIds = (lines: Omit<StatementLine, 'id'>[]): StatementLine[] => {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const key = `${line.date}|${line.amount.toFixed(2)}|${normaliseText(line.description)}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return { ...line, id: `line-${hashText(key)}-${occurrence}` };
+  });
+};
+
+export const parseCsvStatement = (rows: string[][], mapping: BankMapping): ParsedStatement => {
+  const headerIndex = findHeaderRow(rows, mapping);
+  if (headerIndex === -1) throw new Error(`This file doesn't have the ${mapping.name} columns`);
+
+  const headings = rows[headerIndex].map(normaliseHeading);
+  const column = (name?: string) => (name ? headings.indexOf(normaliseHeading(name)) : -1);
+  const cell = (row: string[], name?: string) => {
+    const index = column(name);
+    return index === -1 ? '' : row[index] ?? '';
+  };
+
+  let skipped = 0;
+  const lines: Omit<StatementLine, 'id'>[] = [];
+  rows.slice(headerIndex + 1).forEach(row => {
+    const date = parseBankDate(cell(row, mapping.dateColumn));
+    const amount = mapping.amountColumn
+      ? parseBankAmount(cell(row, mapping.amountColumn))
+      : roundCents(
+        Math.abs(parseBankAmount(cell(row, mapping.creditColumn)) || 0) -
+        Math.abs(parseBankAmount(cell(row, mapping.debitColumn)) || 0)
+      );
+    const description = mapping.descriptionColumns.map(name => cell(row, name)).filter(Boolean).join(' ');
+    if (!date || isNaN(amount) || amount === 0 || !description) {
+      skipped++;
+      return;
+    }
+    lines.push({ date, description, amount, reference: cell(row, mapping.referenceColumn) || undefined });
+  });
+
+  return { lines: withLineIds(lines), skipped };
+};
+
+/**
+ * OFX is the same whichever bank it comes from: one STMTTRN block per line,
+ * in SGML where closing tags are optional
+ */
+export const parseOfxStatement = (text: string): ParsedStatement => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() ?? '';
+
+  let skipped = 0;
+  const lines: (Omit<StatementLine, 'id'> & { fitId: string })[] = [];
+  blocks.forEach(block => {
+    const date = parseBankDate(field(block, 'DTPOSTED').slice(0, 8));
+    const amount = parseBankAmount(field(block, 'TRNAMT'));
+    const name = field(block, 'NAME');
+    const memo = field(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : ''].filter(Boolean).join(' ');
+    if (!date || isNaN(amount) || amount === 0 || !description) {
+      skipped++;
+      return;
+    }
+    lines.push({ date, description, amount, reference: field(block, 'REFNUM') || undefined, fitId: field(block, 'FITID') });
+  });
+
+  const fallbackIds = withLineIds(lines);
+  return {
+    lines: lines.map(({ fitId, ...line }, index) => ({ ...line, id: fitId ? `ofx-${fitId}` : fallbackIds[index].id })),
+    skipped,
+  };
+};
+
+export const isOfxStatement = (text: string): boolean => /OFXHEADER|<OFX>/i.test(text);
+
+export const readStatementRows = (text: string): string[][] => parseCsv(text);
+
+export const getLineType = (line: StatementLine): TransactionType => (line.amount > 0 ? 'income' : 'expense');
+
+export interface DuplicateCheck {
+  transaction: Transaction;
+  /** Imported from this very line before, rather than just looking alike */
+  exact: boolean;
+}
+
+/**
+ * An entry already in the books for this line: one imported from it, or a
+ * manual entry on the same day for the same amount
+ */
+export const findDuplicate = (line: StatementLine, transactions: Transaction[]): DuplicateCheck | null => {
+  const imported = transactions.find(t => t.bank_ref === line.id);
+  if (imported) return { transaction: imported, exact: true };
+
+  const lookalike = transactions.find(t =>
+    !t.bank_ref &&
+    t.date === line.date &&
+    t.type === getLineType(line) &&
+    roundCents(t.amount) === roundCents(Math.abs(line.amount))
+  );
+  return lookalike ? { transaction: lookalike, exact: false } : null;
+};
+
+const ruleMatches = (rule: CategoryRule, text: string): boolean => {
+  const words = normaliseText(rule.contains);
+  return !!words && ` ${text} `.includes(` ${words} `);
+};
+
+/**
+ * Category from the first rule the line's description matches
+ */
+export const categoriseLine = (line: StatementLine, rules: CategoryRule[]): string => {
+  const text = normaliseText(`${line.description} ${line.reference ?? ''}`);
+  return rules.find(rule => ruleMatches(rule, text))?.category ?? UNCATEGORISED;
+};
+
+export const validateCategoryRule = (rule: Omit<CategoryRule, 'id'>): string | null => {
+  if (!normaliseText(rule.contains)) return 'Enter the words to look for';
+  if (!rule.category.trim()) return 'Enter a category';
+  return null;
+};
+
+/**
+ * Open invoices money received could be paying, best match first: those
+ * whose number is in the bank description, then those for exactly the
+ * amount. A line can't pay more than an invoice still owes.
+ */
+export const findInvoiceMatches = (line: StatementLine, invoices: Invoice[]): Invoice[] => {
+  if (line.amount <= 0) return [];
+  const text = compactText(`${line.description} ${line.reference ?? ''}`);
+  const open = invoices.filter(invoice =>
+    !invoice.pending_sync && invoice.status !== 'paid' && line.amount <= getInvoiceBalance(invoice)
+  );
+
+  const byNumber = open.filter(invoice => invoice.number && text.includes(compactText(invoice.number)));
+  const byAmount = open.filter(invoice => !byNumber.includes(invoice) && getInvoiceBalance(invoice) === line.amount);
+  const byClient = byAmount.filter(invoice => text.includes(compactText(invoice.client_name)));
+  return [...byNumber, ...byClient, ...byAmount.filter(invoice => !byClient.includes(invoice))];
+};
+
+/**
+ * The best invoice for each line of money received, using each invoice once
+ */
+export const suggestInvoiceMatches = (lines: StatementLine[], invoices: Invoice[]): Record<string, string> => {
+  const taken = new Set<string>();
+  const matches: Record<string, string> = {};
+  lines.forEach(line => {
+    const invoice = findInvoiceMatches(line, invoices).find(candidate => !taken.has(candidate.id));
+    if (invoice) {
+      taken.add(invoice.id);
+      matches[line.id] = invoice.id;
+    }
+  });
+  return matches;
+};
+
+export const statementLineTransactionData = (line: StatementLine, category: string): TransactionData => ({
+  type: getLineType(line),
+  category: category.trim() || UNCATEGORISED,
+  description: line.description,
+  amount: Math.abs(line.amount),
+  date: line.date,
+  status: 'paid',
+  bank_ref: line.id,
+});
+
+export interface StatementImportItem {
+  line: StatementLine;
+  category: string;
+  /** Invoice the line pays, recorded as a payment rather than a plain entry */
+  invoiceId?: string;
+}
+
+export interface StatementImportResult {
+  imported: number;
+  reconciled: number;
+  failed: number;
+}
+
+/**
+ * Add the chosen lines to the books, one at a time so a failure part way
+ * leaves what was done in place
+ */
+export const importStatementLines = async (
+  repository: LedgerRepository,
+  items: StatementImportItem[]
+): Promise<StatementImportResult> => {
+  const result: StatementImportResult = { imported: 0, reconciled: 0, failed: 0 };
+  for (const { line, category, invoiceId } of items) {
+    try {
+      if (invoiceId) {
+        await recordInvoicePayment(
+          repository,
+          invoiceId,
+          { amount: line.amount, date: line.date, method: 'eft', reference: line.reference || line.description },
+          { bankRef: line.id }
+        );
+        result.reconciled++;
+      } else {
+        await repository.createTransaction(statementLineTransactionData(line, category));
+        result.imported++;
+      }
+    } catch (error) {
+      console.error('Error importing statement line:', error);
+      result.failed++;
+    }
+  }
+  return result;
+};
+
+const loadAllSettings = (): Record<string, Partial<BankImportSettings>> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+/**
+ * The user's category rules and custom mappings; rules start from the defaults
+ */
+export const getBankImportSettings = (userId: string): BankImportSettings => {
+  const saved = loadAllSettings()[userId] ?? {};
+  return { rules: saved.rules ?? DEFAULT_CATEGORY_RULES, mappings: saved.mappings ?? [] };
+};
+
+export const saveBankImportSettings = (userId: string, settings: BankImportSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...loadAllSettings(), [userId]: settings }));
+};
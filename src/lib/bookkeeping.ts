@@ -0,0 +1,715 @@
+/**
+ * Bookkeeping Ledger
+ * A provider's transactions and invoices behind a repository, so the books
+ * live on the backend where it supports them and in IndexedDB on the device
+ * otherwise. Either way they survive a reload.
+ */
+
+import {
+  ApiError,
+  apiClient,
+  BusinessProfileData,
+  InvoiceData,
+  InvoicePaymentData,
+  NetworkError,
+  SendInvoiceData,
+  TransactionData,
+  unwrapEmptyResponse,
+  unwrapResponse
+} from './api';
+import { getOutboxEntries, isQueuedMutation, OutboxEntry, sendOrQueue } from './outbox';
+import { deleteRecord, getRecord, getUserRecords, isLocalDbSupported, putRecord } from './localDb';
+import { addDays, toSastDateKey } from './availability';
+import { VAT_RATE, getVatChargeError } from './quotes';
+import { getMailTransport } from './mail';
+import { MAX_RECEIPTS_PER_TRANSACTION } from './receipts';
+import {
+  DEFAULT_REMINDER_DAYS,
+  applyInvoiceLifecycle,
+  applyPayment,
+  deriveInvoiceStatus,
+  getAmountPaid,
+  invoiceEmail,
+  markInvoiceSent,
+  reminderEmail,
+  today,
+  validatePaymentData,
+  validateSendInvoiceData
+} from './invoiceLifecycle';
+import { BusinessProfile, Invoice, InvoiceItem, ServiceRequest, Transaction } from '@/types/service';
+
+const BACKEND_KEY = 'sa_services_bookkeeping_backend';
+
+/** Days a customer has to pay a draft invoice raised from a completed job */
+export const JOB_INVOICE_TERMS_DAYS = 7;
+
+export const DEFAULT_INVOICE_PREFIX = 'INV-';
+
+export type LedgerBackend = 'http' | 'local';
+
+export interface LedgerRepository {
+  readonly backend: LedgerBackend;
+  listTransactions(): Promise<Transaction[]>;
+  createTransaction(data: TransactionData): Promise<Transaction>;
+  updateTransaction(id: string, data: Partial<TransactionData>): Promise<Transaction>;
+  deleteTransaction(id: string): Promise<void>;
+  listInvoices(): Promise<Invoice[]>;
+  createInvoice(data: InvoiceData): Promise<Invoice>;
+  updateInvoice(id: string, data: Partial<InvoiceData>): Promise<Invoice>;
+  deleteInvoice(id: string): Promise<void>;
+  /** Email the invoice to the client and mark it sent */
+  sendInvoice(id: string, data: SendInvoiceData): Promise<Invoice>;
+  recordPayment(id: string, data: InvoicePaymentData): Promise<Invoice>;
+  getBusinessProfile(): Promise<BusinessProfile | null>;
+  saveBusinessProfile(data: BusinessProfileData): Promise<BusinessProfile>;
+}
+
+export const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Line items with their amounts worked out
+ */
+export const toInvoiceItems = (items: InvoiceData['items'], idPrefix: string): InvoiceItem[] =>
+  items.map((item, index) => ({
+    id: `${idPrefix}-${index + 1}`,
+    description: item.description.trim(),
+    quantity: Number(item.quantity),
+    rate: Number(item.rate),
+    amount: roundCents(Number(item.quantity) * Number(item.rate)),
+  }));
+
+export const getInvoiceTotals = (
+  items: Pick<InvoiceItem, 'amount'>[],
+  vatRate: number
+): Pick<Invoice, 'subtotal' | 'vat_amount' | 'amount'> => {
+  const subtotal = roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+  const vat_amount = roundCents(subtotal * vatRate);
+  return { subtotal, vat_amount, amount: roundCents(subtotal + vat_amount) };
+};
+
+/**
+ * e.g. INV-0007
+ */
+export const formatInvoiceNumber = (prefix: string, sequence: number): string =>
+  `${prefix}${String(sequence).padStart(4, '0')}`;
+
+const isValidDate = (date: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
+
+/**
+ * Problem with a transaction, or null if it is valid
+ */
+export const validateTransactionData = (data: TransactionData): string | null => {
+  if (!['income', 'expense'].includes(data.type)) return 'Choose income or expense';
+  if (!data.description?.trim()) return 'Add a description';
+  if (!(Number(data.amount) > 0)) return 'Amount must be more than R0';
+  if (!isValidDate(data.date)) return 'Choose a valid date';
+  if (data.receipt_ids?.length && data.type !== 'expense') return 'Only expenses can have receipts';
+  if ((data.receipt_ids?.length ?? 0) > MAX_RECEIPTS_PER_TRANSACTION) {
+    return `Attach up to ${MAX_RECEIPTS_PER_TRANSACTION} receipts`;
+  }
+  if (data.vat_amount !== undefined && !(data.vat_amount >= 0 && data.vat_amount < Number(data.amount))) {
+    return 'VAT must be less than the amount';
+  }
+  return null;
+};
+
+/**
+ * Problem with an invoice, or null if it is valid
+ */
+export const validateInvoiceData = (data: InvoiceData): string | null => {
+  if (!data.client_name?.trim()) return 'Add the client name';
+  if (data.client_email?.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.client_email.trim())) {
+    return 'Enter a valid client email';
+  }
+  if (!isValidDate(data.due_date)) return 'Choose a due date';
+  if (data.vat_rate !== 0 && data.vat_rate !== VAT_RATE) return 'VAT must be 0% or 15%';
+  if (!data.items?.length) return 'Add at least one item';
+  if (data.items.some(item => !item.description?.trim())) return 'Every item needs a description';
+  if (data.items.some(item => !(Number(item.quantity) > 0) || Number(item.rate) < 0)) {
+    return 'Item quantities must be positive and rates cannot be negative';
+  }
+  return null;
+};
+
+/**
+ * Problem with changes to an invoice already paid against, or null if there is none
+ */
+export const getInvoiceUpdateError = (invoice: Invoice, amount: number): string | null =>
+  amount < getAmountPaid(invoice) ? "The total can't be less than what has already been paid" : null;
+
+/**
+ * What a job is worth: the accepted quote if there was one, otherwise the
+ * service's listed price
+ */
+export const getRequestAmount = (request: ServiceRequest): number =>
+  roundCents(request.agreed_price ?? request.service.price);
+
+/**
+ * Pending income for a completed job, linked to the request and its customer
+ */
+export const jobTransactionData = (request: ServiceRequest, completedAt = new Date()): TransactionData => ({
+  type: 'income',
+  category: 'Service Payment',
+  description: request.service.title,
+  amount: getRequestAmount(request),
+  date: toSastDateKey(completedAt),
+  client: request.customer.name,
+  status: 'pending',
+  request_id: request.id,
+  customer_id: request.customer.id,
+});
+
+/**
+ * Draft invoice for a completed job with the service as its only line. The
+ * customer's email isn't shared with providers, so it is left to fill in.
+ * Without a VAT number on the profile it charges no VAT, at the agreed total.
+ */
+export const jobInvoiceData = (
+  request: ServiceRequest,
+  profile: BusinessProfile | null,
+  completedAt = new Date()
+): InvoiceData => {
+  // A quote with VAT was agreed VAT-inclusive, so the line carries its total before VAT
+  const quote = request.quotes?.find(q => q.status === 'accepted');
+  const vatRate = profile?.vat_number ? quote?.vat_rate ?? 0 : 0;
+  return {
+    client_name: request.customer.name,
+    client_email: '',
+    due_date: addDays(toSastDateKey(completedAt), JOB_INVOICE_TERMS_DAYS),
+    status: 'draft',
+    vat_rate: vatRate,
+    items: [{
+      description: request.service.title,
+      quantity: 1,
+      rate: vatRate > 0 ? quote.subtotal : getRequestAmount(request),
+    }],
+    request_id: request.id,
+    customer_id: request.customer.id,
+  };
+};
+
+export const getInvoiceVatError = (data: Pick<InvoiceData, 'vat_rate'>, profile: BusinessProfile | null): string | null =>
+  getVatChargeError(data.vat_rate, profile?.vat_number);
+
+/**
+ * Problem with business details, or null if they are valid
+ */
+export const validateBusinessProfile = (data: BusinessProfileData): string | null => {
+  if (!data.business_name?.trim()) return 'Add your business name';
+  if (!data.address?.trim()) return 'Add your business address';
+  if (data.email?.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email.trim())) return 'Enter a valid email';
+  if (data.vat_number?.trim() && !/^4\d{9}$/.test(data.vat_number.trim())) {
+    return 'VAT numbers are 10 digits starting with 4';
+  }
+  if (data.vat_category !== undefined && !['A', 'B'].includes(data.vat_category)) {
+    return 'Choose VAT category A or B';
+  }
+  if (!/^[A-Za-z0-9/-]{0,10}$/.test(data.invoice_prefix ?? '')) {
+    return 'Invoice prefix can only use up to 10 letters, numbers, - or /';
+  }
+  if (data.next_invoice_number !== undefined && !(Number.isInteger(data.next_invoice_number) && data.next_invoice_number > 0)) {
+    return 'The next invoice number must be a whole number from 1';
+  }
+  if ((data.reminder_days ?? []).some(days => !Number.isInteger(days) || Math.abs(days) > 90)) {
+    return 'Reminders can be up to 90 days either side of the due date';
+  }
+  if (data.financial_year_start !== undefined &&
+    !(Number.isInteger(data.financial_year_start) && data.financial_year_start >= 1 && data.financial_year_start <= 12)) {
+    return 'Choose the month your financial year starts';
+  }
+  return null;
+};
+
+/** Profiles saved before reminders existed get the default rules */
+export const getReminderDays = (profile: BusinessProfile | null): number[] =>
+  profile?.reminder_days ?? DEFAULT_REMINDER_DAYS;
+
+/**
+ * Business details as saved. The invoice sequence can be moved forward to
+ * carry on from another system, but never back, so numbers aren't reused.
+ */
+export const businessProfileFromData = (
+  userId: string,
+  data: BusinessProfileData,
+  lastInvoiceNumber: number
+): BusinessProfile => ({
+  user_id: userId,
+  business_name: data.business_name.trim(),
+  address: data.address.trim(),
+  email: data.email?.trim() || undefined,
+  phone: data.phone?.trim() || undefined,
+  vat_number: data.vat_number?.trim() || undefined,
+  vat_category: data.vat_number?.trim() ? data.vat_category : undefined,
+  registration_number: data.registration_number?.trim() || undefined,
+  bank_details: data.bank_details?.trim() || undefined,
+  logo_data_url: data.logo_data_url || undefined,
+  invoice_prefix: data.invoice_prefix ?? DEFAULT_INVOICE_PREFIX,
+  last_invoice_number: Math.max(lastInvoiceNumber, (data.next_invoice_number ?? 0) - 1),
+  reminder_days: [...new Set(data.reminder_days ?? DEFAULT_REMINDER_DAYS)].sort((a, b) => a - b),
+  financial_year_start: data.financial_year_start,
+  updated_at: new Date().toISOString(),
+});
+
+/**
+ * Placeholder details for a provider who invoices before filling theirs in,
+ * so the invoice sequence has somewhere to live
+ */
+export const emptyProfileData = (prefix = DEFAULT_INVOICE_PREFIX): BusinessProfileData => ({
+  business_name: '',
+  address: '',
+  invoice_prefix: prefix,
+  reminder_days: DEFAULT_REMINDER_DAYS,
+});
+
+const newestFirst = <T extends { created_at: string }>(a: T, b: T) => b.created_at.localeCompare(a.created_at);
+
+const transactionFromData = (id: string, userId: string, data: TransactionData): Transaction => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    user_id: userId,
+    type: data.type,
+    category: data.category?.trim() ?? '',
+    description: data.description.trim(),
+    amount: roundCents(Number(data.amount)),
+    date: data.date,
+    client: data.client?.trim() || undefined,
+    status: data.status ?? 'paid',
+    request_id: data.request_id,
+    customer_id: data.customer_id,
+    invoice_id: data.invoice_id,
+    receipt_ids: data.receipt_ids?.length ? data.receipt_ids : undefined,
+    bank_ref: data.bank_ref,
+    vat_amount: data.vat_amount ? roundCents(Number(data.vat_amount)) : undefined,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+const invoiceFromData = (id: string, userId: string, data: InvoiceData, number: string): Invoice => {
+  const now = new Date().toISOString();
+  const items = toInvoiceItems(data.items, id);
+  const vatRate = Number(data.vat_rate) || 0;
+  return {
+    id,
+    user_id: userId,
+    number,
+    client_name: data.client_name.trim(),
+    client_email: data.client_email?.trim() ?? '',
+    client_address: data.client_address?.trim() || undefined,
+    client_vat_number: data.client_vat_number?.trim() || undefined,
+    vat_rate: vatRate,
+    ...getInvoiceTotals(items, vatRate),
+    due_date: data.due_date,
+    status: data.status ?? 'draft',
+    items,
+    request_id: data.request_id,
+    customer_id: data.customer_id,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+/**
+ * Books kept in IndexedDB on this device
+ */
+export class IndexedDbLedgerRepository implements LedgerRepository {
+  readonly backend = 'local' as const;
+
+  constructor(private readonly userId: string) {}
+
+  async listTransactions(): Promise<Transaction[]> {
+    return (await getUserRecords<Transaction>('transactions', this.userId)).sort(newestFirst);
+  }
+
+  async createTransaction(data: TransactionData): Promise<Transaction> {
+    return putRecord('transactions', transactionFromData(`transaction-${crypto.randomUUID()}`, this.userId, data));
+  }
+
+  async updateTransaction(id: string, data: Partial<TransactionData>): Promise<Transaction> {
+    const existing = await this.findOwn<Transaction>('transactions', id);
+    const { user_id, created_at } = existing;
+    return putRecord('transactions', {
+      ...transactionFromData(id, user_id, { ...existing, ...data }),
+      created_at,
+    });
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    await this.findOwn('transactions', id);
+    await deleteRecord('transactions', id);
+  }
+
+  /**
+   * Brought up to date on the way out: invoices go overdue and reminders are
+   * emailed as their dates come round
+   */
+  async listInvoices(): Promise<Invoice[]> {
+    const [invoices, profile] = await Promise.all([
+      getUserRecords<Invoice>('invoices', this.userId),
+      this.getBusinessProfile(),
+    ]);
+    const current = await Promise.all(invoices.map(async invoice => {
+      const result = applyInvoiceLifecycle(invoice, getReminderDays(profile), today());
+      if (!result.changed) return invoice;
+      await putRecord('invoices', result.invoice);
+      if (result.reminder !== null) {
+        getMailTransport()
+          .send(reminderEmail(result.invoice, profile, result.reminder))
+          .catch(error => console.error('Error sending invoice reminder:', error));
+      }
+      return result.invoice;
+    }));
+    return current.sort(newestFirst);
+  }
+
+  async createInvoice(data: InvoiceData): Promise<Invoice> {
+    const profile = await this.getBusinessProfile();
+    const vatError = getInvoiceVatError(data, profile);
+    if (vatError) throw new Error(vatError);
+
+    // Numbers are never reused, even after an invoice is deleted
+    const sequence = (profile?.last_invoice_number ?? 0) + 1;
+    const prefix = profile?.invoice_prefix ?? DEFAULT_INVOICE_PREFIX;
+    await this.putProfile(profile
+      ? { ...profile, last_invoice_number: sequence }
+      : businessProfileFromData(this.userId, emptyProfileData(prefix), sequence));
+
+    return putRecord('invoices', invoiceFromData(
+      `invoice-${crypto.randomUUID()}`,
+      this.userId,
+      data,
+      formatInvoiceNumber(prefix, sequence)
+    ));
+  }
+
+  async updateInvoice(id: string, data: Partial<InvoiceData>): Promise<Invoice> {
+    const existing = await this.findOwn<Invoice>('invoices', id);
+    const vatError = getInvoiceVatError({ ...existing, ...data }, await this.getBusinessProfile());
+    if (vatError) throw new Error(vatError);
+
+    const { user_id, number, payments, sent_at, sent_to, reminders_sent, created_at } = existing;
+    const updated: Invoice = {
+      ...invoiceFromData(id, user_id, { ...existing, ...data }, number),
+      payments,
+      sent_at,
+      sent_to,
+      reminders_sent,
+      created_at,
+    };
+    const updateError = getInvoiceUpdateError(existing, updated.amount);
+    if (updateError) throw new Error(updateError);
+    return putRecord('invoices', { ...updated, status: deriveInvoiceStatus(updated, today()) });
+  }
+
+  async deleteInvoice(id: string): Promise<void> {
+    await this.findOwn('invoices', id);
+    await deleteRecord('invoices', id);
+  }
+
+  async sendInvoice(id: string, data: SendInvoiceData): Promise<Invoice> {
+    const error = validateSendInvoiceData(data);
+    if (error) throw new Error(error);
+    const invoice = await this.findOwn<Invoice>('invoices', id);
+
+    await getMailTransport().send(invoiceEmail(invoice, await this.getBusinessProfile(), data));
+    return putRecord('invoices', markInvoiceSent(invoice, data.to.trim(), new Date().toISOString(), today()));
+  }
+
+  async recordPayment(id: string, data: InvoicePaymentData): Promise<Invoice> {
+    const invoice = await this.findOwn<Invoice>('invoices', id);
+    const error = validatePaymentData(invoice, data, today());
+    if (error) throw new Error(error);
+
+    return putRecord('invoices', applyPayment(invoice, {
+      ...data,
+      id: `payment-${crypto.randomUUID()}`,
+      amount: roundCents(Number(data.amount)),
+      reference: data.reference?.trim() || undefined,
+      created_at: new Date().toISOString(),
+    }, today()));
+  }
+
+  async getBusinessProfile(): Promise<BusinessProfile | null> {
+    const stored = await getRecord<BusinessProfile & { id: string }>('business_profiles', this.userId);
+    if (!stored) return null;
+    const { id, ...profile } = stored;
+    return profile;
+  }
+
+  async saveBusinessProfile(data: BusinessProfileData): Promise<BusinessProfile> {
+    const existing = await this.getBusinessProfile();
+    return this.putProfile(businessProfileFromData(this.userId, data, existing?.last_invoice_number ?? 0));
+  }
+
+  // One profile per user, stored under their id
+  private async putProfile(profile: BusinessProfile): Promise<BusinessProfile> {
+    await putRecord('business_profiles', { ...profile, id: this.userId });
+    return profile;
+  }
+
+  private async findOwn<T extends { user_id: string }>(store: 'transactions' | 'invoices', id: string): Promise<T> {
+    const record = await getRecord<T>(store, id);
+    if (!record || record.user_id !== this.userId) throw new Error('Record not found');
+    return record;
+  }
+}
+
+const pendingEntries = <K extends OutboxEntry['kind']>(userId: string, kind: K) =>
+  getOutboxEntries().filter(
+    (entry): entry is Extract<OutboxEntry, { kind: K }> => entry.kind === kind && entry.user_id === userId
+  );
+
+/**
+ * Books kept on the backend. New entries made offline go through the outbox
+ * and are listed from it, marked pending_sync, until they have been sent.
+ */
+export class HttpLedgerRepository implements LedgerRepository {
+  readonly backend = 'http' as const;
+
+  constructor(private readonly userId: string) {}
+
+  async listTransactions(): Promise<Transaction[]> {
+    const saved = unwrapResponse(await apiClient.getTransactions());
+    const pending = pendingEntries(this.userId, 'create_transaction')
+      .map(entry => ({
+        ...transactionFromData(entry.id, this.userId, entry.payload),
+        created_at: entry.created_at,
+        pending_sync: true,
+      }));
+    return [...pending, ...saved].sort(newestFirst);
+  }
+
+  async createTransaction(data: TransactionData): Promise<Transaction> {
+    const result = await sendOrQueue(
+      this.userId,
+      { kind: 'create_transaction', payload: data },
+      async () => unwrapResponse(await apiClient.createTransaction(data))
+    );
+    return isQueuedMutation(result)
+      ? { ...transactionFromData(result.entry.id, this.userId, data), pending_sync: true }
+      : result;
+  }
+
+  async updateTransaction(id: string, data: Partial<TransactionData>): Promise<Transaction> {
+    return unwrapResponse(await apiClient.updateTransaction(id, data));
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    unwrapEmptyResponse(await apiClient.deleteTransaction(id));
+  }
+
+  async listInvoices(): Promise<Invoice[]> {
+    const saved = unwrapResponse(await apiClient.getInvoices());
+    const pending = pendingEntries(this.userId, 'create_invoice')
+      .map(entry => ({
+        ...invoiceFromData(entry.id, this.userId, entry.payload, ''),
+        created_at: entry.created_at,
+        pending_sync: true,
+      }));
+    return [...pending, ...saved].sort(newestFirst);
+  }
+
+  async createInvoice(data: InvoiceData): Promise<Invoice> {
+    const result = await sendOrQueue(
+      this.userId,
+      { kind: 'create_invoice', payload: data },
+      async () => unwrapResponse(await apiClient.createInvoice(data))
+    );
+    return isQueuedMutation(result)
+      ? { ...invoiceFromData(result.entry.id, this.userId, data, ''), pending_sync: true }
+      : result;
+  }
+
+  async updateInvoice(id: string, data: Partial<InvoiceData>): Promise<Invoice> {
+    return unwrapResponse(await apiClient.updateInvoice(id, data));
+  }
+
+  async deleteInvoice(id: string): Promise<void> {
+    unwrapEmptyResponse(await apiClient.deleteInvoice(id));
+  }
+
+  async sendInvoice(id: string, data: SendInvoiceData): Promise<Invoice> {
+    return unwrapResponse(await apiClient.sendInvoice(id, data));
+  }
+
+  async recordPayment(id: string, data: InvoicePaymentData): Promise<Invoice> {
+    return unwrapResponse(await apiClient.recordInvoicePayment(id, data));
+  }
+
+  async getBusinessProfile(): Promise<BusinessProfile | null> {
+    try {
+      return unwrapResponse(await apiClient.getBusinessProfile());
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async saveBusinessProfile(data: BusinessProfileData): Promise<BusinessProfile> {
+    return unwrapResponse(await apiClient.updateBusinessProfile(data));
+  }
+}
+
+/**
+ * A completed job is in the books, but its draft invoice couldn't be raised
+ */
+export class JobInvoiceError extends Error {
+  readonly transaction: Transaction;
+
+  constructor(transaction: Transaction, cause: unknown) {
+    super(cause instanceof Error ? cause.message : 'Failed to create the draft invoice');
+    this.name = 'JobInvoiceError';
+    this.transaction = transaction;
+  }
+}
+
+export interface RecordedJob {
+  transaction: Transaction;
+  invoice?: Invoice;
+  /** The job was already in the books, so nothing new was added */
+  alreadyRecorded: boolean;
+}
+
+/**
+ * Book a completed job as pending income, and optionally raise a draft
+ * invoice for it. Entries already linked to the request are reused, so
+ * completing the same job twice doesn't count it twice. If the invoice
+ * fails, a booking made here is taken back; one that stays in the books is
+ * reported with a JobInvoiceError.
+ */
+export const recordCompletedJob = async (
+  repository: LedgerRepository,
+  request: ServiceRequest,
+  options: { withInvoice?: boolean } = {}
+): Promise<RecordedJob> => {
+  const [transactions, invoices, profile] = await Promise.all([
+    repository.listTransactions(),
+    options.withInvoice ? repository.listInvoices() : Promise.resolve([] as Invoice[]),
+    options.withInvoice ? repository.getBusinessProfile() : Promise.resolve(null),
+  ]);
+
+  // Checked before anything is written, so a bad invoice can't leave the job half booked
+  const bookedInvoice = invoices.find(i => i.request_id === request.id);
+  const invoiceData = options.withInvoice && !bookedInvoice ? jobInvoiceData(request, profile) : null;
+  const vatError = invoiceData && getInvoiceVatError(invoiceData, profile);
+  if (vatError) throw new Error(vatError);
+
+  const bookedTransaction = transactions.find(t => t.request_id === request.id);
+  const transaction = bookedTransaction ?? await repository.createTransaction(jobTransactionData(request));
+
+  let invoice = bookedInvoice;
+  if (invoiceData) {
+    try {
+      invoice = await repository.createInvoice(invoiceData);
+    } catch (error) {
+      if (bookedTransaction) throw new JobInvoiceError(transaction, error);
+      try {
+        await repository.deleteTransaction(transaction.id);
+      } catch (undoError) {
+        console.error('Error taking back job transaction:', undoError);
+        throw new JobInvoiceError(transaction, error);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    transaction,
+    invoice,
+    alreadyRecorded: !!bookedTransaction && (!options.withInvoice || !!bookedInvoice),
+  };
+};
+
+/**
+ * Paid income for money received against an invoice
+ */
+export const paymentTransactionData = (
+  invoice: Invoice,
+  payment: InvoicePaymentData,
+  bankRef?: string
+): TransactionData => ({
+  type: 'income',
+  category: 'Invoice Payment',
+  description: `Payment for ${invoice.number}`,
+  amount: roundCents(Number(payment.amount)),
+  date: payment.date,
+  client: invoice.client_name,
+  status: 'paid',
+  request_id: invoice.request_id,
+  customer_id: invoice.customer_id,
+  invoice_id: invoice.id,
+  bank_ref: bankRef,
+});
+
+export interface RecordedPayment {
+  invoice: Invoice;
+  transaction: Transaction;
+}
+
+/**
+ * Record a payment against an invoice and book it as paid income. For an
+ * invoice raised from a job, the job's pending income is reduced by the
+ * payment, and removed once it is all paid, so the job isn't counted twice.
+ * A payment found on a bank statement carries the statement line's id.
+ */
+export const recordInvoicePayment = async (
+  repository: LedgerRepository,
+  invoiceId: string,
+  data: InvoicePaymentData,
+  options: { bankRef?: string } = {}
+): Promise<RecordedPayment> => {
+  const invoice = await repository.recordPayment(invoiceId, data);
+  const transaction = await repository.createTransaction(paymentTransactionData(invoice, data, options.bankRef));
+
+  const pendingJob = invoice.request_id && (await repository.listTransactions()).find(t =>
+    t.request_id === invoice.request_id && !t.invoice_id && t.type === 'income' && t.status === 'pending' && !t.pending_sync
+  );
+  if (pendingJob) {
+    const remaining = roundCents(pendingJob.amount - transaction.amount);
+    if (remaining > 0) {
+      await repository.updateTransaction(pendingJob.id, { amount: remaining });
+    } else {
+      await repository.deleteTransaction(pendingJob.id);
+    }
+  }
+
+  return { invoice, transaction };
+};
+
+const loadBackends = (): Record<string, LedgerBackend> => {
+  try {
+    return JSON.parse(localStorage.getItem(BACKEND_KEY) || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+const rememberBackend = (userId: string, backend: LedgerBackend): void => {
+  localStorage.setItem(BACKEND_KEY, JSON.stringify({ ...loadBackends(), [userId]: backend }));
+};
+
+const createRepository = (userId: string, backend: LedgerBackend): LedgerRepository =>
+  backend === 'http' ? new HttpLedgerRepository(userId) : new IndexedDbLedgerRepository(userId);
+
+/**
+ * The backend's books if it has the bookkeeping endpoints, otherwise the
+ * device's. Offline, the last answer for this user is reused.
+ */
+export const resolveLedgerRepository = async (userId: string): Promise<LedgerRepository> => {
+  try {
+    await apiClient.getTransactions();
+    rememberBackend(userId, 'http');
+    return createRepository(userId, 'http');
+  } catch (error) {
+    const unsupported = error instanceof ApiError && (error.status === 404 || error.status === 501);
+    if (unsupported) {
+      rememberBackend(userId, 'local');
+      return createRepository(userId, 'local');
+    }
+    const known = loadBackends()[userId];
+    if (known) return createRepository(userId, known);
+    if (error instanceof NetworkError && isLocalDbSupported()) return createRepository(userId, 'local');
+    throw error;
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * CSV
+ * Spreadsheet-friendly text for exports, following RFC 4180: fields with
+ * commas, quotes or line breaks are quoted, and rows end in CRLF.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * The delimiter a CSV most likely uses: some banks export with semicolons
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLines = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const count = (char: string) => firstLines.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+/**
+ * Rows of a CSV file, with quoted fields unwrapped. Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows.map(values => values.map(value => value.trim()));
+};
@@ -0,0 +1,18 @@
+/**
+ * Downloads
+ * Saves files built in the browser, such as exports, to the device
+ */
+
+/**
+ * Save a blob through the browser under the given filename
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,271 @@
+/**
+ * Financial Reports
+ * Profit and loss by category, cash flow and year-on-year comparisons over
+ * the ledger, within the provider's financial year. That runs March to
+ * February unless they choose otherwise, the same as the SARS tax year.
+ */
+
+import { roundCents } from './bookkeeping';
+import { monthEnd, monthStart, toMonthIndex } from './availability';
+import { UNCATEGORISED } from './bankImport';
+import { getInvoiceBalance, isInvoiceIssued } from './invoiceLifecycle';
+import { BusinessProfile, Invoice, Transaction } from '@/types/service';
+
+/** March, as the SARS tax year runs March to February */
+export const DEFAULT_FINANCIAL_YEAR_START = 3;
+
+/** Years shown side by side in the annual profit and loss */
+const ANNUAL_YEARS = 3;
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const FULL_MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export type ReportPeriod = 'month' | 'quarter' | 'year';
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Annual',
+};
+
+/** A span of the report: a month, a quarter or a whole financial year */
+export interface ReportBucket {
+  /** YYYY-MM-DD, both inclusive */
+  start: string;
+  end: string;
+  /** e.g. Mar, Q1 or 2025/26 */
+  label: string;
+}
+
+export interface FinancialYear extends ReportBucket {
+  /** Calendar year the financial year starts in */
+  startYear: number;
+}
+
+export const getFinancialYearStart = (profile: Pick<BusinessProfile, 'financial_year_start'> | null): number =>
+  profile?.financial_year_start ?? DEFAULT_FINANCIAL_YEAR_START;
+
+const financialYearFrom = (startYear: number, startMonth: number): FinancialYear => {
+  const first = startYear * 12 + startMonth - 1;
+  return {
+    start: monthStart(first),
+    end: monthEnd(first + 11),
+    // A year starting in January is just the calendar year; others are named for both, e.g. 2025/26
+    label: startMonth === 1 ? String(startYear) : `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`,
+    startYear,
+  };
+};
+
+/**
+ * The financial year a day falls in
+ */
+export const getFinancialYear = (dateKey: string, startMonth: number): FinancialYear => {
+  const month = toMonthIndex(dateKey);
+  const startYear = Math.floor((month - (startMonth - 1)) / 12);
+  return financialYearFrom(startYear, startMonth);
+};
+
+export const getPreviousFinancialYear = (year: FinancialYear, startMonth: number): FinancialYear =>
+  financialYearFrom(year.startYear - 1, startMonth);
+
+/**
+ * The current financial year and the ones before it, newest first
+ */
+export const listFinancialYears = (on: string, startMonth: number, count = 4): FinancialYear[] => {
+  const current = getFinancialYear(on, startMonth);
+  return Array.from({ length: count }, (_, i) => financialYearFrom(current.startYear - i, startMonth));
+};
+
+/**
+ * The months or quarters of a financial year; for annual reports, the year
+ * and the two before it, oldest first
+ */
+export const getReportBuckets = (year: FinancialYear, period: ReportPeriod, startMonth: number): ReportBucket[] => {
+  if (period === 'year') {
+    return Array.from({ length: ANNUAL_YEARS }, (_, i) => financialYearFrom(year.startYear - (ANNUAL_YEARS - 1) + i, startMonth));
+  }
+  const first = toMonthIndex(year.start);
+  const size = period === 'quarter' ? 3 : 1;
+  return Array.from({ length: 12 / size }, (_, i) => {
+    const month = first + i * size;
+    return {
+      start: monthStart(month),
+      end: monthEnd(month + size - 1),
+      label: period === 'quarter' ? `Q${i + 1}` : MONTH_NAMES[month % 12],
+    };
+  });
+};
+
+const bucketIndex = (dateKey: string, buckets: ReportBucket[]): number =>
+  buckets.findIndex(bucket => dateKey >= bucket.start && dateKey <= bucket.end);
+
+const sumAll = (amounts: number[]): number => roundCents(amounts.reduce((sum, amount) => sum + amount, 0));
+
+export interface CategoryAmounts {
+  category: string;
+  /** One per bucket */
+  amounts: number[];
+  total: number;
+}
+
+export interface ProfitAndLoss {
+  buckets: ReportBucket[];
+  /** Largest first */
+  income: CategoryAmounts[];
+  expenses: CategoryAmounts[];
+  totalIncome: number[];
+  totalExpenses: number[];
+  profit: number[];
+  totals: { income: number; expenses: number; profit: number };
+}
+
+const byCategory = (transactions: Transaction[], buckets: ReportBucket[]): CategoryAmounts[] => {
+  const categories = new Map<string, number[]>();
+  transactions.forEach(t => {
+    const index = bucketIndex(t.date, buckets);
+    if (index === -1) return;
+    const category = t.category.trim() || UNCATEGORISED;
+    const amounts = categories.get(category) ?? buckets.map(() => 0);
+    amounts[index] = roundCents(amounts[index] + t.amount);
+    categories.set(category, amounts);
+  });
+  return [...categories.entries()]
+    .map(([category, amounts]) => ({ category, amounts, total: sumAll(amounts) }))
+    .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+};
+
+const columnTotals = (lines: CategoryAmounts[], buckets: ReportBucket[]): number[] =>
+  buckets.map((_, index) => sumAll(lines.map(line => line.amounts[index])));
+
+/**
+ * Income and expenses by category as they were booked, paid or not
+ */
+export const getProfitAndLoss = (transactions: Transaction[], buckets: ReportBucket[]): ProfitAndLoss => {
+  const income = byCategory(transactions.filter(t => t.type === 'income'), buckets);
+  const expenses = byCategory(transactions.filter(t => t.type === 'expense'), buckets);
+  const totalIncome = columnTotals(income, buckets);
+  const totalExpenses = columnTotals(expenses, buckets);
+  const profit = buckets.map((_, index) => roundCents(totalIncome[index] - totalExpenses[index]));
+
+  return {
+    buckets,
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    profit,
+    totals: { income: sumAll(totalIncome), expenses: sumAll(totalExpenses), profit: sumAll(profit) },
+  };
+};
+
+export interface CashFlowRow extends ReportBucket {
+  /** Paid income and expenses */
+  cashIn: number;
+  cashOut: number;
+  /** Still to come in on issued invoices, by due date */
+  owedToYou: number;
+  /** Expenses booked but not yet paid */
+  owedByYou: number;
+  net: number;
+  /** Net once what is owed either way is settled */
+  expectedNet: number;
+}
+
+/**
+ * Money in and out as it was paid, alongside what is still owed either way.
+ * Invoice balances already past due count in the current span, since that
+ * is the soonest they can now be paid.
+ */
+export const getCashFlow = (
+  transactions: Transaction[],
+  invoices: Invoice[],
+  buckets: ReportBucket[],
+  on: string
+): CashFlowRow[] => {
+  const rows = buckets.map(bucket => ({ ...bucket, cashIn: 0, cashOut: 0, owedToYou: 0, owedByYou: 0 }));
+  const add = (dateKey: string, field: 'cashIn' | 'cashOut' | 'owedToYou' | 'owedByYou', amount: number) => {
+    const index = bucketIndex(dateKey, buckets);
+    if (index !== -1) rows[index][field] = roundCents(rows[index][field] + amount);
+  };
+
+  transactions.forEach(t => {
+    if (t.status === 'paid') {
+      add(t.date, t.type === 'income' ? 'cashIn' : 'cashOut', t.amount);
+    } else if (t.type === 'expense') {
+      add(t.date, 'owedByYou', t.amount);
+    }
+  });
+  invoices
+    .filter(invoice => !invoice.pending_sync && isInvoiceIssued(invoice) && invoice.status !== 'paid')
+    .forEach(invoice => add(invoice.due_date < on ? on : invoice.due_date, 'owedToYou', getInvoiceBalance(invoice)));
+
+  return rows.map(row => {
+    const net = roundCents(row.cashIn - row.cashOut);
+    return { ...row, net, expectedNet: roundCents(net + row.owedToYou - row.owedByYou) };
+  });
+};
+
+export interface YearComparisonRow {
+  /** e.g. Mar or Q1 */
+  label: string;
+  income: number;
+  previousIncome: number;
+  expenses: number;
+  previousExpenses: number;
+  profit: number;
+  previousProfit: number;
+}
+
+export interface YearComparison {
+  year: FinancialYear;
+  previousYear: FinancialYear;
+  rows: YearComparisonRow[];
+  totals: Omit<YearComparisonRow, 'label'>;
+}
+
+/**
+ * A financial year beside the one before it, month by month or by quarter
+ */
+export const getYearComparison = (
+  transactions: Transaction[],
+  year: FinancialYear,
+  period: Exclude<ReportPeriod, 'year'>,
+  startMonth: number
+): YearComparison => {
+  const previousYear = getPreviousFinancialYear(year, startMonth);
+  const current = getProfitAndLoss(transactions, getReportBuckets(year, period, startMonth));
+  const previous = getProfitAndLoss(transactions, getReportBuckets(previousYear, period, startMonth));
+
+  return {
+    year,
+    previousYear,
+    rows: current.buckets.map((bucket, index) => ({
+      label: bucket.label,
+      income: current.totalIncome[index],
+      previousIncome: previous.totalIncome[index],
+      expenses: current.totalExpenses[index],
+      previousExpenses: previous.totalExpenses[index],
+      profit: current.profit[index],
+      previousProfit: previous.profit[index],
+    })),
+    totals: {
+      income: current.totals.income,
+      previousIncome: previous.totals.income,
+      expenses: current.totals.expenses,
+      previousExpenses: previous.totals.expenses,
+      profit: current.totals.profit,
+      previousProfit: previous.totals.profit,
+    },
+  };
+};
+
+/**
+ * Change from one figure to another as a percentage, or null when there is
+ * nothing to compare with
+ */
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / Math.abs(previous)) * 100);
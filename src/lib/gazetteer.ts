@@ -0,0 +1,191 @@
+/**
+ * South African Gazetteer
+ * Bundled offline list of provinces, metros, cities and major suburbs, used to
+ * turn free-text locations into structured ones with coordinates
+ */
+
+import { GeoPoint, ProvinceCode, StructuredLocation } from '@/types/service';
+
+export interface Province {
+  code: ProvinceCode;
+  name: string;
+  centre: GeoPoint;
+}
+
+export type PlaceKind = 'metro' | 'city' | 'suburb';
+
+export interface GazetteerPlace {
+  name: string;
+  kind: PlaceKind;
+  province: ProvinceCode;
+  /** City a suburb belongs to */
+  city?: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const PROVINCES: Province[] = [
+  { code: 'EC', name: 'Eastern Cape', centre: { lat: -32.2968, lng: 26.4194 } },
+  { code: 'FS', name: 'Free State', centre: { lat: -28.4541, lng: 26.7968 } },
+  { code: 'GP', name: 'Gauteng', centre: { lat: -26.2708, lng: 28.1123 } },
+  { code: 'KZN', name: 'KwaZulu-Natal', centre: { lat: -28.5306, lng: 30.8958 } },
+  { code: 'LP', name: 'Limpopo', centre: { lat: -23.4013, lng: 29.4179 } },
+  { code: 'MP', name: 'Mpumalanga', centre: { lat: -25.5653, lng: 30.5279 } },
+  { code: 'NC', name: 'Northern Cape', centre: { lat: -29.0467, lng: 21.8569 } },
+  { code: 'NW', name: 'North West', centre: { lat: -26.6639, lng: 25.2838 } },
+  { code: 'WC', name: 'Western Cape', centre: { lat: -33.2278, lng: 21.8569 } },
+];
+
+export const PLACES: GazetteerPlace[] = [
+  // Metros
+  { name: 'Johannesburg', kind: 'metro', province: 'GP', lat: -26.2041, lng: 28.0473, aliases: ['Joburg', 'Jozi', 'JHB'] },
+  { name: 'Pretoria', kind: 'metro', province: 'GP', lat: -25.7479, lng: 28.2293, aliases: ['Tshwane', 'PTA'] },
+  { name: 'Ekurhuleni', kind: 'metro', province: 'GP', lat: -26.1777, lng: 28.3462, aliases: ['East Rand'] },
+  { name: 'Cape Town', kind: 'metro', province: 'WC', lat: -33.9249, lng: 18.4241, aliases: ['CPT', 'Kaapstad'] },
+  { name: 'Durban', kind: 'metro', province: 'KZN', lat: -29.8587, lng: 31.0218, aliases: ['eThekwini', 'DBN'] },
+  { name: 'Gqeberha', kind: 'metro', province: 'EC', lat: -33.9608, lng: 25.6022, aliases: ['Port Elizabeth', 'Nelson Mandela Bay', 'PE'] },
+  { name: 'East London', kind: 'metro', province: 'EC', lat: -33.0153, lng: 27.9116, aliases: ['Buffalo City'] },
+  { name: 'Bloemfontein', kind: 'metro', province: 'FS', lat: -29.0852, lng: 26.1596, aliases: ['Mangaung', 'Bloem'] },
+
+  // Cities and large towns
+  { name: 'Pietermaritzburg', kind: 'city', province: 'KZN', lat: -29.6006, lng: 30.3794, aliases: ['PMB'] },
+  { name: 'Richards Bay', kind: 'city', province: 'KZN', lat: -28.7807, lng: 32.0383 },
+  { name: 'Ballito', kind: 'city', province: 'KZN', lat: -29.5389, lng: 31.2142 },
+  { name: 'Polokwane', kind: 'city', province: 'LP', lat: -23.9045, lng: 29.4689, aliases: ['Pietersburg'] },
+  { name: 'Mbombela', kind: 'city', province: 'MP', lat: -25.4753, lng: 30.9694, aliases: ['Nelspruit'] },
+  { name: 'eMalahleni', kind: 'city', province: 'MP', lat: -25.8713, lng: 29.2332, aliases: ['Witbank'] },
+  { name: 'Kimberley', kind: 'city', province: 'NC', lat: -28.7282, lng: 24.7499 },
+  { name: 'Upington', kind: 'city', province: 'NC', lat: -28.4478, lng: 21.2561 },
+  { name: 'Mahikeng', kind: 'city', province: 'NW', lat: -25.8560, lng: 25.6403, aliases: ['Mafikeng'] },
+  { name: 'Rustenburg', kind: 'city', province: 'NW', lat: -25.6676, lng: 27.2421 },
+  { name: 'Potchefstroom', kind: 'city', province: 'NW', lat: -26.7145, lng: 27.0970 },
+  { name: 'Stellenbosch', kind: 'city', province: 'WC', lat: -33.9321, lng: 18.8602 },
+  { name: 'Paarl', kind: 'city', province: 'WC', lat: -33.7342, lng: 18.9621 },
+  { name: 'George', kind: 'city', province: 'WC', lat: -33.9630, lng: 22.4617 },
+  { name: 'Mthatha', kind: 'city', province: 'EC', lat: -31.5889, lng: 28.7844, aliases: ['Umtata'] },
+  { name: 'Welkom', kind: 'city', province: 'FS', lat: -27.9774, lng: 26.7351 },
+
+  // Johannesburg suburbs
+  { name: 'Sandton', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.1076, lng: 28.0567 },
+  { name: 'Rosebank', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.1467, lng: 28.0436 },
+  { name: 'Randburg', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.0941, lng: 28.0012 },
+  { name: 'Fourways', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.0113, lng: 28.0115 },
+  { name: 'Midrand', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -25.9992, lng: 28.1263 },
+  { name: 'Soweto', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.2485, lng: 27.8540 },
+  { name: 'Roodepoort', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.1625, lng: 27.8725 },
+  { name: 'Melville', kind: 'suburb', province: 'GP', city: 'Johannesburg', lat: -26.1751, lng: 28.0089 },
+
+  // Pretoria suburbs
+  { name: 'Centurion', kind: 'suburb', province: 'GP', city: 'Pretoria', lat: -25.8603, lng: 28.1894 },
+  { name: 'Hatfield', kind: 'suburb', province: 'GP', city: 'Pretoria', lat: -25.7487, lng: 28.2380 },
+  { name: 'Menlyn', kind: 'suburb', province: 'GP', city: 'Pretoria', lat: -25.7825, lng: 28.2775 },
+
+  // Ekurhuleni suburbs
+  { name: 'Kempton Park', kind: 'suburb', province: 'GP', city: 'Ekurhuleni', lat: -26.1001, lng: 28.2296 },
+  { name: 'Benoni', kind: 'suburb', province: 'GP', city: 'Ekurhuleni', lat: -26.1885, lng: 28.3208 },
+  { name: 'Boksburg', kind: 'suburb', province: 'GP', city: 'Ekurhuleni', lat: -26.2125, lng: 28.2625 },
+  { name: 'Germiston', kind: 'suburb', province: 'GP', city: 'Ekurhuleni', lat: -26.2179, lng: 28.1672 },
+
+  // Cape Town suburbs
+  { name: 'Sea Point', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9156, lng: 18.3890 },
+  { name: 'Green Point', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9075, lng: 18.4050 },
+  { name: 'Claremont', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9810, lng: 18.4650 },
+  { name: 'Observatory', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9380, lng: 18.4720 },
+  { name: 'Woodstock', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9270, lng: 18.4460 },
+  { name: 'Constantia', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -34.0240, lng: 18.4410 },
+  { name: 'Bellville', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.9000, lng: 18.6290 },
+  { name: 'Durbanville', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -33.8320, lng: 18.6470 },
+  { name: 'Khayelitsha', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -34.0400, lng: 18.6770 },
+  { name: 'Mitchells Plain', kind: 'suburb', province: 'WC', city: 'Cape Town', lat: -34.0500, lng: 18.6180 },
+
+  // Durban suburbs
+  { name: 'Umhlanga', kind: 'suburb', province: 'KZN', city: 'Durban', lat: -29.7260, lng: 31.0850 },
+  { name: 'Berea', kind: 'suburb', province: 'KZN', city: 'Durban', lat: -29.8500, lng: 31.0000 },
+  { name: 'Westville', kind: 'suburb', province: 'KZN', city: 'Durban', lat: -29.8310, lng: 30.9250 },
+  { name: 'Pinetown', kind: 'suburb', province: 'KZN', city: 'Durban', lat: -29.8160, lng: 30.8570 },
+
+  // Gqeberha suburbs
+  { name: 'Summerstrand', kind: 'suburb', province: 'EC', city: 'Gqeberha', lat: -33.9850, lng: 25.6600 },
+  { name: 'Walmer', kind: 'suburb', province: 'EC', city: 'Gqeberha', lat: -33.9800, lng: 25.5850 },
+];
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const placeMatches = (place: GazetteerPlace, name: string) =>
+  normalise(place.name) === name || place.aliases?.some(alias => normalise(alias) === name);
+
+export const getProvince = (code: ProvinceCode): Province | undefined =>
+  PROVINCES.find(province => province.code === code);
+
+export const findProvince = (name: string): Province | undefined => {
+  const target = normalise(name);
+  return PROVINCES.find(p => normalise(p.name) === target || p.code.toLowerCase() === target);
+};
+
+/**
+ * Look up a place by name or alias, optionally within a province
+ */
+export const findPlace = (name: string, province?: ProvinceCode): GazetteerPlace | undefined => {
+  const target = normalise(name);
+  return PLACES.find(place => placeMatches(place, target) && (!province || place.province === province));
+};
+
+export const placeToLocation = (place: GazetteerPlace): StructuredLocation => ({
+  province: place.province,
+  city: place.city ?? place.name,
+  suburb: place.kind === 'suburb' ? place.name : undefined,
+  lat: place.lat,
+  lng: place.lng,
+});
+
+export const formatPlace = (place: GazetteerPlace): string =>
+  place.city ? `${place.name}, ${place.city}` : `${place.name}, ${getProvince(place.province)?.name}`;
+
+/**
+ * Places whose name or alias starts with (or contains) the query, best matches first
+ */
+export const searchPlaces = (query: string, limit = 8): GazetteerPlace[] => {
+  const target = normalise(query);
+  if (target.length < 2) return [];
+  const names = (place: GazetteerPlace) => [place.name, ...(place.aliases ?? [])].map(normalise);
+  const prefix = PLACES.filter(place => names(place).some(name => name.startsWith(target)));
+  const partial = PLACES.filter(place =>
+    !prefix.includes(place) && names(place).some(name => name.includes(target))
+  );
+  return [...prefix, ...partial].slice(0, limit);
+};
+
+/**
+ * Resolve free text such as "Sea Point, Cape Town" or "Durban, KZN" into a
+ * structured location. The most specific recognised part wins; a bare province
+ * resolves to its centre. Returns null when nothing is recognised.
+ */
+export const resolveLocation = (text?: string | null): StructuredLocation | null => {
+  if (!text) return null;
+  const parts = text
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part && normalise(part) !== 'south africa');
+
+  const province = parts.map(findProvince).find(Boolean);
+  const places = parts
+    .map(part => findPlace(part, province?.code))
+    .filter((place): place is GazetteerPlace => Boolean(place));
+  const place = places.find(p => p.kind === 'suburb') ?? places[0];
+
+  if (place) return placeToLocation(place);
+  if (province) {
+    return { province: province.code, city: province.name, ...province.centre };
+  }
+  return null;
+};
+
+/**
+ * Display text for a structured location, e.g. "Sea Point, Cape Town"
+ */
+export const formatLocation = (location: StructuredLocation): string => {
+  if (location.suburb) return `${location.suburb}, ${location.city}`;
+  const province = getProvince(location.province)?.name;
+  return province && province !== location.city ? `${location.city}, ${province}` : location.city;
+};
@@ -0,0 +1,61 @@
+/**
+ * Distance Utilities
+ * Great-circle distances between structured or free-text locations
+ */
+
+import { GeoPoint, StructuredLocation } from '@/types/service';
+import { findPlace, getProvince, resolveLocation } from './gazetteer';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance in kilometres
+ */
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Coordinates for a location: its own lat/lng, else the gazetteer entry for its
+ * suburb or city, else its province centre
+ */
+export const locationPoint = (location?: StructuredLocation | null): GeoPoint | null => {
+  if (!location) return null;
+  if (location.lat !== undefined && location.lng !== undefined) {
+    return { lat: location.lat, lng: location.lng };
+  }
+  const place = (location.suburb && findPlace(location.suburb, location.province)) ||
+    findPlace(location.city, location.province);
+  if (place) return { lat: place.lat, lng: place.lng };
+  return getProvince(location.province)?.centre ?? null;
+};
+
+/**
+ * Coordinates for anything with a free-text location and optional structured details
+ */
+export const pointOf = (subject: { location?: string; location_details?: StructuredLocation }): GeoPoint | null =>
+  locationPoint(subject.location_details ?? resolveLocation(subject.location));
+
+/**
+ * Distance from an origin to a subject's location, or undefined when either is unknown
+ */
+export const distanceTo = (
+  origin: GeoPoint | null | undefined,
+  subject: { location?: string; location_details?: StructuredLocation }
+): number | undefined => {
+  const point = pointOf(subject);
+  return origin && point ? distanceKm(origin, point) : undefined;
+};
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(100, Math.round(km * 10) * 100)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
@@ -0,0 +1,208 @@
+/**
+ * iCalendar Export
+ * Builds RFC 5545 .ics files for booked jobs: a single event per request and a
+ * per-provider feed of upcoming jobs. Events keep a stable UID and bump their
+ * SEQUENCE on every status change, so calendar apps apply updates and
+ * cancellations to the event they already hold instead of duplicating it.
+ */
+
+import { RequestStatus, ServiceRequest, TimeSlot } from '@/types/service';
+import { BLOCKING_STATUSES, sastDateTime } from './availability';
+import { STATUS_LABELS } from './requestStatus';
+import { downloadBlob } from './download';
+
+const PRODUCT_ID = '-//LinkLocal//Bookings//EN';
+const UID_DOMAIN = 'linklocal.co.za';
+
+/** Statuses that put a job in the provider's calendar */
+export const CALENDAR_STATUSES: RequestStatus[] = ['accepted', 'in_progress', 'completed', 'disputed'];
+
+/** Statuses that take a previously scheduled job out again */
+const CANCELLED_STATUSES: RequestStatus[] = ['cancelled', 'declined'];
+
+/** Jobs with only a date start at the beginning of the working day */
+const DEFAULT_START_TIME = '08:00';
+
+const FEED_REFRESH = 'PT1H';
+
+export interface CalendarOrganizer {
+  name: string;
+  email: string;
+}
+
+export interface CalendarFile {
+  filename: string;
+  content: string;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const quoteParam = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+/**
+ * Fold a content line at 75 octets, without splitting multi-byte characters
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const slug = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * When a job takes place: the booked slot, otherwise the requested date and
+ * estimated duration. Null when the request has no date at all.
+ */
+export const getEventTime = (request: ServiceRequest): TimeSlot | null => {
+  if (request.scheduled_slot) return request.scheduled_slot;
+  if (!request.requested_date) return null;
+
+  const start = /^\d{4}-\d{2}-\d{2}$/.test(request.requested_date)
+    ? sastDateTime(request.requested_date, DEFAULT_START_TIME)
+    : new Date(request.requested_date);
+  if (isNaN(start.getTime())) return null;
+
+  const hours = request.estimated_duration && request.estimated_duration > 0 ? request.estimated_duration : 1;
+  return { start: start.toISOString(), end: new Date(start.getTime() + hours * 3600000).toISOString() };
+};
+
+const wasScheduled = (request: ServiceRequest): boolean =>
+  (request.status_history ?? []).some(change => BLOCKING_STATUSES.includes(change.to));
+
+/**
+ * Whether the request appears in calendars, as a live or a cancelled event
+ */
+export const isCalendarEvent = (request: ServiceRequest): boolean =>
+  getEventTime(request) !== null &&
+  (CALENDAR_STATUSES.includes(request.status) ||
+    (CANCELLED_STATUSES.includes(request.status) && wasScheduled(request)));
+
+export const isCancelledEvent = (request: ServiceRequest): boolean => CANCELLED_STATUSES.includes(request.status);
+
+/**
+ * Revision number of the event; every status change is a new revision
+ */
+export const getEventSequence = (request: ServiceRequest): number =>
+  Math.max(0, (request.status_history?.length ?? 1) - 1);
+
+const eventUid = (request: ServiceRequest): string => `${request.id}@${UID_DOMAIN}`;
+
+const buildEvent = (request: ServiceRequest, time: TimeSlot, organizer?: CalendarOrganizer): string[] => {
+  const cancelled = isCancelledEvent(request);
+  const description = [
+    `Customer: ${request.customer.name}`,
+    `Status: ${STATUS_LABELS[request.status]}`,
+    request.agreed_price !== undefined ? `Agreed price: R${request.agreed_price.toFixed(2)}` : null,
+    request.message ? `\n${request.message}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(request)}`,
+    `SEQUENCE:${getEventSequence(request)}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `CREATED:${formatDateTime(new Date(request.created_at))}`,
+    `LAST-MODIFIED:${formatDateTime(new Date(request.updated_at))}`,
+    `DTSTART:${formatDateTime(new Date(time.start))}`,
+    `DTEND:${formatDateTime(new Date(time.end))}`,
+    `SUMMARY:${escapeText(`${cancelled ? 'Cancelled: ' : ''}${request.service.title} – ${request.customer.name}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(request.location ? [`LOCATION:${escapeText(request.location)}`] : []),
+    ...(organizer ? [`ORGANIZER;CN=${quoteParam(organizer.name)}:mailto:${organizer.email}`] : []),
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `TRANSP:${cancelled ? 'TRANSPARENT' : 'OPAQUE'}`,
+    'END:VEVENT',
+  ];
+};
+
+const buildCalendar = (method: string, properties: string[], events: string[][]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...properties,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+/**
+ * One job as an .ics file, published like the feed rather than sent as an
+ * invitation. Once the job has been called off the event is marked CANCELLED;
+ * imported over the earlier file, the same UID and a higher SEQUENCE are what
+ * calendar apps use to cancel the event they hold. METHOD:CANCEL is the iTIP
+ * message an organizer sends an invitation's ATTENDEEs, and a file the
+ * provider saves for their own calendar has none.
+ */
+export const buildRequestCalendar = (request: ServiceRequest, organizer: CalendarOrganizer): CalendarFile | null => {
+  const time = getEventTime(request);
+  if (!time || !isCalendarEvent(request)) return null;
+
+  return {
+    filename: `${slug(request.service.title) || 'job'}-${request.id}.ics`,
+    content: buildCalendar('PUBLISH', [], [buildEvent(request, time, organizer)]),
+  };
+};
+
+/**
+ * A provider's upcoming jobs as a published calendar. Cancelled jobs stay in
+ * the feed as CANCELLED so subscribed calendars remove them.
+ */
+export const buildProviderCalendar = (
+  requests: ServiceRequest[],
+  organizer: CalendarOrganizer & { id: string },
+  now: Date = new Date()
+): CalendarFile => {
+  const events = requests
+    .filter(r => r.provider.id === organizer.id && isCalendarEvent(r))
+    .map(r => ({ request: r, time: getEventTime(r)! }))
+    .filter(({ time }) => new Date(time.end) >= now)
+    .sort((a, b) => a.time.start.localeCompare(b.time.start))
+    .map(({ request, time }) => buildEvent(request, time, organizer));
+
+  return {
+    filename: `${slug(organizer.name) || 'provider'}-jobs.ics`,
+    content: buildCalendar(
+      'PUBLISH',
+      [
+        `X-WR-CALNAME:${escapeText(`${organizer.name} – LinkLocal jobs`)}`,
+        'X-WR-TIMEZONE:Africa/Johannesburg',
+        `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH}`,
+        `X-PUBLISHED-TTL:${FEED_REFRESH}`,
+      ],
+      events
+    ),
+  };
+};
+
+/**
+ * Save an .ics file through the browser
+ */
+export const downloadCalendarFile = (file: CalendarFile): void =>
+  downloadBlob(new Blob([file.content], { type: 'text/calendar;charset=utf-8' }), file.filename);
@@ -0,0 +1,223 @@
+/**
+ * Invoice Lifecycle
+ * What happens to an invoice once it is issued: emailing it, payments against
+ * it, the move to overdue once the due date passes, reminder emails and aged
+ * receivables. Neither the on-device books nor the demo backend has a
+ * scheduler, so both apply the lifecycle whenever invoices are read.
+ */
+
+import type { InvoicePaymentData, SendInvoiceData } from './api';
+import { addDays, toSastDateKey } from './availability';
+import { roundCents } from './bookkeeping';
+import { formatRand } from './invoicePdf';
+import { MailMessage, isValidEmail } from './mail';
+import { BusinessProfile, Invoice, InvoicePayment, InvoiceStatus, PaymentMethod } from '@/types/service';
+
+/** Reminder rules for new business profiles: 3 days before the due date, then 7 and 14 days after */
+export const DEFAULT_REMINDER_DAYS = [-3, 7, 14];
+
+/** Reminder rules a provider can pick from */
+export const REMINDER_DAY_OPTIONS = [-7, -3, -1, 0, 1, 7, 14, 30];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partly paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  eft: 'EFT',
+  cash: 'Cash',
+  card: 'Card',
+  other: 'Other',
+};
+
+export type AgingBucket = 'current' | 'days_30' | 'days_60' | 'days_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_30', label: '1–30 days' },
+  { key: 'days_60', label: '31–60 days' },
+  { key: 'days_90', label: '61–90 days' },
+  { key: 'days_90_plus', label: '90+ days' },
+];
+
+export interface AgedReceivables {
+  buckets: Record<AgingBucket, { amount: number; count: number }>;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const today = (): string => toSastDateKey(new Date());
+
+export const getAmountPaid = (invoice: Pick<Invoice, 'payments'>): number =>
+  roundCents((invoice.payments ?? []).reduce((sum, payment) => sum + payment.amount, 0));
+
+export const getInvoiceBalance = (invoice: Pick<Invoice, 'amount' | 'payments'>): number =>
+  roundCents(Math.max(0, invoice.amount - getAmountPaid(invoice)));
+
+/**
+ * Days past the due date, or 0 if it isn't due yet
+ */
+export const getDaysOverdue = (invoice: Pick<Invoice, 'due_date'>, on: string): number =>
+  Math.max(0, Math.round((Date.parse(on) - Date.parse(invoice.due_date)) / DAY_MS));
+
+/**
+ * Sent or paid against, so the client has it and it counts as owing
+ */
+export const isInvoiceIssued = (invoice: Pick<Invoice, 'status' | 'sent_at' | 'payments'>): boolean =>
+  invoice.status !== 'draft' || !!invoice.sent_at || (invoice.payments?.length ?? 0) > 0;
+
+/**
+ * Where the invoice stands on the given day, from its payments and due date
+ */
+export const deriveInvoiceStatus = (invoice: Invoice, on: string): InvoiceStatus => {
+  if (!isInvoiceIssued(invoice)) return 'draft';
+  // Marked paid before payments could be recorded
+  if (invoice.status === 'paid' && !invoice.payments?.length) return 'paid';
+  if (getInvoiceBalance(invoice) === 0) return 'paid';
+  if (invoice.due_date < on) return 'overdue';
+  return getAmountPaid(invoice) > 0 ? 'partially_paid' : 'sent';
+};
+
+export const describeReminderDay = (days: number): string => {
+  if (days === 0) return 'On the due date';
+  const count = `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`;
+  return days < 0 ? `${count} before` : `${count} after`;
+};
+
+/**
+ * The reminder rule to act on today, if any. Only the latest rule that has
+ * come round is used, so an invoice issued late doesn't get several at once.
+ */
+export const getDueReminder = (invoice: Invoice, reminderDays: number[], on: string): number | null => {
+  const status = deriveInvoiceStatus(invoice, on);
+  if (!['sent', 'partially_paid', 'overdue'].includes(status) || !isValidEmail(invoice.client_email ?? '')) return null;
+
+  const issuedOn = toSastDateKey(new Date(invoice.sent_at ?? invoice.created_at));
+  const lastSent = Math.max(-Infinity, ...(invoice.reminders_sent ?? []).map(reminder => reminder.days));
+  const due = reminderDays.filter(days => {
+    const remindOn = addDays(invoice.due_date, days);
+    return days > lastSent && remindOn <= on && remindOn > issuedOn;
+  });
+  return due.length > 0 ? Math.max(...due) : null;
+};
+
+/**
+ * The invoice brought up to date for the given day, with the reminder to
+ * email if one is due. The reminder is recorded as sent here, so a failed
+ * delivery isn't retried over and over.
+ */
+export const applyInvoiceLifecycle = (
+  invoice: Invoice,
+  reminderDays: number[],
+  on: string,
+  now: string = new Date().toISOString()
+): { invoice: Invoice; reminder: number | null; changed: boolean } => {
+  const status = deriveInvoiceStatus(invoice, on);
+  const reminder = getDueReminder(invoice, reminderDays, on);
+  if (status === invoice.status && reminder === null) return { invoice, reminder, changed: false };
+
+  return {
+    invoice: {
+      ...invoice,
+      status,
+      reminders_sent: reminder === null
+        ? invoice.reminders_sent
+        : [...(invoice.reminders_sent ?? []), { days: reminder, sent_at: now }],
+    },
+    reminder,
+    changed: true,
+  };
+};
+
+/**
+ * Problem with a payment, or null if it can be recorded
+ */
+export const validatePaymentData = (invoice: Invoice, data: InvoicePaymentData, on: string): string | null => {
+  const balance = getInvoiceBalance(invoice);
+  if (balance === 0) return 'This invoice is already paid';
+  if (!(Number(data.amount) > 0)) return 'Payment must be more than R0';
+  if (roundCents(Number(data.amount)) > balance) return `Payment is more than the ${formatRand(balance)} still owing`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date ?? '') || isNaN(Date.parse(data.date))) return 'Choose a valid payment date';
+  if (data.date > on) return "Payment date can't be in the future";
+  if (!PAYMENT_METHOD_LABELS[data.method]) return 'Choose how it was paid';
+  return null;
+};
+
+export const applyPayment = (invoice: Invoice, payment: InvoicePayment, on: string): Invoice => {
+  const paid = { ...invoice, payments: [...(invoice.payments ?? []), payment] };
+  return { ...paid, status: deriveInvoiceStatus(paid, on) };
+};
+
+export const markInvoiceSent = (invoice: Invoice, to: string, now: string, on: string): Invoice => {
+  const sent = { ...invoice, client_email: invoice.client_email || to, sent_at: now, sent_to: to };
+  return { ...sent, status: deriveInvoiceStatus({ ...sent, status: sent.status === 'draft' ? 'sent' : sent.status }, on) };
+};
+
+export const validateSendInvoiceData = (data: SendInvoiceData): string | null => {
+  if (!isValidEmail(data.to ?? '')) return "Enter the client's email address";
+  if (!data.attachment?.data_url?.startsWith('data:application/pdf')) return 'Attach the invoice PDF';
+  return null;
+};
+
+const fromName = (profile: BusinessProfile | null) => profile?.business_name || 'Your service provider';
+
+export const getDefaultInvoiceMessage = (invoice: Invoice, profile: BusinessProfile | null): string =>
+  `Hi ${invoice.client_name},\n\n` +
+  `Please find attached invoice ${invoice.number} for ${formatRand(invoice.amount)}, ` +
+  `due on ${invoice.due_date}.\n\nThank you for your business.\n${fromName(profile)}`;
+
+export const invoiceEmail = (invoice: Invoice, profile: BusinessProfile | null, data: SendInvoiceData): MailMessage => ({
+  to: data.to.trim(),
+  reply_to: profile?.email,
+  subject: `Invoice ${invoice.number} from ${fromName(profile)}`,
+  text: data.message?.trim() || getDefaultInvoiceMessage(invoice, profile),
+  attachments: [data.attachment],
+});
+
+export const reminderEmail = (invoice: Invoice, profile: BusinessProfile | null, days: number): MailMessage => {
+  const balance = formatRand(getInvoiceBalance(invoice));
+  const when = days < 0
+    ? `is due on ${invoice.due_date}`
+    : days === 0 ? 'is due today' : `was due on ${invoice.due_date}`;
+  return {
+    to: invoice.client_email,
+    reply_to: profile?.email,
+    subject: days > 0
+      ? `Overdue: invoice ${invoice.number} from ${fromName(profile)}`
+      : `Reminder: invoice ${invoice.number} from ${fromName(profile)}`,
+    text: `Hi ${invoice.client_name},\n\n` +
+      `This is a friendly reminder that invoice ${invoice.number} ${when}, with ${balance} still outstanding.\n\n` +
+      `If you have already paid, please ignore this message.\n${fromName(profile)}`,
+  };
+};
+
+/**
+ * What clients owe, grouped by how far past the due date it is
+ */
+export const getAgedReceivables = (invoices: Invoice[], on: string): AgedReceivables => {
+  const buckets = Object.fromEntries(AGING_BUCKETS.map(({ key }) => [key, { amount: 0, count: 0 }])) as
+    AgedReceivables['buckets'];
+  let total = 0;
+
+  invoices
+    .filter(invoice => !invoice.pending_sync && isInvoiceIssued(invoice))
+    .forEach(invoice => {
+      const balance = deriveInvoiceStatus(invoice, on) === 'paid' ? 0 : getInvoiceBalance(invoice);
+      if (balance === 0) return;
+      const overdue = getDaysOverdue(invoice, on);
+      const key: AgingBucket = overdue === 0 ? 'current'
+        : overdue <= 30 ? 'days_30'
+          : overdue <= 60 ? 'days_60'
+            : overdue <= 90 ? 'days_90'
+              : 'days_90_plus';
+      buckets[key] = { amount: roundCents(buckets[key].amount + balance), count: buckets[key].count + 1 };
+      total = roundCents(total + balance);
+    });
+
+  return { buckets, total };
+};
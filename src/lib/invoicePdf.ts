@@ -0,0 +1,266 @@
+/**
+ * Invoice Documents
+ * Lays out an invoice as a PDF in the browser. For VAT vendors it is a tax
+ * invoice with what SARS asks for: the words "Tax Invoice", supplier and
+ * recipient details and VAT numbers, a sequential number, the issue date,
+ * and the VAT charged shown separately.
+ */
+
+import { A4, PdfColor, PdfDocument, dataUrlToBytes, hexColor } from './pdf';
+import { toSastDateKey } from './availability';
+import { SecurityUtils } from './security';
+import { downloadBlob } from './download';
+import type { MailAttachment } from './mail';
+import { BusinessProfile, Invoice } from '@/types/service';
+
+/** Above this total (incl. VAT) SARS needs a full tax invoice, with the recipient's address */
+export const FULL_TAX_INVOICE_THRESHOLD = 5000;
+
+/** Logos are stored downscaled to this many pixels on their longest side */
+const MAX_LOGO_DIMENSION = 400;
+
+const MARGIN = 48;
+const RIGHT = A4.width - MARGIN;
+/** Rows stop this far from the bottom, leaving room for the totals */
+const BOTTOM_LIMIT = A4.height - 72;
+
+const BRAND: PdfColor = hexColor('#f97316');
+const TEXT: PdfColor = hexColor('#1f2937');
+const MUTED: PdfColor = hexColor('#6b7280');
+const RULE: PdfColor = hexColor('#e5e7eb');
+const HEADER_FILL: PdfColor = hexColor('#f3f4f6');
+
+export const isTaxInvoice = (profile: Pick<BusinessProfile, 'vat_number'> | null): boolean => !!profile?.vat_number;
+
+/**
+ * e.g. R12 500.00
+ */
+export const formatRand = (amount: number): string =>
+  `R${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ' ')}`;
+
+const formatDocumentDate = (dateKey: string): string =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Why this invoice can't be issued as a document yet, or null if it can
+ */
+export const getInvoiceDocumentError = (invoice: Invoice, profile: BusinessProfile | null): string | null => {
+  if (invoice.pending_sync || !invoice.number) return 'This invoice gets its number once it has synced';
+  if (!profile?.business_name || !profile.address) return 'Add your business name and address first';
+  if (isTaxInvoice(profile) && invoice.amount > FULL_TAX_INVOICE_THRESHOLD && !invoice.client_address) {
+    return "Tax invoices over R5 000 need the client's address";
+  }
+  return null;
+};
+
+export const getInvoiceFilename = (invoice: Invoice): string =>
+  `${(invoice.number || 'invoice').replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+
+/**
+ * Lines of a details block, skipping what isn't filled in
+ */
+const detailLines = (...lines: (string | undefined | false)[]): string[] =>
+  lines.filter((line): line is string => !!line);
+
+export const buildInvoicePdf = (invoice: Invoice, profile: BusinessProfile): PdfDocument => {
+  const pdf = new PdfDocument();
+  const taxInvoice = isTaxInvoice(profile);
+
+  // Logo and title
+  let logoBottom = MARGIN;
+  if (profile.logo_data_url) {
+    try {
+      logoBottom += pdf.jpeg(dataUrlToBytes(profile.logo_data_url), MARGIN, MARGIN, 140, 60).height;
+    } catch (error) {
+      console.error('Error adding logo to invoice:', error);
+    }
+  }
+  pdf.text(taxInvoice ? 'TAX INVOICE' : 'INVOICE', RIGHT, MARGIN, { size: 20, bold: true, color: BRAND, align: 'right' });
+
+  let metaY = MARGIN + 32;
+  const meta: [string, string][] = [
+    ['Invoice no.', invoice.number],
+    ['Date issued', formatDocumentDate(toSastDateKey(new Date(invoice.created_at)))],
+    ['Due date', formatDocumentDate(invoice.due_date)],
+  ];
+  meta.forEach(([label, value]) => {
+    pdf.text(label, RIGHT - 130, metaY, { size: 9, color: MUTED });
+    pdf.text(value, RIGHT, metaY, { size: 9, bold: true, color: TEXT, align: 'right' });
+    metaY += 14;
+  });
+
+  // Supplier and recipient
+  const columnWidth = 230;
+  const drawParty = (title: string, name: string, lines: string[], x: number, top: number): number => {
+    let y = top;
+    pdf.text(title.toUpperCase(), x, y, { size: 8, bold: true, color: MUTED });
+    y += 14;
+    pdf.wrapText(name, columnWidth, 11, true).forEach(line => {
+      pdf.text(line, x, y, { size: 11, bold: true, color: TEXT });
+      y += 14;
+    });
+    lines.flatMap(line => pdf.wrapText(line, columnWidth, 9)).forEach(line => {
+      pdf.text(line, x, y, { size: 9, color: TEXT });
+      y += 12;
+    });
+    return y;
+  };
+
+  const partiesTop = Math.max(logoBottom, metaY) + 24;
+  const supplierBottom = drawParty('From', profile.business_name, detailLines(
+    profile.address,
+    profile.vat_number && `VAT no. ${profile.vat_number}`,
+    profile.registration_number && `Reg. no. ${profile.registration_number}`,
+    profile.email,
+    profile.phone
+  ), MARGIN, partiesTop);
+  const recipientBottom = drawParty('Bill to', invoice.client_name, detailLines(
+    invoice.client_address,
+    invoice.client_vat_number && `VAT no. ${invoice.client_vat_number}`,
+    invoice.client_email
+  ), MARGIN + columnWidth + 40, partiesTop);
+
+  // Line items
+  const columns = { description: MARGIN + 8, quantity: RIGHT - 170, rate: RIGHT - 90, amount: RIGHT - 8 };
+  const descriptionWidth = columns.quantity - columns.description - 40;
+  const drawTableHeader = (top: number): number => {
+    pdf.fillRect(MARGIN, top, RIGHT - MARGIN, 22, HEADER_FILL);
+    const headerOptions = { size: 9, bold: true, color: TEXT };
+    pdf.text('Description', columns.description, top + 7, headerOptions);
+    pdf.text('Qty', columns.quantity, top + 7, { ...headerOptions, align: 'right' });
+    pdf.text(taxInvoice ? 'Rate (excl. VAT)' : 'Rate', columns.rate, top + 7, { ...headerOptions, align: 'right' });
+    pdf.text('Amount', columns.amount, top + 7, { ...headerOptions, align: 'right' });
+    return top + 30;
+  };
+
+  let y = drawTableHeader(Math.max(supplierBottom, recipientBottom) + 24);
+  invoice.items.forEach(item => {
+    const lines = pdf.wrapText(item.description, descriptionWidth, 9);
+    const rowHeight = lines.length * 12 + 8;
+    if (y + rowHeight > BOTTOM_LIMIT) {
+      pdf.addPage();
+      y = drawTableHeader(MARGIN);
+    }
+    lines.forEach((line, index) => pdf.text(line, columns.description, y + index * 12, { size: 9, color: TEXT }));
+    pdf.text(String(item.quantity), columns.quantity, y, { size: 9, color: TEXT, align: 'right' });
+    pdf.text(formatRand(item.rate), columns.rate, y, { size: 9, color: TEXT, align: 'right' });
+    pdf.text(formatRand(item.amount), columns.amount, y, { size: 9, color: TEXT, align: 'right' });
+    y += rowHeight;
+    pdf.line(MARGIN, y - 4, RIGHT, y - 4, RULE);
+  });
+
+  // Totals, with VAT shown separately on tax invoices
+  const totals: [string, string][] = taxInvoice
+    ? [
+      ['Total excl. VAT', formatRand(invoice.subtotal)],
+      [`VAT (${Math.round(invoice.vat_rate * 100)}%)`, formatRand(invoice.vat_amount)],
+    ]
+    : [];
+  if (y + totals.length * 16 + 60 > A4.height - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  y += 8;
+  totals.forEach(([label, value]) => {
+    pdf.text(label, RIGHT - 200, y, { size: 9, color: MUTED });
+    pdf.text(value, columns.amount, y, { size: 9, color: TEXT, align: 'right' });
+    y += 16;
+  });
+  pdf.line(RIGHT - 200, y, RIGHT, y, TEXT);
+  y += 8;
+  pdf.text(taxInvoice ? 'Total incl. VAT' : 'Total due', RIGHT - 200, y, { size: 12, bold: true, color: TEXT });
+  pdf.text(formatRand(invoice.amount), columns.amount, y, { size: 12, bold: true, color: TEXT, align: 'right' });
+  y += 36;
+
+  // Payment details
+  const paymentLines = detailLines(
+    ...(profile.bank_details ? pdf.wrapText(profile.bank_details, 300, 9) : []),
+    `Please use ${invoice.number} as your payment reference.`
+  );
+  if (y + paymentLines.length * 12 + 16 > A4.height - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  pdf.text('PAYMENT DETAILS', MARGIN, y, { size: 8, bold: true, color: MUTED });
+  y += 14;
+  paymentLines.forEach(line => {
+    pdf.text(line, MARGIN, y, { size: 9, color: TEXT });
+    y += 12;
+  });
+
+  return pdf;
+};
+
+/**
+ * Check a chosen logo with the shared upload rules and turn it into a small
+ * JPEG data URL, flattened onto white since JPEG has no transparency
+ */
+export const prepareInvoiceLogo = async (file: File): Promise<string> => {
+  const check = SecurityUtils.validateFileUpload(file);
+  if (!check.valid) throw new Error(check.error);
+  if (!file.type.startsWith('image/')) throw new Error('Choose a JPEG, PNG or WebP image');
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Could not read this image'));
+      img.src = url;
+    });
+    const scale = Math.min(1, MAX_LOGO_DIMENSION / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not read this image');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const downloadInvoicePdf = (invoice: Invoice, profile: BusinessProfile): void => {
+  downloadBlob(buildInvoicePdf(invoice, profile).toBlob(), getInvoiceFilename(invoice));
+};
+
+/**
+ * The PDF ready to attach to an email
+ */
+export const getInvoicePdfAttachment = (invoice: Invoice, profile: BusinessProfile): MailAttachment => {
+  const bytes = buildInvoicePdf(invoice, profile).toBytes();
+  let binary = '';
+  // In chunks, as spreading a whole PDF into fromCharCode overflows the call stack
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return {
+    filename: getInvoiceFilename(invoice),
+    content_type: 'application/pdf',
+    data_url: `data:application/pdf;base64,${btoa(binary)}`,
+  };
+};
+
+/**
+ * Hand the PDF to the device's share sheet (WhatsApp, email, ...), or
+ * download it where files can't be shared
+ */
+export const shareInvoicePdf = async (invoice: Invoice, profile: BusinessProfile): Promise<'shared' | 'downloaded'> => {
+  const blob = buildInvoicePdf(invoice, profile).toBlob();
+  const file = new File([blob], getInvoiceFilename(invoice), { type: 'application/pdf' });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({
+      files: [file],
+      title: `${isTaxInvoice(profile) ? 'Tax invoice' : 'Invoice'} ${invoice.number}`,
+      text: `${profile.business_name}: invoice ${invoice.number} for ${formatRand(invoice.amount)}, due ${formatDocumentDate(invoice.due_date)}.`,
+    });
+    return 'shared';
+  }
+
+  downloadBlob(blob, file.name);
+  return 'downloaded';
+};
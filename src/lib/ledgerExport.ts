@@ -0,0 +1,78 @@
+/**
+ * Ledger Export
+ * The provider's transactions as a CSV for their accountant or SARS, zipped
+ * together with the receipts that back up their expenses.
+ */
+
+import { toCsv } from './csv';
+import { downloadBlob } from './download';
+import { dataUrlToBytes } from './pdf';
+import { buildZip, ZipEntry } from './zip';
+import { isPdfReceipt } from './receipts';
+import { Receipt, Transaction } from '@/types/service';
+
+const TRANSACTION_COLUMNS = ['Date', 'Type', 'Category', 'Description', 'Client', 'Amount', 'Status', 'Receipts'];
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'expense';
+
+/**
+ * Where each of a transaction's receipts goes in the archive, e.g.
+ * receipts/2025-03-14_paint-and-brushes_1.jpg
+ */
+export const getReceiptPaths = (transaction: Transaction, receipts: Receipt[]): string[] =>
+  receipts.map((receipt, index) =>
+    `receipts/${transaction.date}_${slugify(transaction.description)}_${index + 1}.${isPdfReceipt(receipt) ? 'pdf' : 'jpg'}`
+  );
+
+export interface LedgerExport {
+  filename: string;
+  blob: Blob;
+  /** Receipts referred to by a transaction but not kept on this device */
+  missingReceipts: number;
+}
+
+export const buildLedgerExport = (transactions: Transaction[], receipts: Receipt[], exportedAt = new Date()): LedgerExport => {
+  const receiptsById = new Map(receipts.map(receipt => [receipt.id, receipt]));
+  const files: ZipEntry[] = [];
+  let missingReceipts = 0;
+
+  const rows = [...transactions]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at))
+    .map(transaction => {
+      const ids = transaction.receipt_ids ?? [];
+      const found = ids.map(id => receiptsById.get(id)).filter((receipt): receipt is Receipt => !!receipt);
+      missingReceipts += ids.length - found.length;
+
+      const paths = getReceiptPaths(transaction, found);
+      found.forEach((receipt, index) => files.push({
+        path: paths[index],
+        data: dataUrlToBytes(receipt.data_url),
+        modified: new Date(receipt.created_at),
+      }));
+
+      return [
+        transaction.date,
+        transaction.type === 'income' ? 'Income' : 'Expense',
+        transaction.category,
+        transaction.description,
+        transaction.client,
+        transaction.amount.toFixed(2),
+        transaction.status,
+        paths.join('; '),
+      ];
+    });
+
+  const date = exportedAt.toISOString().split('T')[0];
+  const zip = buildZip([{ path: 'transactions.csv', data: toCsv(TRANSACTION_COLUMNS, rows), modified: exportedAt }, ...files]);
+  return {
+    filename: `linklocal-books-${date}.zip`,
+    blob: new Blob([zip], { type: 'application/zip' }),
+    missingReceipts,
+  };
+};
+
+/**
+ * Save the export through the browser
+ */
+export const downloadLedgerExport = ({ blob, filename }: LedgerExport): void => downloadBlob(blob, filename);
@@ -0,0 +1,66 @@
+/**
+ * On-device Database
+ * Small promise wrapper over IndexedDB for data kept on the device rather
+ * than (or before) the backend. Every store is keyed by id and indexed by
+ * the owning user.
+ */
+
+const DB_NAME = 'linklocal';
+const DB_VERSION = 3;
+
+export type LocalStoreName = 'transactions' | 'invoices' | 'business_profiles' | 'receipts';
+
+/** Stores missing from an older database are created on upgrade; bump DB_VERSION when adding one */
+const STORES: LocalStoreName[] = ['transactions', 'invoices', 'business_profiles', 'receipts'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.filter(name => !db.objectStoreNames.contains(name)).forEach(name => {
+          db.createObjectStore(name, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const run = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isLocalDbSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+export const getUserRecords = <T>(storeName: LocalStoreName, userId: string): Promise<T[]> =>
+  run<T[]>(storeName, 'readonly', store => store.index('user_id').getAll(userId));
+
+export const getRecord = async <T>(storeName: LocalStoreName, id: string): Promise<T | null> =>
+  (await run<T | undefined>(storeName, 'readonly', store => store.get(id))) ?? null;
+
+export const putRecord = async <T>(storeName: LocalStoreName, record: T): Promise<T> => {
+  await run(storeName, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const deleteRecord = async (storeName: LocalStoreName, id: string): Promise<void> => {
+  await run(storeName, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,73 @@
+/**
+ * Outgoing Mail
+ * Email goes out through a pluggable MailTransport. Until a real one is set
+ * (an SMTP relay or mail API behind the backend), LocalMailTransport stands
+ * in: it keeps a log of what would have been sent on this device.
+ */
+
+const SENT_MAIL_KEY = 'sa_services_sent_mail';
+
+/** Only the most recent messages are kept in the local log */
+const SENT_MAIL_LIMIT = 25;
+
+export interface MailAttachment {
+  filename: string;
+  content_type: string;
+  data_url: string;
+}
+
+export interface MailMessage {
+  to: string;
+  /** Replies go to the provider rather than the platform */
+  reply_to?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/** A message as kept in the local log; attachment contents are dropped to save space */
+export interface SentMail extends Omit<MailMessage, 'attachments'> {
+  attachments: string[];
+  sent_at: string;
+}
+
+export const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+export const getSentMail = (): SentMail[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_MAIL_KEY) || '[]');
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Stand-in for a mail service: keeps each message on this device instead of
+ * delivering it
+ */
+export class LocalMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    if (!isValidEmail(message.to)) throw new Error(`Can't send to "${message.to}"`);
+
+    const sent: SentMail = {
+      ...message,
+      attachments: (message.attachments ?? []).map(attachment => attachment.filename),
+      sent_at: new Date().toISOString(),
+    };
+    localStorage.setItem(SENT_MAIL_KEY, JSON.stringify([sent, ...getSentMail()].slice(0, SENT_MAIL_LIMIT)));
+  }
+}
+
+export const localMailTransport = new LocalMailTransport();
+
+let mailTransport: MailTransport = localMailTransport;
+
+export const getMailTransport = (): MailTransport => mailTransport;
+
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
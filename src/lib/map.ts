@@ -0,0 +1,132 @@
+/**
+ * Offline Map Utilities
+ * Projection, province outlines and marker clustering for the tile-less SVG
+ * map of South Africa
+ */
+
+import provincesGeoJson from '@/assets/geo/za-provinces.geojson?raw';
+import { GeoPoint, ProvinceCode } from '@/types/service';
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface ProvinceOutline {
+  code: ProvinceCode;
+  name: string;
+  /** Outer ring as [lng, lat] pairs */
+  ring: [number, number][];
+}
+
+interface ProvinceFeatureCollection {
+  type: 'FeatureCollection';
+  features: {
+    type: 'Feature';
+    properties: { code: ProvinceCode; name: string };
+    geometry: { type: 'Polygon'; coordinates: [number, number][][] };
+  }[];
+}
+
+export const PROVINCE_OUTLINES: ProvinceOutline[] = (JSON.parse(provincesGeoJson) as ProvinceFeatureCollection)
+  .features.map(feature => ({
+    code: feature.properties.code,
+    name: feature.properties.name,
+    ring: feature.geometry.coordinates[0],
+  }));
+
+export interface GeoBounds {
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+export const SOUTH_AFRICA_BOUNDS: GeoBounds = { west: 16.3, east: 33.0, south: -35.0, north: -22.0 };
+
+/**
+ * Equirectangular projection of the given bounds into a width x height box,
+ * with longitudes scaled by the cosine of the middle latitude so shapes keep
+ * their proportions
+ */
+export const createProjection = (width: number, height: number, bounds: GeoBounds = SOUTH_AFRICA_BOUNDS) => {
+  const lngScale = Math.cos(((bounds.north + bounds.south) / 2) * Math.PI / 180);
+  const spanX = (bounds.east - bounds.west) * lngScale;
+  const spanY = bounds.north - bounds.south;
+  const scale = Math.min(width / spanX, height / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return (point: GeoPoint): ScreenPoint => ({
+    x: offsetX + (point.lng - bounds.west) * lngScale * scale,
+    y: offsetY + (bounds.north - point.lat) * scale,
+  });
+};
+
+/**
+ * SVG path data for a ring of [lng, lat] pairs
+ */
+export const ringToPath = (ring: [number, number][], project: (point: GeoPoint) => ScreenPoint): string =>
+  ring
+    .map(([lng, lat], index) => {
+      const { x, y } = project({ lat, lng });
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ') + ' Z';
+
+/**
+ * Points approximating a circle of the given radius on the ground
+ */
+export const circleRing = (centre: GeoPoint, radiusKm: number, steps = 64): [number, number][] => {
+  const angular = radiusKm / 6371;
+  const lat1 = centre.lat * Math.PI / 180;
+  const lng1 = centre.lng * Math.PI / 180;
+
+  return Array.from({ length: steps + 1 }, (_, index) => {
+    const bearing = (index / steps) * 2 * Math.PI;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const lng2 = lng1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    return [lng2 * 180 / Math.PI, lat2 * 180 / Math.PI];
+  });
+};
+
+export interface Cluster<T> {
+  key: string;
+  x: number;
+  y: number;
+  items: T[];
+}
+
+/**
+ * Group screen positions that fall in the same grid cell, placing each group
+ * at the average position of its members
+ */
+export const clusterByGrid = <T>(
+  items: T[],
+  position: (item: T) => ScreenPoint,
+  cellSize: number
+): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  items.forEach(item => {
+    const { x, y } = position(item);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) ?? { items: [], sumX: 0, sumY: 0 };
+    cell.items.push(item);
+    cell.sumX += x;
+    cell.sumY += y;
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells, ([key, cell]) => ({
+    key,
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+    items: cell.items,
+  }));
+};
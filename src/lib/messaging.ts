@@ -0,0 +1,137 @@
+/**
+ * Request Messaging
+ * Conversation threads on service requests. Components talk to a
+ * MessageTransport so the polling implementation below can be swapped for a
+ * push-based one (e.g. WebSocket) without touching the UI.
+ */
+
+import { ApiClient, MessageAttachmentData, SendMessageData, apiClient, unwrapResponse } from './api';
+import { SecurityUtils } from './security';
+import { RequestMessage } from '@/types/service';
+
+/** How often open threads and unread counts are refreshed */
+export const MESSAGE_POLL_INTERVAL = 5000;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_MESSAGE_ATTACHMENTS = 4;
+
+// Photos are downscaled before sending to keep threads light on mobile data
+const MAX_PHOTO_DIMENSION = 1280;
+const PHOTO_QUALITY = 0.8;
+
+export interface MessageTransport {
+  fetchThread(requestId: string): Promise<RequestMessage[]>;
+  /**
+   * Receive the whole thread whenever it may have changed (new messages or
+   * read receipts). Returns a function that stops the subscription.
+   */
+  subscribe(requestId: string, listener: (messages: RequestMessage[]) => void): () => void;
+  send(requestId: string, message: SendMessageData): Promise<RequestMessage>;
+  markRead(requestId: string): Promise<void>;
+  fetchUnreadCounts(): Promise<Record<string, number>>;
+}
+
+/**
+ * Transport that polls the REST API, pausing while the tab is hidden.
+ * Works unchanged against the demo mode mock backend.
+ */
+export class PollingMessageTransport implements MessageTransport {
+  private client: ApiClient;
+  private intervalMs: number;
+
+  constructor(client: ApiClient = apiClient, intervalMs: number = MESSAGE_POLL_INTERVAL) {
+    this.client = client;
+    this.intervalMs = intervalMs;
+  }
+
+  async fetchThread(requestId: string): Promise<RequestMessage[]> {
+    return unwrapResponse(await this.client.getRequestMessages(requestId));
+  }
+
+  subscribe(requestId: string, listener: (messages: RequestMessage[]) => void): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        if (!document.hidden) {
+          const messages = await this.fetchThread(requestId);
+          if (!stopped) listener(messages);
+        }
+      } catch (error) {
+        console.error('Error polling messages:', error);
+      } finally {
+        if (!stopped) timer = setTimeout(poll, this.intervalMs);
+      }
+    };
+
+    timer = setTimeout(poll, this.intervalMs);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  async send(requestId: string, message: SendMessageData): Promise<RequestMessage> {
+    return unwrapResponse(await this.client.sendRequestMessage(requestId, message));
+  }
+
+  async markRead(requestId: string): Promise<void> {
+    unwrapResponse(await this.client.markRequestMessagesRead(requestId));
+  }
+
+  async fetchUnreadCounts(): Promise<Record<string, number>> {
+    return unwrapResponse(await this.client.getUnreadMessageCounts());
+  }
+}
+
+export const messageTransport: MessageTransport = new PollingMessageTransport();
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read this photo'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Check a chosen photo with the shared upload rules and downscale it into a
+ * JPEG data URL ready to send
+ */
+export const preparePhotoAttachment = async (file: File): Promise<MessageAttachmentData> => {
+  const check = SecurityUtils.validateFileUpload(file);
+  if (!check.valid) throw new Error(check.error);
+  if (!file.type.startsWith('image/')) throw new Error('Only photos can be attached to messages');
+
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const dataUrl = canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+  return {
+    name: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+    type: 'image/jpeg',
+    // Decoded size of the base64 payload
+    size: Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4),
+    data_url: dataUrl,
+  };
+};
+
+/** Short text for a message in notifications and previews */
+export const messagePreview = (message: Pick<RequestMessage, 'body' | 'attachments'>): string => {
+  if (message.body.trim()) {
+    return message.body.length > 80 ? `${message.body.slice(0, 77)}...` : message.body;
+  }
+  return message.attachments.length === 1 ? 'Sent a photo' : `Sent ${message.attachments.length} photos`;
+};
@@ -0,0 +1,1279 @@
+/**
+ * Mock Server Handlers
+ * Server-side behaviour for the core LinkLocal endpoints in demo mode
+ */
+
+import {
+  BusinessProfile,
+  Feedback,
+  Invoice,
+  MessageAttachment,
+  Notification,
+  NotificationPreferences,
+  ProviderAvailability,
+  PushSubscriptionRecord,
+  Quote,
+  QuoteLineItem,
+  RequestMessage,
+  RequestStatus,
+  Service,
+  ServiceRequest,
+  StructuredLocation,
+  Transaction,
+  User
+} from '@/types/service';
+import {
+  AvailabilityData,
+  BusinessProfileData,
+  DaySlots,
+  InvoiceData,
+  InvoicePaymentData,
+  MessageAttachmentData,
+  NotificationPreferencesData,
+  QuoteData,
+  SendInvoiceData,
+  TransactionData
+} from '../api';
+import { resolveLocation } from '../gazetteer';
+import { distanceKm, pointOf } from '../geo';
+import {
+  NOTE_REQUIRED,
+  REQUEST_STATUSES,
+  STATUS_LABELS,
+  RequestRole,
+  canTransition,
+  getRequestRole,
+  isQuoteTransition
+} from '../requestStatus';
+import {
+  calculateQuoteTotals,
+  canSendQuote,
+  getOpenQuote,
+  getQuoteResponseError,
+  getVatChargeError,
+  validateQuote
+} from '../quotes';
+import { MAX_MESSAGE_ATTACHMENTS, MAX_MESSAGE_LENGTH, messagePreview } from '../messaging';
+import { buildProviderCalendar } from '../icalendar';
+import {
+  DEFAULT_INVOICE_PREFIX,
+  businessProfileFromData,
+  emptyProfileData,
+  formatInvoiceNumber,
+  getInvoiceTotals,
+  getInvoiceUpdateError,
+  getInvoiceVatError,
+  getReminderDays,
+  roundCents,
+  toInvoiceItems,
+  validateBusinessProfile,
+  validateInvoiceData,
+  validateTransactionData
+} from '../bookkeeping';
+import {
+  applyInvoiceLifecycle,
+  applyPayment,
+  deriveInvoiceStatus,
+  invoiceEmail,
+  markInvoiceSent,
+  reminderEmail,
+  today,
+  validatePaymentData,
+  validateSendInvoiceData
+} from '../invoiceLifecycle';
+import { PushPayload, toPushPayload } from '../push';
+import { digestNotification, feedbackNotification, newRequestNotification, statusNotification } from '../notifications';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getDueDigestItems,
+  isVisibleInApp,
+  planDelivery,
+  toNotificationPreferencesData,
+  validateNotificationPreferences
+} from '../notificationPreferences';
+import {
+  BLOCKING_STATUSES,
+  BOOKING_WINDOW_DAYS,
+  DEFAULT_AVAILABILITY,
+  addDays,
+  generateSlots,
+  getBookedSlots,
+  getSlotMinutes,
+  slotsOverlap,
+  toSastDateKey,
+  validateAvailability
+} from '../availability';
+import { MockContext, MockHttpError, MockRouter, created, numberParam, ok, paginate, requireBody } from './router';
+import { MockDatabase } from './store';
+
+const ACCESS_TOKEN_TTL = 60 * 60; // 1 hour
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // 7 days
+
+const encodeSegment = (value: object): string =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * Issue unsigned JWT-shaped tokens that JWTUtils can decode
+ */
+const createToken = (user: User, type: 'access' | 'refresh', ttl: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    encodeSegment({ alg: 'none', typ: 'JWT' }),
+    encodeSegment({ sub: user.id, email: user.email, role: user.role, iat: now, exp: now + ttl, type }),
+    'mock-signature'
+  ].join('.');
+};
+
+const issueTokens = (user: User) => ({
+  access_token: createToken(user, 'access', ACCESS_TOKEN_TTL),
+  refresh_token: createToken(user, 'refresh', REFRESH_TOKEN_TTL),
+  expires_in: ACCESS_TOKEN_TTL,
+  user
+});
+
+const findService = ({ db, params }: MockContext): Service => {
+  const service = db.services.find(s => s.id === params.id);
+  if (!service) throw new MockHttpError(404, 'Service not found');
+  return service;
+};
+
+const findOwnService = (context: MockContext): Service => {
+  const service = findService(context);
+  if (service.provider.id !== context.user.id) {
+    throw new MockHttpError(403, 'Access denied. You can only manage your own services.');
+  }
+  return service;
+};
+
+const findRequest = ({ db, params, user }: MockContext): ServiceRequest => {
+  const request = db.requests.find(r => r.id === params.id);
+  if (!request || (request.customer.id !== user.id && request.provider.id !== user.id)) {
+    throw new MockHttpError(404, 'Request not found');
+  }
+  return request;
+};
+
+const findOwned = <T extends { id: string; user_id: string }>(
+  { params, user }: MockContext,
+  records: T[],
+  name: string
+): T => {
+  const record = records.find(r => r.id === params.id);
+  if (!record || record.user_id !== user.id) throw new MockHttpError(404, `${name} not found`);
+  return record;
+};
+
+const parseTransactionData = (body: Record<string, unknown>): TransactionData => {
+  const data: TransactionData = {
+    type: body.type as TransactionData['type'],
+    category: typeof body.category === 'string' ? body.category.trim() : '',
+    description: typeof body.description === 'string' ? body.description.trim() : '',
+    amount: roundCents(Number(body.amount)),
+    date: String(body.date ?? ''),
+    client: typeof body.client === 'string' && body.client.trim() ? body.client.trim() : undefined,
+    status: (body.status as TransactionData['status']) || 'paid',
+    request_id: typeof body.request_id === 'string' ? body.request_id : undefined,
+    customer_id: typeof body.customer_id === 'string' ? body.customer_id : undefined,
+    invoice_id: typeof body.invoice_id === 'string' ? body.invoice_id : undefined,
+    receipt_ids: Array.isArray(body.receipt_ids) && body.receipt_ids.length > 0
+      ? body.receipt_ids.filter((id): id is string => typeof id === 'string')
+      : undefined,
+    bank_ref: typeof body.bank_ref === 'string' ? body.bank_ref : undefined,
+    vat_amount: body.vat_amount === undefined || body.vat_amount === null ? undefined : roundCents(Number(body.vat_amount))
+  };
+  const error = validateTransactionData(data);
+  if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+  return data;
+};
+
+const parseInvoiceData = (
+  body: Record<string, unknown>,
+  id: string,
+  profile: BusinessProfile | null
+): Omit<Invoice, 'id' | 'user_id' | 'number' | 'created_at' | 'updated_at'> => {
+  const data = { ...body, vat_rate: Number(body.vat_rate) || 0 } as unknown as InvoiceData;
+  const error = validateInvoiceData(data) ?? getInvoiceVatError(data, profile);
+  if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+  const items = toInvoiceItems(data.items, id);
+  return {
+    client_name: data.client_name.trim(),
+    client_email: data.client_email?.trim() ?? '',
+    client_address: typeof data.client_address === 'string' && data.client_address.trim() ? data.client_address.trim() : undefined,
+    client_vat_number: typeof data.client_vat_number === 'string' && data.client_vat_number.trim()
+      ? data.client_vat_number.trim()
+      : undefined,
+    due_date: data.due_date,
+    status: data.status || 'draft',
+    items,
+    vat_rate: data.vat_rate,
+    ...getInvoiceTotals(items, data.vat_rate),
+    request_id: typeof data.request_id === 'string' ? data.request_id : undefined,
+    customer_id: typeof data.customer_id === 'string' ? data.customer_id : undefined
+  };
+};
+
+const findBusinessProfile = (db: MockDatabase, userId: string): BusinessProfile | null =>
+  db.business_profiles.find(p => p.user_id === userId) ?? null;
+
+const saveInvoice = (context: MockContext, invoice: Invoice) => {
+  context.store.write(db => {
+    db.invoices = db.invoices.map(i => i.id === invoice.id ? invoice : i);
+  });
+};
+
+/**
+ * Move the user's invoices to overdue and email reminders as their dates come
+ * round. There is no scheduler in demo mode, so this runs whenever the user's
+ * invoices are read.
+ */
+const applyInvoiceLifecycles = (context: MockContext, userId: string) => {
+  const profile = findBusinessProfile(context.db, userId);
+  const on = today();
+  context.db.invoices.filter(i => i.user_id === userId).forEach(invoice => {
+    const result = applyInvoiceLifecycle(invoice, getReminderDays(profile), on);
+    if (!result.changed) return;
+    saveInvoice(context, result.invoice);
+    if (result.reminder !== null) {
+      context.mailTransport?.send(reminderEmail(result.invoice, profile, result.reminder))
+        .catch(error => console.error('Error sending invoice reminder:', error));
+    }
+  });
+};
+
+/**
+ * The request moved to a new status, with the change recorded in its history
+ */
+const withStatus = (
+  request: ServiceRequest,
+  status: RequestStatus,
+  user: User,
+  role: RequestRole,
+  note?: string
+): ServiceRequest => {
+  const now = new Date().toISOString();
+  return {
+    ...request,
+    status,
+    status_history: [
+      ...(request.status_history ?? []),
+      {
+        from: request.status,
+        to: status,
+        changed_by: { id: user.id, name: user.name, role },
+        note: note || undefined,
+        changed_at: now
+      }
+    ],
+    updated_at: now
+  };
+};
+
+/**
+ * Store an updated request, telling the other party when its status changed
+ */
+const saveRequest = (context: MockContext, request: ServiceRequest) => {
+  const previous = context.db.requests.find(r => r.id === request.id);
+  context.store.write(data => {
+    data.requests = data.requests.map(r => r.id === request.id ? request : r);
+  });
+  if (previous && previous.status !== request.status) {
+    const recipient = context.user.id === request.customer.id ? request.provider : request.customer;
+    createNotification(context, { user_id: recipient.id, ...statusNotification(request) });
+  }
+};
+
+const parseQuoteData = (body: Record<string, unknown>): QuoteData => {
+  requireBody(body, ['line_items', 'valid_until']);
+  if (!Array.isArray(body.line_items)) throw new MockHttpError(422, 'Validation failed: line_items must be a list');
+
+  const data: QuoteData = {
+    line_items: (body.line_items as Record<string, unknown>[]).map((item): QuoteLineItem => ({
+      description: String(item.description ?? '').trim(),
+      type: item.type === 'materials' ? 'materials' : 'labour',
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price)
+    })),
+    vat_rate: Number(body.vat_rate ?? 0),
+    valid_until: String(body.valid_until),
+    notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : undefined
+  };
+  const error = validateQuote(data);
+  if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+  return data;
+};
+
+/**
+ * Only VAT vendors may charge VAT, so a quote with it, or a counter to one,
+ * needs the provider's VAT number on file
+ */
+const assertQuoteVat = (db: MockDatabase, request: ServiceRequest, data: QuoteData, role: RequestRole) => {
+  const error = getVatChargeError(data.vat_rate, findBusinessProfile(db, request.provider.id)?.vat_number);
+  if (error) {
+    throw new MockHttpError(422, `Validation failed: ${role === 'provider' ? error : 'The provider is not registered for VAT'}`);
+  }
+};
+
+const buildQuote = (data: QuoteData, user: User, role: RequestRole, parentId?: string): Quote => ({
+  id: `quote-${crypto.randomUUID()}`,
+  parent_id: parentId,
+  author: { id: user.id, name: user.name, role },
+  ...data,
+  ...calculateQuoteTotals(data.line_items, data.vat_rate),
+  status: 'pending',
+  created_at: new Date().toISOString()
+});
+
+const formatAmount = (amount: number) => `R${amount.toFixed(2)}`;
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const parseAttachments = (value: unknown): MessageAttachment[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new MockHttpError(422, 'Validation failed: attachments must be a list');
+  if (value.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw new MockHttpError(422, `Validation failed: at most ${MAX_MESSAGE_ATTACHMENTS} photos per message`);
+  }
+  return (value as MessageAttachmentData[]).map((attachment, index) => {
+    if (typeof attachment.data_url !== 'string' || !attachment.data_url.startsWith('data:image/')) {
+      throw new MockHttpError(422, 'Validation failed: only photos can be attached');
+    }
+    if (!(attachment.size > 0) || attachment.size > MAX_ATTACHMENT_BYTES) {
+      throw new MockHttpError(422, 'Validation failed: photos must be less than 5MB');
+    }
+    return {
+      id: `attachment-${crypto.randomUUID()}`,
+      name: String(attachment.name || `photo-${index + 1}.jpg`),
+      type: String(attachment.type),
+      size: attachment.size,
+      url: attachment.data_url
+    };
+  });
+};
+
+const preferencesFor = (db: MockDatabase, userId: string): NotificationPreferencesData =>
+  toNotificationPreferencesData(db.notification_preferences.find(p => p.user_id === userId));
+
+/**
+ * Store a notification as the recipient's preferences allow: dropped when
+ * every channel is off for its type, held for the digest, or sent on the
+ * channels that are on and not silenced by quiet hours
+ */
+const createNotification = (
+  context: MockContext,
+  notification: Omit<Notification, 'id' | 'is_read' | 'created_at' | 'channels' | 'held_until'>
+): Notification | null => {
+  const plan = planDelivery(preferencesFor(context.db, notification.user_id), notification.type);
+  if (!plan) return null;
+
+  const created: Notification = {
+    id: `notification-${crypto.randomUUID()}`,
+    ...notification,
+    ...plan,
+    is_read: false,
+    created_at: new Date().toISOString()
+  };
+  context.store.write(data => data.notifications.unshift(created));
+  if (created.channels?.includes('push')) sendPush(context, created.user_id, toPushPayload(created));
+  return created;
+};
+
+/**
+ * Push to each of the user's subscribed devices
+ */
+const sendPush = (context: MockContext, userId: string, payload: PushPayload): number => {
+  const subscriptions = context.db.push_subscriptions.filter(s => s.user_id === userId);
+  subscriptions.forEach(subscription => {
+    context.pushSender?.send(subscription, payload).catch(error => console.error('Error sending push:', error));
+  });
+  return subscriptions.length;
+};
+
+/**
+ * Send the user's digest once it is due. There is no scheduler in demo mode,
+ * so this runs whenever the user's notifications are read.
+ */
+const flushDigest = (context: MockContext, userId: string) => {
+  const preferences = preferencesFor(context.db, userId);
+  const due = getDueDigestItems(context.db.notifications.filter(n => n.user_id === userId), preferences);
+  if (due.length === 0) return;
+
+  const dueIds = new Set(due.map(n => n.id));
+  context.store.write(data => {
+    // Covered by the digest, so they join the centre already read
+    data.notifications = data.notifications.map(n => dueIds.has(n.id)
+      ? { ...n, held_until: undefined, is_read: true, channels: preferences.channels[n.type].in_app ? ['in_app'] : [] }
+      : n);
+  });
+  createNotification(context, { user_id: userId, ...digestNotification(due) });
+};
+
+const findNotification = ({ db, params, user }: MockContext): Notification => {
+  const notification = db.notifications.find(n => n.id === params.id && n.user_id === user.id);
+  if (!notification) throw new MockHttpError(404, 'Notification not found');
+  return notification;
+};
+
+const availabilityFor = (db: MockDatabase, providerId: string): ProviderAvailability =>
+  db.availability.find(a => a.provider_id === providerId) ?? {
+    provider_id: providerId,
+    ...DEFAULT_AVAILABILITY,
+    updated_at: new Date(0).toISOString()
+  };
+
+/**
+ * Reject accepting a request whose slot another accepted job already holds
+ */
+const assertSlotFree = (db: MockDatabase, request: ServiceRequest) => {
+  const slot = request.scheduled_slot;
+  if (slot && getBookedSlots(db.requests, request.provider.id, request.id).some(taken => slotsOverlap(slot, taken))) {
+    throw new MockHttpError(409, 'This time slot is already booked by another job');
+  }
+};
+
+// Structured location sent by the client, or resolved from the free text
+const locationDetails = (body: Record<string, unknown>, location: string): StructuredLocation | undefined =>
+  (body.location_details as StructuredLocation | undefined) ?? resolveLocation(location) ?? undefined;
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export const registerCoreRoutes = (router: MockRouter): MockRouter => router
+  // Authentication
+  .on('POST', '/auth/login', ({ db, body }) => {
+    requireBody(body, ['email', 'password']);
+    const user = db.users.find(u => u.email.toLowerCase() === String(body.email).toLowerCase());
+    if (!user) throw new MockHttpError(401, 'Invalid credentials');
+    return ok(issueTokens(user), 'Login successful');
+  })
+  .on('POST', '/register', ({ store, db, body }) => {
+    requireBody(body, ['name', 'email', 'password', 'role']);
+    const email = String(body.email).toLowerCase();
+    if (db.users.some(u => u.email.toLowerCase() === email)) {
+      throw new MockHttpError(409, 'An account with this email already exists');
+    }
+    const now = new Date().toISOString();
+    const user: User = {
+      id: `user-${crypto.randomUUID()}`,
+      name: String(body.name),
+      email,
+      role: body.role === 'provider' ? 'provider' : 'customer',
+      phone: body.phone as string | undefined,
+      location: (body.location as string) || 'South Africa',
+      location_details: resolveLocation(body.location as string) ?? undefined,
+      rating: 0,
+      is_verified: false,
+      is_active: true,
+      created_at: now,
+      updated_at: now
+    };
+    store.write(data => data.users.push(user));
+    return created(issueTokens(user), 'Registration successful');
+  })
+  .on('POST', '/auth/refresh', ({ db, body }) => {
+    requireBody(body, ['refresh_token']);
+    // A token that won't decode is as invalid as one for an unknown user, so the session ends
+    let claims: { sub?: string; type?: string } | null;
+    try {
+      const [, payload] = String(body.refresh_token).split('.');
+      claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    } catch (error) {
+      throw new MockHttpError(401, 'Invalid refresh token');
+    }
+    const user = db.users.find(u => u.id === claims?.sub);
+    if (!user || claims?.type !== 'refresh') throw new MockHttpError(401, 'Invalid refresh token');
+    const { access_token, refresh_token, expires_in } = issueTokens(user);
+    return ok({ access_token, refresh_token, expires_in });
+  })
+
+  // Services
+  .on('GET', '/services', ({ db, query }) => {
+    const search = query.get('search')?.toLowerCase();
+    const category = query.get('category');
+    const location = query.get('location')?.toLowerCase();
+    const provider = query.get('provider');
+    const priceType = query.get('price_type');
+    const minPrice = numberParam(query, 'min_price');
+    const maxPrice = numberParam(query, 'max_price');
+    const minRating = numberParam(query, 'min_rating');
+    const verifiedOnly = query.get('verified') === 'true';
+    const nearLat = numberParam(query, 'near_lat');
+    const nearLng = numberParam(query, 'near_lng');
+    const radius = numberParam(query, 'radius_km');
+    const origin = nearLat !== undefined && nearLng !== undefined ? { lat: nearLat, lng: nearLng } : null;
+    const sort = query.get('sort');
+
+    const withinRadius = (service: Service) => {
+      if (!origin || radius === undefined) return true;
+      const point = pointOf(service);
+      return point !== null && distanceKm(origin, point) <= radius;
+    };
+
+    const services = db.services.filter(service =>
+      service.is_active &&
+      (!search ||
+        service.title.toLowerCase().includes(search) ||
+        service.description.toLowerCase().includes(search) ||
+        service.category.name.toLowerCase().includes(search)) &&
+      (!category || service.category.id === category) &&
+      (!location || service.location.toLowerCase().includes(location)) &&
+      (!provider || service.provider.id === provider) &&
+      (!priceType || service.price_type === priceType) &&
+      (minPrice === undefined || service.price >= minPrice) &&
+      (maxPrice === undefined || service.price <= maxPrice) &&
+      (minRating === undefined || service.rating >= minRating) &&
+      (!verifiedOnly || service.provider.is_verified) &&
+      withinRadius(service)
+    );
+
+    const comparators: Record<string, (a: Service, b: Service) => number> = {
+      price_asc: (a, b) => a.price - b.price,
+      price_desc: (a, b) => b.price - a.price,
+      rating: (a, b) => b.rating - a.rating || b.review_count - a.review_count,
+      review_count: (a, b) => b.review_count - a.review_count,
+      newest: byNewest,
+    };
+    if (sort && comparators[sort]) {
+      services.sort(comparators[sort]);
+    }
+
+    return ok(paginate(services, query));
+  })
+  .on('GET', '/services/:id', context => ok(findService(context)))
+  .on('POST', '/services', ({ store, db, body, user }) => {
+    requireBody(body, ['title', 'description', 'category', 'location', 'price', 'price_type']);
+    if (user.role !== 'provider') {
+      throw new MockHttpError(403, 'Only providers can create services');
+    }
+    const category = db.categories.find(c => c.id === body.category);
+    if (!category) throw new MockHttpError(422, 'Validation failed: unknown category');
+
+    const now = new Date().toISOString();
+    const service: Service = {
+      id: `service-${crypto.randomUUID()}`,
+      title: String(body.title),
+      description: String(body.description),
+      category,
+      provider: user,
+      location: String(body.location),
+      location_details: locationDetails(body, String(body.location)),
+      price: Number(body.price),
+      price_type: body.price_type as Service['price_type'],
+      images: (body.images as string[]) || [],
+      rating: 0,
+      review_count: 0,
+      is_active: true,
+      created_at: now,
+      updated_at: now
+    };
+    store.write(data => data.services.unshift(service));
+    return created(service, 'Service created');
+  })
+  .on('PATCH', '/services/:id', context => {
+    const { store, db, body } = context;
+    const service = findOwnService(context);
+    // Only what the provider edits; ids, ownership, ratings and timestamps stay as stored
+    const updated: Service = {
+      ...service,
+      title: body.title !== undefined ? String(body.title) : service.title,
+      description: body.description !== undefined ? String(body.description) : service.description,
+      category: db.categories.find(c => c.id === body.category) || service.category,
+      location: body.location !== undefined ? String(body.location) : service.location,
+      price: body.price !== undefined ? Number(body.price) : service.price,
+      price_type: body.price_type !== undefined ? body.price_type as Service['price_type'] : service.price_type,
+      images: Array.isArray(body.images) ? body.images as string[] : service.images,
+      location_details: body.location !== undefined
+        ? locationDetails(body, String(body.location))
+        : service.location_details,
+      updated_at: new Date().toISOString()
+    };
+    store.write(data => {
+      data.services = data.services.map(s => s.id === service.id ? updated : s);
+    });
+    return ok(updated, 'Service updated');
+  })
+  .on('DELETE', '/services/:id', context => {
+    const service = findOwnService(context);
+    context.store.write(data => {
+      data.services = data.services.filter(s => s.id !== service.id);
+    });
+    return ok(null, 'Service deleted');
+  })
+
+  // Service requests
+  .on('GET', '/requests', ({ db, query, user }) => {
+    const status = query.get('status');
+    const requests = db.requests
+      .filter(r =>
+        (r.customer.id === user.id || r.provider.id === user.id) &&
+        (!status || r.status === status)
+      )
+      .sort(byNewest);
+    return ok(paginate(requests, query));
+  })
+  .on('POST', '/requests', context => {
+    const { store, db, body, user } = context;
+    requireBody(body, ['service_id']);
+    const service = db.services.find(s => s.id === body.service_id);
+    if (!service) throw new MockHttpError(404, 'Service not found');
+
+    // A replayed request that already went through gets the original back
+    const existing = body.client_reference
+      ? db.requests.find(r => r.client_reference === body.client_reference && r.customer.id === user.id)
+      : undefined;
+    if (existing) return ok(existing, 'Request already created');
+
+    let scheduledSlot: ServiceRequest['scheduled_slot'];
+    if (body.slot_start) {
+      const start = new Date(String(body.slot_start));
+      const dateKey = toSastDateKey(start);
+      const availability = availabilityFor(db, service.provider.id);
+      const inWindow = dateKey <= addDays(toSastDateKey(new Date()), BOOKING_WINDOW_DAYS);
+      scheduledSlot = inWindow
+        ? generateSlots(
+          availability,
+          dateKey,
+          getSlotMinutes(availability, service.id),
+          getBookedSlots(db.requests, service.provider.id)
+        ).find(slot => slot.start === start.toISOString())
+        : undefined;
+      if (!scheduledSlot) throw new MockHttpError(409, 'That time slot is no longer available');
+    }
+
+    const now = new Date().toISOString();
+    const request: ServiceRequest = {
+      id: `request-${crypto.randomUUID()}`,
+      service: {
+        id: service.id,
+        title: service.title,
+        price: service.price,
+        provider: { id: service.provider.id, name: service.provider.name }
+      },
+      customer: { id: user.id, name: user.name },
+      provider: { id: service.provider.id, name: service.provider.name },
+      status: 'pending',
+      status_history: [{
+        from: null,
+        to: 'pending',
+        changed_by: { id: user.id, name: user.name, role: 'customer' },
+        changed_at: now
+      }],
+      message: body.message as string | undefined,
+      location: (body.location as string | undefined) || service.location,
+      requested_date: (body.requested_date as string | undefined) || (scheduledSlot && toSastDateKey(new Date(scheduledSlot.start))),
+      estimated_duration: scheduledSlot
+        ? (new Date(scheduledSlot.end).getTime() - new Date(scheduledSlot.start).getTime()) / 3600000
+        : body.estimated_duration as number | undefined,
+      scheduled_slot: scheduledSlot,
+      client_reference: body.client_reference as string | undefined,
+      created_at: now,
+      updated_at: now
+    };
+    store.write(data => data.requests.unshift(request));
+    createNotification(context, { user_id: request.provider.id, ...newRequestNotification(request) });
+    return created(request, 'Request created');
+  })
+  .on('PATCH', '/requests/:id', context => {
+    const { body, user } = context;
+    requireBody(body, ['status']);
+    const request = findRequest(context);
+    const status = body.status as RequestStatus;
+    const role = getRequestRole(request, user.id);
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+
+    if (!REQUEST_STATUSES.includes(status)) {
+      throw new MockHttpError(422, `Validation failed: unknown status ${status}`);
+    }
+    if (body.expected_status && body.expected_status !== request.status) {
+      throw new MockHttpError(409, `This request was changed to ${STATUS_LABELS[request.status]} in the meantime`);
+    }
+    if (!canTransition(request.status, status, role)) {
+      throw new MockHttpError(
+        409,
+        `This request is already ${STATUS_LABELS[request.status].toLowerCase()} and can't be marked ${STATUS_LABELS[status].toLowerCase()}`
+      );
+    }
+    if (isQuoteTransition(request.status, status)) {
+      throw new MockHttpError(409, 'Quotes are sent, accepted and rejected through the quote endpoints');
+    }
+    if (NOTE_REQUIRED.includes(status) && !note) {
+      throw new MockHttpError(422, 'Validation failed: note required');
+    }
+    if (BLOCKING_STATUSES.includes(status) && !BLOCKING_STATUSES.includes(request.status)) {
+      assertSlotFree(context.db, request);
+    }
+
+    const updated = withStatus(request, status, user, role, note);
+    saveRequest(context, updated);
+    return ok(updated, 'Request updated');
+  })
+
+  // Quotes
+  .on('POST', '/requests/:id/quotes', context => {
+    const { body, user } = context;
+    const request = findRequest(context);
+    const role = getRequestRole(request, user.id);
+    if (role === 'customer') {
+      throw new MockHttpError(403, 'Customers answer quotes with a counter-offer');
+    }
+    if (!canSendQuote(request, role)) {
+      throw new MockHttpError(409, request.status === 'quoted'
+        ? 'Answer the customer\'s counter-offer before sending a new quote'
+        : `Cannot quote a ${request.status} request`);
+    }
+
+    const data = parseQuoteData(body);
+    assertQuoteVat(context.db, request, data, role);
+    const quote = buildQuote(data, user, role);
+    const revised = getOpenQuote(request);
+    const quotes = [
+      ...(request.quotes ?? []).map(q => q.id === revised?.id ? { ...q, status: 'superseded' as const } : q),
+      quote
+    ];
+    const updated = request.status === 'pending'
+      ? withStatus({ ...request, quotes }, 'quoted', user, role, `Quote of ${formatAmount(quote.total)}`)
+      : { ...request, quotes, updated_at: quote.created_at };
+
+    saveRequest(context, updated);
+    return created(updated, revised ? 'Quote revised' : 'Quote sent');
+  })
+  .on('POST', '/requests/:id/quotes/:quoteId/respond', context => {
+    const { body, params, user } = context;
+    requireBody(body, ['action']);
+    const request = findRequest(context);
+    const role = getRequestRole(request, user.id);
+    const quote = request.quotes?.find(q => q.id === params.quoteId);
+    if (!quote) throw new MockHttpError(404, 'Quote not found');
+
+    const error = getQuoteResponseError(request, quote, role);
+    if (error) throw new MockHttpError(409, error);
+
+    const respondedAt = new Date().toISOString();
+    const answer = (status: Quote['status']) =>
+      (request.quotes ?? []).map(q => q.id === quote.id ? { ...q, status, responded_at: respondedAt } : q);
+
+    let updated: ServiceRequest;
+    switch (body.action) {
+      case 'accept':
+        assertSlotFree(context.db, request);
+        updated = withStatus(
+          { ...request, quotes: answer('accepted'), agreed_price: quote.total },
+          'accepted',
+          user,
+          role,
+          `Accepted quote of ${formatAmount(quote.total)}`
+        );
+        break;
+      case 'reject':
+        updated = withStatus(
+          { ...request, quotes: answer('rejected') },
+          'declined',
+          user,
+          role,
+          `Rejected quote of ${formatAmount(quote.total)}`
+        );
+        break;
+      case 'counter': {
+        if (!body.counter || typeof body.counter !== 'object') {
+          throw new MockHttpError(422, 'Validation failed: counter required');
+        }
+        const data = parseQuoteData(body.counter as Record<string, unknown>);
+        assertQuoteVat(context.db, request, data, role);
+        const counter = buildQuote(data, user, role, quote.id);
+        updated = { ...request, quotes: [...answer('countered'), counter], updated_at: respondedAt };
+        break;
+      }
+      default:
+        throw new MockHttpError(422, `Validation failed: unknown action ${body.action}`);
+    }
+
+    saveRequest(context, updated);
+    return ok(updated, 'Quote updated');
+  })
+
+  // Request messages
+  .on('GET', '/requests/:id/messages', context => {
+    const request = findRequest(context);
+    const messages = context.db.messages
+      .filter(m => m.request_id === request.id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    return ok(messages);
+  })
+  .on('POST', '/requests/:id/messages', context => {
+    const { body, user } = context;
+    const request = findRequest(context);
+    const role = getRequestRole(request, user.id);
+    const text = typeof body.body === 'string' ? body.body.trim() : '';
+    const attachments = parseAttachments(body.attachments);
+
+    if (!text && attachments.length === 0) {
+      throw new MockHttpError(422, 'Validation failed: a message needs text or a photo');
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new MockHttpError(422, `Validation failed: messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const message: RequestMessage = {
+      id: `message-${crypto.randomUUID()}`,
+      request_id: request.id,
+      sender: { id: user.id, name: user.name, role },
+      body: text,
+      attachments,
+      created_at: new Date().toISOString()
+    };
+    context.store.write(data => data.messages.push(message));
+
+    const recipient = role === 'customer' ? request.provider : request.customer;
+    createNotification(context, {
+      user_id: recipient.id,
+      type: 'message',
+      title: `New message from ${user.name}`,
+      message: messagePreview(message),
+      data: { request_id: request.id, message_id: message.id }
+    });
+    return created(message, 'Message sent');
+  })
+  .on('POST', '/requests/:id/messages/read', context => {
+    const { user } = context;
+    const request = findRequest(context);
+    const now = new Date().toISOString();
+
+    const updated = context.store.write(data => {
+      let count = 0;
+      data.messages = data.messages.map(m => {
+        if (m.request_id !== request.id || m.sender.id === user.id || m.read_at) return m;
+        count += 1;
+        return { ...m, read_at: now };
+      });
+      // Reading the thread also clears its message notifications
+      data.notifications = data.notifications.map(n =>
+        n.user_id === user.id && n.type === 'message' && n.data?.request_id === request.id
+          ? { ...n, is_read: true }
+          : n
+      );
+      return count;
+    });
+    return ok({ updated });
+  })
+  .on('GET', '/messages/unread', ({ db, user }) => {
+    const counts: Record<string, number> = {};
+    const requestIds = new Set(
+      db.requests.filter(r => r.customer.id === user.id || r.provider.id === user.id).map(r => r.id)
+    );
+    db.messages.forEach(m => {
+      if (requestIds.has(m.request_id) && m.sender.id !== user.id && !m.read_at) {
+        counts[m.request_id] = (counts[m.request_id] ?? 0) + 1;
+      }
+    });
+    return ok(counts);
+  })
+
+  // Provider availability
+  .on('GET', '/providers/:id/availability', ({ db, params }) => {
+    if (!db.users.some(u => u.id === params.id && u.role === 'provider')) {
+      throw new MockHttpError(404, 'Provider not found');
+    }
+    return ok(availabilityFor(db, params.id));
+  })
+  .on('PUT', '/providers/:id/availability', ({ store, params, body, user }) => {
+    if (params.id !== user.id || user.role !== 'provider') {
+      throw new MockHttpError(403, 'Access denied. You can only manage your own availability.');
+    }
+    requireBody(body, ['weekly_hours', 'blocked_dates', 'slot_minutes']);
+    const data: AvailabilityData = {
+      weekly_hours: body.weekly_hours as AvailabilityData['weekly_hours'],
+      blocked_dates: [...new Set(body.blocked_dates as string[])].sort(),
+      slot_minutes: Number(body.slot_minutes),
+      service_slot_minutes: (body.service_slot_minutes as Record<string, number>) ?? {}
+    };
+    const error = validateAvailability(data);
+    if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+
+    const availability: ProviderAvailability = { provider_id: user.id, ...data, updated_at: new Date().toISOString() };
+    store.write(db => {
+      db.availability = [...db.availability.filter(a => a.provider_id !== user.id), availability];
+    });
+    return ok(availability, 'Availability updated');
+  })
+  .on('GET', '/providers/:id/slots', ({ db, params, query }) => {
+    const availability = availabilityFor(db, params.id);
+    const serviceId = query.get('service_id') ?? undefined;
+    if (serviceId && !db.services.some(s => s.id === serviceId && s.provider.id === params.id)) {
+      throw new MockHttpError(404, 'Service not found');
+    }
+
+    const today = toSastDateKey(new Date());
+    const lastDay = addDays(today, BOOKING_WINDOW_DAYS);
+    const requestedFrom = query.get('from');
+    const from = requestedFrom && requestedFrom > today ? requestedFrom : today;
+    const days = Math.max(1, Math.min(BOOKING_WINDOW_DAYS, numberParam(query, 'days') ?? 14));
+    const slotMinutes = getSlotMinutes(availability, serviceId);
+    const booked = getBookedSlots(db.requests, params.id);
+
+    const result: DaySlots[] = Array.from({ length: days }, (_, index) => addDays(from, index))
+      .filter(date => date <= lastDay)
+      .map(date => ({ date, slots: generateSlots(availability, date, slotMinutes, booked) }));
+    return ok(result);
+  })
+  .on('GET', '/providers/:id/calendar', ({ db, params, user }) => {
+    if (params.id !== user.id || user.role !== 'provider') {
+      throw new MockHttpError(403, 'Access denied. You can only export your own calendar.');
+    }
+    return ok(buildProviderCalendar(db.requests, user));
+  })
+
+  // Notifications
+  .on('GET', '/notifications', context => {
+    const { db, query, user } = context;
+    flushDigest(context, user.id);
+    const types = query.get('type')?.split(',').filter(Boolean) ?? [];
+    const unreadOnly = query.get('unread') === 'true';
+    const notifications = db.notifications
+      .filter(n =>
+        n.user_id === user.id &&
+        isVisibleInApp(n) &&
+        (!unreadOnly || !n.is_read) &&
+        (types.length === 0 || types.includes(n.type))
+      )
+      .sort(byNewest);
+    return ok(paginate(notifications, query));
+  })
+  .on('GET', '/notifications/unread-count', context => {
+    const { db, user } = context;
+    flushDigest(context, user.id);
+    return ok({ count: db.notifications.filter(n => n.user_id === user.id && isVisibleInApp(n) && !n.is_read).length });
+  })
+  .on('GET', '/notifications/preferences', ({ db, user }) => ok(
+    db.notification_preferences.find(p => p.user_id === user.id) ?? {
+      user_id: user.id,
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      updated_at: new Date(0).toISOString()
+    }
+  ))
+  .on('PUT', '/notifications/preferences', context => {
+    const { body, user } = context;
+    requireBody(body, ['channels', 'quiet_hours', 'digest']);
+    const data = body as unknown as NotificationPreferencesData;
+    const error = validateNotificationPreferences(data);
+    if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+
+    const preferences: NotificationPreferences = {
+      user_id: user.id,
+      channels: data.channels,
+      quiet_hours: data.quiet_hours,
+      digest: data.digest,
+      updated_at: new Date().toISOString()
+    };
+    context.store.write(db => {
+      db.notification_preferences = [
+        ...db.notification_preferences.filter(p => p.user_id !== user.id),
+        preferences
+      ];
+    });
+    // Turning the digest off sends anything still held
+    flushDigest(context, user.id);
+    return ok(preferences, 'Notification preferences updated');
+  })
+  .on('POST', '/notifications/read', ({ store, user }) => {
+    const updated = store.write(data => {
+      let count = 0;
+      data.notifications = data.notifications.map(n => {
+        if (n.user_id !== user.id || n.is_read || n.held_until) return n;
+        count++;
+        return { ...n, is_read: true };
+      });
+      return count;
+    });
+    return ok({ updated });
+  })
+  .on('POST', '/notifications/:id/read', context => {
+    const notification = findNotification(context);
+    const updated = { ...notification, is_read: true };
+    context.store.write(data => {
+      data.notifications = data.notifications.map(n => n.id === updated.id ? updated : n);
+    });
+    return ok(updated);
+  })
+  .on('DELETE', '/notifications/:id', context => {
+    const notification = findNotification(context);
+    context.store.write(data => {
+      data.notifications = data.notifications.filter(n => n.id !== notification.id);
+    });
+    return ok(null, 'Notification deleted');
+  })
+
+  // Push subscriptions
+  .on('POST', '/push/subscriptions', ({ store, body, user }) => {
+    requireBody(body, ['endpoint', 'keys']);
+    const keys = body.keys as Partial<PushSubscriptionRecord['keys']>;
+    const subscription: PushSubscriptionRecord = {
+      id: `push-${crypto.randomUUID()}`,
+      user_id: user.id,
+      endpoint: String(body.endpoint),
+      keys: { p256dh: String(keys.p256dh ?? ''), auth: String(keys.auth ?? '') },
+      user_agent: body.user_agent as string | undefined,
+      created_at: new Date().toISOString()
+    };
+    // An endpoint belongs to one device, so re-subscribing replaces it
+    store.write(db => {
+      db.push_subscriptions = [
+        ...db.push_subscriptions.filter(s => s.endpoint !== subscription.endpoint),
+        subscription
+      ];
+    });
+    return created(subscription, 'Push notifications enabled');
+  })
+  .on('DELETE', '/push/subscriptions', ({ store, query, user }) => {
+    const endpoint = query.get('endpoint');
+    if (!endpoint) throw new MockHttpError(422, 'Validation failed: endpoint required');
+    store.write(db => {
+      db.push_subscriptions = db.push_subscriptions.filter(s => !(s.endpoint === endpoint && s.user_id === user.id));
+    });
+    return ok(null, 'Push notifications disabled');
+  })
+  .on('POST', '/push/test', context => {
+    const sent = sendPush(context, context.user.id, {
+      title: 'Test notification',
+      body: 'Push notifications are working on this device.',
+      url: '/notifications',
+      tag: 'test'
+    });
+    if (sent === 0) throw new MockHttpError(409, 'Enable push notifications on this device first');
+    return ok({ sent });
+  })
+
+  // Bookkeeping
+  .on('GET', '/bookkeeping/transactions', ({ db, user }) =>
+    ok(db.transactions.filter(t => t.user_id === user.id).sort(byNewest))
+  )
+  .on('POST', '/bookkeeping/transactions', ({ db, store, body, user }) => {
+    const data = parseTransactionData(body);
+    // A job is only booked once, so resending it is safe
+    const booked = data.request_id && !data.invoice_id && db.transactions.find(t =>
+      t.user_id === user.id && t.request_id === data.request_id && !t.invoice_id
+    );
+    if (booked) return ok(booked, 'Transaction already recorded');
+    // A statement line is only imported once
+    const imported = data.bank_ref && db.transactions.find(t => t.user_id === user.id && t.bank_ref === data.bank_ref);
+    if (imported) return ok(imported, 'Transaction already imported');
+    const now = new Date().toISOString();
+    const transaction: Transaction = {
+      ...data,
+      id: `transaction-${crypto.randomUUID()}`,
+      user_id: user.id,
+      created_at: now,
+      updated_at: now
+    };
+    store.write(db => db.transactions.unshift(transaction));
+    return created(transaction, 'Transaction recorded');
+  })
+  .on('PATCH', '/bookkeeping/transactions/:id', context => {
+    const existing = findOwned(context, context.db.transactions, 'Transaction');
+    const updated: Transaction = {
+      ...existing,
+      ...parseTransactionData({ ...existing, ...context.body }),
+      updated_at: new Date().toISOString()
+    };
+    context.store.write(db => {
+      db.transactions = db.transactions.map(t => t.id === updated.id ? updated : t);
+    });
+    return ok(updated, 'Transaction updated');
+  })
+  .on('DELETE', '/bookkeeping/transactions/:id', context => {
+    const existing = findOwned(context, context.db.transactions, 'Transaction');
+    context.store.write(db => {
+      db.transactions = db.transactions.filter(t => t.id !== existing.id);
+    });
+    return ok(null, 'Transaction deleted');
+  })
+  .on('GET', '/bookkeeping/invoices', context => {
+    const { db, user } = context;
+    applyInvoiceLifecycles(context, user.id);
+    return ok(db.invoices.filter(i => i.user_id === user.id).sort(byNewest));
+  })
+  .on('POST', '/bookkeeping/invoices', ({ db, store, body, user }) => {
+    const id = `invoice-${crypto.randomUUID()}`;
+    const profile = findBusinessProfile(db, user.id);
+    const data = parseInvoiceData(body, id, profile);
+    const invoiced = data.request_id && db.invoices.find(i => i.user_id === user.id && i.request_id === data.request_id);
+    if (invoiced) return ok(invoiced, 'Invoice already created');
+
+    // Numbers are never reused, even after an invoice is deleted
+    const sequence = (profile?.last_invoice_number ?? 0) + 1;
+    const prefix = profile?.invoice_prefix ?? DEFAULT_INVOICE_PREFIX;
+    const now = new Date().toISOString();
+    const invoice: Invoice = {
+      ...data,
+      id,
+      user_id: user.id,
+      number: formatInvoiceNumber(prefix, sequence),
+      created_at: now,
+      updated_at: now
+    };
+    store.write(db => {
+      db.business_profiles = [
+        ...db.business_profiles.filter(p => p.user_id !== user.id),
+        profile
+          ? { ...profile, last_invoice_number: sequence }
+          : businessProfileFromData(user.id, emptyProfileData(prefix), sequence)
+      ];
+      db.invoices.unshift(invoice);
+    });
+    return created(invoice, 'Invoice created');
+  })
+  .on('PATCH', '/bookkeeping/invoices/:id', context => {
+    const existing = findOwned(context, context.db.invoices, 'Invoice');
+    const updated: Invoice = {
+      ...existing,
+      ...parseInvoiceData(
+        { ...existing, ...context.body },
+        existing.id,
+        findBusinessProfile(context.db, context.user.id)
+      ),
+      updated_at: new Date().toISOString()
+    };
+    const updateError = getInvoiceUpdateError(existing, updated.amount);
+    if (updateError) throw new MockHttpError(422, `Validation failed: ${updateError}`);
+    updated.status = deriveInvoiceStatus(updated, today());
+    saveInvoice(context, updated);
+    return ok(updated, 'Invoice updated');
+  })
+  .on('DELETE', '/bookkeeping/invoices/:id', context => {
+    const existing = findOwned(context, context.db.invoices, 'Invoice');
+    context.store.write(db => {
+      db.invoices = db.invoices.filter(i => i.id !== existing.id);
+    });
+    return ok(null, 'Invoice deleted');
+  })
+  .on('POST', '/bookkeeping/invoices/:id/send', context => {
+    const invoice = findOwned(context, context.db.invoices, 'Invoice');
+    const data = context.body as unknown as SendInvoiceData;
+    const error = validateSendInvoiceData(data);
+    if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+    if (!context.mailTransport) throw new MockHttpError(503, 'Email is not available right now');
+
+    context.mailTransport.send(invoiceEmail(invoice, findBusinessProfile(context.db, context.user.id), data))
+      .catch(error => console.error('Error sending invoice:', error));
+    const now = new Date().toISOString();
+    const sent = { ...markInvoiceSent(invoice, data.to.trim(), now, today()), updated_at: now };
+    saveInvoice(context, sent);
+    return ok(sent, 'Invoice sent');
+  })
+  .on('POST', '/bookkeeping/invoices/:id/payments', context => {
+    requireBody(context.body, ['amount', 'date', 'method']);
+    const invoice = findOwned(context, context.db.invoices, 'Invoice');
+    const data = context.body as unknown as InvoicePaymentData;
+    const error = validatePaymentData(invoice, data, today());
+    if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+
+    const now = new Date().toISOString();
+    const paid = {
+      ...applyPayment(invoice, {
+        id: `payment-${crypto.randomUUID()}`,
+        amount: roundCents(Number(data.amount)),
+        date: data.date,
+        method: data.method,
+        reference: typeof data.reference === 'string' && data.reference.trim() ? data.reference.trim() : undefined,
+        created_at: now
+      }, today()),
+      updated_at: now
+    };
+    saveInvoice(context, paid);
+    return created(paid, 'Payment recorded');
+  })
+  .on('GET', '/bookkeeping/profile', ({ db, user }) => {
+    const profile = findBusinessProfile(db, user.id);
+    if (!profile) throw new MockHttpError(404, 'Add your business details first');
+    return ok(profile);
+  })
+  .on('PUT', '/bookkeeping/profile', ({ db, store, body, user }) => {
+    requireBody(body, ['business_name', 'address']);
+    const data = body as unknown as BusinessProfileData;
+    const error = validateBusinessProfile(data);
+    if (error) throw new MockHttpError(422, `Validation failed: ${error}`);
+
+    const profile = businessProfileFromData(
+      user.id,
+      data,
+      findBusinessProfile(db, user.id)?.last_invoice_number ?? 0
+    );
+    store.write(db => {
+      db.business_profiles = [...db.business_profiles.filter(p => p.user_id !== user.id), profile];
+    });
+    return ok(profile, 'Business details saved');
+  })
+
+  // Categories
+  .on('GET', '/categories', ({ db }) => ok(db.categories.filter(c => c.is_active)))
+
+  // Profile
+  .on('GET', '/profile', ({ user }) => ok(user))
+  .on('PATCH', '/profile', ({ store, body, user }) => {
+    const updated: User = {
+      ...user,
+      name: (body.name as string) || user.name,
+      phone: (body.phone as string) ?? user.phone,
+      location: (body.location as string) ?? user.location,
+      location_details: body.location !== undefined
+        ? locationDetails(body, String(body.location))
+        : user.location_details,
+      updated_at: new Date().toISOString()
+    };
+    store.write(data => {
+      data.users = data.users.map(u => u.id === user.id ? updated : u);
+      // Keep the provider embedded in services in step with the profile
+      data.services = data.services.map(s => s.provider.id === user.id ? { ...s, provider: updated } : s);
+    });
+    return ok(updated, 'Profile updated');
+  })
+
+  // Feedback
+  .on('POST', '/feedback', context => {
+    const { store, db, body, user } = context;
+    requireBody(body, ['service_request_id', 'rating']);
+    const rating = Number(body.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new MockHttpError(422, 'Validation failed: rating must be between 1 and 5');
+    }
+    const request = db.requests.find(r => r.id === body.service_request_id && r.customer.id === user.id);
+    if (!request) throw new MockHttpError(404, 'Request not found');
+    if (request.status !== 'completed') {
+      throw new MockHttpError(409, 'Feedback can only be left on completed requests');
+    }
+    if (db.feedback.some(f => f.service_request_id === request.id)) {
+      throw new MockHttpError(409, 'Feedback has already been submitted for this request');
+    }
+
+    const feedback: Feedback = {
+      id: `feedback-${crypto.randomUUID()}`,
+      service_request_id: request.id,
+      customer: request.customer,
+      provider: request.provider,
+      rating,
+      comment: body.comment as string | undefined,
+      is_public: true,
+      created_at: new Date().toISOString()
+    };
+    store.write(data => {
+      data.feedback.push(feedback);
+      data.services = data.services.map(s => {
+        if (s.id !== request.service.id) return s;
+        const reviewCount = s.review_count + 1;
+        return {
+          ...s,
+          review_count: reviewCount,
+          rating: Math.round(((s.rating * s.review_count + rating) / reviewCount) * 10) / 10
+        };
+      });
+    });
+    createNotification(context, { user_id: feedback.provider.id, ...feedbackNotification(feedback, request.service) });
+    return created(feedback, 'Feedback submitted');
+  })
+  .on('GET', '/feedback/provider/:id', ({ db, params }) => {
+    const feedback = db.feedback.filter(f => f.provider.id === params.id && f.is_public).sort(byNewest);
+    const total = feedback.length;
+    return ok({
+      feedback,
+      average_rating: total > 0 ? feedback.reduce((sum, f) => sum + f.rating, 0) / total : 0,
+      total_reviews: total
+    });
+  });
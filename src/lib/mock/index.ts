@@ -0,0 +1,103 @@
+/**
+ * In-browser Mock Backend
+ * Intercepts the HTTP transport's fetch calls in demo mode and answers them
+ * from a persistent local store, so demo mode runs the real client code paths
+ */
+
+import { JWTUtils } from '../jwt';
+import { API_BASE_URL } from '../transport';
+import { MockContext, MockHttpError, MockRouter, errorEnvelope, toEnvelope } from './router';
+import { MockSeed, MockStore } from './store';
+import { registerCoreRoutes } from './handlers';
+import type { PushSender } from '../push';
+import type { MailTransport } from '../mail';
+
+export { MockStore } from './store';
+export type { MockSeed, MockDatabase } from './store';
+
+export interface MockServerOptions {
+  seed: MockSeed;
+  /** User served to requests without a bearer token (the demo user) */
+  defaultUserId: string;
+  /** Simulated network latency in milliseconds */
+  latency?: number;
+  /** Stands in for the push service when notifications go out on the push channel */
+  pushSender?: PushSender;
+  /** Stands in for the mail service when invoices are emailed */
+  mailTransport?: MailTransport;
+}
+
+export interface MockServer {
+  store: MockStore;
+  fetch: typeof fetch;
+}
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const parseBody = (body: BodyInit | null | undefined): Record<string, unknown> => {
+  if (typeof body !== 'string' || body.length === 0) return {};
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new MockHttpError(400, 'Invalid request. Please check your input and try again.');
+  }
+};
+
+export const createMockServer = ({
+  seed,
+  defaultUserId,
+  latency = 150,
+  pushSender,
+  mailTransport
+}: MockServerOptions): MockServer => {
+  const store = new MockStore(seed);
+  const router = registerCoreRoutes(new MockRouter());
+
+  const resolveUser = (headers: Headers) => {
+    const { users } = store.read();
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const claims = token ? JWTUtils.getUserFromToken(token) : null;
+    return users.find(u => u.id === claims?.id) || users.find(u => u.id === defaultUserId) || users[0];
+  };
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString(), API_BASE_URL);
+    const method = (init.method || 'GET').toUpperCase();
+
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const route = router.match(method, url.pathname);
+    if (!route) {
+      return jsonResponse(404, errorEnvelope(`Cannot ${method} ${url.pathname}`));
+    }
+
+    try {
+      const context: MockContext = {
+        params: route.params,
+        query: url.searchParams,
+        body: parseBody(init.body),
+        store,
+        db: store.read(),
+        user: resolveUser(new Headers(init.headers)),
+        pushSender,
+        mailTransport,
+      };
+      const result = route.handler(context);
+      return jsonResponse(result.status ?? 200, toEnvelope(result));
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return jsonResponse(error.status, errorEnvelope(error.message));
+      }
+      console.error('Mock server error:', error);
+      return jsonResponse(500, errorEnvelope('Server error. Please try again later.'));
+    }
+  };
+
+  return { store, fetch: mockFetch };
+};
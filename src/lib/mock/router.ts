@@ -0,0 +1,139 @@
+/**
+ * Mock Server Router
+ * Matches intercepted requests to handlers and shapes their ApiResponse envelopes
+ */
+
+import { HttpMethod, ApiResponse } from '../transport';
+import { PaginatedResponse } from '../api';
+import type { PushSender } from '../push';
+import type { MailTransport } from '../mail';
+import { User } from '@/types/service';
+import { MockDatabase, MockStore } from './store';
+
+export class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+  }
+}
+
+export interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  store: MockStore;
+  db: MockDatabase;
+  /** User resolved from the bearer token, falling back to the demo user */
+  user: User;
+  /** Delivers web pushes for notifications sent on the push channel */
+  pushSender?: PushSender;
+  /** Delivers invoice emails and reminders */
+  mailTransport?: MailTransport;
+}
+
+export interface MockResult {
+  status?: number;
+  data: unknown;
+  message?: string;
+}
+
+export type MockHandler = (context: MockContext) => MockResult;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+export class MockRouter {
+  private routes: Route[] = [];
+
+  /**
+   * Register a handler for a path such as `/services/:id`
+   */
+  on(method: HttpMethod, path: string, handler: MockHandler): this {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      '^' + path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      }) + '/?$'
+    );
+    this.routes.push({ method, pattern, keys, handler });
+    return this;
+  }
+
+  match(method: string, path: string): { handler: MockHandler; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+      return { handler: route.handler, params };
+    }
+    return null;
+  }
+}
+
+// ==================== RESPONSE HELPERS ====================
+
+export const ok = (data: unknown, message?: string): MockResult => ({ data, message });
+
+export const created = (data: unknown, message?: string): MockResult => ({ status: 201, data, message });
+
+export const toEnvelope = (result: MockResult): ApiResponse<unknown> => ({
+  success: true,
+  data: result.data,
+  message: result.message ?? null,
+  error: null
+});
+
+export const errorEnvelope = (message: string): ApiResponse<null> => ({
+  success: false,
+  data: null,
+  message,
+  error: message
+});
+
+// ==================== QUERY HELPERS ====================
+
+export const numberParam = (query: URLSearchParams, key: string): number | undefined => {
+  const value = query.get(key);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Slice a result set the way the backend does, from `page` and `limit` query params
+ */
+export const paginate = <T>(items: T[], query: URLSearchParams): PaginatedResponse<T> => {
+  const limit = Math.max(1, Math.min(100, numberParam(query, 'limit') ?? 20));
+  const pages = Math.max(1, Math.ceil(items.length / limit));
+  const page = Math.max(1, numberParam(query, 'page') ?? 1);
+  const start = (page - 1) * limit;
+
+  return {
+    data: items.slice(start, start + limit),
+    pagination: {
+      page,
+      limit,
+      total: items.length,
+      pages
+    }
+  };
+};
+
+export const requireBody = (body: Record<string, unknown>, fields: string[]): void => {
+  const missing = fields.filter(field => body[field] === undefined || body[field] === null || body[field] === '');
+  if (missing.length > 0) {
+    throw new MockHttpError(422, `Validation failed: ${missing.join(', ')} required`);
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Mock Database Store
+ * Persists the demo backend's data in localStorage so demo sessions survive reloads
+ */
+
+import {
+  BusinessProfile,
+  Feedback,
+  Invoice,
+  Notification,
+  NotificationPreferences,
+  ProviderAvailability,
+  PushSubscriptionRecord,
+  RequestMessage,
+  Service,
+  ServiceCategory,
+  ServiceRequest,
+  Transaction,
+  User
+} from '@/types/service';
+import { MockHttpError } from './router';
+
+export interface MockSeed {
+  users: User[];
+  categories: ServiceCategory[];
+  services: Service[];
+  requests: ServiceRequest[];
+}
+
+export interface MockDatabase extends MockSeed {
+  feedback: Feedback[];
+  messages: RequestMessage[];
+  notifications: Notification[];
+  availability: ProviderAvailability[];
+  notification_preferences: NotificationPreferences[];
+  push_subscriptions: PushSubscriptionRecord[];
+  transactions: Transaction[];
+  invoices: Invoice[];
+  business_profiles: BusinessProfile[];
+}
+
+const STORAGE_KEY = 'sa_services_mock_db';
+
+const createDatabase = (seed: MockSeed): MockDatabase => ({
+  users: [...seed.users],
+  categories: [...seed.categories],
+  services: [...seed.services],
+  requests: [...seed.requests],
+  feedback: [],
+  messages: [],
+  notifications: [],
+  availability: [],
+  notification_preferences: [],
+  push_subscriptions: [],
+  transactions: [],
+  invoices: [],
+  business_profiles: []
+});
+
+export class MockStore {
+  private db: MockDatabase;
+  private readonly seed: MockSeed;
+
+  constructor(seed: MockSeed) {
+    this.seed = seed;
+    this.db = this.load();
+  }
+
+  private load(): MockDatabase {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Fill in collections added after the data was first persisted
+        return { ...createDatabase(this.seed), ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Error loading mock database:', error);
+    }
+    return createDatabase(this.seed);
+  }
+
+  /**
+   * Save the database, or go back to the last saved copy and fail the
+   * request when it doesn't fit, usually from too many photos in localStorage
+   */
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.db));
+    } catch (error) {
+      console.error('Error saving mock database:', error);
+      this.db = this.load();
+      throw new MockHttpError(507, 'Not enough storage left on this device for the demo data. Reset the demo to free some up.');
+    }
+  }
+
+  read(): MockDatabase {
+    return this.db;
+  }
+
+  /**
+   * Apply a change to the database and persist it; throws a 507 when it
+   * can't be saved, with the change undone
+   */
+  write<T>(mutate: (db: MockDatabase) => T): T {
+    const result = mutate(this.db);
+    this.persist();
+    return result;
+  }
+
+  /**
+   * Discard all changes and start again from the seed data
+   */
+  reset(): void {
+    // Cleared first so a full store can't hold on to the old data
+    localStorage.removeItem(STORAGE_KEY);
+    this.db = createDatabase(this.seed);
+    this.persist();
+  }
+}
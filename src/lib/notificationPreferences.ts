@@ -0,0 +1,156 @@
+/**
+ * Notification Preferences
+ * Which channels each notification type goes out on, quiet hours and the
+ * daily digest. The backend applies these whenever it creates a notification.
+ */
+
+import type { NotificationPreferencesData } from './api';
+import { Notification, NotificationChannel, NotificationPreferences, NotificationType } from '@/types/service';
+import { addDays, isValidTime, sastDateTime, toSastDateKey } from './availability';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'push', 'email', 'sms'];
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  push: 'Push',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+/** Channels shown but not yet deliverable */
+export const PLACEHOLDER_CHANNELS: NotificationChannel[] = ['sms'];
+
+export const PREFERENCE_TYPES: NotificationType[] = [
+  'request',
+  'acceptance',
+  'decline',
+  'completion',
+  'message',
+  'feedback',
+  'system',
+  'digest',
+];
+
+/** Batched into the daily digest when digest mode is on */
+export const LOW_PRIORITY_TYPES: NotificationType[] = ['feedback', 'system'];
+
+/** Channels that stay silent during quiet hours; in-app and email still arrive */
+const QUIET_HOURS_CHANNELS: NotificationChannel[] = ['push', 'sms'];
+
+const DEFAULT_CHANNELS: Record<NotificationChannel, boolean> = { in_app: true, push: false, email: false, sms: false };
+
+/** Worth interrupting for until the user says otherwise */
+const PUSH_BY_DEFAULT: NotificationType[] = ['request', 'acceptance', 'message'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferencesData = {
+  channels: Object.fromEntries(
+    PREFERENCE_TYPES.map(type => [type, { ...DEFAULT_CHANNELS, push: PUSH_BY_DEFAULT.includes(type) }])
+  ) as NotificationPreferencesData['channels'],
+  quiet_hours: { enabled: false, start: '21:00', end: '07:00' },
+  digest: { enabled: false, time: '18:00' },
+};
+
+export interface DeliveryPlan {
+  channels: NotificationChannel[];
+  held_until?: string;
+}
+
+const sastMinutes = (date: Date): number => {
+  const [hours, minutes] = new Date(date.getTime() + 2 * 60 * 60 * 1000).toISOString().slice(11, 16).split(':');
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const timeMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinQuietHours = (preferences: NotificationPreferencesData, now: Date = new Date()): boolean => {
+  const { enabled, start, end } = preferences.quiet_hours;
+  if (!enabled || start === end) return false;
+
+  const current = sastMinutes(now);
+  const from = timeMinutes(start);
+  const to = timeMinutes(end);
+  return from < to ? current >= from && current < to : current >= from || current < to;
+};
+
+/**
+ * The next time the daily digest goes out
+ */
+export const nextDigestTime = (preferences: NotificationPreferencesData, now: Date = new Date()): Date => {
+  const today = toSastDateKey(now);
+  const digestToday = sastDateTime(today, preferences.digest.time);
+  return digestToday > now ? digestToday : sastDateTime(addDays(today, 1), preferences.digest.time);
+};
+
+/**
+ * How a new notification should be delivered, or null if the user has
+ * switched every channel off for its type
+ */
+export const planDelivery = (
+  preferences: NotificationPreferencesData,
+  type: NotificationType,
+  now: Date = new Date()
+): DeliveryPlan | null => {
+  const enabled = NOTIFICATION_CHANNELS.filter(channel =>
+    (preferences.channels[type] ?? DEFAULT_CHANNELS)[channel] && !PLACEHOLDER_CHANNELS.includes(channel)
+  );
+  if (enabled.length === 0) return null;
+
+  if (preferences.digest.enabled && LOW_PRIORITY_TYPES.includes(type)) {
+    return { channels: [], held_until: nextDigestTime(preferences, now).toISOString() };
+  }
+
+  const quiet = isWithinQuietHours(preferences, now);
+  return { channels: enabled.filter(channel => !(quiet && QUIET_HOURS_CHANNELS.includes(channel))) };
+};
+
+/**
+ * Held notifications due to go out, either because the digest time has
+ * passed or because digest mode was switched off
+ */
+export const getDueDigestItems = (
+  notifications: Notification[],
+  preferences: NotificationPreferencesData,
+  now: Date = new Date()
+): Notification[] =>
+  notifications.filter(n =>
+    n.held_until && (!preferences.digest.enabled || new Date(n.held_until) <= now)
+  );
+
+/**
+ * Whether a notification belongs in the notification centre yet
+ */
+export const isVisibleInApp = (notification: Notification): boolean =>
+  !notification.held_until && (!notification.channels || notification.channels.includes('in_app'));
+
+/**
+ * Problem with a preferences update, or null if it is valid
+ */
+export const validateNotificationPreferences = (data: NotificationPreferencesData): string | null => {
+  for (const type of PREFERENCE_TYPES) {
+    const channels = data.channels[type];
+    if (!channels || NOTIFICATION_CHANNELS.some(channel => typeof channels[channel] !== 'boolean')) {
+      return `Choose channels for ${type} notifications`;
+    }
+  }
+  const times = [data.quiet_hours.start, data.quiet_hours.end, data.digest.time];
+  if (times.some(time => !isValidTime(time))) return 'Times must be in HH:MM format';
+  if (data.quiet_hours.enabled && data.quiet_hours.start === data.quiet_hours.end) {
+    return 'Quiet hours must start and end at different times';
+  }
+  return null;
+};
+
+export const toNotificationPreferencesData = (
+  preferences?: NotificationPreferences | null
+): NotificationPreferencesData =>
+  preferences
+    ? {
+      // Types added since the preferences were saved fall back to the defaults
+      channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, ...preferences.channels },
+      quiet_hours: preferences.quiet_hours,
+      digest: preferences.digest,
+    }
+    : DEFAULT_NOTIFICATION_PREFERENCES;
@@ -0,0 +1,119 @@
+/**
+ * Notifications
+ * Wording for the notifications raised by request activity, shared by the
+ * notification centre and the demo backend that creates them
+ */
+
+import { Feedback, Notification, NotificationType, RequestStatus, ServiceRequest } from '@/types/service';
+
+/** How often the unread badge checks for new notifications */
+export const NOTIFICATION_POLL_INTERVAL = 30 * 1000;
+
+export type NotificationContent = Pick<Notification, 'type' | 'title' | 'message' | 'data'>;
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  request: 'Requests',
+  acceptance: 'Accepted',
+  decline: 'Declined',
+  completion: 'Completed',
+  feedback: 'Reviews',
+  message: 'Messages',
+  system: 'System',
+  digest: 'Daily digest',
+};
+
+/** Types shown under the Requests tab */
+export const REQUEST_NOTIFICATION_TYPES: NotificationType[] = ['request', 'acceptance', 'decline', 'completion'];
+
+const STATUS_NOTIFICATION_TYPES: Partial<Record<RequestStatus, NotificationType>> = {
+  accepted: 'acceptance',
+  declined: 'decline',
+  cancelled: 'decline',
+  completed: 'completion',
+};
+
+const STATUS_TITLES: Partial<Record<RequestStatus, string>> = {
+  quoted: 'Quote Received',
+  accepted: 'Request Accepted',
+  declined: 'Request Declined',
+  cancelled: 'Request Cancelled',
+  in_progress: 'Work Started',
+  completed: 'Service Completed',
+  disputed: 'Request Disputed',
+};
+
+export const newRequestNotification = (request: ServiceRequest): NotificationContent => ({
+  type: 'request',
+  title: 'New Service Request',
+  message: `${request.customer.name} requested your ${request.service.title} service.`,
+  data: { request_id: request.id },
+});
+
+/**
+ * Notification for the other party after a request changes status. The
+ * latest status history entry says who made the change.
+ */
+export const statusNotification = (request: ServiceRequest): NotificationContent => {
+  const change = request.status_history?.[request.status_history.length - 1];
+  const actor = change?.changed_by.name ?? request.provider.name;
+  const service = request.service.title;
+
+  const messages: Partial<Record<RequestStatus, string>> = {
+    quoted: `${actor} sent a quote for ${service}.`,
+    accepted: `${actor} accepted the ${service} booking.`,
+    declined: `${actor} declined the ${service} request.`,
+    cancelled: `${actor} cancelled the ${service} request.`,
+    in_progress: `${actor} has started work on ${service}.`,
+    completed: `${service} has been marked complete. Please rate your experience.`,
+    disputed: `${actor} raised a dispute on ${service}.`,
+  };
+
+  return {
+    type: STATUS_NOTIFICATION_TYPES[request.status] ?? 'request',
+    title: STATUS_TITLES[request.status] ?? 'Request Updated',
+    message: messages[request.status] ?? `${service} is now ${request.status.replace('_', ' ')}.`,
+    data: { request_id: request.id, status: request.status },
+  };
+};
+
+export const feedbackNotification = (
+  feedback: Feedback,
+  service: { id: string; title: string }
+): NotificationContent => ({
+  type: 'feedback',
+  title: 'New Review',
+  message: `You received a ${feedback.rating}-star review from ${feedback.customer.name} for ${service.title}.`,
+  data: {
+    request_id: feedback.service_request_id,
+    service_id: service.id,
+    feedback_id: feedback.id,
+    rating: feedback.rating,
+  },
+});
+
+/**
+ * One summary of the notifications held back for the daily digest
+ */
+export const digestNotification = (items: Notification[]): NotificationContent => {
+  const titles = items.slice(0, 3).map(n => n.title).join('; ');
+  const more = items.length > 3 ? ` and ${items.length - 3} more` : '';
+  return {
+    type: 'digest',
+    title: 'Daily Digest',
+    message: `${items.length} ${items.length === 1 ? 'update' : 'updates'}: ${titles}${more}.`,
+    data: { notification_ids: items.map(n => n.id) },
+  };
+};
+
+/**
+ * Where tapping a notification takes the user, if anywhere
+ */
+export const getNotificationLink = (notification: Notification): string | null => {
+  // Reviews show on the service page
+  if (notification.type === 'feedback' && notification.data?.service_id) {
+    return `/service/${notification.data.service_id}`;
+  }
+  if (notification.data?.request_id) return '/requests';
+  if (notification.data?.service_id) return `/service/${notification.data.service_id}`;
+  return null;
+};
@@ -0,0 +1,73 @@
+/**
+ * Offline Data Cache
+ * Keeps the last response seen for the screens people need without signal
+ * (services, requests, profile, books) so they can still be shown while offline.
+ * Entries are scoped to the signed-in user and cleared on logout.
+ */
+
+import { ApiRequest, ApiResponse, buildQueryString } from './transport';
+import { JWTUtils, TokenStorage } from './jwt';
+
+const CACHE_KEY = 'sa_services_offline_cache';
+
+/** Oldest entries are dropped past this, keeping well inside localStorage quota */
+const MAX_ENTRIES = 40;
+
+const CACHEABLE_PATHS: RegExp[] = [
+  /^\/services$/,
+  /^\/services\/[^/]+$/,
+  /^\/requests$/,
+  /^\/categories$/,
+  /^\/profile$/,
+  /^\/bookkeeping\/(transactions|invoices|profile)$/,
+];
+
+interface CachedResponse {
+  response: ApiResponse<unknown>;
+  saved_at: string;
+}
+
+type OfflineCache = Record<string, CachedResponse>;
+
+export const isCacheable = (request: ApiRequest): boolean =>
+  request.method === 'GET' && CACHEABLE_PATHS.some(pattern => pattern.test(request.path));
+
+const getCacheKey = (request: ApiRequest): string => {
+  const token = TokenStorage.getAccessToken();
+  const userId = (token && JWTUtils.getUserFromToken(token)?.id) || 'anonymous';
+  const queryString = buildQueryString(request.params);
+  return `${userId}:${request.path}${queryString ? `?${queryString}` : ''}`;
+};
+
+const loadCache = (): OfflineCache => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    return {};
+  }
+};
+
+export const saveCachedResponse = (request: ApiRequest, response: ApiResponse<unknown>): void => {
+  if (!response.success) return;
+
+  const cache = { ...loadCache(), [getCacheKey(request)]: { response, saved_at: new Date().toISOString() } };
+  const keys = Object.keys(cache).sort((a, b) => cache[b].saved_at.localeCompare(cache[a].saved_at));
+  keys.slice(MAX_ENTRIES).forEach(key => delete cache[key]);
+
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Error saving offline cache:', error);
+  }
+};
+
+/**
+ * The last response seen for this request, if any
+ */
+export const loadCachedResponse = <T>(request: ApiRequest): ApiResponse<T> | null =>
+  (loadCache()[getCacheKey(request)]?.response as ApiResponse<T> | undefined) ?? null;
+
+export const clearOfflineCache = (): void => {
+  localStorage.removeItem(CACHE_KEY);
+};
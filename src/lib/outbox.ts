@@ -0,0 +1,239 @@
+/**
+ * Offline Outbox
+ * Changes made without a connection are queued here and replayed in order
+ * once the device is back online. A change the backend rejects because the
+ * data moved on in the meantime is kept as a conflict for the user to retry
+ * or discard rather than silently dropped.
+ */
+
+import {
+  ApiError,
+  apiClient,
+  CreateRequestData,
+  FeedbackData,
+  InvoiceData,
+  NetworkError,
+  TransactionData,
+  unwrapResponse
+} from './api';
+import { STATUS_LABELS } from './requestStatus';
+import { RequestStatus } from '@/types/service';
+
+const STORAGE_KEY = 'sa_services_outbox';
+
+export type OutboxMutation =
+  | { kind: 'create_request'; payload: CreateRequestData }
+  | {
+    kind: 'update_request_status';
+    payload: { request_id: string; status: RequestStatus; note?: string; expected_status: RequestStatus };
+  }
+  | { kind: 'submit_feedback'; payload: FeedbackData }
+  | { kind: 'create_transaction'; payload: TransactionData }
+  | { kind: 'create_invoice'; payload: InvoiceData };
+
+export type OutboxKind = OutboxMutation['kind'];
+
+/**
+ * queued - waiting to be sent
+ * conflict - rejected because the data changed while offline
+ * failed - rejected for another reason, e.g. validation
+ */
+export type OutboxEntryStatus = 'queued' | 'conflict' | 'failed';
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  user_id: string;
+  /** Short description for the sync panel */
+  label: string;
+  status: OutboxEntryStatus;
+  error?: string;
+  attempts: number;
+  created_at: string;
+};
+
+export interface QueuedMutation {
+  queued: true;
+  entry: OutboxEntry;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** Replay stopped early because the connection dropped again */
+  interrupted: boolean;
+}
+
+export const OUTBOX_KIND_LABELS: Record<OutboxKind, string> = {
+  create_request: 'New request',
+  update_request_status: 'Status change',
+  submit_feedback: 'Feedback',
+  create_transaction: 'Transaction',
+  create_invoice: 'Invoice',
+};
+
+const listeners = new Set<() => void>();
+let entries: OutboxEntry[] = load();
+let replaying: Promise<ReplayResult> | null = null;
+
+function load(): OutboxEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    return [];
+  }
+}
+
+const save = (next: OutboxEntry[]): void => {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>): void => {
+  save(entries.map(entry => entry.id === id ? { ...entry, ...changes } as OutboxEntry : entry));
+};
+
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * All entries, oldest first; stable between changes for useSyncExternalStore
+ */
+export const getOutboxEntries = (): OutboxEntry[] => entries;
+
+export const isReplaying = (): boolean => replaying !== null;
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const isQueuedMutation = (value: unknown): value is QueuedMutation =>
+  typeof value === 'object' && value !== null && (value as QueuedMutation).queued === true;
+
+const describe = (mutation: OutboxMutation): string => {
+  switch (mutation.kind) {
+    case 'create_request':
+      return 'Service request';
+    case 'update_request_status':
+      return `Mark request ${STATUS_LABELS[mutation.payload.status]}`;
+    case 'submit_feedback':
+      return `${mutation.payload.rating}-star feedback`;
+    case 'create_transaction':
+      return `${mutation.payload.type === 'income' ? 'Income' : 'Expense'}: ${mutation.payload.description}`;
+    case 'create_invoice':
+      return `Invoice for ${mutation.payload.client_name}`;
+  }
+};
+
+export const enqueueMutation = (userId: string, mutation: OutboxMutation): OutboxEntry => {
+  const entry = {
+    ...mutation,
+    id: crypto.randomUUID(),
+    user_id: userId,
+    label: describe(mutation),
+    status: 'queued',
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  } as OutboxEntry;
+  save([...entries, entry]);
+  return entry;
+};
+
+export const discardOutboxEntry = (id: string): void => {
+  save(entries.filter(entry => entry.id !== id));
+};
+
+/**
+ * Queue a conflicted or failed entry to be sent again
+ */
+export const retryOutboxEntry = (id: string): void => {
+  updateEntry(id, { status: 'queued', error: undefined });
+};
+
+const sendMutation = async (mutation: OutboxMutation): Promise<unknown> => {
+  switch (mutation.kind) {
+    case 'create_request':
+      return unwrapResponse(await apiClient.createRequest(mutation.payload));
+    case 'update_request_status': {
+      const { request_id, status, note, expected_status } = mutation.payload;
+      return unwrapResponse(await apiClient.updateRequestStatus(request_id, status, note, expected_status));
+    }
+    case 'submit_feedback':
+      return unwrapResponse(await apiClient.submitFeedback(mutation.payload));
+    case 'create_transaction':
+      return unwrapResponse(await apiClient.createTransaction(mutation.payload));
+    case 'create_invoice':
+      return unwrapResponse(await apiClient.createInvoice(mutation.payload));
+  }
+};
+
+/**
+ * Send a change now, or queue it if the device is offline or the backend
+ * can't be reached
+ */
+export const sendOrQueue = async <T>(
+  userId: string,
+  mutation: OutboxMutation,
+  send: () => Promise<T>
+): Promise<T | QueuedMutation> => {
+  if (isOffline()) return { queued: true, entry: enqueueMutation(userId, mutation) };
+
+  try {
+    return await send();
+  } catch (error) {
+    if (error instanceof NetworkError) return { queued: true, entry: enqueueMutation(userId, mutation) };
+    throw error;
+  }
+};
+
+const replay = async (userId: string): Promise<ReplayResult> => {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0, interrupted: false };
+  const pending = entries.filter(entry => entry.user_id === userId && entry.status === 'queued');
+
+  for (const entry of pending) {
+    try {
+      await sendMutation(entry);
+      discardOutboxEntry(entry.id);
+      result.synced++;
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        updateEntry(entry.id, { attempts: entry.attempts + 1 });
+        result.interrupted = true;
+        break;
+      }
+      const conflict = error instanceof ApiError && error.status === 409;
+      updateEntry(entry.id, {
+        status: conflict ? 'conflict' : 'failed',
+        error: error instanceof Error ? error.message : 'Could not be sent',
+        attempts: entry.attempts + 1,
+      });
+      if (conflict) result.conflicts++;
+      else result.failed++;
+    }
+  }
+  return result;
+};
+
+/**
+ * Send the user's queued changes in the order they were made. Only one
+ * replay runs at a time; overlapping calls share it.
+ */
+export const replayOutbox = (userId: string): Promise<ReplayResult> => {
+  if (!replaying) {
+    replaying = replay(userId).finally(() => {
+      replaying = null;
+      listeners.forEach(listener => listener());
+    });
+    listeners.forEach(listener => listener());
+  }
+  return replaying;
+};
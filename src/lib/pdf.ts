@@ -0,0 +1,262 @@
+/**
+ * PDF Writer
+ * Just enough of PDF 1.4 to lay out business documents in the browser:
+ * A4 pages of Helvetica text, lines, filled boxes and JPEG images. Positions
+ * are in points from the top-left corner of the page.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Advance widths (per 1000 units of font size) of the printable ASCII range, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const toWinAnsi = (text: string): number[] =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    if (char === '\t' || char === '\n' || char === '\r') return 0x20;
+    return code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f;
+  });
+
+const escapePdfString = (codes: number[]): string =>
+  codes.map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+    return code < 0x80 ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`;
+  }).join('');
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const colorOperands = ([r, g, b]: PdfColor): string => [r, g, b].map(formatNumber).join(' ');
+
+/**
+ * Pixel size of a baseline or progressive JPEG, read from its start-of-frame marker
+ */
+export const readJpegSize = (data: Uint8Array): { width: number; height: number } => {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) throw new Error('Not a JPEG image');
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('Not a JPEG image');
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const hexColor = (hex: string): PdfColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16 & 0xff) / 255, (value >> 8 & 0xff) / 255, (value & 0xff) / 255];
+};
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = toWinAnsi(text).reduce((sum, code) => sum + (widths[code - 0x20] ?? DEFAULT_WIDTH), 0);
+    return units * size / 1000;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, keeping explicit line breaks
+   */
+  wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    return text.split(/\r?\n/).flatMap(paragraph => {
+      const lines: string[] = [];
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      return [...lines, line];
+    });
+  }
+
+  /**
+   * Draw a line of text with its top-left (or top-right/centre, per align) at x, y
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0], align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    // PDF places text by its baseline, about 0.8 of the size below the top
+    const baseline = A4.height - y - size * 0.8;
+    this.draw(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${colorOperands(color)} rg ` +
+      `${formatNumber(left)} ${formatNumber(baseline)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], width = 0.5): void {
+    this.draw(
+      `${formatNumber(width)} w ${colorOperands(color)} RG ` +
+      `${formatNumber(x1)} ${formatNumber(A4.height - y1)} m ${formatNumber(x2)} ${formatNumber(A4.height - y2)} l S`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.draw(
+      `${colorOperands(color)} rg ` +
+      `${formatNumber(x)} ${formatNumber(A4.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  /**
+   * Draw a JPEG scaled to fit within width x height, keeping its proportions.
+   * Returns the size it was drawn at.
+   */
+  jpeg(data: Uint8Array, x: number, y: number, width: number, height: number): { width: number; height: number } {
+    const size = readJpegSize(data);
+    const scale = Math.min(width / size.width, height / size.height);
+    const drawn = { width: size.width * scale, height: size.height * scale };
+    const image: PdfImage = { name: `Im${this.images.length + 1}`, data, ...size };
+    this.images.push(image);
+    this.draw(
+      `q ${formatNumber(drawn.width)} 0 0 ${formatNumber(drawn.height)} ` +
+      `${formatNumber(x)} ${formatNumber(A4.height - y - drawn.height)} cm /${image.name} Do Q`
+    );
+    return drawn;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, then images, then a page and its content per page
+    const firstImageId = 5;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+    const xObjects = this.images.map((image, index) => `/${image.name} ${firstImageId + index} 0 R`).join(' ');
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.images.forEach((image, index) => {
+      writeObject(
+        firstImageId + index,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+    this.pages.forEach((operations, index) => {
+      const content = Uint8Array.from(operations.join('\n'), char => char.charCodeAt(0));
+      writeObject(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      writeObject(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const xrefOffset = length;
+    const objectCount = firstPageId + this.pages.length * 2;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const bytes = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    });
+    return bytes;
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.pages.length - 1].push(operation);
+  }
+}
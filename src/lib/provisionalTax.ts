@@ -0,0 +1,256 @@
+/**
+ * Provisional Tax
+ * IRP6 estimates for sole proprietors: profit so far this tax year, taken
+ * over the whole year and run through the SARS tables for individuals. The
+ * tables live in a data file, one entry per tax year, so new budgets only
+ * need a new entry.
+ */
+
+import taxTables from '@/assets/tax/sars-individual-tax.json';
+import { roundCents } from './bookkeeping';
+import { lastBusinessDay, toMonthIndex } from './availability';
+import {
+  DEFAULT_FINANCIAL_YEAR_START,
+  FinancialYear,
+  getFinancialYear,
+  getProfitAndLoss
+} from './financialReports';
+import { Transaction } from '@/types/service';
+
+const SETTINGS_KEY = 'sa_services_provisional_tax';
+
+export interface TaxBracket {
+  /** Taxable income the rate applies above */
+  from: number;
+  rate: number;
+}
+
+export interface TaxTable {
+  /** Named for the year it ends in, as SARS does: 2026 runs March 2025 to February 2026 */
+  tax_year: number;
+  start: string;
+  end: string;
+  /** Lowest first */
+  brackets: TaxBracket[];
+  rebates: { primary: number; secondary: number; tertiary: number };
+  /** Medical scheme fees tax credits, per month */
+  medical_credits: { main: number; first_dependant: number; additional: number };
+}
+
+interface TaxTablesFile {
+  version: string;
+  source: string;
+  years: TaxTable[];
+}
+
+// Annotated rather than cast, so the compiler checks the data file against the types
+const TAX_TABLES_FILE: TaxTablesFile = taxTables;
+
+/** When the tables were last brought up to date, e.g. 2025-02 for that February's budget */
+export const TAX_TABLES_VERSION = TAX_TABLES_FILE.version;
+
+/** Newest first */
+const TAX_TABLES = [...TAX_TABLES_FILE.years].sort((a, b) => b.tax_year - a.tax_year);
+
+export type AgeGroup = 'under_65' | '65_to_74' | '75_plus';
+
+export const AGE_GROUP_LABELS: Record<AgeGroup, string> = {
+  under_65: 'Under 65',
+  '65_to_74': '65 to 74',
+  '75_plus': '75 or older',
+};
+
+/** What the ledger doesn't know about the provider */
+export interface ProvisionalTaxInputs {
+  /** Age on the last day of the tax year, for the rebates */
+  age_group: AgeGroup;
+  /** Taxable income for the year from outside the business, e.g. a salary */
+  other_income: number;
+  /** PAYE withheld from that income over the year */
+  paye: number;
+  /** The main member and dependants on a medical scheme; 0 when not on one */
+  medical_members: number;
+  /** What was actually paid for the first period, by tax year label, e.g. 2025/26 */
+  first_payments: Record<string, number>;
+}
+
+export const DEFAULT_PROVISIONAL_TAX_INPUTS: ProvisionalTaxInputs = {
+  age_group: 'under_65',
+  other_income: 0,
+  paye: 0,
+  medical_members: 0,
+  first_payments: {},
+};
+
+/** The SARS tax year a day falls in, March to February whatever the provider's financial year */
+export const getTaxYear = (dateKey: string): FinancialYear =>
+  getFinancialYear(dateKey, DEFAULT_FINANCIAL_YEAR_START);
+
+/**
+ * The tables for a tax year, or the newest before it until the data file
+ * catches up with the latest budget
+ */
+export const getTaxTable = (taxYear: number): { table: TaxTable; exact: boolean } => {
+  const table = TAX_TABLES.find(t => t.tax_year <= taxYear) ?? TAX_TABLES[TAX_TABLES.length - 1];
+  return { table, exact: table.tax_year === taxYear };
+};
+
+/**
+ * Tax on taxable income from the brackets alone, before rebates and credits
+ */
+export const calculateTaxBeforeRebates = (taxableIncome: number, table: TaxTable): number =>
+  roundCents(table.brackets.reduce((tax, bracket, i) => {
+    const next = table.brackets[i + 1]?.from ?? Infinity;
+    return taxableIncome > bracket.from ? tax + (Math.min(taxableIncome, next) - bracket.from) * bracket.rate : tax;
+  }, 0));
+
+export const getRebates = (table: TaxTable, ageGroup: AgeGroup): number =>
+  table.rebates.primary +
+  (ageGroup !== 'under_65' ? table.rebates.secondary : 0) +
+  (ageGroup === '75_plus' ? table.rebates.tertiary : 0);
+
+/**
+ * Medical scheme fees tax credits for a full year of membership
+ */
+export const getMedicalCredits = (table: TaxTable, members: number): number => {
+  if (members <= 0) return 0;
+  const { main, first_dependant, additional } = table.medical_credits;
+  return (main + (members > 1 ? first_dependant : 0) + Math.max(0, members - 2) * additional) * 12;
+};
+
+// Both ends inclusive
+const dayCount = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000) + 1;
+
+export interface IRP6Payment {
+  period: 1 | 2;
+  /** The last business day of August, then of February */
+  due: string;
+  amount: number;
+  /** The amount is what was actually paid rather than an estimate */
+  paid?: boolean;
+}
+
+export interface ProvisionalTaxEstimate {
+  taxYear: FinancialYear;
+  table: TaxTable;
+  /** False when the year's own tables aren't in the data file yet */
+  exactTable: boolean;
+  profitToDate: number;
+  daysElapsed: number;
+  daysInYear: number;
+  /** Profit to date at the same rate for the whole year */
+  annualProfit: number;
+  taxableIncome: number;
+  taxBeforeRebates: number;
+  rebates: number;
+  medicalCredits: number;
+  /** Income tax for the year after rebates and credits */
+  annualTax: number;
+  paye: number;
+  payments: IRP6Payment[];
+}
+
+/**
+ * Tax for the year on profit so far, annualised, and how it falls across
+ * the two IRP6 payments: half the year's tax, less half the PAYE, by the end
+ * of August, and the rest by the end of February. Once the first payment has
+ * been made, the second is worked out from what was actually paid.
+ */
+export const estimateProvisionalTax = (
+  transactions: Transaction[],
+  inputs: ProvisionalTaxInputs,
+  on: string
+): ProvisionalTaxEstimate => {
+  const taxYear = getTaxYear(on);
+  const { table, exact } = getTaxTable(taxYear.startYear + 1);
+  const profitToDate = getProfitAndLoss(transactions, [{ start: taxYear.start, end: on, label: taxYear.label }]).totals.profit;
+  const daysElapsed = dayCount(taxYear.start, on);
+  const daysInYear = dayCount(taxYear.start, taxYear.end);
+  const annualProfit = roundCents((profitToDate / daysElapsed) * daysInYear);
+
+  const taxableIncome = Math.max(0, roundCents(annualProfit + inputs.other_income));
+  const taxBeforeRebates = calculateTaxBeforeRebates(taxableIncome, table);
+  const rebates = getRebates(table, inputs.age_group);
+  const medicalCredits = getMedicalCredits(table, inputs.medical_members);
+  const annualTax = Math.max(0, roundCents(taxBeforeRebates - rebates - medicalCredits));
+
+  const firstPaid = inputs.first_payments[taxYear.label];
+  const first = firstPaid ?? Math.max(0, roundCents(annualTax / 2 - inputs.paye / 2));
+  const second = Math.max(0, roundCents(annualTax - inputs.paye - first));
+
+  return {
+    taxYear,
+    table,
+    exactTable: exact,
+    profitToDate,
+    daysElapsed,
+    daysInYear,
+    annualProfit,
+    taxableIncome,
+    taxBeforeRebates,
+    rebates,
+    medicalCredits,
+    annualTax,
+    paye: inputs.paye,
+    payments: [
+      // August is six months into the tax year; February is its last month
+      { period: 1, due: lastBusinessDay(toMonthIndex(taxYear.start) + 5), amount: first, paid: firstPaid !== undefined },
+      { period: 2, due: lastBusinessDay(toMonthIndex(taxYear.end)), amount: second },
+    ],
+  };
+};
+
+export interface SavingsTarget {
+  /** Everything still to pay this tax year */
+  amount: number;
+  /** The last deadline it must be saved by */
+  due: string;
+  /** Enough each month, from this one, to meet every deadline still ahead */
+  monthly: number;
+}
+
+/**
+ * What to put aside for the IRP6 payments not yet due, or null when there
+ * is nothing left to save for this tax year
+ */
+export const getSavingsTarget = (estimate: ProvisionalTaxEstimate, on: string): SavingsTarget | null => {
+  const upcoming = estimate.payments.filter(payment => !payment.paid && payment.due >= on && payment.amount > 0);
+  if (upcoming.length === 0) return null;
+
+  let saved = 0;
+  let monthly = 0;
+  upcoming.forEach(payment => {
+    saved += payment.amount;
+    monthly = Math.max(monthly, saved / (toMonthIndex(payment.due) - toMonthIndex(on) + 1));
+  });
+  return { amount: roundCents(saved), due: upcoming[upcoming.length - 1].due, monthly: roundCents(monthly) };
+};
+
+/**
+ * Link to the Savings page with a business goal filled in for the target
+ */
+export const getSavingsGoalLink = (estimate: ProvisionalTaxEstimate, target: SavingsTarget): string =>
+  `/savings?${new URLSearchParams({
+    goal_name: `Provisional tax ${estimate.taxYear.label}`,
+    goal_amount: String(target.amount),
+    goal_date: target.due,
+    goal_category: 'business',
+  })}`;
+
+const loadAllInputs = (): Record<string, Partial<ProvisionalTaxInputs>> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+export const getProvisionalTaxInputs = (userId: string): ProvisionalTaxInputs => ({
+  ...DEFAULT_PROVISIONAL_TAX_INPUTS,
+  ...loadAllInputs()[userId],
+});
+
+export const saveProvisionalTaxInputs = (userId: string, inputs: ProvisionalTaxInputs): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...loadAllInputs(), [userId]: inputs }));
+};
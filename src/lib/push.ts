@@ -0,0 +1,152 @@
+/**
+ * Web Push
+ * Service worker registration and push subscriptions for this device. Without
+ * a VAPID key (demo mode and local testing) the device gets a local
+ * subscription, and LocalPushSender delivers to it through the service worker
+ * instead of a push service.
+ */
+
+import type { PushSubscriptionData } from './api';
+import { getNotificationLink } from './notifications';
+import { Notification } from '@/types/service';
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export const LOCAL_ENDPOINT_PREFIX = 'local-push://';
+
+const LOCAL_SUBSCRIPTION_KEY = 'sa_services_push_subscription';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Page opened when the notification is tapped */
+  url: string;
+  /** Replaces an earlier notification with the same tag */
+  tag?: string;
+}
+
+export interface PushSender {
+  send(subscription: PushSubscriptionData, payload: PushPayload): Promise<void>;
+}
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'Notification' in window;
+
+export const getPushPermission = (): NotificationPermission | 'unsupported' =>
+  isPushSupported() ? window.Notification.permission : 'unsupported';
+
+/**
+ * Register the service worker; called once at startup
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isPushSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+    return null;
+  }
+};
+
+const urlBase64ToBytes = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+const toSubscriptionData = (subscription: PushSubscription): PushSubscriptionData => {
+  const json = subscription.toJSON();
+  return {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: json.keys?.p256dh ?? '', auth: json.keys?.auth ?? '' },
+  };
+};
+
+const loadLocalSubscription = (): PushSubscriptionData | null => {
+  try {
+    const stored = localStorage.getItem(LOCAL_SUBSCRIPTION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * This device's subscription, if push has been enabled here
+ */
+export const getCurrentSubscription = async (): Promise<PushSubscriptionData | null> => {
+  if (!isPushSupported() || window.Notification.permission !== 'granted') return null;
+  if (!VAPID_PUBLIC_KEY) return loadLocalSubscription();
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  return subscription ? toSubscriptionData(subscription) : null;
+};
+
+/**
+ * Ask for permission and subscribe this device
+ */
+export const subscribeToPush = async (): Promise<PushSubscriptionData> => {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await window.Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notifications are blocked. Allow them in your browser settings.');
+
+  if (!VAPID_PUBLIC_KEY) {
+    const local: PushSubscriptionData = {
+      endpoint: `${LOCAL_ENDPOINT_PREFIX}${crypto.randomUUID()}`,
+      keys: { p256dh: '', auth: '' },
+    };
+    localStorage.setItem(LOCAL_SUBSCRIPTION_KEY, JSON.stringify(local));
+    return local;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToBytes(VAPID_PUBLIC_KEY),
+  });
+  return toSubscriptionData(subscription);
+};
+
+/**
+ * Unsubscribe this device, returning the endpoint that was removed
+ */
+export const unsubscribeFromPush = async (): Promise<string | null> => {
+  if (!VAPID_PUBLIC_KEY) {
+    const local = loadLocalSubscription();
+    localStorage.removeItem(LOCAL_SUBSCRIPTION_KEY);
+    return local?.endpoint ?? null;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
+
+export const toPushPayload = (notification: Notification): PushPayload => ({
+  title: notification.title,
+  body: notification.message,
+  url: getNotificationLink(notification) ?? '/notifications',
+  tag: notification.data?.request_id ? `request-${notification.data.request_id}` : notification.id,
+});
+
+/**
+ * Stand-in for a push service: hands the payload to this browser's service
+ * worker, which shows it exactly as it would a real push
+ */
+export class LocalPushSender implements PushSender {
+  async send(_subscription: PushSubscriptionData, payload: PushPayload): Promise<void> {
+    if (!isPushSupported() || window.Notification.permission !== 'granted') return;
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'local-push', payload });
+  }
+}
+
+export const localPushSender = new LocalPushSender();
@@ -0,0 +1,54 @@
+/**
+ * React Query cache keys
+ * Shared so that queries and the mutations that invalidate them stay in step
+ */
+
+import type { NotificationQueryParams, RequestQueryParams, ServiceQueryParams, SlotQueryParams } from './api';
+
+export type ServiceListFilters = Omit<ServiceQueryParams, 'page'>;
+
+export const queryKeys = {
+  services: {
+    all: ['services'] as const,
+    list: (params: ServiceQueryParams) => ['services', 'list', params] as const,
+    infinite: (filters: ServiceListFilters) => ['services', 'infinite', filters] as const,
+    detail: (id: string) => ['services', 'detail', id] as const,
+  },
+  requests: {
+    all: ['requests'] as const,
+    list: (params: RequestQueryParams) => ['requests', 'list', params] as const,
+  },
+  messages: {
+    all: ['messages'] as const,
+    thread: (requestId: string) => ['messages', 'thread', requestId] as const,
+    unread: ['messages', 'unread'] as const,
+  },
+  availability: {
+    all: ['availability'] as const,
+    provider: (providerId: string) => ['availability', 'provider', providerId] as const,
+    slots: (providerId: string, params: SlotQueryParams) => ['availability', 'slots', providerId, params] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    infinite: (params: NotificationQueryParams) => ['notifications', 'infinite', params] as const,
+    unread: ['notifications', 'unread'] as const,
+    preferences: ['notifications', 'preferences'] as const,
+  },
+  push: {
+    subscription: ['push', 'subscription'] as const,
+  },
+  bookkeeping: {
+    all: ['bookkeeping'] as const,
+    repository: (userId: string) => ['bookkeeping', 'repository', userId] as const,
+    transactions: ['bookkeeping', 'transactions'] as const,
+    invoices: ['bookkeeping', 'invoices'] as const,
+    profile: ['bookkeeping', 'profile'] as const,
+    receipts: ['bookkeeping', 'receipts'] as const,
+  },
+  categories: ['categories'] as const,
+  profile: ['profile'] as const,
+  feedback: {
+    all: ['feedback'] as const,
+    provider: (providerId: string) => ['feedback', 'provider', providerId] as const,
+  },
+};
@@ -0,0 +1,147 @@
+/**
+ * Quotes and Counter-offers
+ * Totals, validity and who may respond to a quote, shared by the quote UI and
+ * the demo backend
+ */
+
+import type { QuoteData } from './api';
+import { Quote, QuoteLineItem, ServiceRequest } from '@/types/service';
+import { RequestRole } from './requestStatus';
+
+/** South African standard VAT rate */
+export const VAT_RATE = 0.15;
+
+/** Default number of days a new quote stays open */
+export const QUOTE_VALIDITY_DAYS = 14;
+
+export type QuoteResponseAction = 'accept' | 'reject' | 'counter';
+
+export type QuoteDisplayStatus = Quote['status'] | 'expired';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteDisplayStatus, string> = {
+  pending: 'Awaiting response',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  countered: 'Countered',
+  superseded: 'Revised',
+  expired: 'Expired',
+};
+
+export const QUOTE_STATUS_COLORS: Record<QuoteDisplayStatus, string> = {
+  pending: 'bg-purple-100 text-purple-700 border-purple-200',
+  accepted: 'bg-green-100 text-green-700 border-green-200',
+  rejected: 'bg-red-100 text-red-700 border-red-200',
+  countered: 'bg-blue-100 text-blue-700 border-blue-200',
+  superseded: 'bg-gray-100 text-gray-700 border-gray-200',
+  expired: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export interface QuoteTotals {
+  labour_total: number;
+  materials_total: number;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const lineItemAmount = (item: QuoteLineItem): number => roundCents(item.quantity * item.unit_price);
+
+export const calculateQuoteTotals = (lineItems: QuoteLineItem[], vatRate: number): QuoteTotals => {
+  const sumOf = (type: QuoteLineItem['type']) =>
+    roundCents(lineItems.filter(item => item.type === type).reduce((sum, item) => sum + lineItemAmount(item), 0));
+
+  const labour_total = sumOf('labour');
+  const materials_total = sumOf('materials');
+  const subtotal = roundCents(labour_total + materials_total);
+  const vat_amount = roundCents(subtotal * vatRate);
+
+  return { labour_total, materials_total, subtotal, vat_amount, total: roundCents(subtotal + vat_amount) };
+};
+
+/**
+ * Local YYYY-MM-DD date the given number of days from now, for date inputs
+ */
+export const dateFromToday = (days: number, from: Date = new Date()): string => {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Only VAT vendors may charge VAT, on quotes or invoices, so it needs the
+ * provider's VAT number on file
+ */
+export const getVatChargeError = (vatRate: number, vatNumber: string | undefined): string | null =>
+  vatRate > 0 && !vatNumber ? 'Add your VAT number in your business details before charging VAT' : null;
+
+/**
+ * Problem with a quote before it is sent, or null if it can be sent
+ */
+export const validateQuote = (data: QuoteData, now: Date = new Date()): string | null => {
+  if (data.line_items.length === 0) return 'Add at least one line item';
+  if (data.line_items.some(item => !item.description.trim())) return 'Every line item needs a description';
+  if (data.line_items.some(item => !(item.quantity > 0))) return 'Quantities must be more than zero';
+  if (data.line_items.some(item => !(item.unit_price >= 0))) return 'Prices cannot be negative';
+  if (data.vat_rate !== 0 && data.vat_rate !== VAT_RATE) return 'VAT must be 0% or 15%';
+  if (!data.valid_until || data.valid_until < dateFromToday(0, now)) return 'The validity date must be today or later';
+  if (calculateQuoteTotals(data.line_items, data.vat_rate).total <= 0) return 'The quote total must be more than zero';
+  return null;
+};
+
+/** A pending quote lapses at the end of its validity date */
+export const isQuoteExpired = (quote: Quote, now: Date = new Date()): boolean =>
+  quote.status === 'pending' && new Date(`${quote.valid_until}T23:59:59`) < now;
+
+export const getQuoteDisplayStatus = (quote: Quote, now: Date = new Date()): QuoteDisplayStatus =>
+  isQuoteExpired(quote, now) ? 'expired' : quote.status;
+
+export const getLatestQuote = (request: Pick<ServiceRequest, 'quotes'>): Quote | undefined =>
+  request.quotes?.[request.quotes.length - 1];
+
+/**
+ * The offer currently waiting for an answer, if it has not lapsed
+ */
+export const getOpenQuote = (request: Pick<ServiceRequest, 'quotes'>, now: Date = new Date()): Quote | undefined => {
+  const latest = getLatestQuote(request);
+  return latest && latest.status === 'pending' && !isQuoteExpired(latest, now) ? latest : undefined;
+};
+
+/**
+ * Why the role cannot answer the quote, or null if it can.
+ * Only the other party can accept, reject or counter an open quote.
+ */
+export const getQuoteResponseError = (
+  request: Pick<ServiceRequest, 'status' | 'quotes'>,
+  quote: Quote,
+  role: RequestRole | null,
+  now: Date = new Date()
+): string | null => {
+  if (role === null) return 'Only the customer or provider on a request can respond to its quotes';
+  if (request.status !== 'quoted') return 'This request is not waiting on a quote';
+  if (quote.author.role === role) return 'You cannot respond to your own quote';
+  if (isQuoteExpired(quote, now)) return 'This quote has expired';
+  if (quote.status !== 'pending' || getLatestQuote(request)?.id !== quote.id) {
+    return 'This quote has already been answered';
+  }
+  return null;
+};
+
+/**
+ * Providers quote pending requests, and may revise a quote until the customer
+ * has countered it
+ */
+export const canSendQuote = (request: Pick<ServiceRequest, 'status' | 'quotes'>, role: RequestRole | null): boolean => {
+  if (role !== 'provider') return false;
+  if (request.status === 'pending') return true;
+  return request.status === 'quoted' && getOpenQuote(request)?.author.role !== 'customer';
+};
+
+/** Starting point for a new quote, or a counter to an existing one */
+export const toQuoteData = (quote?: Quote): QuoteData => ({
+  line_items: quote ? quote.line_items.map(item => ({ ...item })) : [],
+  vat_rate: quote?.vat_rate ?? 0,
+  valid_until: dateFromToday(QUOTE_VALIDITY_DAYS),
+  notes: '',
+});
@@ -0,0 +1,130 @@
+/**
+ * Expense Receipts
+ * Photos and PDFs kept as proof of expenses for SARS. The files stay in
+ * IndexedDB on this device whichever backend keeps the books; transactions
+ * refer to them by id, so the link survives an offline entry being synced.
+ */
+
+import { SecurityUtils } from './security';
+import { deleteRecord, getUserRecords, isLocalDbSupported, putRecord } from './localDb';
+import { dataUrlToBytes } from './pdf';
+import { downloadBlob } from './download';
+import { Receipt } from '@/types/service';
+
+/** File types offered when uploading a receipt */
+export const RECEIPT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
+
+export const MAX_RECEIPTS_PER_TRANSACTION = 10;
+
+/** Photos are kept this many pixels on their longest side, enough to read the small print */
+const MAX_RECEIPT_DIMENSION = 1600;
+const RECEIPT_QUALITY = 0.85;
+
+export type ReceiptData = Omit<Receipt, 'id' | 'user_id' | 'created_at'>;
+
+export const isPdfReceipt = (receipt: Pick<Receipt, 'content_type'>): boolean =>
+  receipt.content_type === 'application/pdf';
+
+// Decoded size of the base64 payload
+const dataUrlSize = (dataUrl: string): number => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+const readDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read this file'));
+    reader.readAsDataURL(file);
+  });
+
+const toReceiptJpeg = (src: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_RECEIPT_DIMENSION / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not read this photo'));
+        return;
+      }
+      // JPEG has no transparency, so flatten onto white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', RECEIPT_QUALITY));
+    };
+    image.onerror = () => reject(new Error('Could not read this photo'));
+    image.src = src;
+  });
+
+/**
+ * Check an uploaded receipt with the shared upload rules. Photos are
+ * downscaled to JPEG; PDFs are kept as they are.
+ */
+export const prepareReceiptFile = async (file: File): Promise<ReceiptData> => {
+  const check = SecurityUtils.validateFileUpload(file);
+  if (!check.valid) throw new Error(check.error);
+
+  if (file.type === 'application/pdf') {
+    return { filename: file.name, content_type: file.type, size: file.size, data_url: await readDataUrl(file) };
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const dataUrl = await toReceiptJpeg(url);
+    return {
+      filename: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+      content_type: 'image/jpeg',
+      size: dataUrlSize(dataUrl),
+      data_url: dataUrl,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * A receipt from a photo taken with the camera
+ */
+export const prepareReceiptPhoto = async (imageData: string, takenAt = new Date()): Promise<ReceiptData> => {
+  const dataUrl = await toReceiptJpeg(imageData);
+  const stamp = takenAt.toISOString().slice(0, 19).replace(/\D/g, '');
+  return {
+    filename: `receipt-${stamp}.jpg`,
+    content_type: 'image/jpeg',
+    size: dataUrlSize(dataUrl),
+    data_url: dataUrl,
+  };
+};
+
+export const listReceipts = (userId: string): Promise<Receipt[]> =>
+  isLocalDbSupported() ? getUserRecords<Receipt>('receipts', userId) : Promise.resolve([]);
+
+export const saveReceipt = async (userId: string, data: ReceiptData): Promise<Receipt> => {
+  if (!isLocalDbSupported()) throw new Error("Receipts can't be stored on this device");
+  return putRecord('receipts', {
+    ...data,
+    id: `receipt-${crypto.randomUUID()}`,
+    user_id: userId,
+    created_at: new Date().toISOString(),
+  });
+};
+
+export const deleteReceipt = (id: string): Promise<void> => deleteRecord('receipts', id);
+
+const receiptBlob = (receipt: Receipt): Blob =>
+  new Blob([dataUrlToBytes(receipt.data_url)], { type: receipt.content_type });
+
+/**
+ * Show a receipt in a new tab, where the browser's own viewer handles PDFs
+ */
+export const openReceipt = (receipt: Receipt): void => {
+  const url = URL.createObjectURL(receiptBlob(receipt));
+  window.open(url, '_blank', 'noopener');
+  // The new tab has loaded it by then
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+export const downloadReceipt = (receipt: Receipt): void => downloadBlob(receiptBlob(receipt), receipt.filename);
@@ -0,0 +1,147 @@
+/**
+ * Service Request Status Machine
+ * Which status changes each party to a request may make, shared by the client
+ * (to offer and guard actions) and the demo backend (to enforce them)
+ */
+
+import { RequestStatus, ServiceRequest } from '@/types/service';
+
+export type RequestRole = 'customer' | 'provider';
+
+type TransitionTable = Record<RequestStatus, Partial<Record<RequestStatus, RequestRole[]>>>;
+
+const TRANSITIONS: TransitionTable = {
+  pending: {
+    quoted: ['provider'],
+    accepted: ['provider'],
+    declined: ['provider'],
+    cancelled: ['customer'],
+  },
+  quoted: {
+    // Either side may accept or reject the other's latest offer
+    accepted: ['customer', 'provider'],
+    declined: ['customer', 'provider'],
+    cancelled: ['customer', 'provider'],
+  },
+  accepted: {
+    in_progress: ['provider'],
+    cancelled: ['customer', 'provider'],
+  },
+  in_progress: {
+    completed: ['provider'],
+    disputed: ['customer', 'provider'],
+  },
+  completed: {
+    disputed: ['customer'],
+  },
+  disputed: {
+    // Resolved in the customer's favour by redoing the work, or accepted as done
+    in_progress: ['provider'],
+    completed: ['customer'],
+    cancelled: ['customer', 'provider'],
+  },
+  declined: {},
+  cancelled: {},
+};
+
+export const REQUEST_STATUSES = Object.keys(TRANSITIONS) as RequestStatus[];
+
+/** Statuses where the job is still open */
+export const ACTIVE_STATUSES: RequestStatus[] = ['pending', 'quoted', 'accepted', 'in_progress', 'disputed'];
+
+/** Statuses where the job is closed */
+export const CLOSED_STATUSES: RequestStatus[] = ['completed', 'declined', 'cancelled'];
+
+export const STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  quoted: 'Quoted',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  disputed: 'Disputed',
+};
+
+export const STATUS_COLORS: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  quoted: 'bg-purple-100 text-purple-700 border-purple-200',
+  accepted: 'bg-blue-100 text-blue-700 border-blue-200',
+  declined: 'bg-red-100 text-red-700 border-red-200',
+  in_progress: 'bg-orange-100 text-orange-700 border-orange-200',
+  completed: 'bg-green-100 text-green-700 border-green-200',
+  cancelled: 'bg-red-100 text-red-700 border-red-200',
+  disputed: 'bg-rose-100 text-rose-800 border-rose-300',
+};
+
+/** Button text for moving a request into each status */
+export const TRANSITION_ACTIONS: Record<RequestStatus, string> = {
+  pending: 'Reopen',
+  quoted: 'Send Quote',
+  accepted: 'Accept',
+  declined: 'Decline',
+  in_progress: 'Start Job',
+  completed: 'Mark Complete',
+  cancelled: 'Cancel',
+  disputed: 'Raise Dispute',
+};
+
+/** Transitions that must explain themselves in the timeline */
+export const NOTE_REQUIRED: RequestStatus[] = ['disputed'];
+
+export class InvalidStatusTransitionError extends Error {
+  readonly from: RequestStatus;
+  readonly to: RequestStatus;
+
+  constructor(from: RequestStatus, to: RequestStatus, role: RequestRole | null) {
+    super(
+      role
+        ? `A ${role} cannot move a request from ${STATUS_LABELS[from].toLowerCase()} to ${STATUS_LABELS[to].toLowerCase()}`
+        : 'Only the customer or provider on a request can change its status'
+    );
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * The part the given user plays in a request, or null if they are not on it
+ */
+export const getRequestRole = (
+  request: Pick<ServiceRequest, 'customer' | 'provider'>,
+  userId: string | undefined
+): RequestRole | null => {
+  if (!userId) return null;
+  if (request.provider.id === userId) return 'provider';
+  if (request.customer.id === userId) return 'customer';
+  return null;
+};
+
+export const canTransition = (from: RequestStatus, to: RequestStatus, role: RequestRole | null): boolean =>
+  role !== null && (TRANSITIONS[from]?.[to]?.includes(role) ?? false);
+
+/**
+ * Statuses the role may move a request to from its current status
+ */
+export const getAllowedTransitions = (from: RequestStatus, role: RequestRole | null): RequestStatus[] =>
+  role === null
+    ? []
+    : (Object.entries(TRANSITIONS[from] ?? {}) as [RequestStatus, RequestRole[]][])
+      .filter(([, roles]) => roles.includes(role))
+      .map(([to]) => to);
+
+export const assertTransition = (from: RequestStatus, to: RequestStatus, role: RequestRole | null): void => {
+  if (!canTransition(from, to, role)) {
+    throw new InvalidStatusTransitionError(from, to, role);
+  }
+};
+
+/**
+ * Changes made by sending or answering a quote (see quotes.ts) rather than
+ * by setting the status directly
+ */
+export const isQuoteTransition = (from: RequestStatus, to: RequestStatus): boolean =>
+  to === 'quoted' || (from === 'quoted' && (to === 'accepted' || to === 'declined'));
+
+export const isActiveStatus = (status: RequestStatus): boolean => ACTIVE_STATUSES.includes(status);
@@ -0,0 +1,117 @@
+/**
+ * Service Search Filters
+ * Converts between the Services page filter state and its URL query string,
+ * so searches can be bookmarked and shared
+ */
+
+import type { ServiceQueryParams, ServiceSortOrder } from './api';
+import type { GeoPoint, Service } from '@/types/service';
+
+export interface ServiceSearchFilters {
+  search: string;
+  category: string;
+  priceType: Service['price_type'] | '';
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  verifiedOnly: boolean;
+  /** "Near me" search radius in km */
+  radiusKm?: number;
+  sort: ServiceSortOrder;
+}
+
+export const PRICE_TYPES: Service['price_type'][] = ['hourly', 'fixed', 'negotiable'];
+
+export const SORT_OPTIONS: { value: ServiceSortOrder; label: string }[] = [
+  { value: 'rating', label: 'Top Rated' },
+  { value: 'review_count', label: 'Most Reviews' },
+  { value: 'price_asc', label: 'Price: Low' },
+  { value: 'price_desc', label: 'Price: High' },
+  { value: 'newest', label: 'Newest' },
+];
+
+export const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+
+export const DEFAULT_SERVICE_FILTERS: ServiceSearchFilters = {
+  search: '',
+  category: '',
+  priceType: '',
+  verifiedOnly: false,
+  sort: 'rating',
+};
+
+const parseAmount = (value: string | null, max: number): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= max ? parsed : undefined;
+};
+
+/**
+ * Read filters from the URL, ignoring anything malformed
+ */
+export const parseServiceFilters = (params: URLSearchParams): ServiceSearchFilters => {
+  const priceType = params.get('price_type') as Service['price_type'];
+  const sort = params.get('sort') as ServiceSortOrder;
+
+  return {
+    search: params.get('q') || '',
+    category: params.get('category') || '',
+    priceType: PRICE_TYPES.includes(priceType) ? priceType : '',
+    minPrice: parseAmount(params.get('min_price'), 1000000),
+    maxPrice: parseAmount(params.get('max_price'), 1000000),
+    minRating: parseAmount(params.get('min_rating'), 5),
+    verifiedOnly: params.get('verified') === 'true',
+    radiusKm: parseAmount(params.get('radius'), 500) || undefined,
+    sort: SORT_OPTIONS.some(option => option.value === sort) ? sort : DEFAULT_SERVICE_FILTERS.sort,
+  };
+};
+
+/**
+ * Write filters to URL params, leaving defaults out to keep links short
+ */
+export const serializeServiceFilters = (filters: ServiceSearchFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.priceType) params.set('price_type', filters.priceType);
+  if (filters.minPrice !== undefined) params.set('min_price', filters.minPrice.toString());
+  if (filters.maxPrice !== undefined) params.set('max_price', filters.maxPrice.toString());
+  if (filters.minRating !== undefined) params.set('min_rating', filters.minRating.toString());
+  if (filters.verifiedOnly) params.set('verified', 'true');
+  if (filters.radiusKm !== undefined) params.set('radius', filters.radiusKm.toString());
+  if (filters.sort !== DEFAULT_SERVICE_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+/**
+ * API query params for the given filters. The radius only applies once the
+ * origin it is measured from is known; coordinates never go into the URL.
+ */
+export const toServiceQueryParams = (
+  filters: ServiceSearchFilters,
+  origin?: GeoPoint | null
+): Omit<ServiceQueryParams, 'page'> => ({
+  search: filters.search || undefined,
+  category: filters.category || undefined,
+  price_type: filters.priceType || undefined,
+  min_price: filters.minPrice,
+  max_price: filters.maxPrice,
+  min_rating: filters.minRating,
+  verified: filters.verifiedOnly || undefined,
+  ...(filters.radiusKm !== undefined && origin
+    ? { near_lat: origin.lat, near_lng: origin.lng, radius_km: filters.radiusKm }
+    : {}),
+  sort: filters.sort,
+});
+
+/**
+ * Number of refinements applied in the filter sheet (search and sort excluded)
+ */
+export const countActiveFilters = (filters: ServiceSearchFilters): number => [
+  filters.category,
+  filters.priceType,
+  filters.minPrice !== undefined || filters.maxPrice !== undefined,
+  filters.minRating !== undefined,
+  filters.verifiedOnly,
+  filters.radiusKm !== undefined,
+].filter(Boolean).length;
@@ -0,0 +1,282 @@
+/**
+ * API Transport Layer
+ * Defines how the API client talks to a backend. The HTTP transport talks to
+ * the real LinkLocal backend, or to the in-browser mock backend in demo mode.
+ */
+
+import { JWTUtils, TokenStorage } from './jwt';
+
+export const API_BASE_URL = 'https://technobytes-backend-2.onrender.com';
+
+export interface ApiResponse<T = unknown> {
+  success: boolean;
+  data: T | null;
+  message: string | null;
+  error: string | null;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface ApiRequest {
+  method: HttpMethod;
+  path: string;
+  params?: QueryParams;
+  body?: unknown;
+}
+
+export interface ApiTransport {
+  send<T>(request: ApiRequest): Promise<ApiResponse<T>>;
+}
+
+/**
+ * The backend answered with an error status
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * The backend could not be reached at all
+ */
+export class NetworkError extends Error {
+  constructor(message: string = 'Network error. Please check your internet connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Serialize query params, skipping empty values
+ */
+export const buildQueryString = (params?: QueryParams): string => {
+  const searchParams = new URLSearchParams();
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, value.toString());
+      }
+    });
+  }
+  return searchParams.toString();
+};
+
+const expireSession = (): Error => {
+  TokenStorage.clearTokens();
+  localStorage.removeItem('sa_services_user');
+  window.dispatchEvent(new CustomEvent('tokenExpired'));
+  return new Error('Your session has expired. Please log in again.');
+};
+
+/**
+ * The refresh couldn't be tried, rather than being refused, so the session stands
+ */
+const isRefreshUnavailable = (error: unknown): boolean =>
+  error instanceof NetworkError || (error instanceof ApiError && error.status >= 500);
+
+const statusErrorMessage = (status: number): string => {
+  switch (status) {
+    case 400:
+      return 'Invalid request. Please check your input and try again.';
+    case 403:
+      return 'Access denied. You do not have permission to perform this action.';
+    case 404:
+      return 'The requested resource was not found.';
+    case 409:
+      return 'A conflict occurred. This email may already be registered.';
+    case 422:
+      return 'Validation failed. Please check your input and try again.';
+    case 429:
+      return 'Too many requests. Please wait a moment and try again.';
+    case 500:
+      return 'Server error. Please try again later.';
+    case 502:
+    case 503:
+    case 504:
+      return 'Service temporarily unavailable. Please try again later.';
+    default:
+      return `Request failed with status ${status}`;
+  }
+};
+
+/**
+ * Fetch-based transport with bearer auth and automatic token refresh
+ */
+export class HttpTransport implements ApiTransport {
+  private baseURL: string;
+  private fetchImpl: typeof fetch;
+  private refreshPromise: Promise<string> | null = null;
+
+  /**
+   * @param fetchImpl - fetch implementation to send requests with; the demo
+   * mode mock backend plugs in here
+   */
+  constructor(baseURL: string = API_BASE_URL, fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.baseURL = baseURL;
+    this.fetchImpl = fetchImpl;
+  }
+
+  /**
+   * Refresh the access token using the refresh token
+   */
+  private async refreshAccessToken(): Promise<string> {
+    // Prevent multiple simultaneous refresh requests
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = this.performTokenRefresh();
+
+    try {
+      return await this.refreshPromise;
+    } finally {
+      this.refreshPromise = null;
+    }
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    const refreshToken = TokenStorage.getRefreshToken();
+
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    if (JWTUtils.isTokenExpired(refreshToken)) {
+      TokenStorage.clearTokens();
+      throw new Error('Refresh token has expired. Please log in again.');
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseURL}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+    } catch (error) {
+      // Offline rather than refused: keep the tokens so the session outlives the outage
+      throw new NetworkError();
+    }
+
+    if (response.status >= 500) {
+      throw new ApiError(statusErrorMessage(response.status), response.status);
+    }
+
+    try {
+      if (!response.ok) {
+        throw new Error('Failed to refresh token');
+      }
+
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        const { access_token, refresh_token, expires_in } = data.data;
+        TokenStorage.setTokens(access_token, refresh_token, expires_in);
+        return access_token;
+      } else {
+        throw new Error(data.message || 'Failed to refresh token');
+      }
+    } catch (error) {
+      // Clear tokens when the refresh token is rejected
+      TokenStorage.clearTokens();
+      throw error;
+    }
+  }
+
+  async send<T>(request: ApiRequest, retried = false): Promise<ApiResponse<T>> {
+    const queryString = buildQueryString(request.params);
+    const url = `${this.baseURL}${request.path}${queryString ? `?${queryString}` : ''}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    let accessToken = TokenStorage.getAccessToken();
+
+    // If we have a token, refresh it when it is expired or expiring within 5 minutes
+    if (accessToken) {
+      if (TokenStorage.isAccessTokenExpiringSoon(5)) {
+        try {
+          accessToken = await this.refreshAccessToken();
+        } catch (error) {
+          throw isRefreshUnavailable(error) ? error : expireSession();
+        }
+      }
+
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method: request.method,
+        headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      });
+    } catch (error) {
+      console.error('API request failed:', error);
+
+      // fetch rejects with a TypeError whenever the request didn't get a
+      // response, whatever the browser's wording ("Failed to fetch", "Load
+      // failed", ...), including the browser's own connection timeouts
+      if (error instanceof TypeError) {
+        throw new NetworkError();
+      }
+
+      // Aborted requests may already have reached the server, so they aren't
+      // treated as offline and queued to be sent again
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timed out. Please try again.');
+      }
+
+      throw error;
+    }
+
+    try {
+      let data: ApiResponse<T>;
+      try {
+        data = await response.json();
+      } catch (jsonError) {
+        // If response is not JSON, create a structured error response
+        data = {
+          success: false,
+          message: `Server error (${response.status})`,
+          error: `HTTP ${response.status}: ${response.statusText}`,
+          data: null
+        };
+      }
+
+      if (!response.ok) {
+        // Handle 401 Unauthorized (invalid token) by refreshing once and retrying
+        if (response.status === 401 && accessToken) {
+          const refreshToken = TokenStorage.getRefreshToken();
+          if (!retried && refreshToken && !JWTUtils.isTokenExpired(refreshToken)) {
+            try {
+              await this.refreshAccessToken();
+            } catch (refreshError) {
+              throw isRefreshUnavailable(refreshError) ? refreshError : expireSession();
+            }
+            return this.send<T>(request, true);
+          }
+          throw expireSession();
+        }
+
+        throw new ApiError(data.message || data.error || statusErrorMessage(response.status), response.status);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('API request failed:', error);
+      throw error;
+    }
+  }
+}
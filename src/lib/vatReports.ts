@@ -0,0 +1,410 @@
+/**
+ * VAT Reports
+ * For VAT vendors, what goes on each two-monthly VAT201 return: output tax
+ * on invoices issued (the invoice basis) and input tax on expenses. For
+ * everyone else, how close the last twelve months' income is to the
+ * turnover at which SARS requires registration. Both export as CSV and PDF.
+ */
+
+import { toCsv } from './csv';
+import { A4, PdfColor, PdfDocument, hexColor } from './pdf';
+import { lastBusinessDay, monthEnd, monthStart, toMonthIndex, toSastDateKey } from './availability';
+import { downloadBlob } from './download';
+import { roundCents } from './bookkeeping';
+import { VAT_RATE } from './quotes';
+import { isInvoiceIssued } from './invoiceLifecycle';
+import { formatRand } from './invoicePdf';
+import { MONTH_NAMES } from './financialReports';
+import { BusinessProfile, Invoice, Transaction, VatCategory } from '@/types/service';
+
+/** Taxable supplies over any 12 months above which registration is compulsory */
+export const VAT_REGISTRATION_THRESHOLD = 1_000_000;
+
+/** Share of the threshold at which the tracker starts warning */
+export const TURNOVER_WARNING_SHARE = 0.8;
+
+/** Months of recent income the projection is based on */
+const PROJECTION_MONTHS = 3;
+
+export const DEFAULT_VAT_CATEGORY: VatCategory = 'A';
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  A: 'Category A (Dec–Jan, Feb–Mar, …)',
+  B: 'Category B (Jan–Feb, Mar–Apr, …)',
+};
+
+const MARGIN = 48;
+const RIGHT = A4.width - MARGIN;
+const BRAND: PdfColor = hexColor('#f97316');
+const TEXT: PdfColor = hexColor('#1f2937');
+const MUTED: PdfColor = hexColor('#6b7280');
+const RULE: PdfColor = hexColor('#e5e7eb');
+const HEADER_FILL: PdfColor = hexColor('#f3f4f6');
+
+export const getVatCategory = (profile: Pick<BusinessProfile, 'vat_category'> | null): VatCategory =>
+  profile?.vat_category ?? DEFAULT_VAT_CATEGORY;
+
+/**
+ * VAT included in a VAT-inclusive amount, e.g. R15 of R115
+ */
+export const getIncludedVat = (amount: number, rate = VAT_RATE): number => roundCents(amount * rate / (1 + rate));
+
+/** e.g. Mar 2025 */
+const monthLabel = (index: number): string => `${MONTH_NAMES[index % 12]} ${Math.floor(index / 12)}`;
+
+export interface VatPeriod {
+  /** YYYY-MM-DD, both inclusive */
+  start: string;
+  end: string;
+  /** e.g. Mar–Apr 2025 */
+  label: string;
+  /** Returns and payment made on eFiling are due by the last business day of the following month */
+  due: string;
+}
+
+/**
+ * The two-month tax period a day falls in. Category A periods end in odd
+ * months (Jan, Mar, …), category B in even ones (Feb, Apr, …).
+ */
+export const getVatPeriod = (dateKey: string, category: VatCategory): VatPeriod => {
+  const month = toMonthIndex(dateKey);
+  // Category B periods start in January, so on even month indexes; A a month earlier
+  const first = category === 'B' ? month - (month % 2) : month - ((month + 1) % 2);
+  const last = first + 1;
+  const endYear = Math.floor(last / 12);
+  return {
+    start: monthStart(first),
+    end: monthEnd(last),
+    label: Math.floor(first / 12) === endYear
+      ? `${MONTH_NAMES[first % 12]}–${MONTH_NAMES[last % 12]} ${endYear}`
+      : `${monthLabel(first)}–${monthLabel(last)}`,
+    due: lastBusinessDay(last + 1),
+  };
+};
+
+/**
+ * The current period and the ones before it, newest first
+ */
+export const listVatPeriods = (on: string, category: VatCategory, count = 6): VatPeriod[] => {
+  const periods = [getVatPeriod(on, category)];
+  while (periods.length < count) {
+    const previous = new Date(`${periods[periods.length - 1].start}T00:00:00Z`);
+    previous.setUTCDate(0);
+    periods.push(getVatPeriod(previous.toISOString().split('T')[0], category));
+  }
+  return periods;
+};
+
+const inPeriod = (dateKey: string, period: Pick<VatPeriod, 'start' | 'end'>): boolean =>
+  dateKey >= period.start && dateKey <= period.end;
+
+/** The day an invoice counts from: when it was issued */
+const invoiceDate = (invoice: Invoice): string => toSastDateKey(new Date(invoice.created_at));
+
+export interface VatDocument {
+  date: string;
+  reference: string;
+  description: string;
+  /** Including VAT */
+  amount: number;
+  vat: number;
+}
+
+export interface Vat201Report {
+  period: VatPeriod;
+  /** Field 1: standard-rated supplies, including VAT */
+  standardRatedSupplies: number;
+  /** Field 2: supplies invoiced without VAT, e.g. zero-rated */
+  zeroRatedSupplies: number;
+  /** Field 4 */
+  outputVat: number;
+  /** Field 15: input tax on goods and services other than capital goods */
+  inputVat: number;
+  /** Field 20: payable to SARS if positive, refundable if negative */
+  netVat: number;
+  supplies: VatDocument[];
+  purchases: VatDocument[];
+}
+
+/**
+ * Output tax on issued invoices and VAT-inclusive cash sales, and input tax
+ * on expenses with VAT, dated within the period
+ */
+export const getVat201Report = (
+  period: VatPeriod,
+  invoices: Invoice[],
+  transactions: Transaction[]
+): Vat201Report => {
+  const invoiced: VatDocument[] = invoices
+    .filter(invoice => !invoice.pending_sync && isInvoiceIssued(invoice) && inPeriod(invoiceDate(invoice), period))
+    .map(invoice => ({
+      date: invoiceDate(invoice),
+      reference: invoice.number,
+      description: invoice.client_name,
+      amount: invoice.amount,
+      vat: invoice.vat_amount,
+    }));
+  // Income booked without an invoice, such as a cash job; payments on invoices are already counted above
+  const cashSales: VatDocument[] = transactions
+    .filter(t => t.type === 'income' && !t.invoice_id && t.vat_amount && inPeriod(t.date, period))
+    .map(t => ({ date: t.date, reference: '', description: t.description, amount: t.amount, vat: t.vat_amount }));
+  const purchases: VatDocument[] = transactions
+    .filter(t => t.type === 'expense' && t.vat_amount && inPeriod(t.date, period))
+    .map(t => ({ date: t.date, reference: t.category, description: t.description, amount: t.amount, vat: t.vat_amount }));
+
+  const supplies = [...invoiced, ...cashSales].sort((a, b) => a.date.localeCompare(b.date));
+  purchases.sort((a, b) => a.date.localeCompare(b.date));
+
+  const sum = (documents: VatDocument[], field: 'amount' | 'vat') =>
+    roundCents(documents.reduce((total, document) => total + document[field], 0));
+  const outputVat = sum(supplies, 'vat');
+  const inputVat = sum(purchases, 'vat');
+
+  return {
+    period,
+    standardRatedSupplies: sum(supplies.filter(d => d.vat > 0), 'amount'),
+    zeroRatedSupplies: sum(supplies.filter(d => d.vat === 0), 'amount'),
+    outputVat,
+    inputVat,
+    netVat: roundCents(outputVat - inputVat),
+    supplies,
+    purchases,
+  };
+};
+
+export interface TurnoverMonth {
+  /** YYYY-MM */
+  month: string;
+  label: string;
+  amount: number;
+}
+
+export type TurnoverStatus = 'below' | 'approaching' | 'over';
+
+export interface TurnoverReport {
+  /** Oldest first, ending with the current month */
+  months: TurnoverMonth[];
+  total: number;
+  /** Next 12 months at the rate of the last three */
+  projected: number;
+  status: TurnoverStatus;
+}
+
+/**
+ * Income booked over the last twelve months, this one included. SARS
+ * requires registration once it passes the threshold, or once it is
+ * expected to within the next twelve months.
+ */
+export const getTurnoverReport = (transactions: Transaction[], on: string): TurnoverReport => {
+  const current = toMonthIndex(on);
+  const totals = new Map<number, number>();
+  transactions
+    .filter(t => t.type === 'income')
+    .forEach(t => {
+      const month = toMonthIndex(t.date);
+      if (month > current - 12 && month <= current) totals.set(month, (totals.get(month) ?? 0) + t.amount);
+    });
+
+  const months: TurnoverMonth[] = Array.from({ length: 12 }, (_, i) => {
+    const month = current - 11 + i;
+    return { month: monthStart(month).slice(0, 7), label: monthLabel(month), amount: roundCents(totals.get(month) ?? 0) };
+  });
+  const total = roundCents(months.reduce((sum, month) => sum + month.amount, 0));
+  const recent = months.slice(-PROJECTION_MONTHS).reduce((sum, month) => sum + month.amount, 0);
+  const projected = roundCents(recent * 12 / PROJECTION_MONTHS);
+
+  return {
+    months,
+    total,
+    projected,
+    status: total > VAT_REGISTRATION_THRESHOLD
+      ? 'over'
+      : total >= VAT_REGISTRATION_THRESHOLD * TURNOVER_WARNING_SHARE || projected > VAT_REGISTRATION_THRESHOLD
+        ? 'approaching'
+        : 'below',
+  };
+};
+
+const VAT201_COLUMNS = ['Section', 'Date', 'Reference', 'Description', 'Amount incl. VAT', 'VAT'];
+
+export const buildVat201Csv = (report: Vat201Report): string => {
+  const documentRows = (section: string, documents: VatDocument[]) => documents.map(d => [
+    section, d.date, d.reference, d.description, d.amount.toFixed(2), d.vat.toFixed(2),
+  ]);
+  const fieldRow = (field: string, amount: number, vat?: number) => [
+    `Field ${field}`, '', '', '', amount.toFixed(2), vat === undefined ? '' : vat.toFixed(2),
+  ];
+  return toCsv(VAT201_COLUMNS, [
+    ...documentRows('Output', report.supplies),
+    ...documentRows('Input', report.purchases),
+    fieldRow('1 Standard-rated supplies', report.standardRatedSupplies, report.outputVat),
+    fieldRow('2 Zero-rated supplies', report.zeroRatedSupplies),
+    fieldRow('15 Input tax', report.inputVat),
+    fieldRow('20 Net VAT', report.netVat),
+  ]);
+};
+
+export const buildTurnoverCsv = (report: TurnoverReport): string =>
+  toCsv(['Month', 'Income'], [
+    ...report.months.map(month => [month.month, month.amount.toFixed(2)]),
+    ['Last 12 months', report.total.toFixed(2)],
+    ['Projected next 12 months', report.projected.toFixed(2)],
+  ]);
+
+interface PdfColumn {
+  label: string;
+  x: number;
+  align?: 'left' | 'right';
+  /** Text is cut to fit, for descriptions */
+  width?: number;
+}
+
+const fitText = (pdf: PdfDocument, text: string, width: number | undefined): string =>
+  width ? pdf.wrapText(text, width, 9)[0] ?? '' : text;
+
+/**
+ * Heading, business name and period at the top of a report
+ */
+const drawReportHeader = (pdf: PdfDocument, title: string, lines: string[]): number => {
+  pdf.text(title, MARGIN, MARGIN, { size: 18, bold: true, color: BRAND });
+  let y = MARGIN + 30;
+  lines.forEach(line => {
+    pdf.text(line, MARGIN, y, { size: 10, color: TEXT });
+    y += 14;
+  });
+  return y + 12;
+};
+
+const drawSummary = (pdf: PdfDocument, rows: [string, string][], top: number): number => {
+  let y = top;
+  rows.forEach(([label, value], index) => {
+    const last = index === rows.length - 1;
+    if (last) {
+      pdf.line(MARGIN, y - 4, RIGHT, y - 4, TEXT);
+      y += 4;
+    }
+    pdf.text(label, MARGIN, y, { size: last ? 11 : 10, bold: last, color: TEXT });
+    pdf.text(value, RIGHT, y, { size: last ? 11 : 10, bold: last, color: TEXT, align: 'right' });
+    y += 18;
+  });
+  return y + 12;
+};
+
+/**
+ * A titled table, carrying on over new pages with the headings repeated
+ */
+const drawTable = (pdf: PdfDocument, title: string, columns: PdfColumn[], rows: string[][], top: number): number => {
+  const drawHeader = (at: number): number => {
+    pdf.fillRect(MARGIN, at, RIGHT - MARGIN, 20, HEADER_FILL);
+    columns.forEach(column => pdf.text(column.label, column.x, at + 6, { size: 9, bold: true, color: TEXT, align: column.align }));
+    return at + 28;
+  };
+
+  let y = top;
+  if (y + 60 > A4.height - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  pdf.text(title.toUpperCase(), MARGIN, y, { size: 8, bold: true, color: MUTED });
+  y = drawHeader(y + 14);
+  if (rows.length === 0) {
+    pdf.text('None', MARGIN + 8, y, { size: 9, color: MUTED });
+    return y + 28;
+  }
+  rows.forEach(row => {
+    if (y + 16 > A4.height - MARGIN) {
+      pdf.addPage();
+      y = drawHeader(MARGIN);
+    }
+    columns.forEach((column, index) =>
+      pdf.text(fitText(pdf, row[index], column.width), column.x, y, { size: 9, color: TEXT, align: column.align })
+    );
+    y += 16;
+    pdf.line(MARGIN, y - 5, RIGHT, y - 5, RULE);
+  });
+  return y + 16;
+};
+
+const formatReportDate = (dateKey: string): string =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const buildVat201Pdf = (report: Vat201Report, profile: BusinessProfile): PdfDocument => {
+  const pdf = new PdfDocument();
+  let y = drawReportHeader(pdf, 'VAT201 WORKING PAPER', [
+    profile.business_name,
+    `VAT no. ${profile.vat_number ?? ''}`,
+    `Tax period ${report.period.label} (${formatReportDate(report.period.start)} to ${formatReportDate(report.period.end)})`,
+    `Due on eFiling by ${formatReportDate(report.period.due)}`,
+  ]);
+
+  y = drawSummary(pdf, [
+    ['1  Standard-rated supplies (incl. VAT)', formatRand(report.standardRatedSupplies)],
+    ['2  Zero-rated supplies', formatRand(report.zeroRatedSupplies)],
+    ['4  Output tax', formatRand(report.outputVat)],
+    ['15  Input tax', formatRand(report.inputVat)],
+    [report.netVat >= 0 ? '20  VAT payable' : '20  VAT refundable', formatRand(Math.abs(report.netVat))],
+  ], y);
+
+  const columns: PdfColumn[] = [
+    { label: 'Date', x: MARGIN + 8 },
+    { label: 'Reference', x: MARGIN + 80 },
+    { label: 'Description', x: MARGIN + 170, width: 170 },
+    { label: 'Incl. VAT', x: RIGHT - 80, align: 'right' },
+    { label: 'VAT', x: RIGHT - 8, align: 'right' },
+  ];
+  const rows = (documents: VatDocument[]) =>
+    documents.map(d => [d.date, d.reference, d.description, formatRand(d.amount), formatRand(d.vat)]);
+  y = drawTable(pdf, 'Output tax: sales', columns, rows(report.supplies), y);
+  drawTable(pdf, 'Input tax: expenses', columns, rows(report.purchases), y);
+  return pdf;
+};
+
+export const buildTurnoverPdf = (report: TurnoverReport, profile: BusinessProfile | null, on: string): PdfDocument => {
+  const pdf = new PdfDocument();
+  const y = drawReportHeader(pdf, 'TURNOVER REPORT', [
+    ...(profile?.business_name ? [profile.business_name] : []),
+    `12 months to ${formatReportDate(on)}`,
+    `Compulsory VAT registration above ${formatRand(VAT_REGISTRATION_THRESHOLD)}`,
+  ]);
+
+  const afterSummary = drawSummary(pdf, [
+    ['Projected next 12 months', formatRand(report.projected)],
+    ['Income over the last 12 months', formatRand(report.total)],
+  ], y);
+  drawTable(pdf, 'Income by month', [
+    { label: 'Month', x: MARGIN + 8 },
+    { label: 'Income', x: RIGHT - 8, align: 'right' },
+  ], report.months.map(month => [month.label, formatRand(month.amount)]), afterSummary);
+  return pdf;
+};
+
+/**
+ * e.g. vat201-2025-03-2025-04.csv
+ */
+export const getVat201Filename = (report: Vat201Report, format: 'csv' | 'pdf'): string =>
+  `vat201-${report.period.start.slice(0, 7)}-${report.period.end.slice(0, 7)}.${format}`;
+
+export const getTurnoverFilename = (on: string, format: 'csv' | 'pdf'): string => `turnover-${on}.${format}`;
+
+export const downloadVat201 = (report: Vat201Report, profile: BusinessProfile, format: 'csv' | 'pdf'): void => {
+  downloadBlob(
+    format === 'csv'
+      ? new Blob([buildVat201Csv(report)], { type: 'text/csv' })
+      : buildVat201Pdf(report, profile).toBlob(),
+    getVat201Filename(report, format)
+  );
+};
+
+export const downloadTurnover = (
+  report: TurnoverReport,
+  profile: BusinessProfile | null,
+  on: string,
+  format: 'csv' | 'pdf'
+): void => {
+  downloadBlob(
+    format === 'csv'
+      ? new Blob([buildTurnoverCsv(report)], { type: 'text/csv' })
+      : buildTurnoverPdf(report, profile, on).toBlob(),
+    getTurnoverFilename(on, format)
+  );
+};
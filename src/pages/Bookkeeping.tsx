@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
 import { 
   Calculator, 
   Receipt, 
@@ -16,169 +18,145 @@ import {
   TrendingDown,
   Plus,
   Download,
-  Send,
   Edit,
   Trash2,
   Calendar,
   User,
   Loader2,
   FileText,
-  BarChart3
+  BarChart3,
+  ExternalLink,
+  Building2,
+  Share2,
+  Mail,
+  Wallet,
+  Paperclip,
+  Landmark
 } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
+import BusinessProfileDialog from '@/components/bookkeeping/BusinessProfileDialog';
+import SendInvoiceDialog from '@/components/bookkeeping/SendInvoiceDialog';
+import RecordPaymentDialog from '@/components/bookkeeping/RecordPaymentDialog';
+import BankImportDialog from '@/components/bookkeeping/BankImportDialog';
+import AgedReceivablesCard from '@/components/bookkeeping/AgedReceivablesCard';
+import Vat201Card from '@/components/bookkeeping/Vat201Card';
+import TurnoverTrackerCard from '@/components/bookkeeping/TurnoverTrackerCard';
+import ProvisionalTaxCard from '@/components/bookkeeping/ProvisionalTaxCard';
+import FinancialReports from '@/components/bookkeeping/FinancialReports';
+import ReceiptAttachments, { FormReceipt } from '@/components/bookkeeping/ReceiptAttachments';
+import ReceiptGallery, { GalleryReceipt } from '@/components/bookkeeping/ReceiptGallery';
+import CameraCapture from '@/components/camera/CameraCapture';
 import { useToast } from '@/hooks/use-toast';
+import {
+  useAddReceipts,
+  useBusinessProfile,
+  useCreateInvoice,
+  useCreateTransaction,
+  useDeleteInvoice,
+  useDeleteReceipts,
+  useDeleteTransaction,
+  useInvoices,
+  useReceipts,
+  useTransactions,
+  useUpdateInvoice,
+  useUpdateTransaction
+} from '@/hooks/useBookkeepingQueries';
+import { InvoiceData, TransactionData } from '@/lib/api';
+import { getInvoiceTotals } from '@/lib/bookkeeping';
+import { VAT_RATE } from '@/lib/quotes';
+import { INVOICE_STATUS_LABELS, getAmountPaid, getInvoiceBalance } from '@/lib/invoiceLifecycle';
+import { prepareReceiptPhoto } from '@/lib/receipts';
+import { buildLedgerExport, downloadLedgerExport } from '@/lib/ledgerExport';
+import { getIncludedVat } from '@/lib/vatReports';
+import {
+  FULL_TAX_INVOICE_THRESHOLD,
+  downloadInvoicePdf,
+  formatRand,
+  getInvoiceDocumentError,
+  isTaxInvoice,
+  shareInvoicePdf
+} from '@/lib/invoicePdf';
+import { Invoice, Transaction, TransactionStatus } from '@/types/service';
 
-interface Transaction {
-  id: string;
-  type: 'income' | 'expense';
-  category: string;
-  description: string;
-  amount: number;
-  date: string;
-  client?: string;
-  status: 'pending' | 'paid' | 'overdue';
-}
-
-interface Invoice {
-  id: string;
-  clientName: string;
-  clientEmail: string;
-  amount: number;
-  dueDate: string;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
-  items: InvoiceItem[];
-  createdAt: string;
-}
-
-interface InvoiceItem {
-  id: string;
-  description: string;
-  quantity: number;
-  rate: number;
-  amount: number;
-}
+const emptyInvoiceForm = (chargeVat = false) => ({
+  clientName: '',
+  clientEmail: '',
+  clientAddress: '',
+  clientVatNumber: '',
+  dueDate: '',
+  chargeVat,
+  items: [{ description: '', quantity: 1, rate: 0, amount: 0 }]
+});
+
+const emptyTransactionForm = () => ({
+  type: 'income' as 'income' | 'expense',
+  category: '',
+  description: '',
+  amount: '',
+  date: new Date().toISOString().split('T')[0],
+  client: '',
+  status: 'paid' as TransactionStatus,
+  includesVat: false,
+  receipts: [] as FormReceipt[]
+});
+
+/**
+ * Link back to the service request an entry was recorded from
+ */
+const RequestLink: React.FC<{ requestId: string }> = ({ requestId }) => (
+  <Link
+    to={`/requests?request=${encodeURIComponent(requestId)}`}
+    className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+  >
+    <ExternalLink size={12} />
+    View request
+  </Link>
+);
 
 const Bookkeeping: React.FC = () => {
-  const { user } = useAuth();
   const { toast } = useToast();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: transactions = [], isLoading: isLoadingTransactions, isError: transactionsError } = useTransactions();
+  const { data: invoices = [], isLoading: isLoadingInvoices, isError: invoicesError } = useInvoices();
+  const { data: businessProfile = null } = useBusinessProfile();
+  const { data: receipts = [] } = useReceipts();
+  const receiptsById = new Map(receipts.map(receipt => [receipt.id, receipt]));
+  const vatRegistered = isTaxInvoice(businessProfile);
+  const [showProfileModal, setShowProfileModal] = useState(false);
+  const isLoading = isLoadingTransactions || isLoadingInvoices;
   const [activeTab, setActiveTab] = useState('overview');
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
   const [showTransactionModal, setShowTransactionModal] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const [invoiceData, setInvoiceData] = useState({
-    clientName: '',
-    clientEmail: '',
-    dueDate: '',
-    items: [{ description: '', quantity: 1, rate: 0, amount: 0 }]
-  });
-
-  const [transactionData, setTransactionData] = useState({
-    type: 'income' as 'income' | 'expense',
-    category: '',
-    description: '',
-    amount: '',
-    date: new Date().toISOString().split('T')[0],
-    client: ''
-  });
-
-  // Load bookkeeping data
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        const mockTransactions: Transaction[] = [
-          {
-            id: '1',
-            type: 'income',
-            category: 'Service Payment',
-            description: 'Plumbing repair - Kitchen sink',
-            amount: 450,
-            date: '2024-01-15',
-            client: 'John Smith',
-            status: 'paid'
-          },
-          {
-            id: '2',
-            type: 'expense',
-            category: 'Supplies',
-            description: 'Pipe fittings and tools',
-            amount: 85,
-            date: '2024-01-14',
-            status: 'paid'
-          },
-          {
-            id: '3',
-            type: 'income',
-            category: 'Service Payment',
-            description: 'Electrical installation',
-            amount: 320,
-            date: '2024-01-13',
-            client: 'Sarah Johnson',
-            status: 'paid'
-          },
-          {
-            id: '4',
-            type: 'expense',
-            category: 'Transportation',
-            description: 'Fuel for service calls',
-            amount: 45,
-            date: '2024-01-12',
-            status: 'paid'
-          }
-        ];
-
-        const mockInvoices: Invoice[] = [
-          {
-            id: '1',
-            clientName: 'Mike Wilson',
-            clientEmail: 'mike@email.com',
-            amount: 280,
-            dueDate: '2024-01-20',
-            status: 'sent',
-            items: [
-              { id: '1-1', description: 'Bathroom renovation', quantity: 1, rate: 280, amount: 280 }
-            ],
-            createdAt: '2024-01-10'
-          },
-          {
-            id: '2',
-            clientName: 'Lisa Brown',
-            clientEmail: 'lisa@email.com',
-            amount: 150,
-            dueDate: '2024-01-18',
-            status: 'paid',
-            items: [
-              { id: '2-1', description: 'Light fixture installation', quantity: 2, rate: 75, amount: 150 }
-            ],
-            createdAt: '2024-01-08'
-          }
-        ];
-        
-        setTransactions(mockTransactions);
-        setInvoices(mockInvoices);
-      } catch (error) {
-        console.error('Error loading bookkeeping data:', error);
-        toast({
-          title: 'Error loading data',
-          description: 'Failed to load bookkeeping data. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
+  const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(null);
+  const [sendingInvoice, setSendingInvoice] = useState<Invoice | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const createTransaction = useCreateTransaction();
+  const updateTransaction = useUpdateTransaction();
+  const deleteTransaction = useDeleteTransaction();
+  const createInvoice = useCreateInvoice();
+  const updateInvoice = useUpdateInvoice();
+  const deleteInvoice = useDeleteInvoice();
+  const addReceipts = useAddReceipts();
+  const deleteReceipts = useDeleteReceipts();
+  const [takingReceiptPhoto, setTakingReceiptPhoto] = useState(false);
+  const [showBankImport, setShowBankImport] = useState(false);
+  const [galleryTransaction, setGalleryTransaction] = useState<Transaction | 'all' | null>(null);
+  const isSubmitting = createTransaction.isPending || updateTransaction.isPending ||
+    createInvoice.isPending || updateInvoice.isPending || addReceipts.isPending;
+
+  const [invoiceData, setInvoiceData] = useState(emptyInvoiceForm);
 
-    loadData();
-  }, [toast]);
+  const [transactionData, setTransactionData] = useState(emptyTransactionForm);
+
+  useEffect(() => {
+    if (transactionsError || invoicesError) {
+      toast({
+        title: 'Error loading data',
+        description: 'Failed to load bookkeeping data. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [transactionsError, invoicesError, toast]);
 
   // Calculate financial summary
   const totalIncome = transactions
@@ -191,93 +169,284 @@ const Bookkeeping: React.FC = () => {
 
   const netProfit = totalIncome - totalExpenses;
 
-  const pendingInvoices = invoices.filter(i => i.status === 'sent').length;
+  const pendingInvoices = invoices.filter(i => i.status === 'sent' || i.status === 'partially_paid').length;
   const overdueInvoices = invoices.filter(i => i.status === 'overdue').length;
 
-  const handleCreateInvoice = async () => {
+  const openNewInvoice = () => {
+    setEditingInvoiceId(null);
+    setInvoiceData(emptyInvoiceForm(vatRegistered));
+    setShowInvoiceModal(true);
+  };
+
+  const openEditInvoice = (invoice: Invoice) => {
+    setEditingInvoiceId(invoice.id);
+    setInvoiceData({
+      clientName: invoice.client_name,
+      clientEmail: invoice.client_email,
+      clientAddress: invoice.client_address ?? '',
+      clientVatNumber: invoice.client_vat_number ?? '',
+      dueDate: invoice.due_date,
+      chargeVat: invoice.vat_rate > 0,
+      items: invoice.items.map(({ description, quantity, rate, amount }) => ({ description, quantity, rate, amount }))
+    });
+    setShowInvoiceModal(true);
+  };
+
+  const openNewTransaction = () => {
+    setEditingTransactionId(null);
+    setTransactionData(emptyTransactionForm());
+    setShowTransactionModal(true);
+  };
+
+  const openEditTransaction = (transaction: Transaction) => {
+    setEditingTransactionId(transaction.id);
+    setTransactionData({
+      type: transaction.type,
+      category: transaction.category,
+      description: transaction.description,
+      amount: transaction.amount.toString(),
+      date: transaction.date,
+      client: transaction.client ?? '',
+      status: transaction.status,
+      includesVat: !!transaction.vat_amount,
+      receipts: (transaction.receipt_ids ?? []).map(id => receiptsById.get(id)).filter(Boolean)
+    });
+    setShowTransactionModal(true);
+  };
+
+  const handleSaveInvoice = async () => {
+    const existing = invoices.find(i => i.id === editingInvoiceId);
+    const data: InvoiceData = {
+      client_name: invoiceData.clientName,
+      client_email: invoiceData.clientEmail,
+      client_address: invoiceData.clientAddress || undefined,
+      client_vat_number: invoiceData.clientVatNumber || undefined,
+      due_date: invoiceData.dueDate,
+      status: existing?.status ?? 'draft',
+      vat_rate: invoiceData.chargeVat ? VAT_RATE : 0,
+      items: invoiceData.items.map(({ description, quantity, rate }) => ({ description, quantity, rate }))
+    };
+
     try {
-      setIsSubmitting(true);
-      
-      const totalAmount = invoiceData.items.reduce((sum, item) => sum + item.amount, 0);
-      
-      const newInvoice: Invoice = {
-        id: Date.now().toString(),
-        clientName: invoiceData.clientName,
-        clientEmail: invoiceData.clientEmail,
-        amount: totalAmount,
-        dueDate: invoiceData.dueDate,
-        status: 'draft',
-        items: invoiceData.items.map((item, index) => ({ ...item, id: `${Date.now()}-${index}` })),
-        createdAt: new Date().toISOString().split('T')[0]
-      };
+      const invoice = existing
+        ? await updateInvoice.mutateAsync({ id: existing.id, data })
+        : await createInvoice.mutateAsync(data);
 
-      setInvoices(prev => [newInvoice, ...prev]);
       setShowInvoiceModal(false);
-      setInvoiceData({
-        clientName: '',
-        clientEmail: '',
-        dueDate: '',
-        items: [{ description: '', quantity: 1, rate: 0, amount: 0 }]
-      });
-      
-      toast({
-        title: 'Invoice created',
-        description: 'Your invoice has been created successfully.',
-      });
+      setInvoiceData(emptyInvoiceForm());
+      setEditingInvoiceId(null);
+
+      toast(invoice.pending_sync
+        ? {
+          title: 'Saved offline',
+          description: "Your invoice will be saved when you're back online.",
+        }
+        : {
+          title: existing ? 'Invoice updated' : 'Invoice created',
+          description: existing ? 'Your invoice has been updated.' : 'Your invoice has been created successfully.',
+        });
     } catch (error) {
-      console.error('Error creating invoice:', error);
+      console.error('Error saving invoice:', error);
       toast({
-        title: 'Error creating invoice',
-        description: 'Failed to create invoice. Please try again.',
+        title: 'Error saving invoice',
+        description: error instanceof Error ? error.message : 'Failed to save invoice. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
-  const handleCreateTransaction = async () => {
+  const handleSaveTransaction = async () => {
+    const existing = transactions.find(t => t.id === editingTransactionId);
+    const savedReceiptIds = existing?.receipt_ids ?? [];
+    const formReceipts = transactionData.type === 'expense' ? transactionData.receipts : [];
+
     try {
-      setIsSubmitting(true);
-      
-      const newTransaction: Transaction = {
-        id: Date.now().toString(),
+      const added = formReceipts.some(r => !r.id)
+        ? await addReceipts.mutateAsync(formReceipts.filter(r => !r.id))
+        : [];
+      const receiptIds = transactionData.type === 'expense'
+        ? [
+          // Receipts kept on another device stay linked
+          ...savedReceiptIds.filter(id => !receiptsById.has(id)),
+          ...formReceipts.map(r => r.id ?? added.shift()!.id),
+        ]
+        : [];
+      const data: TransactionData = {
         type: transactionData.type,
         category: transactionData.category,
         description: transactionData.description,
         amount: parseFloat(transactionData.amount),
         date: transactionData.date,
         client: transactionData.client || undefined,
-        status: 'paid'
+        status: transactionData.status,
+        receipt_ids: receiptIds,
+        // Sent as 0 rather than left out, so turning VAT off on an edit clears it
+        vat_amount: vatRegistered && transactionData.includesVat ? getIncludedVat(parseFloat(transactionData.amount)) : 0
       };
 
-      setTransactions(prev => [newTransaction, ...prev]);
+      const transaction = editingTransactionId
+        ? await updateTransaction.mutateAsync({ id: editingTransactionId, data })
+        : await createTransaction.mutateAsync(data);
+
+      const removed = savedReceiptIds.filter(id => receiptsById.has(id) && !receiptIds.includes(id));
+      if (removed.length > 0) await deleteReceipts.mutateAsync(removed);
+
       setShowTransactionModal(false);
-      setTransactionData({
-        type: 'income',
-        category: '',
-        description: '',
-        amount: '',
-        date: new Date().toISOString().split('T')[0],
-        client: ''
-      });
+      setTransactionData(emptyTransactionForm());
+      setEditingTransactionId(null);
       
+      toast(transaction.pending_sync
+        ? {
+          title: 'Saved offline',
+          description: "Your transaction will be recorded when you're back online.",
+        }
+        : {
+          title: editingTransactionId ? 'Transaction updated' : 'Transaction recorded',
+          description: editingTransactionId
+            ? 'Your transaction has been updated.'
+            : 'Your transaction has been recorded successfully.',
+        });
+    } catch (error) {
+      console.error('Error saving transaction:', error);
+      toast({
+        title: 'Error saving transaction',
+        description: error instanceof Error ? error.message : 'Failed to save transaction. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteTransaction = async (transaction: Transaction) => {
+    try {
+      await deleteTransaction.mutateAsync(transaction.id);
+      if (transaction.receipt_ids?.length) await deleteReceipts.mutateAsync(transaction.receipt_ids);
+      toast({
+        title: 'Transaction deleted',
+        description: 'The transaction has been removed from your books.',
+      });
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      toast({
+        title: 'Error deleting transaction',
+        description: 'Failed to delete transaction. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReceiptPhoto = async (imageData: string) => {
+    try {
+      const receipt = await prepareReceiptPhoto(imageData);
+      setTransactionData(prev => ({ ...prev, receipts: [...prev.receipts, receipt] }));
+    } catch (error) {
+      console.error('Error reading receipt photo:', error);
+      toast({
+        title: 'Photo not added',
+        description: 'Failed to read the photo. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportBooks = () => {
+    try {
+      const ledgerExport = buildLedgerExport(transactions, receipts);
+      downloadLedgerExport(ledgerExport);
+      toast({
+        title: 'Books exported',
+        description: ledgerExport.missingReceipts > 0
+          ? `${ledgerExport.missingReceipts} receipt(s) are kept on another device and weren't included.`
+          : 'Your transactions and receipts were downloaded as a ZIP file.',
+      });
+    } catch (error) {
+      console.error('Error exporting books:', error);
+      toast({
+        title: 'Error exporting books',
+        description: 'Failed to export your books. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const galleryReceipts: GalleryReceipt[] = galleryTransaction === null
+    ? []
+    : (galleryTransaction === 'all' ? transactions : [galleryTransaction]).flatMap(transaction =>
+      (transaction.receipt_ids ?? [])
+        .map(id => receiptsById.get(id))
+        .filter(Boolean)
+        .map(receipt => ({ receipt, caption: `${transaction.date} · ${transaction.description}` }))
+    );
+
+  const handleDeleteInvoice = async (invoice: Invoice) => {
+    try {
+      await deleteInvoice.mutateAsync(invoice.id);
+      toast({
+        title: 'Invoice deleted',
+        description: 'The invoice has been removed.',
+      });
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      toast({
+        title: 'Error deleting invoice',
+        description: 'Failed to delete invoice. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Supplier details are needed before anything can be issued, so ask for them first
+  const checkInvoiceDocument = (invoice: Invoice): boolean => {
+    const problem = getInvoiceDocumentError(invoice, businessProfile);
+    if (!problem) return true;
+    if (!businessProfile?.business_name || !businessProfile.address) setShowProfileModal(true);
+    toast({
+      title: 'Invoice not ready',
+      description: problem,
+      variant: 'destructive',
+    });
+    return false;
+  };
+
+  const handleDownloadInvoice = (invoice: Invoice) => {
+    if (!checkInvoiceDocument(invoice)) return;
+    try {
+      downloadInvoicePdf(invoice, businessProfile);
+    } catch (error) {
+      console.error('Error creating invoice PDF:', error);
       toast({
-        title: 'Transaction recorded',
-        description: 'Your transaction has been recorded successfully.',
+        title: 'Error creating PDF',
+        description: 'Failed to create the invoice PDF. Please try again.',
+        variant: 'destructive',
       });
+    }
+  };
+
+  const handleShareInvoice = async (invoice: Invoice) => {
+    if (!checkInvoiceDocument(invoice)) return;
+    try {
+      const result = await shareInvoicePdf(invoice, businessProfile);
+      if (result === 'downloaded') {
+        toast({
+          title: 'Invoice downloaded',
+          description: "Sharing isn't available on this device, so the PDF was downloaded instead.",
+        });
+      }
     } catch (error) {
-      console.error('Error creating transaction:', error);
+      // Closing the share sheet isn't an error
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error sharing invoice:', error);
       toast({
-        title: 'Error recording transaction',
-        description: 'Failed to record transaction. Please try again.',
+        title: 'Error sharing invoice',
+        description: 'Failed to share the invoice. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
+  const handleSendInvoice = (invoice: Invoice) => {
+    if (checkInvoiceDocument(invoice)) setSendingInvoice(invoice);
+  };
+
   const updateInvoiceItem = (index: number, field: string, value: any) => {
     const updatedItems = [...invoiceData.items];
     updatedItems[index] = { ...updatedItems[index], [field]: value };
@@ -305,12 +474,21 @@ const Bookkeeping: React.FC = () => {
     }
   };
 
+  const invoiceFormTotals = getInvoiceTotals(
+    invoiceData.items.map(item => ({ amount: item.quantity * item.rate })),
+    invoiceData.chargeVat ? VAT_RATE : 0
+  );
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid':
         return 'bg-green-100 text-green-700 border-green-200';
       case 'sent':
         return 'bg-blue-100 text-blue-700 border-blue-200';
+      case 'partially_paid':
+        return 'bg-indigo-100 text-indigo-700 border-indigo-200';
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'overdue':
         return 'bg-red-100 text-red-700 border-red-200';
       case 'draft':
@@ -352,10 +530,11 @@ const Bookkeeping: React.FC = () => {
 
       <div className="container mx-auto px-4 py-6 max-w-md space-y-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="transactions">Transactions</TabsTrigger>
             <TabsTrigger value="invoices">Invoices</TabsTrigger>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -383,6 +562,8 @@ const Bookkeeping: React.FC = () => {
               </Card>
             </div>
 
+            <AgedReceivablesCard invoices={invoices} />
+
             {/* Recent Transactions */}
             <Card className="border-0 bg-card/50">
               <CardHeader>
@@ -390,6 +571,16 @@ const Bookkeeping: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
+                  {isLoading && (
+                    <div className="flex justify-center py-4">
+                      <Loader2 size={20} className="animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                  {!isLoading && transactions.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No transactions yet. Add your first one to start tracking your books.
+                    </p>
+                  )}
                   {transactions.slice(0, 3).map((transaction) => (
                     <div key={transaction.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
                       <div className="flex items-center gap-3">
@@ -422,14 +613,14 @@ const Bookkeeping: React.FC = () => {
             {/* Quick Actions */}
             <div className="grid grid-cols-2 gap-3">
               <Button
-                onClick={() => setShowTransactionModal(true)}
+                onClick={openNewTransaction}
                 className="bg-gradient-primary"
               >
                 <Plus size={16} className="mr-2" />
                 Add Transaction
               </Button>
               <Button
-                onClick={() => setShowInvoiceModal(true)}
+                onClick={openNewInvoice}
                 variant="outline"
               >
                 <FileText size={16} className="mr-2" />
@@ -442,17 +633,32 @@ const Bookkeeping: React.FC = () => {
           <TabsContent value="transactions" className="space-y-4">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold">All Transactions</h2>
-              <Button
-                onClick={() => setShowTransactionModal(true)}
-                size="sm"
-                className="bg-gradient-primary"
-              >
-                <Plus size={16} className="mr-2" />
-                Add
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={() => setGalleryTransaction('all')} size="sm" variant="outline" aria-label="Receipts">
+                  <Paperclip size={16} />
+                </Button>
+                <Button onClick={() => setShowBankImport(true)} size="sm" variant="outline" aria-label="Import bank statement">
+                  <Landmark size={16} />
+                </Button>
+                <Button onClick={handleExportBooks} size="sm" variant="outline" disabled={transactions.length === 0}>
+                  <Download size={16} className="mr-2" />
+                  Export
+                </Button>
+                <Button
+                  onClick={openNewTransaction}
+                  size="sm"
+                  className="bg-gradient-primary"
+                >
+                  <Plus size={16} className="mr-2" />
+                  Add
+                </Button>
+              </div>
             </div>
 
             <div className="space-y-3">
+              {!isLoading && transactions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No transactions yet.</p>
+              )}
               {transactions.map((transaction) => (
                 <Card key={transaction.id} className="border-0 bg-card/50">
                   <CardContent className="p-4">
@@ -473,6 +679,7 @@ const Bookkeeping: React.FC = () => {
                           {transaction.client && (
                             <p className="text-xs text-muted-foreground">Client: {transaction.client}</p>
                           )}
+                          {transaction.request_id && <RequestLink requestId={transaction.request_id} />}
                         </div>
                       </div>
                       <div className="text-right">
@@ -482,6 +689,42 @@ const Bookkeeping: React.FC = () => {
                         <p className="text-xs text-muted-foreground">{transaction.date}</p>
                       </div>
                     </div>
+                    <div className="flex items-center justify-between mt-3">
+                      <div className="flex gap-1">
+                        <Badge className={`text-xs ${getStatusColor(transaction.status)}`}>
+                          {transaction.status}
+                        </Badge>
+                        {transaction.pending_sync && (
+                          <Badge variant="outline" className="text-xs">Waiting to sync</Badge>
+                        )}
+                        {!!transaction.receipt_ids?.length && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs cursor-pointer"
+                            onClick={() => setGalleryTransaction(transaction)}
+                          >
+                            <Paperclip size={10} className="mr-1" />
+                            {transaction.receipt_ids.length}
+                          </Badge>
+                        )}
+                      </div>
+                      {!transaction.pending_sync && (
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => openEditTransaction(transaction)}>
+                            <Edit size={14} />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-500 hover:text-red-700"
+                            onClick={() => handleDeleteTransaction(transaction)}
+                            disabled={deleteTransaction.isPending}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
                   </CardContent>
                 </Card>
               ))}
@@ -492,59 +735,135 @@ const Bookkeeping: React.FC = () => {
           <TabsContent value="invoices" className="space-y-4">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold">Invoices</h2>
-              <Button
-                onClick={() => setShowInvoiceModal(true)}
-                size="sm"
-                className="bg-gradient-primary"
-              >
-                <Plus size={16} className="mr-2" />
-                Create
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={() => setShowProfileModal(true)} size="sm" variant="outline">
+                  <Building2 size={16} className="mr-2" />
+                  Business
+                </Button>
+                <Button
+                  onClick={openNewInvoice}
+                  size="sm"
+                  className="bg-gradient-primary"
+                >
+                  <Plus size={16} className="mr-2" />
+                  Create
+                </Button>
+              </div>
             </div>
 
+            {!businessProfile?.business_name && (
+              <p className="text-sm text-muted-foreground">
+                Add your business details to download and share invoices.
+              </p>
+            )}
+
             <div className="space-y-3">
+              {!isLoading && invoices.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No invoices yet.</p>
+              )}
               {invoices.map((invoice) => (
                 <Card key={invoice.id} className="border-0 bg-card/50">
                   <CardContent className="p-4">
                     <div className="flex items-center justify-between mb-3">
                       <div>
-                        <h3 className="font-medium text-foreground">{invoice.clientName}</h3>
-                        <p className="text-sm text-muted-foreground">{invoice.clientEmail}</p>
+                        <p className="text-xs text-muted-foreground">{invoice.number || 'Number assigned on sync'}</p>
+                        <h3 className="font-medium text-foreground">{invoice.client_name}</h3>
+                        <p className="text-sm text-muted-foreground">{invoice.client_email || 'No email yet'}</p>
+                        {invoice.request_id && <RequestLink requestId={invoice.request_id} />}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge className={`text-xs ${getStatusColor(invoice.status)}`}>
+                          {INVOICE_STATUS_LABELS[invoice.status]}
+                        </Badge>
+                        {invoice.pending_sync && (
+                          <Badge variant="outline" className="text-xs">Waiting to sync</Badge>
+                        )}
                       </div>
-                      <Badge className={`text-xs ${getStatusColor(invoice.status)}`}>
-                        {invoice.status}
-                      </Badge>
                     </div>
                     
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-lg font-bold text-foreground">R{invoice.amount}</p>
-                        <p className="text-xs text-muted-foreground">Due: {invoice.dueDate}</p>
+                        <p className="text-lg font-bold text-foreground">{formatRand(invoice.amount)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Due: {invoice.due_date}
+                          {invoice.vat_rate > 0 && ` · incl. ${formatRand(invoice.vat_amount)} VAT`}
+                        </p>
+                        {getAmountPaid(invoice) > 0 && invoice.status !== 'paid' && (
+                          <p className="text-xs text-muted-foreground">
+                            Paid {formatRand(getAmountPaid(invoice))} · {formatRand(getInvoiceBalance(invoice))} owing
+                          </p>
+                        )}
+                        {invoice.sent_at && (
+                          <p className="text-xs text-muted-foreground">
+                            Sent to {invoice.sent_to} on {new Date(invoice.sent_at).toLocaleDateString('en-ZA')}
+                          </p>
+                        )}
                       </div>
-                      <div className="flex gap-2">
-                        <Button size="sm" variant="outline">
-                          <Download size={14} className="mr-1" />
-                          PDF
-                        </Button>
-                        <Button size="sm" variant="outline">
-                          <Send size={14} className="mr-1" />
-                          Send
-                        </Button>
+                      <div className="flex gap-1">
+                        {!invoice.pending_sync && (
+                          <>
+                            <Button size="sm" variant="ghost" onClick={() => openEditInvoice(invoice)}>
+                              <Edit size={14} />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-500 hover:text-red-700"
+                              onClick={() => handleDeleteInvoice(invoice)}
+                              disabled={deleteInvoice.isPending}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
+
+                    <div className="flex flex-wrap justify-end gap-2 mt-3">
+                      <Button size="sm" variant="outline" onClick={() => handleDownloadInvoice(invoice)}>
+                        <Download size={14} className="mr-1" />
+                        PDF
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleShareInvoice(invoice)}>
+                        <Share2 size={14} className="mr-1" />
+                        Share
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleSendInvoice(invoice)}>
+                        <Mail size={14} className="mr-1" />
+                        {invoice.sent_at ? 'Resend' : 'Send'}
+                      </Button>
+                      {!invoice.pending_sync && invoice.status !== 'paid' && (
+                        <Button size="sm" variant="outline" onClick={() => setPayingInvoice(invoice)}>
+                          <Wallet size={14} className="mr-1" />
+                          Payment
+                        </Button>
+                      )}
+                    </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
           </TabsContent>
+
+          {/* Reports Tab */}
+          <TabsContent value="reports" className="space-y-4">
+            <FinancialReports transactions={transactions} invoices={invoices} profile={businessProfile} />
+            {vatRegistered ? (
+              <Vat201Card invoices={invoices} transactions={transactions} profile={businessProfile} />
+            ) : (
+              <TurnoverTrackerCard transactions={transactions} profile={businessProfile} />
+            )}
+            <ProvisionalTaxCard transactions={transactions} />
+          </TabsContent>
         </Tabs>
       </div>
 
       {/* Create Transaction Modal */}
-      <Dialog open={showTransactionModal} onOpenChange={setShowTransactionModal}>
+      {/* Hidden while the camera is open, which needs the whole screen */}
+      <Dialog open={showTransactionModal && !takingReceiptPhoto} onOpenChange={setShowTransactionModal}>
         <DialogContent className="max-w-md mx-auto">
           <DialogHeader>
-            <DialogTitle>Add Transaction</DialogTitle>
+            <DialogTitle>{editingTransactionId ? 'Edit Transaction' : 'Add Transaction'}</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-4">
@@ -617,6 +936,50 @@ const Bookkeeping: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={transactionData.status}
+                onValueChange={(value) => setTransactionData(prev => ({ ...prev, status: value as TransactionStatus }))}
+              >
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {vatRegistered && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="transactionVat">
+                  Includes VAT (15%)
+                  {transactionData.includesVat && parseFloat(transactionData.amount) > 0 && (
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {formatRand(getIncludedVat(parseFloat(transactionData.amount)))} VAT
+                      {transactionData.type === 'expense' ? ' to claim back' : ' to pay over'}
+                    </span>
+                  )}
+                </Label>
+                <Switch
+                  id="transactionVat"
+                  checked={transactionData.includesVat}
+                  onCheckedChange={(checked) => setTransactionData(prev => ({ ...prev, includesVat: checked }))}
+                />
+              </div>
+            )}
+
+            {transactionData.type === 'expense' && (
+              <ReceiptAttachments
+                receipts={transactionData.receipts}
+                onChange={(receipts) => setTransactionData(prev => ({ ...prev, receipts }))}
+                onTakePhoto={() => setTakingReceiptPhoto(true)}
+              />
+            )}
+
             <div className="flex gap-2 pt-4">
               <Button
                 variant="outline"
@@ -627,17 +990,17 @@ const Bookkeeping: React.FC = () => {
                 Cancel
               </Button>
               <Button
-                onClick={handleCreateTransaction}
+                onClick={handleSaveTransaction}
                 disabled={isSubmitting || !transactionData.description || !transactionData.amount}
                 className="flex-1 bg-gradient-primary"
               >
                 {isSubmitting ? (
                   <>
                     <Loader2 size={16} className="mr-2 animate-spin" />
-                    Adding...
+                    Saving...
                   </>
                 ) : (
-                  'Add Transaction'
+                  editingTransactionId ? 'Save Changes' : 'Add Transaction'
                 )}
               </Button>
             </div>
@@ -649,7 +1012,7 @@ const Bookkeeping: React.FC = () => {
       <Dialog open={showInvoiceModal} onOpenChange={setShowInvoiceModal}>
         <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Create Invoice</DialogTitle>
+            <DialogTitle>{editingInvoiceId ? 'Edit Invoice' : 'Create Invoice'}</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-4">
@@ -675,6 +1038,29 @@ const Bookkeeping: React.FC = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="clientAddress">Client Address</Label>
+              <Textarea
+                id="clientAddress"
+                value={invoiceData.clientAddress}
+                onChange={(e) => setInvoiceData(prev => ({ ...prev, clientAddress: e.target.value }))}
+                placeholder="Needed on tax invoices over R5 000"
+                rows={2}
+              />
+            </div>
+
+            {vatRegistered && (
+              <div className="space-y-2">
+                <Label htmlFor="clientVatNumber">Client VAT Number</Label>
+                <Input
+                  id="clientVatNumber"
+                  value={invoiceData.clientVatNumber}
+                  onChange={(e) => setInvoiceData(prev => ({ ...prev, clientVatNumber: e.target.value }))}
+                  placeholder="If the client is a VAT vendor"
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="dueDate">Due Date</Label>
               <Input
@@ -743,13 +1129,39 @@ const Bookkeeping: React.FC = () => {
               </Button>
             </div>
 
-            <div className="border-t pt-4">
+            {vatRegistered && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="invoiceVat">Add VAT (15%)</Label>
+                <Switch
+                  id="invoiceVat"
+                  checked={invoiceData.chargeVat}
+                  onCheckedChange={(checked) => setInvoiceData(prev => ({ ...prev, chargeVat: checked }))}
+                />
+              </div>
+            )}
+
+            <div className="border-t pt-4 space-y-1">
+              {invoiceData.chargeVat && (
+                <>
+                  <div className="flex justify-between items-center text-sm text-muted-foreground">
+                    <span>Total excl. VAT</span>
+                    <span>{formatRand(invoiceFormTotals.subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between items-center text-sm text-muted-foreground">
+                    <span>VAT (15%)</span>
+                    <span>{formatRand(invoiceFormTotals.vat_amount)}</span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between items-center">
                 <span className="font-medium">Total Amount:</span>
-                <span className="text-lg font-bold">
-                  R{invoiceData.items.reduce((sum, item) => sum + item.amount, 0).toLocaleString()}
-                </span>
+                <span className="text-lg font-bold">{formatRand(invoiceFormTotals.amount)}</span>
               </div>
+              {vatRegistered && invoiceFormTotals.amount > FULL_TAX_INVOICE_THRESHOLD && !invoiceData.clientAddress.trim() && (
+                <p className="text-xs text-amber-600">
+                  SARS needs the client's address on tax invoices over R5 000.
+                </p>
+              )}
             </div>
 
             <div className="flex gap-2 pt-4">
@@ -762,17 +1174,17 @@ const Bookkeeping: React.FC = () => {
                 Cancel
               </Button>
               <Button
-                onClick={handleCreateInvoice}
-                disabled={isSubmitting || !invoiceData.clientName || !invoiceData.clientEmail}
+                onClick={handleSaveInvoice}
+                disabled={isSubmitting || !invoiceData.clientName}
                 className="flex-1 bg-gradient-primary"
               >
                 {isSubmitting ? (
                   <>
                     <Loader2 size={16} className="mr-2 animate-spin" />
-                    Creating...
+                    Saving...
                   </>
                 ) : (
-                  'Create Invoice'
+                  editingInvoiceId ? 'Save Changes' : 'Create Invoice'
                 )}
               </Button>
             </div>
@@ -780,6 +1192,47 @@ const Bookkeeping: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <BusinessProfileDialog
+        open={showProfileModal}
+        onOpenChange={setShowProfileModal}
+        profile={businessProfile}
+      />
+
+      {businessProfile && (
+        <SendInvoiceDialog
+          invoice={sendingInvoice}
+          profile={businessProfile}
+          onOpenChange={(open) => !open && setSendingInvoice(null)}
+        />
+      )}
+
+      <CameraCapture
+        open={takingReceiptPhoto}
+        title="Photograph Receipt"
+        facingMode="environment"
+        onCapture={handleReceiptPhoto}
+        onClose={() => setTakingReceiptPhoto(false)}
+      />
+
+      <ReceiptGallery
+        open={galleryTransaction !== null}
+        onOpenChange={(open) => !open && setGalleryTransaction(null)}
+        title={galleryTransaction === 'all' || galleryTransaction === null ? 'Receipts' : galleryTransaction.description}
+        receipts={galleryReceipts}
+      />
+
+      <BankImportDialog
+        open={showBankImport}
+        onOpenChange={setShowBankImport}
+        transactions={transactions}
+        invoices={invoices}
+      />
+
+      <RecordPaymentDialog
+        invoice={payingInvoice}
+        onOpenChange={(open) => !open && setPayingInvoice(null)}
+      />
+
       <BottomNavigation />
     </div>
   );
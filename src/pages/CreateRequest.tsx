@@ -22,9 +22,14 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import ServiceCard from '@/components/services/ServiceCard';
-import { Service, ServiceCategory } from '@/types/service';
-import { apiClient } from '@/lib/api';
+import { Service, TimeSlot } from '@/types/service';
 import { useToast } from '@/hooks/use-toast';
+import { useCategories, useInfiniteServices } from '@/hooks/useServiceQueries';
+import { useCreateRequest } from '@/hooks/useRequestQueries';
+import { ServiceListFilters } from '@/lib/queryKeys';
+import { formatSlot, toSastDateKey } from '@/lib/availability';
+import { isQueuedMutation } from '@/lib/outbox';
+import SlotPicker from '@/components/availability/SlotPicker';
 
 const CreateRequest: React.FC = () => {
   const navigate = useNavigate();
@@ -35,14 +40,13 @@ const CreateRequest: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [selectedService, setSelectedService] = useState<Service | null>(null);
-  const [services, setServices] = useState<Service[]>([]);
-  const [categories, setCategories] = useState<ServiceCategory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [appliedFilters, setAppliedFilters] = useState<ServiceListFilters>({});
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const { data: categories = [] } = useCategories();
+  const createRequest = useCreateRequest();
   
   const [requestData, setRequestData] = useState({
     message: '',
-    requestedDate: '',
     estimatedDuration: '',
     budget: '',
     location: user?.location || '',
@@ -50,42 +54,32 @@ const CreateRequest: React.FC = () => {
     specialRequirements: ''
   });
 
-  // Load services and categories
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        const [servicesResponse, categoriesResponse] = await Promise.all([
-          apiClient.getServices({ page: 1, limit: 20 }),
-          apiClient.getCategories()
-        ]);
+  const {
+    data,
+    isLoading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage
+  } = useInfiniteServices(appliedFilters);
 
-        if (servicesResponse.success && servicesResponse.data) {
-          setServices(servicesResponse.data.data);
-        }
+  const services = data?.pages.flatMap(page => page.data) ?? [];
 
-        if (categoriesResponse.success && categoriesResponse.data) {
-          setCategories(categoriesResponse.data);
-        }
-      } catch (error) {
-        console.error('Error loading data:', error);
-        toast({
-          title: 'Error loading data',
-          description: 'Failed to load services. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: 'Error loading data',
+        description: 'Failed to load services. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]);
 
-    loadData();
-  }, [toast]);
 
   // Handle service selection
   const handleServiceSelect = (service: Service) => {
     setSelectedService(service);
+    setSelectedSlot(null);
     setRequestData(prev => ({
       ...prev,
       budget: service.price.toString(),
@@ -94,29 +88,11 @@ const CreateRequest: React.FC = () => {
   };
 
   // Handle search
-  const handleSearch = async () => {
-    try {
-      setIsLoading(true);
-      const response = await apiClient.getServices({
-        search: searchTerm,
-        category: selectedCategory,
-        page: 1,
-        limit: 20
-      });
-
-      if (response.success && response.data) {
-        setServices(response.data.data);
-      }
-    } catch (error) {
-      console.error('Error searching services:', error);
-      toast({
-        title: 'Search failed',
-        description: 'Failed to search services. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const handleSearch = () => {
+    setAppliedFilters({
+      search: searchTerm || undefined,
+      category: selectedCategory || undefined
+    });
   };
 
   // Handle request submission
@@ -131,24 +107,28 @@ const CreateRequest: React.FC = () => {
     }
 
     try {
-      setIsSubmitting(true);
-      
       const requestPayload = {
         service_id: selectedService.id,
         message: requestData.message,
-        requested_date: requestData.requestedDate,
-        estimated_duration: parseInt(requestData.estimatedDuration) || 1
+        location: requestData.location || undefined,
+        requested_date: selectedSlot ? toSastDateKey(new Date(selectedSlot.start)) : '',
+        // The slot sets the duration on the server
+        slot_start: selectedSlot?.start,
+        estimated_duration: selectedSlot ? undefined : parseInt(requestData.estimatedDuration) || 1
       };
 
-      const response = await apiClient.createRequest(requestPayload);
-      
-      if (response.success) {
-        toast({
+      const result = await createRequest.mutateAsync(requestPayload);
+
+      toast(isQueuedMutation(result)
+        ? {
+          title: 'Saved offline',
+          description: "Your service request will be sent when you're back online.",
+        }
+        : {
           title: 'Request sent',
           description: 'Your service request has been sent successfully.',
         });
-        navigate('/requests');
-      }
+      navigate('/requests');
     } catch (error) {
       console.error('Error creating request:', error);
       toast({
@@ -156,8 +136,6 @@ const CreateRequest: React.FC = () => {
         description: 'Failed to send service request. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -324,6 +302,23 @@ const CreateRequest: React.FC = () => {
                       </div>
                     </div>
                   ))}
+                  {hasNextPage && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? (
+                        <>
+                          <Loader2 size={16} className="mr-2 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        'Load more services'
+                      )}
+                    </Button>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
@@ -354,16 +349,21 @@ const CreateRequest: React.FC = () => {
                 />
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="requestedDate">Preferred Date</Label>
-                  <Input
-                    id="requestedDate"
-                    type="date"
-                    value={requestData.requestedDate}
-                    onChange={(e) => setRequestData(prev => ({ ...prev, requestedDate: e.target.value }))}
-                  />
-                </div>
+              <div className="space-y-2">
+                <Label>Preferred Time</Label>
+                <SlotPicker
+                  key={selectedService.id}
+                  providerId={selectedService.provider.id}
+                  serviceId={selectedService.id}
+                  value={selectedSlot}
+                  onChange={setSelectedSlot}
+                />
+                {selectedSlot && (
+                  <p className="text-sm font-medium text-center">{formatSlot(selectedSlot)}</p>
+                )}
+              </div>
+
+              {!selectedSlot && (
                 <div className="space-y-2">
                   <Label htmlFor="estimatedDuration">Duration (hours)</Label>
                   <Input
@@ -375,7 +375,7 @@ const CreateRequest: React.FC = () => {
                     min="1"
                   />
                 </div>
-              </div>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="budget">Budget (R)</Label>
@@ -435,11 +435,11 @@ const CreateRequest: React.FC = () => {
         {selectedService && (
           <Button
             onClick={handleSubmitRequest}
-            disabled={isSubmitting || !requestData.message}
+            disabled={createRequest.isPending || !requestData.message}
             className="w-full bg-gradient-primary"
             size="lg"
           >
-            {isSubmitting ? (
+            {createRequest.isPending ? (
               <>
                 <Loader2 size={16} className="mr-2 animate-spin" />
                 Sending Request...
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,8 +8,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import ServiceCategories from '@/components/services/ServiceCategories';
 import ServiceCard from '@/components/services/ServiceCard';
-import { Service, ServiceCategory } from '@/types/service';
-import { apiClient } from '@/lib/api';
+import { Service } from '@/types/service';
+import { useCategories, useServices } from '@/hooks/useServiceQueries';
 import ProviderDashboard from './ProviderDashboard';
 import heroImage from '@/assets/hero-sa-services.jpg';
 
@@ -35,48 +35,15 @@ const convertServiceToLegacy = (service: Service): any => ({
   createdAt: service.created_at
 });
 
-const Dashboard: React.FC = () => {
+// Customer dashboard
+const CustomerDashboard: React.FC = () => {
   const { user } = useAuth();
-  
-  // If user is a provider, show provider dashboard
-  if (user?.role === 'provider') {
-    return <ProviderDashboard />;
-  }
-
-  // Customer dashboard
   const navigate = useNavigate();
-  const [featuredServices, setFeaturedServices] = useState<Service[]>([]);
-  const [categories, setCategories] = useState<ServiceCategory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Load featured services and categories on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Load featured services (top rated) and categories in parallel
-        const [servicesResponse, categoriesResponse] = await Promise.all([
-          apiClient.getServices({ page: 1, limit: 6 }),
-          apiClient.getCategories()
-        ]);
-
-        if (servicesResponse.success && servicesResponse.data) {
-          setFeaturedServices(servicesResponse.data.data || []);
-        }
-
-        if (categoriesResponse.success && categoriesResponse.data) {
-          setCategories(categoriesResponse.data);
-        }
-      } catch (error) {
-        console.error('Error loading dashboard data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
+  // Featured services (top rated) and categories load in parallel
+  const { data: servicesPage, isLoading: isLoadingServices } = useServices({ page: 1, limit: 6 });
+  const { data: categories = [], isLoading: isLoadingCategories } = useCategories();
+  const featuredServices = servicesPage?.data ?? [];
+  const isLoading = isLoadingServices || isLoadingCategories;
 
   const stats = [
     { title: 'Active Services', value: '2,450', icon: TrendingUp, change: '+12%' },
@@ -221,4 +188,15 @@ const Dashboard: React.FC = () => {
   );
 };
 
+const Dashboard: React.FC = () => {
+  const { user } = useAuth();
+  
+  // If user is a provider, show provider dashboard
+  if (user?.role === 'provider') {
+    return <ProviderDashboard />;
+  }
+
+  return <CustomerDashboard />;
+};
+
 export default Dashboard;
\ No newline at end of file
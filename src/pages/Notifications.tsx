@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -11,109 +12,61 @@ import {
   Star,
   Info,
   Trash2,
-  MailOpen
+  MailOpen,
+  Loader2
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import { useToast } from '@/hooks/use-toast';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import {
+  useDeleteNotification,
+  useInfiniteNotifications,
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useUnreadNotificationCount
+} from '@/hooks/useNotificationQueries';
+import { NotificationQueryParams } from '@/lib/api';
+import { REQUEST_NOTIFICATION_TYPES, getNotificationLink } from '@/lib/notifications';
+import { Notification } from '@/types/service';
 
-interface Notification {
-  id: string;
-  type: 'request' | 'acceptance' | 'decline' | 'completion' | 'feedback' | 'system';
-  title: string;
-  message: string;
-  isRead: boolean;
-  createdAt: string;
-  data?: any;
-}
+const TAB_FILTERS: Record<string, Omit<NotificationQueryParams, 'page'>> = {
+  all: {},
+  unread: { unread: true },
+  request: { type: REQUEST_NOTIFICATION_TYPES },
+  system: { type: ['system'] },
+};
 
 const Notifications: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('all');
+  const {
+    data,
+    isLoading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage
+  } = useInfiniteNotifications(TAB_FILTERS[activeTab], { enabled: !!user });
+  const { data: unreadCount = 0 } = useUnreadNotificationCount({ enabled: !!user });
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const deleteNotification = useDeleteNotification();
+  const sentinelRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
 
-  // Mock notifications data - in real app, this would come from API
-  useEffect(() => {
-    const loadNotifications = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        const mockNotifications: Notification[] = [
-          {
-            id: '1',
-            type: 'request',
-            title: 'New Service Request',
-            message: 'John Doe requested your plumbing services for bathroom repair.',
-            isRead: false,
-            createdAt: '2024-01-15T10:30:00Z',
-            data: { requestId: 'req_123', customerName: 'John Doe' }
-          },
-          {
-            id: '2',
-            type: 'acceptance',
-            title: 'Request Accepted',
-            message: 'Your request for electrical services has been accepted by Mike Johnson.',
-            isRead: false,
-            createdAt: '2024-01-15T09:15:00Z',
-            data: { requestId: 'req_124', providerName: 'Mike Johnson' }
-          },
-          {
-            id: '3',
-            type: 'completion',
-            title: 'Service Completed',
-            message: 'Your cleaning service has been completed. Please rate your experience.',
-            isRead: true,
-            createdAt: '2024-01-14T16:45:00Z',
-            data: { requestId: 'req_125', serviceName: 'House Cleaning' }
-          },
-          {
-            id: '4',
-            type: 'feedback',
-            title: 'New Review',
-            message: 'You received a 5-star review from Sarah Wilson for your gardening services.',
-            isRead: true,
-            createdAt: '2024-01-14T14:20:00Z',
-            data: { rating: 5, customerName: 'Sarah Wilson' }
-          },
-          {
-            id: '5',
-            type: 'system',
-            title: 'Account Verification',
-            message: 'Your account verification is complete. You can now offer services.',
-            isRead: true,
-            createdAt: '2024-01-13T11:00:00Z'
-          },
-          {
-            id: '6',
-            type: 'decline',
-            title: 'Request Declined',
-            message: 'Your request for painting services was declined by the provider.',
-            isRead: false,
-            createdAt: '2024-01-13T08:30:00Z',
-            data: { requestId: 'req_126', reason: 'Not available' }
-          }
-        ];
-        
-        setNotifications(mockNotifications);
-      } catch (error) {
-        console.error('Error loading notifications:', error);
-        toast({
-          title: 'Error loading notifications',
-          description: 'Failed to load notifications. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const notifications = data?.pages.flatMap(page => page.data) ?? [];
 
-    loadNotifications();
-  }, [toast]);
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: 'Error loading notifications',
+        description: 'Failed to load notifications. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]);
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -127,6 +80,8 @@ const Notifications: React.FC = () => {
         return <Star size={16} className="text-yellow-500" />;
       case 'feedback':
         return <Star size={16} className="text-purple-500" />;
+      case 'message':
+        return <MessageSquare size={16} className="text-teal-500" />;
       case 'system':
         return <Info size={16} className="text-gray-500" />;
       default:
@@ -146,6 +101,8 @@ const Notifications: React.FC = () => {
         return 'border-l-yellow-500';
       case 'feedback':
         return 'border-l-purple-500';
+      case 'message':
+        return 'border-l-teal-500';
       case 'system':
         return 'border-l-gray-500';
       default:
@@ -168,39 +125,60 @@ const Notifications: React.FC = () => {
     }
   };
 
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev =>
-      prev.map(notif =>
-        notif.id === notificationId ? { ...notif, isRead: true } : notif
-      )
-    );
+  const markAsRead = async (notificationId: string) => {
+    try {
+      await markRead.mutateAsync(notificationId);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      toast({
+        title: 'Error updating notification',
+        description: 'Failed to mark the notification as read. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notif => ({ ...notif, isRead: true }))
-    );
-    toast({
-      title: 'All notifications marked as read',
-      description: 'All notifications have been marked as read.',
-    });
+  const markAllAsRead = async () => {
+    try {
+      await markAllRead.mutateAsync();
+      toast({
+        title: 'All notifications marked as read',
+        description: 'All notifications have been marked as read.',
+      });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast({
+        title: 'Error updating notifications',
+        description: 'Failed to mark notifications as read. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
-  const deleteNotification = (notificationId: string) => {
-    setNotifications(prev => prev.filter(notif => notif.id !== notificationId));
-    toast({
-      title: 'Notification deleted',
-      description: 'Notification has been deleted.',
-    });
+  const handleDelete = async (notificationId: string) => {
+    try {
+      await deleteNotification.mutateAsync(notificationId);
+      toast({
+        title: 'Notification deleted',
+        description: 'Notification has been deleted.',
+      });
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+      toast({
+        title: 'Error deleting notification',
+        description: 'Failed to delete the notification. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
-  const filteredNotifications = notifications.filter(notification => {
-    if (activeTab === 'all') return true;
-    if (activeTab === 'unread') return !notification.isRead;
-    return notification.type === activeTab;
-  });
-
-  const unreadCount = notifications.filter(n => !n.isRead).length;
+  // Open what the notification is about, marking it read on the way
+  const handleOpen = (notification: Notification) => {
+    const link = getNotificationLink(notification);
+    if (!link) return;
+    if (!notification.is_read) markRead.mutate(notification.id);
+    navigate(link);
+  };
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -219,6 +197,7 @@ const Notifications: React.FC = () => {
           {unreadCount > 0 && (
             <Button
               onClick={markAllAsRead}
+              disabled={markAllRead.isPending}
               variant="outline"
               size="sm"
               className="bg-white/20 text-white border-white/30 hover:bg-white/30"
@@ -258,13 +237,14 @@ const Notifications: React.FC = () => {
                   </Card>
                 ))}
               </div>
-            ) : filteredNotifications.length > 0 ? (
-              filteredNotifications.map((notification) => (
+            ) : notifications.length > 0 ? (
+              notifications.map((notification) => (
                 <Card
                   key={notification.id}
                   className={`border-0 bg-card/50 border-l-4 ${getNotificationColor(notification.type)} ${
-                    !notification.isRead ? 'bg-blue-50/50' : ''
-                  }`}
+                    !notification.is_read ? 'bg-blue-50/50' : ''
+                  } ${getNotificationLink(notification) ? 'cursor-pointer' : ''}`}
+                  onClick={() => handleOpen(notification)}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start gap-3">
@@ -283,21 +263,22 @@ const Notifications: React.FC = () => {
                             </p>
                             <div className="flex items-center gap-2">
                               <span className="text-xs text-muted-foreground">
-                                {formatTimeAgo(notification.createdAt)}
+                                {formatTimeAgo(notification.created_at)}
                               </span>
-                              {!notification.isRead && (
+                              {!notification.is_read && (
                                 <div className="w-2 h-2 bg-blue-500 rounded-full" />
                               )}
                             </div>
                           </div>
                           
-                          <div className="flex gap-1 ml-2">
-                            {!notification.isRead && (
+                          <div className="flex gap-1 ml-2" onClick={(e) => e.stopPropagation()}>
+                            {!notification.is_read && (
                               <Button
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => markAsRead(notification.id)}
                                 className="h-8 w-8 p-0"
+                                aria-label="Mark as read"
                               >
                                 <CheckCircle size={14} />
                               </Button>
@@ -305,8 +286,9 @@ const Notifications: React.FC = () => {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => deleteNotification(notification.id)}
+                              onClick={() => handleDelete(notification.id)}
                               className="h-8 w-8 p-0 text-muted-foreground hover:text-red-500"
+                              aria-label="Delete notification"
                             >
                               <Trash2 size={14} />
                             </Button>
@@ -332,6 +314,13 @@ const Notifications: React.FC = () => {
                 </CardContent>
               </Card>
             )}
+
+            {/* Infinite scroll sentinel */}
+            {hasNextPage && (
+              <div ref={sentinelRef} className="flex justify-center py-4 text-muted-foreground">
+                {isFetchingNextPage && <Loader2 size={24} className="animate-spin" />}
+              </div>
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -19,11 +19,16 @@ import {
   Users,
   Target,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  List,
+  Map as MapIcon
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import { useToast } from '@/hooks/use-toast';
+import { useUserLocation } from '@/hooks/useUserLocation';
+import { distanceTo, formatDistance, pointOf } from '@/lib/geo';
+import ClusterMap, { MapMarker } from '@/components/map/ClusterMap';
 
 interface PrimeFeature {
   id: string;
@@ -39,7 +44,7 @@ interface LocationJob {
   title: string;
   description: string;
   location: string;
-  distance: number; // in km
+  distance?: number; // in km from the user, when their location is known
   price: number;
   urgency: 'low' | 'medium' | 'high';
   postedAt: string;
@@ -64,7 +69,10 @@ const Prime: React.FC = () => {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('overview');
   const [isLoading, setIsLoading] = useState(false);
-  const [locationJobs, setLocationJobs] = useState<LocationJob[]>([]);
+  const [jobs, setJobs] = useState<LocationJob[]>([]);
+  const { origin } = useUserLocation();
+  const [jobsView, setJobsView] = useState<'list' | 'map'>('list');
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
   const [autoApplications, setAutoApplications] = useState<AutoApplication[]>([]);
 
   const [primeFeatures, setPrimeFeatures] = useState<PrimeFeature[]>([
@@ -137,7 +145,6 @@ const Prime: React.FC = () => {
             title: 'Kitchen Sink Repair',
             description: 'Leaky kitchen sink needs immediate repair',
             location: 'Sea Point, Cape Town',
-            distance: 2.3,
             price: 350,
             urgency: 'high',
             postedAt: '2024-01-15T10:30:00Z',
@@ -149,7 +156,6 @@ const Prime: React.FC = () => {
             title: 'Bathroom Renovation',
             description: 'Complete bathroom renovation project',
             location: 'Green Point, Cape Town',
-            distance: 3.1,
             price: 8500,
             urgency: 'medium',
             postedAt: '2024-01-15T09:15:00Z',
@@ -161,7 +167,6 @@ const Prime: React.FC = () => {
             title: 'Electrical Panel Upgrade',
             description: 'Upgrade electrical panel to meet safety standards',
             location: 'Claremont, Cape Town',
-            distance: 4.2,
             price: 1200,
             urgency: 'low',
             postedAt: '2024-01-15T08:45:00Z',
@@ -195,7 +200,7 @@ const Prime: React.FC = () => {
           }
         ];
         
-        setLocationJobs(mockLocationJobs);
+        setJobs(mockLocationJobs);
         setAutoApplications(mockAutoApplications);
       } catch (error) {
         console.error('Error loading prime data:', error);
@@ -212,6 +217,25 @@ const Prime: React.FC = () => {
     loadPrimeData();
   }, [toast]);
 
+  // Nearest first, with jobs of unknown distance last
+  const locationJobs = useMemo(() =>
+    jobs
+      .map(job => ({ ...job, distance: distanceTo(origin, job) }))
+      .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity)),
+    [jobs, origin]
+  );
+
+  const jobMarkers = useMemo(() => locationJobs.reduce<MapMarker[]>((result, job) => {
+    const point = pointOf(job);
+    if (point) result.push({ id: job.id, point, label: job.title });
+    return result;
+  }, []), [locationJobs]);
+
+  // The map circle shows the widest area an active auto-apply rule covers
+  const autoApplyRadius = autoApplications
+    .filter(app => app.isActive)
+    .reduce<number | undefined>((max, app) => Math.max(max ?? 0, app.radius), undefined);
+
   const toggleFeature = (featureId: string) => {
     setPrimeFeatures(prev =>
       prev.map(feature =>
@@ -268,6 +292,68 @@ const Prime: React.FC = () => {
     ? autoApplications.reduce((sum, app) => sum + app.successRate, 0) / autoApplications.length 
     : 0;
 
+  const renderJobCard = (job: LocationJob) => (
+    <Card key={job.id} className="border-0 bg-card/50">
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex-1">
+            <h3 className="font-medium text-foreground mb-1">{job.title}</h3>
+            <p className="text-sm text-muted-foreground line-clamp-2">
+              {job.description}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className={`text-xs ${getUrgencyColor(job.urgency)}`}>
+              {getUrgencyIcon(job.urgency)}
+              <span className="ml-1">{job.urgency}</span>
+            </Badge>
+            {job.isAutoApplied && (
+              <Badge className="bg-green-100 text-green-700 text-xs">
+                Auto Applied
+              </Badge>
+            )}
+          </div>
+        </div>
+                    
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <MapPin size={14} />
+              <span>{job.location}</span>
+            </div>
+            {job.distance !== undefined && (
+              <span className="text-muted-foreground">{formatDistance(job.distance)} away</span>
+            )}
+          </div>
+                      
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-lg font-bold text-primary">R{job.price}</span>
+              <div className="flex items-center gap-1">
+                <Star size={14} className="text-yellow-500" />
+                <span className="text-sm text-muted-foreground">{job.matchScore}% match</span>
+              </div>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {formatTimeAgo(job.postedAt)}
+            </span>
+          </div>
+        </div>
+                    
+        <div className="flex gap-2 mt-3">
+          <Button size="sm" className="flex-1 bg-gradient-primary">
+            View Details
+          </Button>
+          {!job.isAutoApplied && (
+            <Button size="sm" variant="outline" className="flex-1">
+              Apply Now
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="min-h-screen bg-background pb-20">
       {/* Header */}
@@ -362,67 +448,52 @@ const Prime: React.FC = () => {
               </Badge>
             </div>
 
-            <div className="space-y-3">
-              {locationJobs.map((job) => (
-                <Card key={job.id} className="border-0 bg-card/50">
-                  <CardContent className="p-4">
-                    <div className="flex items-start justify-between mb-3">
-                      <div className="flex-1">
-                        <h3 className="font-medium text-foreground mb-1">{job.title}</h3>
-                        <p className="text-sm text-muted-foreground line-clamp-2">
-                          {job.description}
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Badge className={`text-xs ${getUrgencyColor(job.urgency)}`}>
-                          {getUrgencyIcon(job.urgency)}
-                          <span className="ml-1">{job.urgency}</span>
-                        </Badge>
-                        {job.isAutoApplied && (
-                          <Badge className="bg-green-100 text-green-700 text-xs">
-                            Auto Applied
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between text-sm">
-                        <div className="flex items-center gap-1 text-muted-foreground">
-                          <MapPin size={14} />
-                          <span>{job.location}</span>
-                        </div>
-                        <span className="text-muted-foreground">{job.distance}km away</span>
-                      </div>
-                      
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <span className="text-lg font-bold text-primary">R{job.price}</span>
-                          <div className="flex items-center gap-1">
-                            <Star size={14} className="text-yellow-500" />
-                            <span className="text-sm text-muted-foreground">{job.matchScore}% match</span>
-                          </div>
-                        </div>
-                        <span className="text-xs text-muted-foreground">
-                          {formatTimeAgo(job.postedAt)}
-                        </span>
-                      </div>
-                    </div>
-                    
-                    <div className="flex gap-2 mt-3">
-                      <Button size="sm" className="flex-1 bg-gradient-primary">
-                        View Details
-                      </Button>
-                      {!job.isAutoApplied && (
-                        <Button size="sm" variant="outline" className="flex-1">
-                          Apply Now
-                        </Button>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">
+                {origin ? 'Nearest first' : 'Add a location to your profile to see distances'}
+              </p>
+              <div className="flex rounded-md border p-0.5">
+                {([['list', List], ['map', MapIcon]] as const).map(([mode, Icon]) => (
+                  <Button
+                    key={mode}
+                    variant={jobsView === mode ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => {
+                      setJobsView(mode);
+                      setSelectedJobIds([]);
+                    }}
+                    aria-label={mode === 'list' ? 'List view' : 'Map view'}
+                    aria-pressed={jobsView === mode}
+                  >
+                    <Icon size={14} />
+                  </Button>
+                ))}
+              </div>
             </div>
+
+            {jobsView === 'map' ? (
+              <div className="space-y-3">
+                <ClusterMap
+                  markers={jobMarkers}
+                  origin={origin}
+                  radiusKm={autoApplyRadius}
+                  selectedIds={selectedJobIds}
+                  onSelect={setSelectedJobIds}
+                />
+                {selectedJobIds.length > 0 ? (
+                  locationJobs.filter(job => selectedJobIds.includes(job.id)).map(renderJobCard)
+                ) : (
+                  <p className="text-sm text-center text-muted-foreground">
+                    Tap a marker to see the job.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {locationJobs.map(renderJobCard)}
+              </div>
+            )}
           </TabsContent>
 
           {/* Auto-Apply Tab */}
@@ -36,13 +36,18 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient } from '@/lib/api';
+import { useProfile, useUpdateProfile } from '@/hooks/useProfileQueries';
+import LocationInput from '@/components/location/LocationInput';
+import NotificationPreferencesCard from '@/components/notifications/NotificationPreferencesCard';
+import { resolveLocation } from '@/lib/gazetteer';
 
 const Profile: React.FC = () => {
   const { user, logout } = useAuth();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const { data: profile, error: profileError } = useProfile();
+  const updateProfile = useUpdateProfile();
+  const isLoading = updateProfile.isPending;
   const [activeTab, setActiveTab] = useState('profile');
   
   const [profileData, setProfileData] = useState({
@@ -68,71 +73,60 @@ const Profile: React.FC = () => {
     totalEarnings: 0
   });
 
-  // Load profile data
+  // Populate the form from the loaded profile
   useEffect(() => {
-    const loadProfile = async () => {
-      try {
-        setIsLoading(true);
-        const response = await apiClient.getProfile();
-        
-        if (response.success && response.data) {
-          const userData = response.data;
-          setProfileData({
-            name: userData.name,
-            email: userData.email,
-            phone: userData.phone || '',
-            location: userData.location || '',
-            bio: userData.bio || '',
-            avatar: userData.avatar_url || ''
-          });
-          
-          setVerificationStatus({
-            isVerified: userData.is_verified || false,
-            status: userData.verification_status || 'pending',
-            submittedAt: userData.verification_submitted_at || '',
-            reviewedAt: userData.verification_reviewed_at || ''
-          });
-        }
-      } catch (error) {
-        console.error('Error loading profile:', error);
-        
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load profile data. Please try again.';
-        
-        // Check if it's a token expiration error
-        if (errorMessage.includes('session has expired') || errorMessage.includes('Invalid token')) {
-          toast({
-            title: 'Session Expired',
-            description: 'Your session has expired. Please log in again.',
-            variant: 'destructive',
-          });
-        } else {
-          toast({
-            title: 'Error loading profile',
-            description: errorMessage,
-            variant: 'destructive',
-          });
-        }
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    if (!profile) return;
+
+    setProfileData({
+      name: profile.name,
+      email: profile.email,
+      phone: profile.phone || '',
+      location: profile.location || '',
+      bio: profile.bio || '',
+      avatar: profile.avatar_url || ''
+    });
+
+    setVerificationStatus({
+      isVerified: profile.is_verified || false,
+      status: profile.verification_status || 'pending',
+      submittedAt: profile.verification_submitted_at || '',
+      reviewedAt: profile.verification_reviewed_at || ''
+    });
+  }, [profile]);
+
+  useEffect(() => {
+    if (!profileError) return;
+    console.error('Error loading profile:', profileError);
 
-    loadProfile();
-  }, [toast]);
+    const errorMessage = profileError instanceof Error ? profileError.message : 'Failed to load profile data. Please try again.';
+
+    // Check if it's a token expiration error
+    if (errorMessage.includes('session has expired') || errorMessage.includes('Invalid token')) {
+      toast({
+        title: 'Session Expired',
+        description: 'Your session has expired. Please log in again.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Error loading profile',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    }
+  }, [profileError, toast]);
 
   const handleSaveProfile = async () => {
     try {
-      setIsLoading(true);
-      
-      const response = await apiClient.updateProfile(profileData);
-      
-      if (response.success) {
-        toast({
-          title: 'Profile updated',
-          description: 'Your profile has been updated successfully.',
-        });
-        setIsEditing(false);
-      }
+      await updateProfile.mutateAsync({
+        ...profileData,
+        location_details: resolveLocation(profileData.location) ?? undefined
+      });
+      toast({
+        title: 'Profile updated',
+        description: 'Your profile has been updated successfully.',
+      });
+      setIsEditing(false);
     } catch (error) {
       console.error('Error updating profile:', error);
       toast({
@@ -140,8 +134,6 @@ const Profile: React.FC = () => {
         description: 'Failed to update profile. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -316,12 +308,11 @@ const Profile: React.FC = () => {
 
             <div className="space-y-2">
               <Label htmlFor="location">Location</Label>
-              <Input
+              <LocationInput
                 id="location"
                 value={profileData.location}
-                onChange={(e) => handleInputChange('location', e.target.value)}
+                onChange={(value) => handleInputChange('location', value)}
                 disabled={!isEditing}
-                placeholder="Cape Town, Western Cape"
               />
             </div>
 
@@ -423,6 +414,9 @@ const Profile: React.FC = () => {
           </Card>
         )}
 
+        {/* Notification Preferences */}
+        <NotificationPreferencesCard />
+
         {/* Settings */}
         <Card className="border-0 bg-card/50">
           <CardHeader>
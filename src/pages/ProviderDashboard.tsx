@@ -17,19 +17,50 @@ import {
   Trash2,
   Eye,
   CheckCircle,
-  XCircle,
   MessageSquare,
   DollarSign,
   Users,
   Calendar,
-  BarChart3
+  BarChart3,
+  ChevronDown,
+  CalendarPlus,
+  CalendarX,
+  Download
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import ServiceFormModal from '@/components/services/ServiceFormModal';
-import { Service, ServiceCategory, ServiceRequest } from '@/types/service';
-import { apiClient } from '@/lib/api';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import MessageThread from '@/components/requests/MessageThread';
+import RequestQuotes from '@/components/requests/RequestQuotes';
+import RequestStatusActions from '@/components/requests/RequestStatusActions';
+import RequestTimeline from '@/components/requests/RequestTimeline';
+import CompleteJobDialog from '@/components/requests/CompleteJobDialog';
+import AvailabilityEditor from '@/components/availability/AvailabilityEditor';
+import { RequestStatus, Service, ServiceRequest } from '@/types/service';
+import { ServiceData } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import {
+  useCategories,
+  useCreateService,
+  useDeleteService,
+  useServices,
+  useUpdateService
+} from '@/hooks/useServiceQueries';
+import { useRequests, useUpdateRequestStatus } from '@/hooks/useRequestQueries';
+import { useExportProviderCalendar } from '@/hooks/useAvailabilityQueries';
+import { useRecordCompletedJob } from '@/hooks/useBookkeepingQueries';
+import { useUnreadMessageCounts } from '@/hooks/useMessageQueries';
+import {
+  ACTIVE_STATUSES,
+  InvalidStatusTransitionError,
+  STATUS_COLORS,
+  STATUS_LABELS
+} from '@/lib/requestStatus';
+import { formatSlot } from '@/lib/availability';
+import { isQueuedMutation } from '@/lib/outbox';
+import { JobInvoiceError } from '@/lib/bookkeeping';
+import { buildRequestCalendar, downloadCalendarFile, isCalendarEvent, isCancelledEvent } from '@/lib/icalendar';
 import heroImage from '@/assets/hero-sa-services.jpg';
 
 // Helper function to convert API service to legacy format for ServiceCard compatibility
@@ -57,101 +88,81 @@ const convertServiceToLegacy = (service: Service): any => ({
 const ProviderDashboard: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [myServices, setMyServices] = useState<Service[]>([]);
-  const [serviceRequests, setServiceRequests] = useState<ServiceRequest[]>([]);
-  const [categories, setCategories] = useState<ServiceCategory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
   const [showCreateService, setShowCreateService] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [messagingRequestId, setMessagingRequestId] = useState<string | null>(null);
+  const [completingRequest, setCompletingRequest] = useState<ServiceRequest | null>(null);
 
-  // Load provider data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Load provider's services, requests, and categories in parallel
-        const [servicesResponse, requestsResponse, categoriesResponse] = await Promise.all([
-          apiClient.getServices({ page: 1, limit: 20 }), // This should be filtered by provider in real API
-          apiClient.getRequests(),
-          apiClient.getCategories()
-        ]);
-
-        if (servicesResponse.success && servicesResponse.data) {
-          // Filter services by current provider (in real API, this would be done server-side)
-          const providerServices = servicesResponse.data.data.filter(
-            service => service.provider.id === user?.id
-          );
-          setMyServices(providerServices);
-        }
+  // Load provider's services, requests, and categories in parallel
+  const servicesQuery = useServices({ page: 1, limit: 20, provider: user?.id }, { enabled: !!user?.id });
+  const requestsQuery = useRequests({}, { enabled: !!user?.id });
+  const { data: categories = [] } = useCategories();
+  const createService = useCreateService();
+  const updateService = useUpdateService();
+  const deleteService = useDeleteService();
+  const updateRequestStatus = useUpdateRequestStatus();
+  const recordCompletedJob = useRecordCompletedJob();
+  const exportCalendar = useExportProviderCalendar();
+  const { data: unreadCounts = {} } = useUnreadMessageCounts({ enabled: !!user?.id });
 
-        if (requestsResponse.success && requestsResponse.data) {
-          // Filter requests for this provider
-          const providerRequests = requestsResponse.data.data.filter(
-            request => request.provider.id === user?.id
-          );
-          setServiceRequests(providerRequests);
-        }
+  const isLoading = servicesQuery.isLoading || requestsQuery.isLoading;
+  const isSubmitting = createService.isPending || updateService.isPending;
 
-        if (categoriesResponse.success && categoriesResponse.data) {
-          setCategories(categoriesResponse.data);
-        }
-      } catch (error) {
-        console.error('Error loading provider data:', error);
-        
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load your dashboard data. Please try again.';
-        
-        // Check if it's a token expiration error
-        if (errorMessage.includes('session has expired') || errorMessage.includes('Invalid token')) {
-          toast({
-            title: 'Session Expired',
-            description: 'Your session has expired. Please log in again.',
-            variant: 'destructive',
-          });
-        } else {
-          toast({
-            title: 'Error loading data',
-            description: errorMessage,
-            variant: 'destructive',
-          });
-        }
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Filter by current provider in case the backend ignores the provider param
+  const myServices = (servicesQuery.data?.data ?? []).filter(
+    service => service.provider.id === user?.id
+  );
+  const serviceRequests = (requestsQuery.data?.data ?? []).filter(
+    request => request.provider.id === user?.id
+  );
+  const messagingRequest = serviceRequests.find(r => r.id === messagingRequestId);
+
+  const loadError = servicesQuery.error || requestsQuery.error;
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error loading provider data:', loadError);
+
+    const errorMessage = loadError instanceof Error ? loadError.message : 'Failed to load your dashboard data. Please try again.';
 
-    if (user?.id) {
-      loadData();
+    // Check if it's a token expiration error
+    if (errorMessage.includes('session has expired') || errorMessage.includes('Invalid token')) {
+      toast({
+        title: 'Session Expired',
+        description: 'Your session has expired. Please log in again.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Error loading data',
+        description: errorMessage,
+        variant: 'destructive',
+      });
     }
-  }, [user?.id, toast]);
+  }, [loadError, toast]);
 
   // Calculate provider statistics
   const stats = {
     totalServices: myServices.length,
-    activeRequests: serviceRequests.filter(r => ['pending', 'accepted'].includes(r.status)).length,
+    activeRequests: serviceRequests.filter(r => ACTIVE_STATUSES.includes(r.status)).length,
     completedJobs: serviceRequests.filter(r => r.status === 'completed').length,
     averageRating: myServices.length > 0 ? 
       (myServices.reduce((sum, service) => sum + service.rating, 0) / myServices.length).toFixed(1) : '0.0',
     totalEarnings: serviceRequests
       .filter(r => r.status === 'completed')
-      .reduce((sum, r) => sum + (r.service?.price || 0), 0)
+      .reduce((sum, r) => sum + (r.agreed_price ?? r.service?.price ?? 0), 0)
   };
 
   // Handle service creation
-  const handleCreateService = async (serviceData: any) => {
+  const handleCreateService = async (serviceData: ServiceData) => {
     try {
-      setIsSubmitting(true);
-      const response = await apiClient.createService(serviceData);
-      if (response.success && response.data) {
-        setMyServices(prev => [response.data, ...prev]);
-        setShowCreateService(false);
-        toast({
-          title: 'Service created',
-          description: 'Your service has been created successfully.',
-        });
-      }
+      await createService.mutateAsync(serviceData);
+      setShowCreateService(false);
+      toast({
+        title: 'Service created',
+        description: 'Your service has been created successfully.',
+      });
     } catch (error) {
       console.error('Error creating service:', error);
       toast({
@@ -159,28 +170,20 @@ const ProviderDashboard: React.FC = () => {
         description: 'Failed to create service. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   // Handle service update
-  const handleUpdateService = async (serviceData: any) => {
+  const handleUpdateService = async (serviceData: ServiceData) => {
+    if (!editingService) return;
+
     try {
-      setIsSubmitting(true);
-      const response = await apiClient.updateService(editingService?.id!, serviceData);
-      
-      if (response.success && response.data) {
-        setMyServices(prev => 
-          prev.map(s => s.id === editingService?.id ? response.data : s)
-        );
-        
-        toast({
-          title: 'Service updated',
-          description: 'Your service has been updated successfully.',
-        });
-        setEditingService(null);
-      }
+      await updateService.mutateAsync({ id: editingService.id, data: serviceData });
+      toast({
+        title: 'Service updated',
+        description: 'Your service has been updated successfully.',
+      });
+      setEditingService(null);
     } catch (error) {
       console.error('Error updating service:', error);
       toast({
@@ -188,23 +191,17 @@ const ProviderDashboard: React.FC = () => {
         description: 'Failed to update service. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   // Handle service deletion
   const handleDeleteService = async (serviceId: string) => {
     try {
-      const response = await apiClient.deleteService(serviceId);
-      
-      if (response.success) {
-        setMyServices(prev => prev.filter(s => s.id !== serviceId));
-        toast({
-          title: 'Service deleted',
-          description: 'Your service has been deleted successfully.',
-        });
-      }
+      await deleteService.mutateAsync(serviceId);
+      toast({
+        title: 'Service deleted',
+        description: 'Your service has been deleted successfully.',
+      });
     } catch (error) {
       console.error('Error deleting service:', error);
       toast({
@@ -215,48 +212,112 @@ const ProviderDashboard: React.FC = () => {
     }
   };
 
+  // Download one job for the provider's calendar, marked cancelled once called off
+  const handleDownloadEvent = (request: ServiceRequest) => {
+    if (!user) return;
+    const file = buildRequestCalendar(request, { name: user.name, email: user.email });
+    if (file) downloadCalendarFile(file);
+  };
+
+  // Download the feed of all upcoming jobs
+  const handleExportCalendar = async () => {
+    if (!user) return;
+
+    try {
+      await exportCalendar.mutateAsync(user.id);
+      toast({
+        title: 'Calendar downloaded',
+        description: 'Open the file to add your upcoming jobs to your calendar.',
+      });
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: 'Error exporting calendar',
+        description: 'Failed to export your jobs. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Handle request status update
-  const handleUpdateRequestStatus = async (requestId: string, status: string) => {
+  const handleUpdateRequestStatus = async (request: ServiceRequest, status: RequestStatus, note?: string) => {
+    // Completing a job also books it, so it is confirmed first
+    if (status === 'completed') {
+      setCompletingRequest(request);
+      return;
+    }
+
     try {
-      const response = await apiClient.updateRequestStatus(requestId, status);
-      if (response.success) {
-        setServiceRequests(prev => 
-          prev.map(r => r.id === requestId ? { ...r, status: status as any } : r)
-        );
-        toast({
+      const result = await updateRequestStatus.mutateAsync({ request, status, note });
+      toast(isQueuedMutation(result)
+        ? {
+          title: 'Saved offline',
+          description: `Request will be marked as ${STATUS_LABELS[status].toLowerCase()} when you're back online.`,
+        }
+        : {
           title: 'Request updated',
-          description: `Request ${status} successfully.`,
+          description: `Request marked as ${STATUS_LABELS[status].toLowerCase()}.`,
         });
-      }
     } catch (error) {
       console.error('Error updating request:', error);
       toast({
         title: 'Error updating request',
-        description: 'Failed to update request status. Please try again.',
+        description: error instanceof InvalidStatusTransitionError
+          ? error.message
+          : 'Failed to update request status. Please try again.',
         variant: 'destructive',
       });
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-700 border-yellow-200';
-      case 'accepted':
-        return 'bg-blue-100 text-blue-700 border-blue-200';
-      case 'declined':
-        return 'bg-red-100 text-red-700 border-red-200';
-      case 'completed':
-        return 'bg-green-100 text-green-700 border-green-200';
-      default:
-        return 'bg-gray-100 text-gray-700 border-gray-200';
-    }
-  };
 
-  const formatStatus = (status: string) => {
-    return status.charAt(0).toUpperCase() + status.slice(1);
-  };
+  const handleCompleteJob = async (withInvoice: boolean) => {
+    const request = completingRequest;
+    if (!request) return;
+
+    // Set once the status change has gone through (or been queued)
+    let statusNote: string | null = null;
+    try {
+      const result = await updateRequestStatus.mutateAsync({ request, status: 'completed' });
+      statusNote = isQueuedMutation(result)
+        ? "The job will be marked as completed when you're back online."
+        : 'Request marked as completed.';
+      setCompletingRequest(null);
 
+      const job = await recordCompletedJob.mutateAsync({ request, withInvoice });
+      toast({
+        title: isQueuedMutation(result) ? 'Saved offline' : 'Job completed',
+        description: job.alreadyRecorded
+          ? `${statusNote} This job was already in your books.`
+          : `${statusNote} R${job.transaction.amount.toFixed(2)} added to your books as pending income${job.invoice ? ' with a draft invoice' : ''}.`,
+      });
+    } catch (error) {
+      if (statusNote) {
+        console.error('Error recording completed job:', error);
+        const reason = error instanceof Error ? error.message : 'Something went wrong';
+        toast(error instanceof JobInvoiceError
+          ? {
+            title: 'Draft invoice not created',
+            description: `${statusNote} R${error.transaction.amount.toFixed(2)} is in your books as pending income, but the draft invoice wasn't created: ${reason}`,
+            variant: 'destructive',
+          }
+          : {
+            title: 'Job not added to your books',
+            description: `${statusNote} Nothing was added to your books: ${reason}`,
+            variant: 'destructive',
+          });
+        return;
+      }
+      console.error('Error updating request:', error);
+      toast({
+        title: 'Error updating request',
+        description: error instanceof InvalidStatusTransitionError
+          ? error.message
+          : 'Failed to update request status. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
   return (
     <div className="min-h-screen bg-background pb-20">
       {/* Header */}
@@ -337,10 +398,11 @@ const ProviderDashboard: React.FC = () => {
 
         {/* Main Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="services">Services</TabsTrigger>
             <TabsTrigger value="requests">Requests</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -378,8 +440,8 @@ const ProviderDashboard: React.FC = () => {
                             </p>
                           </div>
                         </div>
-                        <Badge className={`text-xs ${getStatusColor(request.status)}`}>
-                          {formatStatus(request.status)}
+                        <Badge className={`text-xs ${STATUS_COLORS[request.status]}`}>
+                          {STATUS_LABELS[request.status]}
                         </Badge>
                       </div>
                     ))}
@@ -553,8 +615,8 @@ const ProviderDashboard: React.FC = () => {
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-2">
-                            <Badge className={`text-xs ${getStatusColor(request.status)}`}>
-                              {formatStatus(request.status)}
+                            <Badge className={`text-xs ${STATUS_COLORS[request.status]}`}>
+                              {STATUS_LABELS[request.status]}
                             </Badge>
                           </div>
                           
@@ -564,52 +626,74 @@ const ProviderDashboard: React.FC = () => {
                           <p className="text-sm text-muted-foreground line-clamp-2">
                             {request.message || 'No message provided'}
                           </p>
+
+                          {request.scheduled_slot && (
+                            <div className="flex items-center gap-1 text-sm text-muted-foreground mt-2">
+                              <Calendar size={14} />
+                              <span>{formatSlot(request.scheduled_slot)}</span>
+                            </div>
+                          )}
                           
-                          <div className="flex items-center gap-1 text-muted-foreground text-sm mt-2">
-                            <Users size={14} />
-                            <span>From {request.customer.name}</span>
+                          <div className="flex items-center justify-between text-sm mt-2">
+                            <div className="flex items-center gap-1 text-muted-foreground">
+                              <Users size={14} />
+                              <span>From {request.customer.name}</span>
+                            </div>
+                            {request.agreed_price !== undefined && (
+                              <span className="font-medium text-primary">
+                                Agreed R{request.agreed_price.toFixed(2)}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
 
-                      {request.status === 'pending' && (
-                        <div className="flex gap-2">
-                          <Button 
-                            size="sm"
-                            onClick={() => handleUpdateRequestStatus(request.id, 'accepted')}
-                            className="flex-1"
-                          >
-                            <CheckCircle size={14} className="mr-1" />
-                            Accept
-                          </Button>
-                          <Button 
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => handleUpdateRequestStatus(request.id, 'declined')}
-                            className="flex-1"
-                          >
-                            <XCircle size={14} className="mr-1" />
-                            Decline
-                          </Button>
-                        </div>
-                      )}
-                      
-                      {request.status === 'accepted' && (
+                      <RequestQuotes request={request} role="provider" />
+
+                      <RequestStatusActions
+                        request={request}
+                        role="provider"
+                        onChangeStatus={(status, note) => handleUpdateRequestStatus(request, status, note)}
+                        isUpdating={updateRequestStatus.isPending}
+                      />
+
+                      <Collapsible>
                         <div className="flex gap-2">
-                          <Button 
+                          <CollapsibleTrigger asChild>
+                            <Button size="sm" variant="ghost" className="flex-1 group">
+                              Timeline
+                              <ChevronDown size={14} className="ml-1 transition-transform group-data-[state=open]:rotate-180" />
+                            </Button>
+                          </CollapsibleTrigger>
+                          <Button
                             size="sm"
-                            onClick={() => handleUpdateRequestStatus(request.id, 'completed')}
+                            variant="outline"
                             className="flex-1"
+                            onClick={() => setMessagingRequestId(request.id)}
                           >
-                            <CheckCircle size={14} className="mr-1" />
-                            Mark Complete
-                          </Button>
-                          <Button size="sm" variant="outline" className="flex-1">
                             <MessageSquare size={14} className="mr-1" />
                             Message
+                            {unreadCounts[request.id] > 0 && (
+                              <Badge className="ml-1 h-5 min-w-5 px-1.5 justify-center">
+                                {unreadCounts[request.id]}
+                              </Badge>
+                            )}
                           </Button>
+                          {isCalendarEvent(request) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleDownloadEvent(request)}
+                              aria-label={isCancelledEvent(request) ? 'Download calendar cancellation' : 'Add to calendar'}
+                            >
+                              {isCancelledEvent(request) ? <CalendarX size={14} /> : <CalendarPlus size={14} />}
+                            </Button>
+                          )}
                         </div>
-                      )}
+                        <CollapsibleContent className="pt-3">
+                          <RequestTimeline request={request} />
+                        </CollapsibleContent>
+                      </Collapsible>
                     </CardContent>
                   </Card>
                 ))}
@@ -628,6 +712,34 @@ const ProviderDashboard: React.FC = () => {
               </Card>
             )}
           </TabsContent>
+
+          {/* Schedule Tab */}
+          <TabsContent value="schedule" className="space-y-4">
+            <Card className="border-0 bg-card/50">
+              <CardContent className="p-4 flex items-center justify-between gap-3">
+                <div>
+                  <h3 className="font-medium text-foreground">Calendar Feed</h3>
+                  <p className="text-sm text-muted-foreground">
+                    All upcoming jobs as one .ics file. Download again after changes to update your calendar.
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleExportCalendar}
+                  disabled={exportCalendar.isPending}
+                >
+                  {exportCalendar.isPending ? (
+                    <Loader2 size={14} className="mr-1 animate-spin" />
+                  ) : (
+                    <Download size={14} className="mr-1" />
+                  )}
+                  Export
+                </Button>
+              </CardContent>
+            </Card>
+            {user && <AvailabilityEditor providerId={user.id} services={myServices} />}
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -644,6 +756,21 @@ const ProviderDashboard: React.FC = () => {
         isLoading={isSubmitting}
       />
 
+      <CompleteJobDialog
+        request={completingRequest}
+        onOpenChange={(open) => !open && setCompletingRequest(null)}
+        isSubmitting={updateRequestStatus.isPending || recordCompletedJob.isPending}
+        onConfirm={handleCompleteJob}
+      />
+
+      {messagingRequest && (
+        <MessageThread
+          request={messagingRequest}
+          open
+          onOpenChange={(open) => !open && setMessagingRequestId(null)}
+        />
+      )}
+
       <BottomNavigation />
     </div>
   );
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,13 +14,32 @@ import {
   Calendar,
   User,
   MapPin,
-  Loader2
+  Loader2,
+  AlertTriangle,
+  FileText,
+  ChevronDown
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
-import { ServiceRequest } from '@/types/service';
-import { apiClient } from '@/lib/api';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import MessageThread from '@/components/requests/MessageThread';
+import RequestQuotes from '@/components/requests/RequestQuotes';
+import RequestStatusActions from '@/components/requests/RequestStatusActions';
+import RequestTimeline from '@/components/requests/RequestTimeline';
+import { RequestStatus, ServiceRequest } from '@/types/service';
 import { useToast } from '@/hooks/use-toast';
+import { useRequests, useUpdateRequestStatus } from '@/hooks/useRequestQueries';
+import { useUnreadMessageCounts } from '@/hooks/useMessageQueries';
+import {
+  ACTIVE_STATUSES,
+  CLOSED_STATUSES,
+  InvalidStatusTransitionError,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  getRequestRole
+} from '@/lib/requestStatus';
+import { formatSlot } from '@/lib/availability';
+import { isQueuedMutation } from '@/lib/outbox';
 
 // Helper function to convert API request to legacy format for compatibility
 const convertRequestToLegacy = (request: ServiceRequest): any => ({
@@ -39,73 +59,77 @@ const convertRequestToLegacy = (request: ServiceRequest): any => ({
 const Requests: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [requests, setRequests] = useState<ServiceRequest[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data, isLoading, isError } = useRequests();
+  const updateRequestStatus = useUpdateRequestStatus();
+  const requests = data?.data ?? [];
+  const { data: unreadCounts = {} } = useUnreadMessageCounts({ enabled: !!user });
   const [activeTab, setActiveTab] = useState('all');
+  const [messagingRequestId, setMessagingRequestId] = useState<string | null>(null);
+  const messagingRequest = requests.find(r => r.id === messagingRequestId);
+  // Request linked to from elsewhere (e.g. a bookkeeping entry), shown once it loads
+  const [searchParams] = useSearchParams();
+  const linkedRequestId = searchParams.get('request');
+  const shownLinkedRequestId = useRef<string | null>(null);
 
-  // Load requests on component mount
   useEffect(() => {
-    const loadRequests = async () => {
-      try {
-        setIsLoading(true);
-        const response = await apiClient.getRequests();
-        
-        if (response.success && response.data) {
-          setRequests(response.data.data);
-        }
-      } catch (error) {
-        console.error('Error loading requests:', error);
-        toast({
-          title: 'Error loading requests',
-          description: 'Failed to load your service requests. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    if (isError) {
+      toast({
+        title: 'Error loading requests',
+        description: 'Failed to load your service requests. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]);
 
-    loadRequests();
-  }, [toast]);
+  useEffect(() => {
+    const linked = data?.data.find(r => r.id === linkedRequestId);
+    if (!linked || shownLinkedRequestId.current === linked.id) return;
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-700 border-yellow-200';
-      case 'accepted':
-        return 'bg-blue-100 text-blue-700 border-blue-200';
-      case 'in_progress':
-        return 'bg-orange-100 text-orange-700 border-orange-200';
-      case 'completed':
-        return 'bg-green-100 text-green-700 border-green-200';
-      case 'cancelled':
-      case 'declined':
-        return 'bg-red-100 text-red-700 border-red-200';
-      default:
-        return 'bg-gray-100 text-gray-700 border-gray-200';
-    }
-  };
+    shownLinkedRequestId.current = linked.id;
+    setActiveTab(CLOSED_STATUSES.includes(linked.status) ? 'history' : 'active');
+    requestAnimationFrame(() => {
+      document.getElementById(`request-${linked.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [data, linkedRequestId]);
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: RequestStatus) => {
     switch (status) {
-      case 'pending':
-        return <Clock size={14} />;
-      case 'accepted':
-      case 'in_progress':
-        return <Clock size={14} />;
+      case 'quoted':
+        return <FileText size={14} />;
       case 'completed':
         return <CheckCircle size={14} />;
       case 'cancelled':
+      case 'declined':
         return <XCircle size={14} />;
+      case 'disputed':
+        return <AlertTriangle size={14} />;
       default:
         return <Clock size={14} />;
     }
   };
 
-  const formatStatus = (status: string) => {
-    return status.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
+  const handleUpdateRequestStatus = async (request: ServiceRequest, status: RequestStatus, note?: string) => {
+    try {
+      const result = await updateRequestStatus.mutateAsync({ request, status, note });
+      toast(isQueuedMutation(result)
+        ? {
+          title: 'Saved offline',
+          description: `Request will be marked as ${STATUS_LABELS[status].toLowerCase()} when you're back online.`,
+        }
+        : {
+          title: 'Request updated',
+          description: `Request marked as ${STATUS_LABELS[status].toLowerCase()}.`,
+        });
+    } catch (error) {
+      console.error('Error updating request:', error);
+      toast({
+        title: 'Error updating request',
+        description: error instanceof InvalidStatusTransitionError
+          ? error.message
+          : 'Failed to update request status. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -116,26 +140,29 @@ const Requests: React.FC = () => {
     });
   };
 
-  const activeRequests = requests.filter(r => 
-    ['pending', 'accepted', 'in_progress'].includes(r.status)
-  );
+  const activeRequests = requests.filter(r => ACTIVE_STATUSES.includes(r.status));
   
-  const completedRequests = requests.filter(r => 
-    ['completed', 'cancelled', 'declined'].includes(r.status)
-  );
+  const completedRequests = requests.filter(r => CLOSED_STATUSES.includes(r.status));
 
   const filteredRequests = activeTab === 'all' ? requests : 
     activeTab === 'active' ? activeRequests : completedRequests;
 
-  const RequestCard = ({ request }: { request: ServiceRequest }) => (
-    <Card className="border-0 bg-card/50 hover:shadow-card transition-shadow">
+  // Rendered as a plain function so cards keep their dialog and timeline state across re-renders
+  const renderRequestCard = (request: ServiceRequest) => (
+    <Card
+      key={request.id}
+      id={`request-${request.id}`}
+      className={`border-0 bg-card/50 hover:shadow-card transition-shadow ${
+        request.id === linkedRequestId ? 'ring-2 ring-primary' : ''
+      }`}
+    >
       <CardContent className="p-4 space-y-3">
         <div className="flex items-start justify-between">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
-              <Badge className={`text-xs ${getStatusColor(request.status)}`}>
+              <Badge className={`text-xs ${STATUS_COLORS[request.status]}`}>
                 {getStatusIcon(request.status)}
-                <span className="ml-1">{formatStatus(request.status)}</span>
+                <span className="ml-1">{STATUS_LABELS[request.status]}</span>
               </Badge>
             </div>
             
@@ -153,7 +180,11 @@ const Requests: React.FC = () => {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-1 text-muted-foreground">
                 <Calendar size={14} />
-                <span>Requested: {formatDate(request.requested_date)}</span>
+                <span>
+                  {request.scheduled_slot
+                    ? `Booked: ${formatSlot(request.scheduled_slot)}`
+                    : `Requested: ${formatDate(request.requested_date)}`}
+                </span>
               </div>
             </div>
           )}
@@ -163,7 +194,11 @@ const Requests: React.FC = () => {
               <User size={14} />
               <span>Provider: {request.provider.name}</span>
             </div>
-            {request.estimated_duration && (
+            {request.agreed_price !== undefined ? (
+              <div className="font-medium text-primary">
+                Agreed R{request.agreed_price.toFixed(2)}
+              </div>
+            ) : request.estimated_duration && (
               <div className="font-medium text-primary">
                 {request.estimated_duration}h estimated
               </div>
@@ -171,25 +206,48 @@ const Requests: React.FC = () => {
           </div>
         </div>
 
-        <div className="flex gap-2 pt-2">
-          <Button size="sm" variant="outline" className="flex-1">
-            <MessageSquare size={14} className="mr-1" />
-            Message
-          </Button>
-          
-          {request.status === 'completed' && (
-            <Button size="sm" className="flex-1">
-              <Star size={14} className="mr-1" />
-              Rate
-            </Button>
-          )}
-          
-          {request.status === 'pending' && (
-            <Button size="sm" variant="destructive" className="flex-1">
-              Cancel
+        <RequestQuotes request={request} role={getRequestRole(request, user?.id)} />
+
+        <RequestStatusActions
+          request={request}
+          role={getRequestRole(request, user?.id)}
+          onChangeStatus={(status, note) => handleUpdateRequestStatus(request, status, note)}
+          isUpdating={updateRequestStatus.isPending}
+        />
+
+        <Collapsible>
+          <div className="flex gap-2 pt-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => setMessagingRequestId(request.id)}
+            >
+              <MessageSquare size={14} className="mr-1" />
+              Message
+              {unreadCounts[request.id] > 0 && (
+              <Badge className="ml-1 h-5 min-w-5 px-1.5 justify-center">{unreadCounts[request.id]}</Badge>
+            )}
             </Button>
-          )}
-        </div>
+            
+            {request.status === 'completed' && (
+              <Button size="sm" className="flex-1">
+                <Star size={14} className="mr-1" />
+                Rate
+              </Button>
+            )}
+
+            <CollapsibleTrigger asChild>
+              <Button size="sm" variant="ghost" className="flex-1 group">
+                Timeline
+                <ChevronDown size={14} className="ml-1 transition-transform group-data-[state=open]:rotate-180" />
+              </Button>
+            </CollapsibleTrigger>
+          </div>
+          <CollapsibleContent className="pt-3">
+            <RequestTimeline request={request} />
+          </CollapsibleContent>
+        </Collapsible>
       </CardContent>
     </Card>
   );
@@ -265,9 +323,7 @@ const Requests: React.FC = () => {
                 ))}
               </div>
             ) : activeRequests.length > 0 ? (
-              activeRequests.map((request) => (
-                <RequestCard key={request.id} request={request} />
-              ))
+              activeRequests.map(renderRequestCard)
             ) : (
               <Card className="border-0 bg-muted/30">
                 <CardContent className="p-8 text-center">
@@ -309,9 +365,7 @@ const Requests: React.FC = () => {
                 ))}
               </div>
             ) : completedRequests.length > 0 ? (
-              completedRequests.map((request) => (
-                <RequestCard key={request.id} request={request} />
-              ))
+              completedRequests.map(renderRequestCard)
             ) : (
               <Card className="border-0 bg-muted/30">
                 <CardContent className="p-8 text-center">
@@ -327,6 +381,14 @@ const Requests: React.FC = () => {
         </Tabs>
       </div>
 
+      {messagingRequest && (
+        <MessageThread
+          request={messagingRequest}
+          open
+          onOpenChange={(open) => !open && setMessagingRequestId(null)}
+        />
+      )}
+
       <BottomNavigation />
     </div>
   );
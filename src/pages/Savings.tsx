@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -80,6 +81,24 @@ const Savings: React.FC = () => {
     category: 'business' as 'business' | 'personal' | 'emergency' | 'equipment'
   });
 
+  // Other pages, e.g. the provisional tax estimate, link here with a goal to fill in
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    const name = searchParams.get('goal_name');
+    if (!name) return;
+    const category = searchParams.get('goal_category');
+    setGoalData({
+      name,
+      targetAmount: searchParams.get('goal_amount') ?? '',
+      targetDate: searchParams.get('goal_date') ?? '',
+      category: category === 'personal' || category === 'emergency' || category === 'equipment' ? category : 'business'
+    });
+    setActiveTab('goals');
+    setShowGoalModal(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   const [stokvelData, setStokvelData] = useState({
     name: '',
     contributionAmount: '',
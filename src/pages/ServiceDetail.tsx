@@ -21,13 +21,20 @@ import {
   Share2,
   Loader2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  FileText
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
-import { Service } from '@/types/service';
-import { apiClient } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { useService } from '@/hooks/useServiceQueries';
+import { useCreateRequest, useRequests } from '@/hooks/useRequestQueries';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/requestStatus';
+import { getOpenQuote } from '@/lib/quotes';
+import { formatSlot, toSastDateKey } from '@/lib/availability';
+import { isQueuedMutation } from '@/lib/outbox';
+import SlotPicker from '@/components/availability/SlotPicker';
+import { TimeSlot } from '@/types/service';
 
 const ServiceDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -35,82 +42,66 @@ const ServiceDetail: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   
-  const [service, setService] = useState<Service | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: service, isLoading, isError } = useService(id);
+  const { data: requestsPage } = useRequests({}, { enabled: !!user });
+  const createRequest = useCreateRequest();
+  const isSubmitting = createRequest.isPending;
   const [showBookingModal, setShowBookingModal] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isFavorited, setIsFavorited] = useState(false);
+  const [bookingSlot, setBookingSlot] = useState<TimeSlot | null>(null);
   
   const [bookingData, setBookingData] = useState({
     message: '',
-    requestedDate: '',
     estimatedDuration: '',
     specialRequirements: ''
   });
 
-  // Load service details
   useEffect(() => {
-    const loadService = async () => {
-      if (!id) return;
-      
-      try {
-        setIsLoading(true);
-        const response = await apiClient.getService(id);
-        
-        if (response.success && response.data) {
-          setService(response.data);
-        } else {
-          toast({
-            title: 'Service not found',
-            description: 'The service you are looking for does not exist.',
-            variant: 'destructive',
-          });
-          navigate('/services');
-        }
-      } catch (error) {
-        console.error('Error loading service:', error);
-        toast({
-          title: 'Error loading service',
-          description: 'Failed to load service details. Please try again.',
-          variant: 'destructive',
-        });
-        navigate('/services');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    if (isError) {
+      toast({
+        title: 'Error loading service',
+        description: 'Failed to load service details. Please try again.',
+        variant: 'destructive',
+      });
+      navigate('/services');
+    }
+  }, [isError, navigate, toast]);
 
-    loadService();
-  }, [id, navigate, toast]);
+  // The customer's latest booking of this service, newest first from the API
+  const myBooking = requestsPage?.data.find(r => r.service.id === id && r.customer.id === user?.id);
+  const bookingQuote = myBooking ? getOpenQuote(myBooking) : undefined;
 
   const handleBookingSubmit = async () => {
     if (!service || !user) return;
 
     try {
-      setIsSubmitting(true);
-      
       const requestData = {
         service_id: service.id,
         message: bookingData.message,
-        requested_date: bookingData.requestedDate,
-        estimated_duration: parseInt(bookingData.estimatedDuration) || 1
+        requested_date: bookingSlot ? toSastDateKey(new Date(bookingSlot.start)) : '',
+        // The slot sets the duration on the server
+        slot_start: bookingSlot?.start,
+        estimated_duration: bookingSlot ? undefined : parseInt(bookingData.estimatedDuration) || 1
       };
 
-      const response = await apiClient.createRequest(requestData);
-      
-      if (response.success) {
-        toast({
+      const result = await createRequest.mutateAsync(requestData);
+
+      toast(isQueuedMutation(result)
+        ? {
+          title: 'Saved offline',
+          description: "Your request will be sent to the provider when you're back online.",
+        }
+        : {
           title: 'Request sent',
           description: 'Your service request has been sent to the provider.',
         });
-        setShowBookingModal(false);
-        setBookingData({
-          message: '',
-          requestedDate: '',
-          estimatedDuration: '',
-          specialRequirements: ''
-        });
-      }
+      setShowBookingModal(false);
+      setBookingData({
+        message: '',
+        estimatedDuration: '',
+        specialRequirements: ''
+      });
+      setBookingSlot(null);
     } catch (error) {
       console.error('Error creating request:', error);
       toast({
@@ -118,8 +109,6 @@ const ServiceDetail: React.FC = () => {
         description: 'Failed to send service request. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -284,6 +273,40 @@ const ServiceDetail: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Booking */}
+        {myBooking && (
+          <Card className="border-0 bg-card/50">
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-foreground">Your booking</span>
+                <Badge className={`text-xs ${STATUS_COLORS[myBooking.status]}`}>
+                  {STATUS_LABELS[myBooking.status]}
+                </Badge>
+              </div>
+              {myBooking.scheduled_slot && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock size={14} />
+                  <span>{formatSlot(myBooking.scheduled_slot)}</span>
+                </div>
+              )}
+              {myBooking.agreed_price !== undefined ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Agreed price</span>
+                  <span className="text-lg font-bold text-primary">R{myBooking.agreed_price.toFixed(2)}</span>
+                </div>
+              ) : bookingQuote?.author.role === 'provider' && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <FileText size={14} />
+                  <span>Quote of R{bookingQuote.total.toFixed(2)} waiting for your response</span>
+                </div>
+              )}
+              <Button size="sm" variant="outline" className="w-full" onClick={() => navigate('/requests')}>
+                View Request
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Description */}
         <Card className="border-0 bg-card/50">
           <CardHeader>
@@ -377,7 +400,7 @@ const ServiceDetail: React.FC = () => {
 
       {/* Booking Modal */}
       <Dialog open={showBookingModal} onOpenChange={setShowBookingModal}>
-        <DialogContent className="max-w-md mx-auto">
+        <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Book Service</DialogTitle>
           </DialogHeader>
@@ -394,16 +417,20 @@ const ServiceDetail: React.FC = () => {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="requestedDate">Preferred Date</Label>
-                <Input
-                  id="requestedDate"
-                  type="date"
-                  value={bookingData.requestedDate}
-                  onChange={(e) => setBookingData(prev => ({ ...prev, requestedDate: e.target.value }))}
-                />
-              </div>
+            <div className="space-y-2">
+              <Label>Preferred Time</Label>
+              <SlotPicker
+                providerId={service.provider.id}
+                serviceId={service.id}
+                value={bookingSlot}
+                onChange={setBookingSlot}
+              />
+              {bookingSlot && (
+                <p className="text-sm font-medium text-center">{formatSlot(bookingSlot)}</p>
+              )}
+            </div>
+
+            {!bookingSlot && (
               <div className="space-y-2">
                 <Label htmlFor="estimatedDuration">Duration (hours)</Label>
                 <Input
@@ -415,7 +442,7 @@ const ServiceDetail: React.FC = () => {
                   min="1"
                 />
               </div>
-            </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="specialRequirements">Special Requirements</Label>
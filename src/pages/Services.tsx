@@ -1,17 +1,32 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, SlidersHorizontal, AlertTriangle, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Search, SlidersHorizontal, AlertTriangle, Loader2, List, Map as MapIcon } from 'lucide-react';
 import BottomNavigation from '@/components/layout/BottomNavigation';
 import ServiceCategories from '@/components/services/ServiceCategories';
 import ServiceCard from '@/components/services/ServiceCard';
-import { Service, ServiceCategory } from '@/types/service';
+import ServiceFilterSheet from '@/components/services/ServiceFilterSheet';
+import ClusterMap, { MapMarker } from '@/components/map/ClusterMap';
+import { Service } from '@/types/service';
 import { searchQuerySchema, searchRateLimiter, SecurityUtils, sanitizeText } from '@/lib/security';
 import { useToast } from '@/hooks/use-toast';
-import { api } from '@/services/api';
+import { useCategories, useInfiniteServices } from '@/hooks/useServiceQueries';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useScrollRestoration } from '@/hooks/useScrollRestoration';
+import { useUserLocation } from '@/hooks/useUserLocation';
+import { distanceTo, pointOf } from '@/lib/geo';
+import {
+  SORT_OPTIONS,
+  ServiceSearchFilters,
+  countActiveFilters,
+  parseServiceFilters,
+  serializeServiceFilters,
+  toServiceQueryParams
+} from '@/lib/serviceFilters';
 
 // Helper function to convert API service to legacy format for ServiceCard compatibility
 const convertServiceToLegacy = (service: Service): any => ({
@@ -38,89 +53,82 @@ const convertServiceToLegacy = (service: Service): any => ({
 const Services: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [sortBy, setSortBy] = useState('rating');
+  // Filters live in the URL so they survive navigating to a service and back, and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseServiceFilters(searchParams), [searchParams]);
+  const { search: searchTerm, category: selectedCategory } = filters;
+  const activeFilterCount = countActiveFilters(filters);
+  const view = searchParams.get('view') === 'map' ? 'map' : 'list';
   const [showFilters, setShowFilters] = useState(false);
-  const [services, setServices] = useState<Service[]>([]);
-  const [categories, setCategories] = useState<ServiceCategory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { origin, source: locationSource, isLocating, error: locationError, locate } = useUserLocation();
   const [searchError, setSearchError] = useState<string>('');
-  const [pagination, setPagination] = useState({
-    page: 1,
-    limit: 20,
-    total: 0,
-    pages: 0
-  });
 
-  // Load services and categories on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Load services and categories in parallel
-        const [servicesResponse, categoriesResponse] = await Promise.all([
-          api.getServices({ page: 1, limit: 20 }),
-          api.getCategories()
-        ]);
+  const {
+    data,
+    isLoading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage
+  } = useInfiniteServices(toServiceQueryParams(filters, origin));
 
-        setServices(servicesResponse.services);
-        setPagination(servicesResponse.pagination);
-        setCategories(categoriesResponse);
-      } catch (error) {
-        console.error('Error loading data:', error);
-        toast({
-          title: 'Error loading services',
-          description: 'Failed to load services. Please try again.',
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const { data: categories = [], isLoading: isLoadingCategories } = useCategories();
 
-    loadData();
-  }, [toast]);
+  const services = useMemo(() => data?.pages.flatMap(page => page.data) ?? [], [data]);
+  const totalServices = data?.pages[0]?.pagination.total ?? 0;
 
-  // Load services with filters
-  const loadServices = useCallback(async (filters: {
-    search?: string;
-    category?: string;
-    page?: number;
-    sortBy?: string;
-  } = {}) => {
-    try {
-      setIsLoading(true);
-      
-      const params: any = {
-        page: filters.page || 1,
-        limit: 20
-      };
+  const markers = useMemo(() => services.reduce<MapMarker[]>((result, service) => {
+    const point = pointOf(service);
+    if (point) result.push({ id: service.id, point, label: service.title });
+    return result;
+  }, []), [services]);
+  const selectedServices = services.filter(service => selectedIds.includes(service.id));
 
-      if (filters.search) {
-        params.search = filters.search;
-      }
+  const sentinelRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
+  useScrollRestoration('services', !isLoading);
 
-      if (filters.category) {
-        params.category = filters.category;
-      }
+  useEffect(() => {
+    if (locationError) {
+      toast({
+        title: 'Location unavailable',
+        description: locationError,
+        variant: 'destructive',
+      });
+    }
+  }, [locationError, toast]);
 
-      const response = await api.getServices(params);
-      
-      setServices(response.services);
-      setPagination(response.pagination);
-    } catch (error) {
-      console.error('Error loading services:', error);
+  useEffect(() => {
+    if (isError) {
       toast({
         title: 'Error loading services',
         description: 'Failed to load services. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
     }
-  }, [toast]);
+  }, [isError, toast]);
+
+  const updateFilters = useCallback((changes: Partial<ServiceSearchFilters>) => {
+    setSearchParams(prev => {
+      const next = serializeServiceFilters({ ...parseServiceFilters(prev), ...changes });
+      if (prev.get('view')) next.set('view', prev.get('view'));
+      return next;
+    }, { replace: true });
+    setSelectedIds([]);
+  }, [setSearchParams]);
+
+  const setView = (nextView: 'list' | 'map') => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (nextView === 'map') {
+        next.set('view', 'map');
+      } else {
+        next.delete('view');
+      }
+      return next;
+    }, { replace: true });
+    setSelectedIds([]);
+  };
 
   // Secure search with rate limiting and validation
   const handleSearch = useCallback((query: string) => {
@@ -150,13 +158,7 @@ const Services: React.FC = () => {
       const validatedQuery = searchQuerySchema.parse(query);
       const sanitizedQuery = sanitizeText(validatedQuery);
       
-      setSearchTerm(sanitizedQuery);
-      
-      // Load services with search term
-      loadServices({ 
-        search: sanitizedQuery, 
-        category: selectedCategory 
-      });
+      updateFilters({ search: sanitizedQuery });
       
       SecurityUtils.logSecurityEvent('SEARCH_PERFORMED', {
         query: sanitizedQuery.slice(0, 50),
@@ -176,49 +178,36 @@ const Services: React.FC = () => {
         variant: 'destructive',
       });
     }
-  }, [selectedCategory, toast, loadServices]);
+  }, [selectedCategory, toast, updateFilters]);
 
   // Debounced search handler
   const handleSearchInput = useCallback((value: string) => {
     if (value.length === 0) {
-      setSearchTerm('');
       setSearchError('');
-      loadServices({ category: selectedCategory });
+      updateFilters({ search: '' });
       return;
     }
     
     if (value.length >= 2) {
       handleSearch(value);
     }
-  }, [handleSearch, loadServices, selectedCategory]);
+  }, [handleSearch, updateFilters]);
 
   // Handle category selection
   const handleCategorySelect = useCallback((categoryId: string) => {
-    setSelectedCategory(categoryId);
-    loadServices({ 
-      search: searchTerm, 
-      category: categoryId 
-    });
-  }, [searchTerm, loadServices]);
-
-  // Convert services to legacy format for ServiceCard compatibility
-  const legacyServices = services.map(convertServiceToLegacy);
+    updateFilters({ category: categoryId });
+  }, [updateFilters]);
 
-  // Client-side sorting (since API doesn't support all sort options)
-  const sortedServices = [...legacyServices].sort((a, b) => {
-    switch (sortBy) {
-      case 'price-low':
-        return a.price - b.price;
-      case 'price-high':
-        return b.price - a.price;
-      case 'rating':
-        return b.rating - a.rating;
-      case 'reviews':
-        return b.reviewCount - a.reviewCount;
-      default:
-        return 0;
-    }
-  });
+  const renderServiceCard = (service: Service) => (
+    <ServiceCard
+      key={service.id}
+      // Convert services to legacy format for ServiceCard compatibility
+      service={convertServiceToLegacy(service)}
+      compact={false}
+      distanceKm={distanceTo(origin, service)}
+      onSelect={() => navigate(`/service/${service.id}`)}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -232,6 +221,7 @@ const Services: React.FC = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/70" size={18} />
             <Input 
               placeholder="Search services..."
+              defaultValue={searchTerm}
               onChange={(e) => handleSearchInput(e.target.value)}
               className={`pl-10 bg-white/20 border-white/30 text-white placeholder:text-white/70 focus:bg-white/30 ${
                 searchError ? 'border-red-300' : ''
@@ -252,90 +242,69 @@ const Services: React.FC = () => {
             <Button
               variant="secondary"
               size="sm"
-              onClick={() => setShowFilters(!showFilters)}
+              onClick={() => setShowFilters(true)}
               className="bg-white/20 text-white border-white/30 hover:bg-white/30"
             >
               <SlidersHorizontal size={16} className="mr-2" />
               Filters
+              {activeFilterCount > 0 && (
+                <Badge className="ml-2 h-5 px-1.5 bg-white text-primary hover:bg-white">
+                  {activeFilterCount}
+                </Badge>
+              )}
             </Button>
             
-            <Select value={sortBy} onValueChange={setSortBy}>
-              <SelectTrigger className="bg-white/20 text-white border-white/30 w-32">
+            <Select
+              value={filters.sort}
+              onValueChange={(value) => updateFilters({ sort: value as ServiceSearchFilters['sort'] })}
+            >
+              <SelectTrigger className="bg-white/20 text-white border-white/30 w-36">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="rating">Top Rated</SelectItem>
-                <SelectItem value="reviews">Most Reviews</SelectItem>
-                <SelectItem value="price-low">Price: Low</SelectItem>
-                <SelectItem value="price-high">Price: High</SelectItem>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+
+            <div className="ml-auto flex rounded-md bg-white/20 p-0.5">
+              {([['list', List], ['map', MapIcon]] as const).map(([mode, Icon]) => (
+                <Button
+                  key={mode}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setView(mode)}
+                  aria-label={mode === 'list' ? 'List view' : 'Map view'}
+                  aria-pressed={view === mode}
+                  className={`h-8 px-2 text-white hover:bg-white/30 hover:text-white ${view === mode ? 'bg-white/30' : ''}`}
+                >
+                  <Icon size={16} />
+                </Button>
+              ))}
+            </div>
           </div>
         </div>
       </div>
 
       <div className="container mx-auto px-4 py-6 max-w-md space-y-6">
-        {/* Filters */}
-        {showFilters && (
-          <Card className="border-0 bg-card/50">
-            <CardContent className="p-4">
-              <div className="space-y-4">
-                <div>
-                  <h3 className="font-medium mb-2">Category</h3>
-                  <Select value={selectedCategory} onValueChange={handleCategorySelect}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="All categories" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="">All categories</SelectItem>
-                      {categories.map((category) => (
-                        <SelectItem key={category.id} value={category.id}>
-                          {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div className="flex gap-2">
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => {
-                      setSelectedCategory('');
-                      setSearchTerm('');
-                      setSortBy('rating');
-                    }}
-                  >
-                    Clear All
-                  </Button>
-                  <Button 
-                    size="sm"
-                    onClick={() => setShowFilters(false)}
-                  >
-                    Apply
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
         {/* Quick Categories */}
         <ServiceCategories 
           categories={categories}
           compact={false} 
           onCategorySelect={handleCategorySelect}
-          isLoading={isLoading}
+          isLoading={isLoadingCategories}
         />
 
         {/* Results Header */}
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-foreground">
-            {searchTerm || selectedCategory ? 'Search Results' : 'All Services'}
+            {searchTerm || activeFilterCount > 0 ? 'Search Results' : 'All Services'}
           </h2>
           <span className="text-sm text-muted-foreground">
-            {isLoading ? 'Loading...' : `${pagination.total} services found`}
+            {isLoading ? 'Loading...' : `${totalServices} services found`}
           </span>
         </div>
 
@@ -353,17 +322,41 @@ const Services: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
-          ) : sortedServices.length > 0 ? (
-                sortedServices.map((service) => (
-                  <ServiceCard
-                    key={service.id}
-                    service={service}
-                    compact={false}
-                    onSelect={(service) => {
-                      navigate(`/service/${service.id}`);
-                    }}
-                  />
-                ))
+          ) : services.length > 0 && view === 'map' ? (
+            <div className="space-y-4">
+              <ClusterMap
+                markers={markers}
+                origin={origin}
+                radiusKm={filters.radiusKm}
+                selectedIds={selectedIds}
+                onSelect={setSelectedIds}
+              />
+              {markers.length < services.length && (
+                <p className="text-xs text-muted-foreground">
+                  {services.length - markers.length} services without a recognised location are not shown on the map.
+                </p>
+              )}
+              {selectedServices.length > 0 ? (
+                selectedServices.map(renderServiceCard)
+              ) : (
+                <p className="text-sm text-center text-muted-foreground">
+                  Tap a marker to see the service.
+                </p>
+              )}
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage && <Loader2 size={16} className="mr-2 animate-spin" />}
+                  Show more services on the map ({services.length} of {totalServices})
+                </Button>
+              )}
+            </div>
+          ) : services.length > 0 ? (
+            services.map(renderServiceCard)
           ) : (
             <Card className="border-0 bg-muted/30">
               <CardContent className="p-8 text-center">
@@ -378,8 +371,26 @@ const Services: React.FC = () => {
             </Card>
           )}
         </div>
+
+        {/* Infinite scroll sentinel */}
+        {hasNextPage && view === 'list' && (
+          <div ref={sentinelRef} className="flex justify-center py-4 text-muted-foreground">
+            {isFetchingNextPage && <Loader2 size={24} className="animate-spin" />}
+          </div>
+        )}
       </div>
 
+      <ServiceFilterSheet
+        open={showFilters}
+        onOpenChange={setShowFilters}
+        filters={filters}
+        categories={categories}
+        onApply={(applied) => updateFilters(applied)}
+        locationSource={locationSource}
+        isLocating={isLocating}
+        onLocate={locate}
+      />
+
       <BottomNavigation />
     </div>
   );
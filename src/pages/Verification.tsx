@@ -15,11 +15,11 @@ import {
   FileText, 
   Camera,
   AlertTriangle,
-  Loader2,
-  X
+  Loader2
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import BottomNavigation from '@/components/layout/BottomNavigation';
+import CameraCapture from '@/components/camera/CameraCapture';
 import { useToast } from '@/hooks/use-toast';
 import { apiClient } from '@/lib/api';
 
@@ -38,9 +38,6 @@ const Verification: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showCamera, setShowCamera] = useState(false);
-  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [capturingFor, setCapturingFor] = useState<string | null>(null);
   const [documents, setDocuments] = useState<VerificationDocument[]>([
     {
@@ -109,73 +106,25 @@ const Verification: React.FC = () => {
     );
   };
 
-  const startCamera = async (documentId: string) => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          facingMode: 'user',
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        } 
-      });
-      setCameraStream(stream);
-      setCapturingFor(documentId);
-      setShowCamera(true);
-    } catch (error) {
-      console.error('Error accessing camera:', error);
-      toast({
-        title: 'Camera Error',
-        description: 'Unable to access camera. Please check permissions.',
-        variant: 'destructive',
-      });
-    }
-  };
-
-  const stopCamera = () => {
-    if (cameraStream) {
-      cameraStream.getTracks().forEach(track => track.stop());
-      setCameraStream(null);
-    }
-    setShowCamera(false);
-    setCapturingFor(null);
-    setCapturedImage(null);
-  };
-
-  const capturePhoto = () => {
-    const video = document.getElementById('camera-video') as HTMLVideoElement;
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    
-    if (video && context) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0);
-      
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      setCapturedImage(imageData);
-    }
+  const startCamera = (documentId: string) => {
+    setCapturingFor(documentId);
   };
 
-  const confirmCapture = () => {
-    if (capturedImage && capturingFor) {
-      // Convert data URL to File
-      fetch(capturedImage)
-        .then(res => res.blob())
-        .then(blob => {
-          const file = new File([blob], `verification_${capturingFor}.jpg`, { type: 'image/jpeg' });
-          handleFileUpload(capturingFor, file);
-        });
-      
-      stopCamera();
-      toast({
-        title: 'Photo captured',
-        description: 'Your verification photo has been captured successfully.',
+  const confirmCapture = (imageData: string) => {
+    const documentId = capturingFor;
+    if (!documentId) return;
+    // Convert data URL to File
+    fetch(imageData)
+      .then(res => res.blob())
+      .then(blob => {
+        const file = new File([blob], `verification_${documentId}.jpg`, { type: 'image/jpeg' });
+        handleFileUpload(documentId, file);
       });
-    }
-  };
 
-  const retakePhoto = () => {
-    setCapturedImage(null);
+    toast({
+      title: 'Photo captured',
+      description: 'Your verification photo has been captured successfully.',
+    });
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -573,72 +522,12 @@ const Verification: React.FC = () => {
       </div>
 
       {/* Camera Modal */}
-      {showCamera && (
-        <div className="fixed inset-0 bg-black z-50 flex flex-col">
-          <div className="flex items-center justify-between p-4 bg-black text-white">
-            <h2 className="text-lg font-semibold">Take Verification Photo</h2>
-            <Button
-              onClick={stopCamera}
-              variant="ghost"
-              size="sm"
-              className="text-white hover:bg-white/20"
-            >
-              <X size={20} />
-            </Button>
-          </div>
-          
-          <div className="flex-1 relative">
-            {!capturedImage ? (
-              <>
-                <video
-                  id="camera-video"
-                  autoPlay
-                  playsInline
-                  muted
-                  className="w-full h-full object-cover"
-                  ref={(video) => {
-                    if (video && cameraStream) {
-                      video.srcObject = cameraStream;
-                    }
-                  }}
-                />
-                <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
-                  <Button
-                    onClick={capturePhoto}
-                    size="lg"
-                    className="w-16 h-16 rounded-full bg-white text-black hover:bg-gray-200"
-                  >
-                    <Camera size={24} />
-                  </Button>
-                </div>
-              </>
-            ) : (
-              <div className="w-full h-full flex flex-col">
-                <img
-                  src={capturedImage}
-                  alt="Captured verification photo"
-                  className="flex-1 object-contain bg-black"
-                />
-                <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 flex gap-4">
-                  <Button
-                    onClick={retakePhoto}
-                    variant="outline"
-                    className="bg-white text-black hover:bg-gray-200"
-                  >
-                    Retake
-                  </Button>
-                  <Button
-                    onClick={confirmCapture}
-                    className="bg-primary text-white"
-                  >
-                    Confirm
-                  </Button>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-      )}
+      <CameraCapture
+        open={capturingFor !== null}
+        title="Take Verification Photo"
+        onCapture={confirmCapture}
+        onClose={() => setCapturingFor(null)}
+      />
 
       <BottomNavigation />
     </div>
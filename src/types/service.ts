@@ -1,3 +1,19 @@
+export type ProvinceCode = 'EC' | 'FS' | 'GP' | 'KZN' | 'LP' | 'MP' | 'NC' | 'NW' | 'WC';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Structured form of the free-text `location` fields, resolved against the gazetteer
+export interface StructuredLocation {
+  province: ProvinceCode;
+  city: string;
+  suburb?: string;
+  lat?: number;
+  lng?: number;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -5,6 +21,7 @@ export interface User {
   role: 'customer' | 'provider';
   phone?: string;
   location?: string;
+  location_details?: StructuredLocation;
   avatar_url?: string;
   rating: number;
   is_verified: boolean;
@@ -13,6 +30,14 @@ export interface User {
   updated_at: string;
 }
 
+// Profile payload returned by /profile, which carries verification details
+export interface UserProfile extends User {
+  bio?: string;
+  verification_status?: 'pending' | 'approved' | 'rejected';
+  verification_submitted_at?: string;
+  verification_reviewed_at?: string;
+}
+
 export interface ServiceCategory {
   id: string;
   name: string;
@@ -31,6 +56,7 @@ export interface Service {
   category: ServiceCategory;
   provider: User;
   location: string;
+  location_details?: StructuredLocation;
   price: number;
   price_type: 'hourly' | 'fixed' | 'negotiable';
   images: string[];
@@ -41,6 +67,88 @@ export interface Service {
   updated_at: string;
 }
 
+export type RequestStatus =
+  | 'pending'
+  | 'quoted'
+  | 'accepted'
+  | 'declined'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'disputed';
+
+// One entry in a request's status timeline
+export interface RequestStatusChange {
+  from: RequestStatus | null;
+  to: RequestStatus;
+  changed_by: {
+    id: string;
+    name: string;
+    role: 'customer' | 'provider';
+  };
+  note?: string;
+  changed_at: string;
+}
+
+export type QuoteLineItemType = 'labour' | 'materials';
+
+export interface QuoteLineItem {
+  description: string;
+  type: QuoteLineItemType;
+  quantity: number;
+  unit_price: number;
+}
+
+export type QuoteStatus = 'pending' | 'accepted' | 'rejected' | 'countered' | 'superseded';
+
+export interface Quote {
+  id: string;
+  /** Quote this one counters, if any */
+  parent_id?: string;
+  author: {
+    id: string;
+    name: string;
+    role: 'customer' | 'provider';
+  };
+  line_items: QuoteLineItem[];
+  /** 0.15 for VAT-registered providers, 0 otherwise */
+  vat_rate: number;
+  labour_total: number;
+  materials_total: number;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  valid_until: string;
+  notes?: string;
+  status: QuoteStatus;
+  created_at: string;
+  responded_at?: string;
+}
+
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+export interface WorkingHours {
+  /** 0 = Sunday, as Date.getDay() */
+  day: number;
+  /** HH:MM in South African time */
+  start: string;
+  end: string;
+}
+
+export interface ProviderAvailability {
+  provider_id: string;
+  weekly_hours: WorkingHours[];
+  /** YYYY-MM-DD dates the provider is off */
+  blocked_dates: string[];
+  /** Slot length in minutes for services without their own */
+  slot_minutes: number;
+  service_slot_minutes: Record<string, number>;
+  updated_at: string;
+}
+
 export interface ServiceRequest {
   id: string;
   service: {
@@ -60,10 +168,21 @@ export interface ServiceRequest {
     id: string;
     name: string;
   };
-  status: 'pending' | 'accepted' | 'declined' | 'completed' | 'cancelled';
+  status: RequestStatus;
+  status_history?: RequestStatusChange[];
+  /** Offers and counter-offers, oldest first */
+  quotes?: Quote[];
+  /** Total of the accepted quote */
+  agreed_price?: number;
   message?: string;
+  /** Where the job takes place */
+  location?: string;
   requested_date?: string;
   estimated_duration?: number;
+  /** Booked time slot; blocks the provider's calendar once accepted */
+  scheduled_slot?: TimeSlot;
+  /** Client-generated key that makes resending the request safe */
+  client_reference?: string;
   created_at: string;
   updated_at: string;
 }
@@ -85,17 +204,232 @@ export interface Feedback {
   created_at: string;
 }
 
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+}
+
+export interface RequestMessage {
+  id: string;
+  request_id: string;
+  sender: {
+    id: string;
+    name: string;
+    role: 'customer' | 'provider';
+  };
+  body: string;
+  attachments: MessageAttachment[];
+  created_at: string;
+  /** When the other party first saw the message */
+  read_at?: string;
+}
+
+export type NotificationType =
+  | 'request'
+  | 'acceptance'
+  | 'decline'
+  | 'completion'
+  | 'feedback'
+  | 'message'
+  | 'system'
+  | 'digest';
+
+export type NotificationChannel = 'in_app' | 'push' | 'email' | 'sms';
+
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'request' | 'acceptance' | 'decline' | 'completion' | 'feedback' | 'system';
+  type: NotificationType;
   title: string;
   message: string;
   data?: any;
   is_read: boolean;
+  /** Channels it was sent through, as allowed by the user's preferences */
+  channels?: NotificationChannel[];
+  /** Held for the daily digest and hidden until then */
+  held_until?: string;
+  created_at: string;
+}
+
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  user_agent?: string;
+  created_at: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** HH:MM in South African time; may run past midnight */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  channels: Record<NotificationType, Record<NotificationChannel, boolean>>;
+  quiet_hours: QuietHours;
+  digest: {
+    enabled: boolean;
+    /** HH:MM in South African time */
+    time: string;
+  };
+  updated_at: string;
+}
+
+export type TransactionType = 'income' | 'expense';
+
+export type TransactionStatus = 'pending' | 'paid' | 'overdue';
+
+/** Bookkeeping ledger entry */
+export interface Transaction {
+  id: string;
+  user_id: string;
+  type: TransactionType;
+  category: string;
+  description: string;
+  amount: number;
+  /** YYYY-MM-DD */
+  date: string;
+  client?: string;
+  status: TransactionStatus;
+  /** Service request this entry was recorded from */
+  request_id?: string;
+  /** Customer on that request */
+  customer_id?: string;
+  /** Invoice this entry is a payment against */
+  invoice_id?: string;
+  /** Receipts for an expense; the files themselves are kept on the device */
+  receipt_ids?: string[];
+  /** Bank statement line this entry was imported from */
+  bank_ref?: string;
+  /** VAT included in the amount, for a VAT vendor's return */
+  vat_amount?: number;
+  /** Made offline and still waiting in the outbox */
+  pending_sync?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Photo or PDF of a receipt, kept on the device as proof of an expense */
+export interface Receipt {
+  id: string;
+  user_id: string;
+  filename: string;
+  /** image/jpeg or application/pdf */
+  content_type: string;
+  /** Bytes */
+  size: number;
+  data_url: string;
   created_at: string;
 }
 
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue';
+
+export type PaymentMethod = 'eft' | 'cash' | 'card' | 'other';
+
+/** Money received against an invoice */
+export interface InvoicePayment {
+  id: string;
+  amount: number;
+  /** YYYY-MM-DD */
+  date: string;
+  method: PaymentMethod;
+  reference?: string;
+  created_at: string;
+}
+
+export interface InvoiceReminder {
+  /** Days from the due date the reminder rule is for; negative is before */
+  days: number;
+  sent_at: string;
+}
+
+export interface InvoiceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  user_id: string;
+  /** Sequential invoice number, e.g. INV-0007; blank until an offline invoice syncs */
+  number: string;
+  client_name: string;
+  /** May be blank on drafts raised from a request, which only know the customer's name */
+  client_email: string;
+  client_address?: string;
+  /** Recipient's VAT number, needed on full tax invoices */
+  client_vat_number?: string;
+  /** Total of the line items, before VAT */
+  subtotal: number;
+  /** 0.15 when VAT is charged, 0 otherwise */
+  vat_rate: number;
+  vat_amount: number;
+  /** Total due, including VAT */
+  amount: number;
+  /** YYYY-MM-DD */
+  due_date: string;
+  status: InvoiceStatus;
+  /** Line rates exclude VAT */
+  items: InvoiceItem[];
+  payments?: InvoicePayment[];
+  /** When it was last emailed to the client, and to where */
+  sent_at?: string;
+  sent_to?: string;
+  reminders_sent?: InvoiceReminder[];
+  /** Service request this invoice was raised from */
+  request_id?: string;
+  /** Customer on that request */
+  customer_id?: string;
+  /** Made offline and still waiting in the outbox */
+  pending_sync?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** SARS two-monthly VAT periods: A ends in odd months, B in even ones */
+export type VatCategory = 'A' | 'B';
+
+/** Supplier details printed on a provider's invoices */
+export interface BusinessProfile {
+  user_id: string;
+  business_name: string;
+  address: string;
+  email?: string;
+  phone?: string;
+  /** Set once the business is registered for VAT; invoices then become tax invoices */
+  vat_number?: string;
+  /** Tax periods SARS assigned at VAT registration */
+  vat_category?: VatCategory;
+  /** CIPC company registration number */
+  registration_number?: string;
+  /** Bank name, account and branch code, printed as payment details */
+  bank_details?: string;
+  /** JPEG data URL */
+  logo_data_url?: string;
+  /** Put before the sequence number, e.g. INV- */
+  invoice_prefix: string;
+  /** Sequence number of the last invoice issued */
+  last_invoice_number: number;
+  /** Days from the due date to email unpaid clients a reminder; negative is before */
+  reminder_days: number[];
+  /** Month the financial year starts in, 1 for January; reports assume March when unset */
+  financial_year_start?: number;
+  updated_at: string;
+}
+
 // Legacy interfaces for backward compatibility during migration
 export interface LegacyService {
   id: string;
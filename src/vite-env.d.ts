@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Public key for Web Push; without it push runs through the local stand-in sender */
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
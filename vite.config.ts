@@ -1,15 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
+import fs from "fs";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+/**
+ * Writes the build's hashed bundles into the service worker's precache list,
+ * so the app opens offline from the very first visit
+ */
+const serviceWorkerPrecache = (): Plugin => {
+  let outDir = "dist";
+  let base = "/";
+  const files: string[] = [];
+
+  return {
+    name: "service-worker-precache",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      files.push(...Object.keys(bundle).filter(file => !file.endsWith(".html") && !file.endsWith(".map")));
+    },
+    closeBundle() {
+      const swPath = path.join(outDir, "sw.js");
+      if (!fs.existsSync(swPath)) return;
+      const urls = files.map(file => `${base}${file}`).sort();
+      const source = fs.readFileSync(swPath, "utf8");
+      fs.writeFileSync(swPath, source.replace("const BUILD_ASSETS = [];", `const BUILD_ASSETS = ${JSON.stringify(urls)};`));
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorkerPrecache()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),